@@ -1,6 +1,10 @@
 import express from 'express';
 import cors from 'cors';
-import { OpenAIService } from './services/openai.js';
+import { RewriterService } from './services/rewriter.js';
+import { AnthropicProvider, FakeLLMProvider, isLLMProviderName, OpenAIProvider } from './services/llm-provider.js';
+import { createFakeLLMHandlers, loadFakeLLMFixtures } from './services/fake-llm.js';
+import { loadPromptRegistry } from './services/prompt-templates.js';
+import type { LLMProvider, LLMProviderName } from './services/llm-provider.js';
 import { rewriteRouter } from './routes/rewrite.js';
 import { schemaRouter } from './routes/schema.js';
 
@@ -29,20 +33,46 @@ app.get('/health', (req, res) => {
 });
 
 // Initialize services (local mode - no Secret Manager or Firestore)
-let openAIService: OpenAIService | null = null;
+let rewriterService: RewriterService | null = null;
 
 async function initializeServices() {
   try {
     console.log('Initializing services (LOCAL MODE)...');
 
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error('OPENAI_API_KEY environment variable is required');
+    const defaultProvider = process.env.LLM_PROVIDER || 'openai';
+    if (!isLLMProviderName(defaultProvider)) {
+      throw new Error(`Invalid LLM_PROVIDER: ${defaultProvider}`);
     }
 
-    // Initialize OpenAI service
-    openAIService = new OpenAIService(apiKey);
-    console.log('✓ OpenAI service initialized');
+    const providers: Partial<Record<LLMProviderName, LLMProvider>> = {};
+    if (process.env.OPENAI_API_KEY) {
+      providers.openai = new OpenAIProvider(process.env.OPENAI_API_KEY, process.env.OPENAI_MODEL || undefined);
+    }
+    if (process.env.ANTHROPIC_API_KEY) {
+      providers.anthropic = new AnthropicProvider(process.env.ANTHROPIC_API_KEY, process.env.ANTHROPIC_MODEL || undefined);
+    }
+
+    // The fake provider needs no API key, so it is always available locally
+    const fixturesPath = process.env.LLM_FAKE_FIXTURES;
+    providers.fake = new FakeLLMProvider(
+      createFakeLLMHandlers(fixturesPath ? loadFakeLLMFixtures(fixturesPath) : {})
+    );
+
+    if (!providers[defaultProvider]) {
+      throw new Error(
+        `${defaultProvider === 'anthropic' ? 'ANTHROPIC_API_KEY' : 'OPENAI_API_KEY'} environment variable is required`
+      );
+    }
+
+    // Initialize rewriter service
+    // Per-client prompt profiles are optional; the built-in prompts are always available
+    const promptProfilesPath = process.env.PROMPT_PROFILES_PATH;
+    rewriterService = new RewriterService(
+      providers,
+      defaultProvider,
+      promptProfilesPath ? loadPromptRegistry(promptProfilesPath) : undefined
+    );
+    console.log(`✓ Rewriter service initialized (providers: ${rewriterService.getAvailableProviders().join(', ')})`);
 
     // Mock Firestore service for local testing
     const mockFirestoreService = {
@@ -67,7 +97,7 @@ async function initializeServices() {
     };
 
     // Attach services to app locals
-    app.locals.openAIService = openAIService;
+    app.locals.rewriterService = rewriterService;
     app.locals.firestoreService = mockFirestoreService;
 
     console.log('All services initialized successfully (LOCAL MODE)');
@@ -2,7 +2,11 @@ import 'dotenv/config';
 import express from 'express';
 import cors from 'cors';
 import { SecretManagerService } from './services/secretManager.js';
-import { OpenAIService } from './services/openai.js';
+import { RewriterService } from './services/rewriter.js';
+import { AnthropicProvider, FakeLLMProvider, isLLMProviderName, OpenAIProvider } from './services/llm-provider.js';
+import { createFakeLLMHandlers, loadFakeLLMFixtures } from './services/fake-llm.js';
+import { loadPromptRegistry } from './services/prompt-templates.js';
+import type { LLMProvider, LLMProviderName } from './services/llm-provider.js';
 import { FirestoreService } from './services/firestore.js';
 import { rewriteRouter } from './routes/rewrite.js';
 import { schemaRouter } from './routes/schema.js';
@@ -38,29 +42,64 @@ app.get('/health', (req, res) => {
 });
 
 // Initialize services
-let openAIService: OpenAIService | null = null;
+let rewriterService: RewriterService | null = null;
 let firestoreService: FirestoreService | null = null;
 
 async function initializeServices() {
   try {
     console.log('Initializing services...');
 
-    // Get OpenAI API key from environment variable (for local) or Secret Manager (for production)
-    let apiKey = process.env.OPENAI_API_KEY;
+    const defaultProvider = process.env.LLM_PROVIDER || 'openai';
+    if (!isLLMProviderName(defaultProvider)) {
+      throw new Error(`Invalid LLM_PROVIDER: ${defaultProvider}`);
+    }
+
+    const secretManager = new SecretManagerService(GCP_PROJECT_ID);
+    const providers: Partial<Record<LLMProviderName, LLMProvider>> = {};
 
-    if (!apiKey) {
+    // Get API keys from environment variables (for local) or Secret Manager (for production).
+    // The default provider is required; the other one is optional
+    let openAIApiKey = process.env.OPENAI_API_KEY;
+    if (!openAIApiKey && (defaultProvider === 'openai' || process.env.OPENAI_API_KEY_SECRET)) {
       console.log('OPENAI_API_KEY not found in environment, trying Secret Manager...');
-      const secretManager = new SecretManagerService(GCP_PROJECT_ID);
-      apiKey = await secretManager.getOpenAIApiKey(
+      openAIApiKey = await secretManager.getOpenAIApiKey(
         process.env.OPENAI_API_KEY_SECRET || 'openai-api-key'
       );
-    } else {
-      console.log('Using OPENAI_API_KEY from environment variable');
+    }
+    if (openAIApiKey) {
+      providers.openai = new OpenAIProvider(openAIApiKey, process.env.OPENAI_MODEL || undefined);
+      console.log('✓ OpenAI provider initialized');
+    }
+
+    let anthropicApiKey = process.env.ANTHROPIC_API_KEY;
+    if (!anthropicApiKey && (defaultProvider === 'anthropic' || process.env.ANTHROPIC_API_KEY_SECRET)) {
+      console.log('ANTHROPIC_API_KEY not found in environment, trying Secret Manager...');
+      anthropicApiKey = await secretManager.getAnthropicApiKey(
+        process.env.ANTHROPIC_API_KEY_SECRET || 'anthropic-api-key'
+      );
+    }
+    if (anthropicApiKey) {
+      providers.anthropic = new AnthropicProvider(anthropicApiKey, process.env.ANTHROPIC_MODEL || undefined);
+      console.log('✓ Anthropic provider initialized');
+    }
+
+    if (defaultProvider === 'fake') {
+      const fixturesPath = process.env.LLM_FAKE_FIXTURES;
+      providers.fake = new FakeLLMProvider(
+        createFakeLLMHandlers(fixturesPath ? loadFakeLLMFixtures(fixturesPath) : {})
+      );
+      console.log('✓ Fake provider initialized (deterministic, offline)');
     }
 
-    // Initialize OpenAI service
-    openAIService = new OpenAIService(apiKey);
-    console.log('✓ OpenAI service initialized');
+    // Initialize rewriter service
+    // Per-client prompt profiles are optional; the built-in prompts are always available
+    const promptProfilesPath = process.env.PROMPT_PROFILES_PATH;
+    rewriterService = new RewriterService(
+      providers,
+      defaultProvider,
+      promptProfilesPath ? loadPromptRegistry(promptProfilesPath) : undefined
+    );
+    console.log(`✓ Rewriter service initialized (default provider: ${defaultProvider})`);
 
     // Initialize Firestore service
     firestoreService = new FirestoreService({
@@ -72,7 +111,7 @@ async function initializeServices() {
     console.log('✓ Firestore service initialized');
 
     // Attach services to app locals
-    app.locals.openAIService = openAIService;
+    app.locals.rewriterService = rewriterService;
     app.locals.firestoreService = firestoreService;
 
     console.log('All services initialized successfully');
@@ -1,19 +1,22 @@
 import express from 'express';
-import type { OpenAIService } from '../services/openai.js';
+import type { RewriterService } from '../services/rewriter.js';
 import type { FirestoreService } from '../services/firestore.js';
+import { detectLanguage, isOutputLanguage, OUTPUT_LANGUAGES } from '../services/prompt-templates.js';
 
 export const rewriteRouter = express.Router();
 
 /**
  * POST /api/rewrite
- * Rewrite a single cell value using OpenAI
+ * Rewrite a single cell value using the selected LLM provider (default: LLM_PROVIDER),
+ * prompt profile (default: the built-in prompts) and prompt language (default: the
+ * language detected from the original text)
  */
 rewriteRouter.post('/', async (req, res, next) => {
   try {
-    const openAIService = req.app.locals.openAIService as OpenAIService;
+    const rewriterService = req.app.locals.rewriterService as RewriterService;
     const firestoreService = req.app.locals.firestoreService as FirestoreService;
 
-    if (!openAIService || !firestoreService) {
+    if (!rewriterService || !firestoreService) {
       return res.status(503).json({
         success: false,
         error: {
@@ -24,7 +27,8 @@ rewriteRouter.post('/', async (req, res, next) => {
     }
 
     // Validate request body
-    const { userId, original, instruction, context } = req.body;
+    const { userId, original, instruction, context, provider, promptProfile } = req.body;
+    const language = req.body.language || undefined;
 
     if (!userId || typeof userId !== 'string') {
       return res.status(400).json({
@@ -66,6 +70,22 @@ rewriteRouter.post('/', async (req, res, next) => {
       });
     }
 
+    if (language !== undefined && !isOutputLanguage(language)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          message: `language must be one of: ${OUTPUT_LANGUAGES.join(', ')}`,
+          code: 'INVALID_LANGUAGE',
+        },
+      });
+    }
+
+    // Resolve provider (throws 400 INVALID_PROVIDER if not configured)
+    const llmProvider = rewriterService.getProvider(provider);
+
+    // Resolve prompt profile (throws 400 INVALID_PROMPT_PROFILE) and the cell's language
+    const prompts = rewriterService.getPromptUsage(promptProfile, language ?? detectLanguage(original));
+
     // Check usage limit
     const usageCheck = await firestoreService.checkUsageLimit(userId);
 
@@ -83,11 +103,18 @@ rewriteRouter.post('/', async (req, res, next) => {
 
     // Perform rewrite
     const startTime = Date.now();
-    const rewritten = await openAIService.rewriteCell(original, instruction, {
-      columnName: context.columnName,
-      rowIndex: context.rowIndex || 0,
-      allHeaders: context.allHeaders,
-    });
+    const rewritten = await rewriterService.rewriteCell(
+      original,
+      instruction,
+      {
+        columnName: context.columnName,
+        rowIndex: context.rowIndex || 0,
+        allHeaders: context.allHeaders,
+      },
+      llmProvider.name,
+      prompts.profile,
+      prompts.language
+    );
     const duration = Date.now() - startTime;
 
     // Estimate tokens used (rough estimate: ~4 chars = 1 token)
@@ -106,6 +133,9 @@ rewriteRouter.post('/', async (req, res, next) => {
         cellRange: context.cellRange,
         columnName: context.columnName,
         rowIndex: context.rowIndex,
+        provider: llmProvider.name,
+        promptProfile: prompts.profile,
+        language: prompts.language,
         duration,
       },
     });
@@ -117,8 +147,11 @@ rewriteRouter.post('/', async (req, res, next) => {
         original,
         rewritten,
         metadata: {
+          provider: llmProvider.name,
+          model: llmProvider.model,
           duration,
           tokensUsed: estimatedTokens,
+          prompts,
           remaining: usageCheck.remaining - 1,
           resetAt: usageCheck.resetAt.toISOString(),
         },
@@ -132,24 +165,28 @@ rewriteRouter.post('/', async (req, res, next) => {
 
 /**
  * POST /api/rewrite/batch
- * Rewrite multiple rows in batch using OpenAI
+ * Rewrite multiple rows in batch using the selected LLM provider (default: LLM_PROVIDER)
+ * and prompt profile (default: the built-in prompts). Each row is rewritten with prompts in
+ * its `language`, or the language detected from its data, falling back to `language`
+ * (the sheet's language, default: ja)
  */
 rewriteRouter.post('/batch', async (req, res, next) => {
   try {
-    const openAIService = req.app.locals.openAIService as OpenAIService;
+    const rewriterService = req.app.locals.rewriterService as RewriterService;
 
-    if (!openAIService) {
+    if (!rewriterService) {
       return res.status(503).json({
         success: false,
         error: {
-          message: 'OpenAI service not initialized',
+          message: 'Rewriter service not initialized',
           code: 'SERVICE_UNAVAILABLE',
         },
       });
     }
 
     // Validate request body
-    const { batch, headers } = req.body;
+    const { batch, headers, provider, columns, promptProfile } = req.body;
+    const language = req.body.language || undefined;
 
     console.log('📥 Batch rewrite request:', {
       batchSize: batch?.length,
@@ -177,9 +214,49 @@ rewriteRouter.post('/batch', async (req, res, next) => {
       });
     }
 
+    if (
+      (language !== undefined && !isOutputLanguage(language)) ||
+      !batch.every((b: any) => !b.language || isOutputLanguage(b.language))
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          message: `language must be one of: ${OUTPUT_LANGUAGES.join(', ')}`,
+          code: 'INVALID_LANGUAGE',
+        },
+      });
+    }
+
+    // Column descriptions are optional (sheets written before column schemas have none)
+    if (
+      columns !== undefined &&
+      (!Array.isArray(columns) || !columns.every((c: any) => c && typeof c.name === 'string'))
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          message: 'columns must be an array of { name, description } objects',
+          code: 'INVALID_COLUMNS',
+        },
+      });
+    }
+
+    // Resolve provider (throws 400 INVALID_PROVIDER if not configured)
+    const llmProvider = rewriterService.getProvider(provider);
+
+    // Resolve prompt profile (throws 400 INVALID_PROMPT_PROFILE) and the sheet's language
+    const prompts = rewriterService.getPromptUsage(promptProfile, language);
+
     // Perform batch rewrite
     const startTime = Date.now();
-    const rows = await openAIService.rewriteBatch(batch, headers);
+    const rows = await rewriterService.rewriteBatch(
+      batch,
+      headers,
+      llmProvider.name,
+      columns,
+      prompts.profile,
+      prompts.language
+    );
     const duration = Date.now() - startTime;
 
     console.log('📤 Batch rewrite response:', {
@@ -199,9 +276,12 @@ rewriteRouter.post('/batch', async (req, res, next) => {
       data: {
         rows,
         metadata: {
+          provider: llmProvider.name,
+          model: llmProvider.model,
           duration,
           tokensUsed: estimatedTokens,
           batchSize: batch.length,
+          prompts,
         },
       },
     });
@@ -1,5 +1,5 @@
 import express from 'express';
-import type { OpenAIService } from '../services/openai.js';
+import type { RewriterService } from '../services/rewriter.js';
 import type { FirestoreService } from '../services/firestore.js';
 
 export const schemaRouter = express.Router();
@@ -10,10 +10,10 @@ export const schemaRouter = express.Router();
  */
 schemaRouter.post('/generate', async (req, res, next) => {
   try {
-    const openAIService = req.app.locals.openAIService as OpenAIService;
+    const rewriterService = req.app.locals.rewriterService as RewriterService;
     const firestoreService = req.app.locals.firestoreService as FirestoreService;
 
-    if (!openAIService || !firestoreService) {
+    if (!rewriterService || !firestoreService) {
       return res.status(503).json({
         success: false,
         error: {
@@ -73,7 +73,7 @@ schemaRouter.post('/generate', async (req, res, next) => {
 
     // Generate schema
     const startTime = Date.now();
-    const schema = await openAIService.generateSchema(headers);
+    const schema = await rewriterService.generateSchema(headers);
     const duration = Date.now() - startTime;
 
     // Estimate tokens used
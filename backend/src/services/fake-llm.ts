@@ -0,0 +1,116 @@
+import { readFileSync } from 'fs';
+import type { FakeLLMHandlers, JsonSchemaFormat } from './llm-provider.js';
+import { PROMPT_LABELS } from './prompt-templates.js';
+
+/**
+ * Fixture file for the fake provider (LLM_FAKE_FIXTURES)
+ * `rewrites` maps an original cell value to its rewritten value
+ */
+export interface FakeLLMFixtures {
+  rewrites?: Record<string, string>;
+}
+
+export function loadFakeLLMFixtures(filePath: string): FakeLLMFixtures {
+  try {
+    return JSON.parse(readFileSync(filePath, 'utf8'));
+  } catch (error: any) {
+    throw new Error(`Failed to load fake LLM fixtures from ${filePath}: ${error.message}`);
+  }
+}
+
+/**
+ * Deterministic handlers for FakeLLMProvider
+ *
+ * Reads the originals and instructions back out of the rewriter prompts (in any language)
+ * and returns the fixture rewrite, or "<original>（<instruction>を反映）".
+ * The same input always gives the same output, without network access.
+ */
+export function createFakeLLMHandlers(fixtures: FakeLLMFixtures = {}): FakeLLMHandlers {
+  const rewrite = (original: string, instruction: string) =>
+    fixtures.rewrites?.[original] ?? (original ? `${original}（${instruction}を反映）` : original);
+
+  return {
+    text: (userPrompt) => {
+      const match = userPrompt.match(
+        /(?:元のテキスト|Original text|原文): ([\s\S]*?)\n\n# (?:書き換え指示|Rewrite Instruction|改写指示)\n([\s\S]*?)\n\n# (?:全体のコンテキスト|Overall Context|整体上下文)/
+      );
+      if (!match) {
+        throw new Error('FakeLLMProvider could not read the rewrite prompt');
+      }
+      return rewrite(match[1], match[2].trim());
+    },
+    json: (userPrompt, format) => {
+      const headers = getRowHeaders(format);
+      const rows = parseBatchRows(userPrompt, headers);
+
+      return {
+        rows: rows.map((row) => {
+          const rewritten: Record<string, any> = { row_index: row.rowIndex };
+          headers.forEach((header) => {
+            rewritten[header] = rewrite(row.data[header] ?? '', row.comment);
+          });
+          return rewritten;
+        }),
+      };
+    },
+  };
+}
+
+/**
+ * Column names of the batch schema (everything except row_index)
+ */
+function getRowHeaders(format: JsonSchemaFormat): string[] {
+  const properties = format.schema?.properties?.rows?.items?.properties || {};
+  return Object.keys(properties).filter((key) => key !== 'row_index');
+}
+
+/**
+ * Row section labels of every prompt language, and the "## 行 N" heading they start with
+ */
+const labels = Object.values(PROMPT_LABELS);
+const ROW_HEADING = new RegExp(
+  `^(?:${labels.map((label) => label.row.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})(\\d+)$`,
+  'm'
+);
+
+/**
+ * Parse the "## 行 N" blocks of a batch rewrite prompt
+ */
+function parseBatchRows(
+  userPrompt: string,
+  headers: string[]
+): Array<{ rowIndex: number; comment: string; data: Record<string, string> }> {
+  const body = userPrompt.split(/\n(?:上記の各行について|Rewrite each row above|请按照备注中的指示改写上述各行)/)[0];
+  const blocks = body.split(ROW_HEADING).slice(1);
+  const rows: Array<{ rowIndex: number; comment: string; data: Record<string, string> }> = [];
+
+  for (let i = 0; i < blocks.length; i += 2) {
+    const lines = blocks[i + 1].split('\n');
+    const commentLabel = labels.find((label) => lines.some((line) => line.startsWith(label.comment)));
+    const comment = commentLabel
+      ? lines.find((line) => line.startsWith(commentLabel.comment))!.slice(commentLabel.comment.length)
+      : '';
+    const data: Record<string, string> = {};
+    let current: string | null = null;
+
+    const dataIndex = lines.findIndex((line) => labels.some((label) => line === label.data));
+    for (const line of lines.slice(dataIndex + 1)) {
+      const header = headers.find((h) => line.startsWith(`  - ${h}: `));
+      if (header) {
+        current = header;
+        data[header] = line.slice(`  - ${header}: `.length);
+      } else if (current) {
+        // Multi-line cell values continue until the next field
+        data[current] += `\n${line}`;
+      }
+    }
+
+    Object.keys(data).forEach((key) => {
+      data[key] = data[key].replace(/\n+$/, '');
+    });
+
+    rows.push({ rowIndex: parseInt(blocks[i], 10) - 1, comment, data });
+  }
+
+  return rows;
+}
@@ -0,0 +1,273 @@
+import { createFakeLLMHandlers } from './fake-llm.js';
+
+/**
+ * LLM providers the rewriter can run on ('fake' is deterministic and offline)
+ */
+export type LLMProviderName = 'openai' | 'anthropic' | 'fake';
+
+export const LLM_PROVIDER_NAMES: LLMProviderName[] = ['openai', 'anthropic', 'fake'];
+
+/**
+ * JSON Schema for structured output
+ */
+export interface JsonSchemaFormat {
+  name: string;
+  schema: Record<string, any>;
+}
+
+/**
+ * Vendor-neutral interface for structured JSON generation and text rewriting
+ */
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  generateJson(systemPrompt: string, userPrompt: string, format: JsonSchemaFormat): Promise<any>;
+  rewriteText(systemPrompt: string, userPrompt: string): Promise<string>;
+}
+
+export function isLLMProviderName(value: unknown): value is LLMProviderName {
+  return typeof value === 'string' && (LLM_PROVIDER_NAMES as string[]).includes(value);
+}
+
+/**
+ * OpenAI provider using the Responses API
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai';
+  readonly model: string;
+  private apiKey: string;
+
+  constructor(apiKey: string, model: string = 'gpt-5-mini') {
+    this.apiKey = apiKey;
+    this.model = model;
+  }
+
+  /**
+   * Generate JSON with JSON Schema structured output (text.format)
+   */
+  async generateJson(systemPrompt: string, userPrompt: string, format: JsonSchemaFormat): Promise<any> {
+    const text = await this.request(systemPrompt, userPrompt, {
+      format: {
+        type: 'json_schema',
+        name: format.name,
+        schema: format.schema,
+        strict: true,
+      },
+    });
+
+    return JSON.parse(text);
+  }
+
+  /**
+   * Generate plain text
+   */
+  async rewriteText(systemPrompt: string, userPrompt: string): Promise<string> {
+    return (await this.request(systemPrompt, userPrompt)).trim();
+  }
+
+  private async request(systemPrompt: string, userPrompt: string, text?: Record<string, any>): Promise<string> {
+    // Responses API形式
+    const payload = {
+      model: this.model,
+      reasoning: {
+        effort: 'low', // GPT-5の推論時間を短縮
+      },
+      ...(text && { text }),
+      input: [
+        {
+          role: 'system',
+          content: [
+            {
+              type: 'input_text',
+              text: systemPrompt,
+            },
+          ],
+        },
+        {
+          role: 'user',
+          content: [
+            {
+              type: 'input_text',
+              text: userPrompt,
+            },
+          ],
+        },
+      ],
+    };
+
+    const response = await fetch('https://api.openai.com/v1/responses', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.apiKey}`,
+      },
+      body: JSON.stringify(payload),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`OpenAI API Error (${response.status}): ${errorText}`);
+    }
+
+    const result: any = await response.json();
+
+    // Responses API: output配列から type="message" を探す
+    if (result.output && Array.isArray(result.output)) {
+      const messageOutput = result.output.find((o: any) => o.type === 'message');
+
+      if (messageOutput && messageOutput.content && messageOutput.content[0]) {
+        const content = messageOutput.content[0];
+
+        if (content.type === 'output_text' && content.text) {
+          return content.text;
+        }
+      }
+    }
+
+    throw new Error('OpenAI returned empty or invalid response structure');
+  }
+}
+
+/**
+ * Anthropic provider using the Messages API
+ *
+ * Structured output is requested as a forced tool call whose input schema is
+ * the JSON Schema, so the tool input is the generated JSON.
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic';
+  readonly model: string;
+  private apiKey: string;
+  private maxTokens: number;
+
+  constructor(apiKey: string, model: string = 'claude-sonnet-4-20250514', maxTokens: number = 8192) {
+    this.apiKey = apiKey;
+    this.model = model;
+    this.maxTokens = maxTokens;
+  }
+
+  /**
+   * Generate JSON via a forced tool call
+   */
+  async generateJson(systemPrompt: string, userPrompt: string, format: JsonSchemaFormat): Promise<any> {
+    const result = await this.request({
+      system: systemPrompt,
+      messages: [{ role: 'user', content: userPrompt }],
+      tools: [
+        {
+          name: format.name,
+          description: 'Return the result in the given JSON Schema',
+          input_schema: format.schema,
+        },
+      ],
+      tool_choice: { type: 'tool', name: format.name },
+    });
+
+    const toolUse = result.content?.find((c: any) => c.type === 'tool_use');
+    if (!toolUse || !toolUse.input) {
+      throw new Error('Anthropic returned no structured output');
+    }
+
+    return toolUse.input;
+  }
+
+  /**
+   * Generate plain text
+   */
+  async rewriteText(systemPrompt: string, userPrompt: string): Promise<string> {
+    const result = await this.request({
+      system: systemPrompt,
+      messages: [{ role: 'user', content: userPrompt }],
+    });
+
+    const text = (result.content || [])
+      .filter((c: any) => c.type === 'text')
+      .map((c: any) => c.text)
+      .join('')
+      .trim();
+
+    if (!text) {
+      throw new Error('Anthropic returned empty or invalid response structure');
+    }
+
+    return text;
+  }
+
+  private async request(body: Record<string, any>): Promise<any> {
+    const response = await fetch('https://api.anthropic.com/v1/messages', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': '2023-06-01',
+      },
+      body: JSON.stringify({
+        model: this.model,
+        max_tokens: this.maxTokens,
+        ...body,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Anthropic API Error (${response.status}): ${errorText}`);
+    }
+
+    return response.json();
+  }
+}
+
+export interface FakeLLMHandlers {
+  json?: (userPrompt: string, format: JsonSchemaFormat) => any;
+  text?: (userPrompt: string) => string;
+}
+
+/**
+ * Number of recent calls a FakeLLMProvider keeps in `calls`
+ */
+const MAX_RECORDED_CALLS = 100;
+
+/**
+ * Offline provider for tests and local runs
+ *
+ * Responses come from the given handlers (default: deterministic rewrites
+ * from fake-llm.ts); the most recent calls are recorded in `calls`, so a
+ * long-running server does not keep every prompt.
+ */
+export class FakeLLMProvider implements LLMProvider {
+  readonly name = 'fake';
+  readonly model = 'fake';
+  readonly calls: Array<{ method: 'generateJson' | 'rewriteText'; systemPrompt: string; userPrompt: string }> = [];
+  private handlers: FakeLLMHandlers;
+
+  constructor(handlers: FakeLLMHandlers = createFakeLLMHandlers()) {
+    this.handlers = handlers;
+  }
+
+  async generateJson(systemPrompt: string, userPrompt: string, format: JsonSchemaFormat): Promise<any> {
+    this.record({ method: 'generateJson', systemPrompt, userPrompt });
+    if (!this.handlers.json) {
+      throw new Error('FakeLLMProvider has no JSON handler');
+    }
+    return this.handlers.json(userPrompt, format);
+  }
+
+  async rewriteText(systemPrompt: string, userPrompt: string): Promise<string> {
+    this.record({ method: 'rewriteText', systemPrompt, userPrompt });
+    if (!this.handlers.text) {
+      throw new Error('FakeLLMProvider has no text handler');
+    }
+    return this.handlers.text(userPrompt);
+  }
+
+  /**
+   * Records a call, dropping the oldest beyond MAX_RECORDED_CALLS
+   * @private
+   */
+  private record(call: FakeLLMProvider['calls'][number]): void {
+    this.calls.push(call);
+    if (this.calls.length > MAX_RECORDED_CALLS) {
+      this.calls.splice(0, this.calls.length - MAX_RECORDED_CALLS);
+    }
+  }
+}
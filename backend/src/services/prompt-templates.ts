@@ -0,0 +1,519 @@
+import { readFileSync } from 'fs';
+
+/**
+ * Ids of the rewriter prompt templates
+ */
+export type PromptTemplateId =
+  | 'rewrite.cell.system'
+  | 'rewrite.cell.user'
+  | 'rewrite.batch.system'
+  | 'rewrite.batch.user';
+
+/**
+ * Languages the prompts are written in (the language the sheet was generated in)
+ */
+export type OutputLanguage = 'ja' | 'en' | 'zh';
+
+export const OUTPUT_LANGUAGES: OutputLanguage[] = ['ja', 'en', 'zh'];
+
+export const DEFAULT_OUTPUT_LANGUAGE: OutputLanguage = 'ja';
+
+/**
+ * A versioned prompt template with `{{variable}}` placeholders
+ */
+export interface PromptTemplate {
+  version: string;
+  template: string;
+}
+
+type PromptTemplates = Partial<Record<PromptTemplateId, PromptTemplate>>;
+
+/**
+ * Per-client overrides of the built-in templates
+ * `templates` apply to every language and `languages` to one language, taking precedence.
+ * `variables` fills extra placeholders of the overrides (e.g. an industry-specific `{{tone}}`)
+ */
+export interface PromptProfile {
+  templates: PromptTemplates;
+  languages?: Partial<Record<OutputLanguage, PromptTemplates>>;
+  variables?: Record<string, string>;
+}
+
+export const DEFAULT_PROMPT_PROFILE = 'default';
+
+/**
+ * Variables the rewriter passes to each template
+ */
+const TEMPLATE_VARIABLES: Record<PromptTemplateId, string[]> = {
+  'rewrite.cell.system': [],
+  'rewrite.cell.user': ['columnName', 'rowNumber', 'original', 'instruction', 'headers'],
+  'rewrite.batch.system': [],
+  'rewrite.batch.user': ['columnDescriptions', 'rows', 'schema'],
+};
+
+/**
+ * Built-in templates by language
+ * The fake provider reads the cell and row sections back, so overrides should keep them.
+ */
+export const DEFAULT_PROMPT_TEMPLATES: Record<OutputLanguage, Record<PromptTemplateId, PromptTemplate>> = {
+  ja: {
+    'rewrite.cell.system': {
+      version: '2',
+      template: `あなたはエンタープライズ向けビジネス文書のリライト専門家です。
+スプレッドシートのセル値を、ユーザーの指示に従って書き換えてください。
+
+## リライトの原則
+
+### 1. 指示を最優先
+- 指示された改善点は、大胆に反映する
+- 「もっと○○」という指示は、明確に変化が分かるレベルで対応
+- 曖昧な表現は具体的に、冗長な部分は簡潔に
+
+### 2. 品質向上の具体例
+- 「初心者にもわかる言葉づかい」→ 専門用語を平易な言葉に置き換え、補足説明を追加
+- 「具体例がもっと欲しい」→ 数値例、判断基準、シナリオなどを明示的に追加
+- 「簡潔に」→ 冗長な修飾語を削除し、要点を明確化
+
+### 3. 文体の統一
+- 元のテキストと同じ言語で書く（英語や中国語のテキストは、その言語のまま書き換える）
+- ビジネス文書として自然で読みやすい文体を維持
+- 日本語の文は「です・ます調」で統一
+
+出力は書き換え後のテキストのみを返してください（説明不要）。`,
+    },
+    'rewrite.cell.user': {
+      version: '1',
+      template: `# 書き換え対象
+列名: {{columnName}}
+行番号: {{rowNumber}}
+元のテキスト: {{original}}
+
+# 書き換え指示
+{{instruction}}
+
+# 全体のコンテキスト
+この列は、以下の列を含むホワイトペーパー企画表の一部です:
+{{headers}}
+
+上記の指示に従って、元のテキストを書き換えてください。`,
+    },
+    'rewrite.batch.system': {
+      version: '2',
+      template: `あなたはエンタープライズ向けビジネス文書のリライト専門家です。
+スプレッドシートの複数行を、各行のコメント列の指示に従って一括で書き換えます。
+
+## リライトの原則
+
+### 1. コメントの指示を最優先
+- 各行のコメントに書かれた指示を最優先で反映
+- 「もっと○○」という指示は、明確に変化が分かるレベルで対応
+- 曖昧な表現は具体的に、冗長な部分は簡潔に
+
+### 2. 品質向上の具体例
+- 「初心者にもわかる言葉づかい」→ 専門用語を平易な言葉に置き換え、補足説明を追加
+- 「具体例がもっと欲しい」→ 数値例、判断基準、シナリオなどを明示的に追加
+- 「簡潔に」→ 冗長な修飾語を削除し、要点を明確化
+
+### 3. 文体の統一
+- 各行は元のデータと同じ言語で書く（英語や中国語の行は、その言語のまま書き換える）
+- ビジネス文書として自然で読みやすい文体を維持
+- 日本語の文は「です・ます調」で統一
+
+### 4. 行間の整合性
+- 複数行をまとめて処理する場合、全体の整合性を保つ
+- 同じカテゴリやトピックの行は表現を統一
+
+出力は、指定されたJSON Schemaに従って、書き換え後の全行データを返してください。`,
+    },
+    'rewrite.batch.user': {
+      version: '1',
+      template: `{{columnDescriptions}}# 書き換え対象の行データ
+
+{{rows}}
+上記の各行について、コメントの指示に従って書き換えてください。
+
+**重要**: 各行の row_index は入力と同じ値を必ず保持してください。変更してはいけません。
+出力は以下のJSON Schemaに従ってください:
+{{schema}}`,
+    },
+  },
+  en: {
+    'rewrite.cell.system': {
+      version: '1',
+      template: `You are an expert rewriter of enterprise business documents.
+Rewrite the spreadsheet cell value according to the user's instruction.
+
+## Rewriting Principles
+
+### 1. The instruction comes first
+- Apply the requested improvements boldly
+- For instructions like "more ...", make the change clearly noticeable
+- Make vague wording specific and redundant parts concise
+
+### 2. Examples of quality improvements
+- "Wording a beginner understands" → replace jargon with plain words and add explanations
+- "More concrete examples" → explicitly add figures, decision criteria or scenarios
+- "Be concise" → remove redundant modifiers and sharpen the key points
+
+### 3. Consistent style
+- Write in the same language as the original text (text in Japanese or Chinese stays in that language)
+- Keep a natural, readable business style
+
+Return only the rewritten text, without explanations.`,
+    },
+    'rewrite.cell.user': {
+      version: '1',
+      template: `# Rewrite Target
+Column: {{columnName}}
+Row: {{rowNumber}}
+Original text: {{original}}
+
+# Rewrite Instruction
+{{instruction}}
+
+# Overall Context
+This column is part of a whitepaper plan sheet with the following columns:
+{{headers}}
+
+Rewrite the original text according to the instruction above.`,
+    },
+    'rewrite.batch.system': {
+      version: '1',
+      template: `You are an expert rewriter of enterprise business documents.
+You rewrite several spreadsheet rows at once, following the instruction in the comment column of each row.
+
+## Rewriting Principles
+
+### 1. The comment comes first
+- Apply the instruction in each row's comment first
+- For instructions like "more ...", make the change clearly noticeable
+- Make vague wording specific and redundant parts concise
+
+### 2. Examples of quality improvements
+- "Wording a beginner understands" → replace jargon with plain words and add explanations
+- "More concrete examples" → explicitly add figures, decision criteria or scenarios
+- "Be concise" → remove redundant modifiers and sharpen the key points
+
+### 3. Consistent style
+- Write each row in the same language as its current data (rows in Japanese or Chinese stay in that language)
+- Keep a natural, readable business style
+
+### 4. Consistency across rows
+- When rewriting several rows together, keep them consistent
+- Use the same wording for rows of the same category or topic
+
+Return all rewritten rows following the given JSON Schema.`,
+    },
+    'rewrite.batch.user': {
+      version: '1',
+      template: `{{columnDescriptions}}# Rows to Rewrite
+
+{{rows}}
+Rewrite each row above following the instruction in its comment.
+
+**Important**: Keep the row_index of each row exactly as in the input. Do not change it.
+Follow this JSON Schema for the output:
+{{schema}}`,
+    },
+  },
+  zh: {
+    'rewrite.cell.system': {
+      version: '1',
+      template: `你是一名面向企业的商务文档改写专家。
+请按照用户的指示改写电子表格的单元格内容。
+
+## 改写原则
+
+### 1. 指示优先
+- 大胆体现所指示的改进点
+- 对于“更加○○”之类的指示，要做到变化明显可见
+- 把含糊的表达改得具体，把冗长的部分改得简洁
+
+### 2. 提升质量的具体示例
+- “让初学者也能看懂的措辞”→ 把专业术语换成浅显的说法并补充说明
+- “需要更多具体示例”→ 明确加入数值示例、判断标准、场景等
+- “简洁一些”→ 删除冗余修饰语，明确要点
+
+### 3. 统一文体
+- 使用与原文相同的语言（日文或英文的内容保持原语言改写）
+- 保持自然、易读的商务文体
+
+只返回改写后的文本（无需说明）。`,
+    },
+    'rewrite.cell.user': {
+      version: '1',
+      template: `# 改写对象
+列名: {{columnName}}
+行号: {{rowNumber}}
+原文: {{original}}
+
+# 改写指示
+{{instruction}}
+
+# 整体上下文
+该列是包含以下各列的白皮书企划表的一部分:
+{{headers}}
+
+请按照上述指示改写原文。`,
+    },
+    'rewrite.batch.system': {
+      version: '1',
+      template: `你是一名面向企业的商务文档改写专家。
+请按照各行备注列中的指示，批量改写电子表格的多行内容。
+
+## 改写原则
+
+### 1. 备注指示优先
+- 优先体现各行备注中写明的指示
+- 对于“更加○○”之类的指示，要做到变化明显可见
+- 把含糊的表达改得具体，把冗长的部分改得简洁
+
+### 2. 提升质量的具体示例
+- “让初学者也能看懂的措辞”→ 把专业术语换成浅显的说法并补充说明
+- “需要更多具体示例”→ 明确加入数值示例、判断标准、场景等
+- “简洁一些”→ 删除冗余修饰语，明确要点
+
+### 3. 统一文体
+- 各行使用与当前数据相同的语言（日文或英文的行保持原语言改写）
+- 保持自然、易读的商务文体
+
+### 4. 行间一致性
+- 批量处理多行时，保持整体一致
+- 同一类别或主题的行统一表达方式
+
+请按照指定的JSON Schema返回改写后的全部行数据。`,
+    },
+    'rewrite.batch.user': {
+      version: '1',
+      template: `{{columnDescriptions}}# 待改写的行数据
+
+{{rows}}
+请按照备注中的指示改写上述各行。
+
+**重要**: 各行的 row_index 必须与输入保持相同的值，不得更改。
+输出请遵循以下JSON Schema:
+{{schema}}`,
+    },
+  },
+};
+
+/**
+ * Labels of the column descriptions and row sections the rewriter builds in code
+ */
+export const PROMPT_LABELS: Record<
+  OutputLanguage,
+  { columnDescriptions: string; row: string; comment: string; data: string }
+> = {
+  ja: {
+    columnDescriptions: '# 列の説明\n書き換え後も各列の説明に沿った内容にしてください。\n',
+    row: '## 行 ',
+    comment: 'コメント（書き換え指示）: ',
+    data: '現在のデータ:',
+  },
+  en: {
+    columnDescriptions: '# Column Descriptions\nKeep each column in line with its description after rewriting.\n',
+    row: '## Row ',
+    comment: 'Comment (rewrite instruction): ',
+    data: 'Current data:',
+  },
+  zh: {
+    columnDescriptions: '# 列说明\n改写后也请使内容符合各列的说明。\n',
+    row: '## 行 ',
+    comment: '备注（改写指示）: ',
+    data: '当前数据:',
+  },
+};
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+/**
+ * Error for a prompt profile that does not exist (400 INVALID_PROMPT_PROFILE)
+ */
+export class PromptProfileError extends Error {
+  statusCode = 400;
+  code = 'INVALID_PROMPT_PROFILE';
+}
+
+/**
+ * Error for an unsupported output language (400 INVALID_LANGUAGE)
+ */
+export class OutputLanguageError extends Error {
+  statusCode = 400;
+  code = 'INVALID_LANGUAGE';
+}
+
+/**
+ * Resolve the language selected for a request (`ja` if omitted)
+ */
+export function getOutputLanguage(name?: unknown): OutputLanguage {
+  if (name === undefined || name === null || name === '') {
+    return DEFAULT_OUTPUT_LANGUAGE;
+  }
+
+  if (!OUTPUT_LANGUAGES.includes(name as OutputLanguage)) {
+    throw new OutputLanguageError(`language must be one of: ${OUTPUT_LANGUAGES.join(', ')}`);
+  }
+  return name as OutputLanguage;
+}
+
+/**
+ * Check whether a value is a supported output language
+ */
+export function isOutputLanguage(value: unknown): value is OutputLanguage {
+  return typeof value === 'string' && OUTPUT_LANGUAGES.includes(value as OutputLanguage);
+}
+
+/**
+ * Detect the language of a cell or row from its text
+ *
+ * Kana means Japanese and Latin letters without CJK characters English.
+ * Ideographs without kana are Chinese, except on Japanese sheets where
+ * kanji-only text is common. Text with none of these gets `fallback`.
+ */
+export function detectLanguage(text: string, fallback: OutputLanguage = DEFAULT_OUTPUT_LANGUAGE): OutputLanguage {
+  if (/[ぁ-ゖァ-ヺ]/.test(text)) {
+    return 'ja';
+  }
+  if (/[㐀-䶿一-鿿]/.test(text)) {
+    return fallback === 'ja' ? 'ja' : 'zh';
+  }
+  if (/[A-Za-z]/.test(text)) {
+    return 'en';
+  }
+  return fallback;
+}
+
+/**
+ * Replace the `{{variable}}` placeholders of a template
+ */
+export function renderTemplate(template: string, variables: Record<string, string>): string {
+  return template.replace(PLACEHOLDER, (_placeholder, name: string) => {
+    if (variables[name] === undefined) {
+      throw new Error(`Missing prompt variable: ${name}`);
+    }
+    return variables[name];
+  });
+}
+
+/**
+ * Check the overrides of one profile (`templates` or one of its `languages`)
+ */
+function validateTemplates(name: string, templates: unknown, variables: Record<string, string> = {}) {
+  if (!templates || typeof templates !== 'object') {
+    throw new Error(`Prompt profile ${name}: templates must be an object`);
+  }
+
+  for (const [id, override] of Object.entries(templates as PromptTemplates)) {
+    if (!(id in TEMPLATE_VARIABLES)) {
+      throw new Error(`Prompt profile ${name}: unknown template ${id}`);
+    }
+    if (
+      !override ||
+      typeof override.version !== 'string' ||
+      override.version === '' ||
+      typeof override.template !== 'string'
+    ) {
+      throw new Error(`Prompt profile ${name}: ${id} must have a version and a template`);
+    }
+
+    const known = [...TEMPLATE_VARIABLES[id as PromptTemplateId], ...Object.keys(variables)];
+    for (const match of override.template.matchAll(PLACEHOLDER)) {
+      if (!known.includes(match[1])) {
+        throw new Error(`Prompt profile ${name}: unknown variable {{${match[1]}}} in ${id}`);
+      }
+    }
+  }
+}
+
+/**
+ * Rewriter prompt templates by language, with per-client override profiles
+ */
+export class PromptRegistry {
+  private profiles: Record<string, PromptProfile>;
+
+  constructor(profiles: Record<string, PromptProfile> = {}) {
+    for (const [name, profile] of Object.entries(profiles)) {
+      validateTemplates(name, profile?.templates, profile?.variables);
+
+      for (const [language, templates] of Object.entries(profile.languages || {})) {
+        if (!OUTPUT_LANGUAGES.includes(language as OutputLanguage)) {
+          throw new Error(`Prompt profile ${name}: unknown language ${language}`);
+        }
+        validateTemplates(`${name} (${language})`, templates, profile.variables);
+      }
+    }
+
+    this.profiles = profiles;
+  }
+
+  /**
+   * Resolve the profile selected for a request (`default` if omitted)
+   */
+  getProfileName(name?: unknown): string {
+    if (name === undefined || name === null || name === '' || name === DEFAULT_PROMPT_PROFILE) {
+      return DEFAULT_PROMPT_PROFILE;
+    }
+
+    if (typeof name !== 'string' || !Object.hasOwn(this.profiles, name)) {
+      throw new PromptProfileError(
+        `promptProfile must be one of: ${[DEFAULT_PROMPT_PROFILE, ...Object.keys(this.profiles)].join(', ')}`
+      );
+    }
+    return name;
+  }
+
+  /**
+   * Render a template of a profile in a language
+   */
+  render(
+    id: PromptTemplateId,
+    variables: Record<string, string>,
+    profileName?: string,
+    language: OutputLanguage = DEFAULT_OUTPUT_LANGUAGE
+  ): string {
+    const profile = this.profiles[this.getProfileName(profileName)];
+    return renderTemplate(this.resolve(id, profile, language).template, {
+      ...profile?.variables,
+      ...variables,
+    });
+  }
+
+  /**
+   * Version of each template used by a profile in a language
+   */
+  versions(profileName?: string, language: OutputLanguage = DEFAULT_OUTPUT_LANGUAGE): Record<string, string> {
+    const profile = this.profiles[this.getProfileName(profileName)];
+    const versions: Record<string, string> = {};
+    (Object.keys(TEMPLATE_VARIABLES) as PromptTemplateId[]).forEach((id) => {
+      versions[id] = this.resolve(id, profile, language).version;
+    });
+    return versions;
+  }
+
+  /**
+   * Language override, profile override or built-in template, in that order
+   */
+  private resolve(
+    id: PromptTemplateId,
+    profile: PromptProfile | undefined,
+    language: OutputLanguage
+  ): PromptTemplate {
+    return (
+      profile?.languages?.[language]?.[id] ??
+      profile?.templates[id] ??
+      DEFAULT_PROMPT_TEMPLATES[language][id]
+    );
+  }
+}
+
+/**
+ * Load prompt profiles (PROMPT_PROFILES_PATH)
+ * The file maps profile names to `{ templates, languages, variables }`
+ */
+export function loadPromptRegistry(filePath: string): PromptRegistry {
+  try {
+    return new PromptRegistry(JSON.parse(readFileSync(filePath, 'utf8')));
+  } catch (error: any) {
+    throw new Error(`Failed to load prompt profiles from ${filePath}: ${error.message}`);
+  }
+}
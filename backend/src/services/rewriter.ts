@@ -0,0 +1,315 @@
+import { isLLMProviderName, LLM_PROVIDER_NAMES } from './llm-provider.js';
+import type { LLMProvider, LLMProviderName } from './llm-provider.js';
+import { detectLanguage, getOutputLanguage, PROMPT_LABELS, PromptRegistry } from './prompt-templates.js';
+import type { OutputLanguage } from './prompt-templates.js';
+
+/**
+ * Headers of the analysis columns the generator adds to a sheet (keywords, quality
+ * score, source references) in every output language. Batch rewrites never send them
+ * to the model and return their original values.
+ */
+export const ANALYSIS_COLUMNS: readonly string[] = [
+  '対象キーワード',
+  '品質スコア',
+  '出典',
+  'Target Keywords',
+  'Quality Score',
+  'Sources',
+  '目标关键词',
+  '质量评分',
+  '出处',
+];
+
+/**
+ * Error for a provider that is unknown or not configured (400 INVALID_PROVIDER)
+ */
+export class ProviderSelectionError extends Error {
+  statusCode = 400;
+  code = 'INVALID_PROVIDER';
+}
+
+export class RewriterService {
+  private providers: Partial<Record<LLMProviderName, LLMProvider>>;
+  private defaultProvider: LLMProviderName;
+  private prompts: PromptRegistry;
+
+  constructor(
+    providers: Partial<Record<LLMProviderName, LLMProvider>>,
+    defaultProvider: LLMProviderName = 'openai',
+    prompts: PromptRegistry = new PromptRegistry()
+  ) {
+    if (!providers[defaultProvider]) {
+      throw new Error(`Default LLM provider "${defaultProvider}" is not configured`);
+    }
+    this.providers = providers;
+    this.defaultProvider = defaultProvider;
+    this.prompts = prompts;
+  }
+
+  /**
+   * Names of the configured providers
+   */
+  getAvailableProviders(): LLMProviderName[] {
+    return LLM_PROVIDER_NAMES.filter((name) => !!this.providers[name]);
+  }
+
+  /**
+   * Resolve the provider selected for a request (default provider if omitted)
+   */
+  getProvider(name?: unknown): LLMProvider {
+    if (name === undefined || name === null || name === '') {
+      return this.providers[this.defaultProvider]!;
+    }
+
+    const provider = isLLMProviderName(name) ? this.providers[name] : undefined;
+    if (!provider) {
+      throw new ProviderSelectionError(
+        `provider must be one of: ${this.getAvailableProviders().join(', ')}`
+      );
+    }
+    return provider;
+  }
+
+  /**
+   * Resolve the prompt profile and language selected for a request and the template versions
+   * they use (throws 400 INVALID_PROMPT_PROFILE or INVALID_LANGUAGE for unknown values)
+   */
+  getPromptUsage(
+    name?: unknown,
+    language?: unknown
+  ): { profile: string; language: OutputLanguage; versions: Record<string, string> } {
+    const profile = this.prompts.getProfileName(name);
+    const outputLanguage = getOutputLanguage(language);
+    return {
+      profile,
+      language: outputLanguage,
+      versions: this.prompts.versions(profile, outputLanguage),
+    };
+  }
+
+  /**
+   * Rewrite a single cell value using the selected provider
+   */
+  async rewriteCell(
+    original: string,
+    instruction: string,
+    context: {
+      columnName: string;
+      rowIndex: number;
+      allHeaders: string[];
+    },
+    providerName?: unknown,
+    promptProfile?: string,
+    language?: OutputLanguage
+  ): Promise<string> {
+    const provider = this.getProvider(providerName);
+
+    try {
+      const systemPrompt = this.prompts.render('rewrite.cell.system', {}, promptProfile, language);
+      const userPrompt = this.prompts.render(
+        'rewrite.cell.user',
+        {
+          columnName: context.columnName,
+          rowNumber: String(context.rowIndex + 1),
+          original,
+          instruction,
+          headers: context.allHeaders.join(', '),
+        },
+        promptProfile,
+        language
+      );
+
+      const rewritten = await provider.rewriteText(systemPrompt, userPrompt);
+      if (!rewritten) {
+        throw new Error(`${provider.name} returned an empty rewrite`);
+      }
+
+      return rewritten;
+    } catch (error: any) {
+      console.error(`${provider.name} rewrite error:`, error.message);
+      throw new Error(`Failed to rewrite cell: ${error.message}`);
+    }
+  }
+
+  /**
+   * Rewrite multiple rows in batch using the selected provider with JSON Schema
+   *
+   * `columns` carries the column descriptions of the sheet's column schema
+   * (the header notes); they are shown to the model and added to the schema.
+   * Prompts come from the `promptProfile` templates (default: the built-in ones) in the
+   * language of each row: its `language` if given, otherwise the one detected from its data,
+   * with `language` (the language the sheet was generated in) as the fallback. Rows of each
+   * language are sent in one request and returned in input order.
+   * Analysis columns (ANALYSIS_COLUMNS) are left out of the request and keep their input values.
+   */
+  async rewriteBatch(
+    rows: Array<{
+      row_index: number;
+      data: Record<string, string>;
+      comment: string;
+      language?: OutputLanguage;
+    }>,
+    headers: string[],
+    providerName?: unknown,
+    columns: Array<{ name: string; description?: string }> = [],
+    promptProfile?: string,
+    language?: OutputLanguage
+  ): Promise<Array<Record<string, string>>> {
+    const provider = this.getProvider(providerName);
+    const rewriteHeaders = headers.filter((header) => !ANALYSIS_COLUMNS.includes(header.trim()));
+
+    try {
+      // Generate JSON Schema for structured output
+      const descriptions: Record<string, string> = {};
+      columns.forEach((column) => {
+        if (column.description) {
+          descriptions[column.name] = column.description;
+        }
+      });
+      const schema = await this.generateSchema(rewriteHeaders, descriptions);
+
+      // One request per row language; results go back to the input positions
+      const sheetLanguage = getOutputLanguage(language);
+      const rowLanguages = rows.map(
+        (row) => row.language || detectLanguage(Object.values(row.data).join('\n'), sheetLanguage)
+      );
+      const rewritten: Array<Record<string, string>> = [];
+      for (const rowLanguage of new Set(rowLanguages)) {
+        const indexes = rows.flatMap((_row, idx) => (rowLanguages[idx] === rowLanguage ? [idx] : []));
+        const groupRows = await this.rewriteRows(
+          provider,
+          indexes.map((idx) => rows[idx]),
+          rewriteHeaders,
+          descriptions,
+          schema,
+          promptProfile,
+          rowLanguage
+        );
+        indexes.forEach((rowIdx, idx) => {
+          rewritten[rowIdx] = groupRows[idx];
+        });
+      }
+      return rewritten;
+    } catch (error: any) {
+      console.error(`${provider.name} batch rewrite error:`, error.message);
+      throw new Error(`Failed to rewrite batch: ${error.message}`);
+    }
+  }
+
+  /**
+   * Rewrite rows of one language in a single request
+   * @private
+   */
+  private async rewriteRows(
+    provider: LLMProvider,
+    rows: Array<{ row_index: number; data: Record<string, string>; comment: string }>,
+    headers: string[],
+    descriptions: Record<string, string>,
+    schema: any,
+    promptProfile: string | undefined,
+    language: OutputLanguage
+  ): Promise<Array<Record<string, string>>> {
+    const systemPrompt = this.prompts.render('rewrite.batch.system', {}, promptProfile, language);
+
+    // Build the column descriptions and row sections of the user prompt
+    const labels = PROMPT_LABELS[language];
+    let columnDescriptions = '';
+    const describedHeaders = headers.filter((header) => descriptions[header]);
+    if (describedHeaders.length > 0) {
+      columnDescriptions += labels.columnDescriptions;
+      describedHeaders.forEach((header) => {
+        columnDescriptions += `- ${header}: ${descriptions[header]}\n`;
+      });
+      columnDescriptions += '\n';
+    }
+    let rowsText = '';
+    rows.forEach((row) => {
+      rowsText += `${labels.row}${row.row_index + 1}\n`;
+      rowsText += `${labels.comment}${row.comment}\n`;
+      rowsText += `${labels.data}\n`;
+      Object.entries(row.data).forEach(([key, value]) => {
+        if (!ANALYSIS_COLUMNS.includes(key.trim())) {
+          rowsText += `  - ${key}: ${value}\n`;
+        }
+      });
+      rowsText += '\n';
+    });
+
+    const userPrompt = this.prompts.render(
+      'rewrite.batch.user',
+      {
+        columnDescriptions,
+        rows: rowsText,
+        schema: JSON.stringify(schema, null, 2),
+      },
+      promptProfile,
+      language
+    );
+
+    const parsed = await provider.generateJson(systemPrompt, userPrompt, {
+      name: 'rewrite_batch_response',
+      schema,
+    });
+
+    if (parsed && parsed.rows && Array.isArray(parsed.rows)) {
+      // Fix row_index to match input (the model sometimes changes it) and restore analysis columns
+      const fixedRows = parsed.rows.map((row: any, idx: number) => {
+        const analysisValues = Object.fromEntries(
+          Object.entries(rows[idx].data).filter(([key]) => ANALYSIS_COLUMNS.includes(key.trim()))
+        );
+        return {
+          ...row,
+          ...analysisValues,
+          row_index: rows[idx].row_index, // Use original row_index from input
+        };
+      });
+      return fixedRows;
+    }
+
+    throw new Error(`${provider.name} returned empty or invalid batch response`);
+  }
+
+  /**
+   * Generate JSON Schema from column headers
+   *
+   * Headers with an entry in `descriptions` get it as the property description.
+   */
+  async generateSchema(headers: string[], descriptions: Record<string, string> = {}): Promise<any> {
+    try {
+      // 動的にJSON Schemaを生成（元のGASコードと同じロジック）
+      const properties: any = {
+        row_index: { type: 'integer' },
+      };
+
+      headers.forEach((header) => {
+        properties[header] = descriptions[header]
+          ? { type: 'string', description: descriptions[header] }
+          : { type: 'string' };
+      });
+
+      const requiredFields = ['row_index'].concat(headers);
+
+      const schema = {
+        type: 'object',
+        required: ['rows'],
+        additionalProperties: false,
+        properties: {
+          rows: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: requiredFields,
+              additionalProperties: false,
+              properties: properties,
+            },
+          },
+        },
+      };
+
+      return schema;
+    } catch (error: any) {
+      console.error('Schema generation error:', error.message);
+      throw new Error(`Failed to generate schema: ${error.message}`);
+    }
+  }
+}
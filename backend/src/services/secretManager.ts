@@ -36,6 +36,33 @@ export class SecretManagerService {
     }
   }
 
+  /**
+   * Get Anthropic API key from Secret Manager
+   */
+  async getAnthropicApiKey(secretName: string = 'anthropic-api-key'): Promise<string> {
+    try {
+      const name = `projects/${this.projectId}/secrets/${secretName}/versions/latest`;
+      const [version] = await this.client.accessSecretVersion({ name });
+
+      const payload = version.payload?.data;
+      if (!payload) {
+        throw new Error('Secret payload is empty');
+      }
+
+      // Convert Buffer to string
+      const apiKey = typeof payload === 'string' ? payload : Buffer.from(payload).toString('utf8');
+
+      if (!apiKey || !apiKey.startsWith('sk-ant-')) {
+        throw new Error('Invalid Anthropic API key format');
+      }
+
+      return apiKey;
+    } catch (error: any) {
+      console.error('Failed to get Anthropic API key from Secret Manager:', error.message);
+      throw new Error(`Secret Manager error: ${error.message}`);
+    }
+  }
+
   /**
    * Create or update a secret
    */
@@ -7,9 +7,18 @@
 
 // Configuration
 const BACKEND_API_URL = 'BACKEND_URL_PLACEHOLDER'; // Will be replaced during deployment
+const PROMPT_PROFILE = 'PROMPT_PROFILE_PLACEHOLDER'; // Prompt profile the sheet was generated with
+const LANGUAGE = 'LANGUAGE_PLACEHOLDER'; // Output language the sheet was generated with (ja, en, zh)
 const BATCH_SIZE = 5; // 5行ずつバッチ処理
 const MENU_TITLE = 'Whitepaper Rewriter';
 
+// 生成時に付与される分析列（対象キーワード・品質スコア・出典）。リライト対象外で元の値をそのまま残す
+const ANALYSIS_COLUMNS = {
+  ja: ['対象キーワード', '品質スコア', '出典'],
+  en: ['Target Keywords', 'Quality Score', 'Sources'],
+  zh: ['目标关键词', '质量评分', '出处']
+};
+
 /**
  * Creates custom menu when spreadsheet opens
  */
@@ -59,9 +68,12 @@ function rewriteAllCommentedRows() {
     // 4. Copy header row
     const headers = values[0];
     const commentColIndex = headers.length - 1; // 最右列がコメント列
+    // ヘッダーのメモは列の説明（列スキーマ）としてリライトに渡す
+    const headerNotes = sourceSheet.getRange(1, 1, 1, headers.length).getNotes()[0];
     destSheet.appendRow(headers);
 
     const headerRange = destSheet.getRange(1, 1, 1, headers.length);
+    headerRange.setNotes([headerNotes]);
     headerRange.setBackground('#1a1a1a');
     headerRange.setFontColor('#ffffff');
     headerRange.setFontWeight('bold');
@@ -105,7 +117,7 @@ function rewriteAllCommentedRows() {
 
       try {
         // Call Backend API for this batch
-        const batchResult = callBackendAPIBatch(batch, headers);
+        const batchResult = callBackendAPIBatch(batch, headers, headerNotes);
 
         logToBacklog('API_RESPONSE', batchIndex, 'SUCCESS', 'Batch processed successfully', {
           rowsProcessed: batchResult.rows.length
@@ -117,8 +129,11 @@ function rewriteAllCommentedRows() {
           const originalRowData = batch.find(function(b) { return b.rowIndex === revisedRow.row_index; });
           if (!originalRowData) continue;
 
-          // Build revised row array
-          const newRow = headers.map(function(header) {
+          // Build revised row array (analysis columns keep their original values)
+          const newRow = headers.map(function(header, idx) {
+            if (isAnalysisColumn(header)) {
+              return originalRowData.row[idx];
+            }
             const key = header.toString().trim();
             return revisedRow[key] !== undefined ? revisedRow[key] : '';
           });
@@ -277,15 +292,29 @@ function generateNextVersion(currentName) {
   return 'VER2'; // If not VERn, next is VER2
 }
 
+/**
+ * Check whether a header is an analysis column of the sheet language
+ */
+function isAnalysisColumn(header) {
+  const labels = ANALYSIS_COLUMNS[LANGUAGE] || ANALYSIS_COLUMNS.ja;
+  return labels.indexOf(header.toString().trim()) !== -1;
+}
+
 /**
  * Call Backend API for a batch of rows
+ *
+ * Analysis columns are left out, so the model neither sees nor regenerates them
  */
-function callBackendAPIBatch(batch, headers) {
+function callBackendAPIBatch(batch, headers, headerNotes) {
+  const rewriteIndexes = headers
+    .map(function(header, idx) { return idx; })
+    .filter(function(idx) { return !isAnalysisColumn(headers[idx]); });
+
   // Format batch data for backend API
   const formattedBatch = batch.map(function(item) {
     const data = {};
-    headers.forEach(function(header, idx) {
-      data[header.toString()] = item.row[idx] ? item.row[idx].toString() : '';
+    rewriteIndexes.forEach(function(idx) {
+      data[headers[idx].toString()] = item.row[idx] ? item.row[idx].toString() : '';
     });
 
     return {
@@ -297,7 +326,12 @@ function callBackendAPIBatch(batch, headers) {
 
   const payload = {
     batch: formattedBatch,
-    headers: headers.map(function(h) { return h.toString(); })
+    headers: rewriteIndexes.map(function(idx) { return headers[idx].toString(); }),
+    columns: rewriteIndexes.map(function(idx) {
+      return { name: headers[idx].toString(), description: headerNotes[idx] || '' };
+    }),
+    promptProfile: PROMPT_PROFILE,
+    language: LANGUAGE
   };
 
   const options = {
@@ -311,7 +345,7 @@ function callBackendAPIBatch(batch, headers) {
   // Log request
   logToBacklog('API_REQUEST', -1, 'SENDING', 'Sending request to Backend API', {
     batchSize: batch.length,
-    headers: headers.length
+    headers: rewriteIndexes.length
   });
 
   const response = UrlFetchApp.fetch(BACKEND_API_URL + '/api/rewrite/batch', options);
@@ -330,7 +364,8 @@ function callBackendAPIBatch(batch, headers) {
 
   logToBacklog('API_RESPONSE', -1, 'SUCCESS', 'Received response from Backend API', {
     rowCount: result.data.rows.length,
-    tokensUsed: result.data.metadata.tokensUsed
+    tokensUsed: result.data.metadata.tokensUsed,
+    prompts: result.data.metadata.prompts
   });
 
   return { rows: result.data.rows };
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import vm from 'vm';
+import { fileURLToPath } from 'url';
+import { ANALYSIS_COLUMN_LABELS } from '../services/column-schema';
+import { OUTPUT_LANGUAGES } from '../services/output-language';
+
+const gasCode = fs.readFileSync(path.join(path.dirname(fileURLToPath(import.meta.url)), 'Code.js'), 'utf-8');
+
+/**
+ * Minimal stand-in for a sheet: rows are kept as arrays, formatting is ignored
+ */
+function createSheet(name: string, rows: any[][]) {
+  const sheet = {
+    rows,
+    getName: () => name,
+    getDataRange: () => ({ getValues: () => sheet.rows.map((row) => [...row]) }),
+    getRange: (row: number, col: number, numRows = 1, numCols = 1) => ({
+      getNotes: () => [new Array(numCols).fill('')],
+      getValues: () =>
+        sheet.rows.slice(row - 1, row - 1 + numRows).map((values) => values.slice(col - 1, col - 1 + numCols)),
+      setValues: () => {},
+      setNotes: () => {},
+      setBackground: () => {},
+      setFontColor: () => {},
+      setFontWeight: () => {},
+      setNumberFormat: () => {},
+      setRichTextValue: () => {},
+    }),
+    appendRow: (row: any[]) => {
+      sheet.rows.push(row);
+    },
+    clear: () => {
+      sheet.rows = [];
+    },
+    getLastRow: () => sheet.rows.length,
+    getMaxRows: () => sheet.rows.length,
+    getMaxColumns: () => 0,
+    deleteRows: () => {},
+    deleteColumns: () => {},
+  };
+  return sheet;
+}
+
+/**
+ * Runs the bound rewriter on one commented row with a backend that fills in every key it can
+ */
+function runRewrite(language: string, headers: string[], row: string[]) {
+  const sheets = [createSheet('VER1', [headers, row])];
+  const requests: any[] = [];
+  const builder: any = new Proxy({}, { get: () => () => builder });
+
+  const context = vm.createContext({
+    SpreadsheetApp: {
+      getActiveSpreadsheet: () => ({
+        getSheets: () => sheets,
+        getSheetByName: (name: string) => sheets.find((sheet) => sheet.getName() === name) ?? null,
+        insertSheet: (name: string) => {
+          const sheet = createSheet(name, []);
+          sheets.push(sheet);
+          return sheet;
+        },
+      }),
+      getUi: () => ({ alert: () => {}, ButtonSet: { OK: 'OK' } }),
+      newTextStyle: () => builder,
+      newRichTextValue: () => builder,
+    },
+    UrlFetchApp: {
+      fetch: (_url: string, options: { payload: string }) => {
+        const payload = JSON.parse(options.payload);
+        requests.push(payload);
+        const rows = payload.batch.map((item: any) => ({
+          row_index: item.row_index,
+          ...Object.fromEntries(headers.map((header) => [header, `rewritten ${header}`])),
+        }));
+        return {
+          getResponseCode: () => 200,
+          getContentText: () =>
+            JSON.stringify({ success: true, data: { rows, metadata: { tokensUsed: 0, prompts: {} } } }),
+        };
+      },
+    },
+  });
+  vm.runInContext(gasCode.replace('LANGUAGE_PLACEHOLDER', language), context);
+  context.rewriteAllCommentedRows();
+
+  const rewritten = sheets.find((sheet) => sheet.getName() === 'VER2')!.rows[1]!;
+  return { request: requests[0], rewritten };
+}
+
+describe('Code.js rewriteAllCommentedRows', () => {
+  it.each(OUTPUT_LANGUAGES)('should leave the %s analysis columns out of the rewrite schema', (language) => {
+    const labels = ANALYSIS_COLUMN_LABELS[language];
+    const headers = ['Title', labels.keywords, labels.score, labels.sources, labels.comment];
+    const row = ['Original title', 'keyword A', '82', '[1] deck.pdf p.3', 'Make it shorter'];
+
+    const { request } = runRewrite(language, headers, row);
+
+    expect(request.headers).toEqual(['Title', labels.comment]);
+    expect(request.columns.map((column: any) => column.name)).toEqual(['Title', labels.comment]);
+    expect(Object.keys(request.batch[0].data)).toEqual(['Title', labels.comment]);
+    expect(request.language).toBe(language);
+  });
+
+  it('should copy the original analysis cells into the rewritten row', () => {
+    const labels = ANALYSIS_COLUMN_LABELS.ja;
+    const headers = ['タイトル', labels.keywords, labels.score, labels.sources, labels.comment];
+    const row = ['元のタイトル', '営業DX', '82', '[1] deck.pdf p.3', '短くしてください'];
+
+    const { rewritten } = runRewrite('ja', headers, row);
+
+    expect(rewritten).toEqual([
+      'rewritten タイトル',
+      '営業DX',
+      '82',
+      '[1] deck.pdf p.3',
+      `rewritten ${labels.comment}`,
+    ]);
+  });
+});
@@ -7,9 +7,18 @@
 
 // Configuration
 const BACKEND_API_URL = 'BACKEND_URL_PLACEHOLDER'; // Will be replaced during deployment
+const PROMPT_PROFILE = 'PROMPT_PROFILE_PLACEHOLDER'; // Prompt profile the sheet was generated with
+const LANGUAGE = 'LANGUAGE_PLACEHOLDER'; // Output language the sheet was generated with (ja, en, zh)
 const BATCH_SIZE = 5; // 5行ずつバッチ処理
 const MENU_TITLE = 'Whitepaper Rewriter';
 
+// 生成時に付与される分析列（対象キーワード・品質スコア・出典）。リライト対象外で元の値をそのまま残す
+const ANALYSIS_COLUMNS: Record<string, string[]> = {
+  ja: ['対象キーワード', '品質スコア', '出典'],
+  en: ['Target Keywords', 'Quality Score', 'Sources'],
+  zh: ['目标关键词', '质量评分', '出处']
+};
+
 /**
  * Creates custom menu when spreadsheet opens
  */
@@ -59,9 +68,12 @@ function rewriteAllCommentedRows() {
     // 4. Copy header row
     const headers = values[0];
     const commentColIndex = headers.length - 1; // 最右列がコメント列
+    // ヘッダーのメモは列の説明（列スキーマ）としてリライトに渡す
+    const headerNotes = sourceSheet.getRange(1, 1, 1, headers.length).getNotes()[0];
     destSheet.appendRow(headers);
 
     const headerRange = destSheet.getRange(1, 1, 1, headers.length);
+    headerRange.setNotes([headerNotes]);
     headerRange.setBackground('#1a1a1a');
     headerRange.setFontColor('#ffffff');
     headerRange.setFontWeight('bold');
@@ -105,7 +117,7 @@ function rewriteAllCommentedRows() {
 
       try {
         // Call Backend API for this batch
-        const batchResult = callBackendAPIBatch(batch, headers);
+        const batchResult = callBackendAPIBatch(batch, headers, headerNotes);
 
         logToBacklog('API_RESPONSE', batchIndex, 'SUCCESS', 'Batch processed successfully', {
           rowsProcessed: batchResult.rows.length
@@ -116,8 +128,11 @@ function rewriteAllCommentedRows() {
           const originalRowData = batch.find(b => b.rowIndex === revisedRow.row_index);
           if (!originalRowData) continue;
 
-          // Build revised row array
-          const newRow = headers.map((header) => {
+          // Build revised row array (analysis columns keep their original values)
+          const newRow = headers.map((header, idx) => {
+            if (isAnalysisColumn(header)) {
+              return originalRowData.row[idx];
+            }
             const key = header.toString().trim();
             return revisedRow[key] !== undefined ? revisedRow[key] : '';
           });
@@ -273,18 +288,33 @@ function generateNextVersion(currentName: string): string {
   return 'VER2'; // If not VERn, next is VER2
 }
 
+/**
+ * Check whether a header is an analysis column of the sheet language
+ */
+function isAnalysisColumn(header: any): boolean {
+  const labels = ANALYSIS_COLUMNS[LANGUAGE] || ANALYSIS_COLUMNS.ja;
+  return labels.indexOf(header.toString().trim()) !== -1;
+}
+
 /**
  * Call Backend API for a batch of rows
+ *
+ * Analysis columns are left out, so the model neither sees nor regenerates them
  */
 function callBackendAPIBatch(
   batch: Array<{rowIndex: number, row: any[], comment: string}>,
-  headers: any[]
+  headers: any[],
+  headerNotes: string[]
 ): any {
+  const rewriteIndexes = headers
+    .map((_header, idx) => idx)
+    .filter((idx) => !isAnalysisColumn(headers[idx]));
+
   // Format batch data for backend API
   const formattedBatch = batch.map((item) => {
     const data: Record<string, string> = {};
-    headers.forEach((header, idx) => {
-      data[header.toString()] = item.row[idx]?.toString() || '';
+    rewriteIndexes.forEach((idx) => {
+      data[headers[idx].toString()] = item.row[idx]?.toString() || '';
     });
 
     return {
@@ -296,7 +326,10 @@ function callBackendAPIBatch(
 
   const payload = {
     batch: formattedBatch,
-    headers: headers.map(h => h.toString())
+    headers: rewriteIndexes.map(idx => headers[idx].toString()),
+    columns: rewriteIndexes.map(idx => ({ name: headers[idx].toString(), description: headerNotes[idx] || '' })),
+    promptProfile: PROMPT_PROFILE,
+    language: LANGUAGE
   };
 
   const options: GoogleAppsScript.URL_Fetch.URLFetchRequestOptions = {
@@ -310,7 +343,7 @@ function callBackendAPIBatch(
   // Log request
   logToBacklog('API_REQUEST', -1, 'SENDING', 'Sending request to Backend API', {
     batchSize: batch.length,
-    headers: headers.length
+    headers: rewriteIndexes.length
   });
 
   const response = UrlFetchApp.fetch(`${BACKEND_API_URL}/api/rewrite/batch`, options);
@@ -329,7 +362,8 @@ function callBackendAPIBatch(
 
   logToBacklog('API_RESPONSE', -1, 'SUCCESS', 'Received response from Backend API', {
     rowCount: result.data.rows.length,
-    tokensUsed: result.data.metadata.tokensUsed
+    tokensUsed: result.data.metadata.tokensUsed,
+    prompts: result.data.metadata.prompts
   });
 
   return { rows: result.data.rows };
@@ -5,6 +5,7 @@ import path from 'path';
 import { fileURLToPath } from 'url';
 import { generateRouter } from './routes/generate.js';
 import { authRouter } from './routes/auth.js';
+import { columnSchemasRouter } from './routes/column-schemas.js';
 import { Logger } from './utils/logger.js';
 
 // Load environment variables
@@ -46,6 +47,7 @@ app.use(express.static(path.join(__dirname, '../public')));
 // Routes
 app.use('/auth', authRouter);
 app.use('/generate', generateRouter);
+app.use('/column-schemas', columnSchemasRouter);
 
 /**
  * Health check endpoint
@@ -0,0 +1,217 @@
+import { Router, Request, Response } from 'express';
+import { createColumnSchemaStore } from '../services/column-schema-store.js';
+import { DEFAULT_COLUMN_SCHEMA_NAME, parseColumnSchema } from '../services/column-schema.js';
+import { Logger } from '../utils/logger.js';
+
+const logger = new Logger('ColumnSchemasRoute');
+const router = Router();
+
+const columnSchemaStore = createColumnSchemaStore();
+
+/**
+ * GET /column-schemas
+ *
+ * Lists the column schema presets, starting with the built-in `default`
+ * (the 13-column layout).
+ *
+ * @route GET /column-schemas
+ * @group ColumnSchemas - Sheet column schema presets
+ *
+ * @returns {object} 200 - List of schemas
+ * @returns {object} 500 - Internal server error
+ *
+ * @example
+ * curl http://localhost:8080/column-schemas
+ */
+router.get('/', async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const schemas = await columnSchemaStore.list();
+    res.status(200).json({ success: true, schemas });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Failed to list column schemas', error instanceof Error ? error : new Error(errorMessage));
+
+    res.status(500).json({
+      success: false,
+      error: 'Internal Server Error',
+      message: errorMessage,
+    });
+  }
+});
+
+/**
+ * GET /column-schemas/:name
+ *
+ * Returns a column schema preset.
+ *
+ * @route GET /column-schemas/:name
+ * @group ColumnSchemas - Sheet column schema presets
+ *
+ * @param {string} name - Preset name (path parameter)
+ *
+ * @returns {object} 200 - The schema
+ * @returns {object} 404 - Preset not found
+ * @returns {object} 500 - Internal server error
+ *
+ * @example
+ * curl http://localhost:8080/column-schemas/default
+ */
+router.get('/:name', async (req: Request, res: Response): Promise<void> => {
+  const name = req.params.name as string;
+
+  try {
+    const schema = await columnSchemaStore.get(name);
+    if (!schema) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: `Column schema not found: ${name}`,
+      });
+      return;
+    }
+
+    res.status(200).json({ success: true, schema });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Failed to get column schema', error instanceof Error ? error : new Error(errorMessage));
+
+    res.status(500).json({
+      success: false,
+      error: 'Internal Server Error',
+      message: errorMessage,
+    });
+  }
+});
+
+/**
+ * PUT /column-schemas/:name
+ *
+ * Creates or replaces a column schema preset. The body lists the columns in
+ * sheet order; each has a name, description, required flag, type (text,
+ * markdown or number), optional example and optional plan field it maps to.
+ * The built-in `default` preset cannot be replaced.
+ *
+ * @route PUT /column-schemas/:name
+ * @group ColumnSchemas - Sheet column schema presets
+ *
+ * @param {string} name - Preset name: letters, digits, `-` and `_` (path parameter)
+ * @param {object[]} columns - Column definitions (JSON body)
+ *
+ * @returns {object} 200 - The saved schema
+ * @returns {object} 400 - Invalid schema, or the name is `default`
+ * @returns {object} 401 - Unauthorized (no authenticated session)
+ * @returns {object} 500 - Internal server error
+ *
+ * @example
+ * curl -X PUT http://localhost:8080/column-schemas/agency-a -b cookies.txt \
+ *   -H "Content-Type: application/json" \
+ *   -d '{"columns":[{"name":"企画名","description":"30字以内","required":true,"field":"タイトル"},
+ *        {"name":"想定CTA","description":"読了後に促す行動","example":"無料相談"}]}'
+ */
+router.put('/:name', async (req: Request, res: Response): Promise<void> => {
+  const name = req.params.name as string;
+
+  try {
+    if (!req.session?.authenticated) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'You must authenticate before using this endpoint',
+        loginUrl: '/auth/login',
+      });
+      return;
+    }
+
+    if (name === DEFAULT_COLUMN_SCHEMA_NAME) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `The ${DEFAULT_COLUMN_SCHEMA_NAME} column schema cannot be replaced`,
+      });
+      return;
+    }
+
+    let schema;
+    try {
+      schema = parseColumnSchema({ ...req.body, name });
+    } catch (validationError) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: (validationError as Error).message,
+      });
+      return;
+    }
+
+    await columnSchemaStore.save(schema);
+    logger.info(`Saved column schema ${name} with ${schema.columns.length} columns`);
+
+    res.status(200).json({ success: true, schema });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Failed to save column schema', error instanceof Error ? error : new Error(errorMessage));
+
+    res.status(500).json({
+      success: false,
+      error: 'Internal Server Error',
+      message: errorMessage,
+    });
+  }
+});
+
+/**
+ * DELETE /column-schemas/:name
+ *
+ * Deletes a column schema preset. The built-in `default` preset cannot be
+ * deleted.
+ *
+ * @route DELETE /column-schemas/:name
+ * @group ColumnSchemas - Sheet column schema presets
+ *
+ * @param {string} name - Preset name (path parameter)
+ *
+ * @returns {object} 200 - Preset deleted
+ * @returns {object} 400 - The name is `default`
+ * @returns {object} 401 - Unauthorized (no authenticated session)
+ * @returns {object} 404 - Preset not found
+ * @returns {object} 500 - Internal server error
+ */
+router.delete('/:name', async (req: Request, res: Response): Promise<void> => {
+  const name = req.params.name as string;
+
+  try {
+    if (!req.session?.authenticated) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'You must authenticate before using this endpoint',
+        loginUrl: '/auth/login',
+      });
+      return;
+    }
+
+    if (name === DEFAULT_COLUMN_SCHEMA_NAME) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `The ${DEFAULT_COLUMN_SCHEMA_NAME} column schema cannot be deleted`,
+      });
+      return;
+    }
+
+    if (!(await columnSchemaStore.delete(name))) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: `Column schema not found: ${name}`,
+      });
+      return;
+    }
+
+    res.status(200).json({ success: true });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Failed to delete column schema', error instanceof Error ? error : new Error(errorMessage));
+
+    res.status(500).json({
+      success: false,
+      error: 'Internal Server Error',
+      message: errorMessage,
+    });
+  }
+});
+
+export { router as columnSchemasRouter };
@@ -1,13 +1,19 @@
-import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { describe, it, expect, beforeAll, beforeEach, afterAll, vi } from 'vitest';
 import request from 'supertest';
+import http from 'http';
 import express from 'express';
 import session from 'express-session';
 import { generateRouter } from './generate.js';
-import type { WhitepaperPlan } from '../types/index.js';
+import { InMemoryJobStore, JobRunner } from '../services/jobs.js';
+import { LLMService } from '../services/llm.js';
+import { ParserService } from '../services/parser.js';
+import { createStorageService } from '../services/storage.js';
+import { SheetsService } from '../services/sheets.js';
+import type { GenerationJob, WhitepaperPlan } from '../types/index.js';
 
 // Mock services
 vi.mock('../services/storage.js', () => ({
-  StorageService: vi.fn().mockImplementation(() => ({
+  createStorageService: vi.fn().mockImplementation(() => ({
     uploadFile: vi.fn().mockResolvedValue({ fileName: 'test-file.pdf' }),
     downloadFile: vi.fn().mockResolvedValue(Buffer.from('mock pdf content')),
     deleteFiles: vi.fn().mockResolvedValue({ deleted: 1, failed: 0 }),
@@ -47,6 +53,13 @@ vi.mock('../services/llm.js', () => ({
       }
       return Promise.resolve(mockPlans);
     }),
+    replaceDuplicatePlans: vi
+      .fn()
+      .mockImplementation((_context, plans) => Promise.resolve({ plans, regenerated: 0 })),
+    revisePlans: vi
+      .fn()
+      .mockImplementation((_context, plans) => Promise.resolve({ plans, revised: 0 })),
+    promptUsage: { profile: 'default', versions: { 'plan.system': '1', 'plan.generate': '1' } },
   })),
 }));
 
@@ -54,6 +67,7 @@ vi.mock('../services/sheets.js', () => ({
   SheetsService: vi.fn().mockImplementation(() => ({
     createSpreadsheet: vi.fn().mockResolvedValue({ spreadsheetId: 'mock-spreadsheet-id', sheetId: 0 }),
     writeData: vi.fn().mockResolvedValue(undefined),
+    writeBacklog: vi.fn().mockResolvedValue(undefined),
     moveToFolder: vi.fn().mockResolvedValue(undefined),
     getSpreadsheetUrl: vi
       .fn()
@@ -61,14 +75,56 @@ vi.mock('../services/sheets.js', () => ({
   })),
 }));
 
+vi.mock('../services/appsscript.js', () => ({
+  AppsScriptService: vi.fn().mockImplementation(() => ({
+    createAndBindScript: vi.fn().mockResolvedValue({
+      scriptId: 'mock-script-id',
+      projectUrl: 'https://script.google.com/d/mock-script-id/edit',
+    }),
+  })),
+}));
+
+vi.mock('../services/column-schema-store.js', () => ({
+  createColumnSchemaStore: vi.fn().mockImplementation(() => ({
+    get: vi.fn().mockImplementation((name: string) =>
+      Promise.resolve(
+        name === 'agency-a'
+          ? {
+              name,
+              columns: [
+                { name: '企画名', description: '', required: true, type: 'text', field: 'タイトル' },
+              ],
+            }
+          : undefined
+      )
+    ),
+  })),
+}));
+
 vi.mock('fs/promises', () => ({
   mkdir: vi.fn().mockResolvedValue(undefined),
   writeFile: vi.fn().mockResolvedValue(undefined),
   unlink: vi.fn().mockResolvedValue(undefined),
 }));
 
+/**
+ * Polls the job status endpoint until the job has completed or failed
+ */
+async function waitForJob(agent: request.Agent, jobId: string): Promise<GenerationJob> {
+  for (let attempt = 0; attempt < 200; attempt++) {
+    const response = await agent.get(`/generate/jobs/${jobId}`);
+    const job = response.body.job as GenerationJob;
+    if (job.status === 'completed' || job.status === 'failed') {
+      return job;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  throw new Error(`Job ${jobId} did not finish`);
+}
+
 describe('POST /generate', () => {
   let app: express.Application;
+  let agent: request.Agent;
 
   beforeAll(() => {
     // Set up test environment variables
@@ -105,12 +161,17 @@ describe('POST /generate', () => {
     app.use('/generate', generateRouter);
   });
 
+  beforeEach(() => {
+    // Keep the session cookie between POST and job status requests
+    agent = request.agent(app);
+  });
+
   afterAll(() => {
     vi.clearAllMocks();
   });
 
   it('should return 400 if no input sources are provided', async () => {
-    const response = await request(app)
+    const response = await agent
       .post('/generate')
       .field('planCount', '3');
 
@@ -120,7 +181,7 @@ describe('POST /generate', () => {
   });
 
   it('should return 400 if planCount is invalid', async () => {
-    const response = await request(app)
+    const response = await agent
       .post('/generate')
       .field('salesText', 'Mock sales content')
       .field('planCount', '0');
@@ -131,7 +192,7 @@ describe('POST /generate', () => {
   });
 
   it('should return 400 if planCount exceeds maximum', async () => {
-    const response = await request(app)
+    const response = await agent
       .post('/generate')
       .field('salesText', 'Mock sales content')
       .field('planCount', '51');
@@ -141,28 +202,152 @@ describe('POST /generate', () => {
     expect(response.body.message).toContain('planCount must be a number between 1 and 50');
   });
 
+  it('should return 400 if provider is unknown', async () => {
+    const response = await agent
+      .post('/generate')
+      .field('salesText', 'Mock sales content')
+      .field('provider', 'gemini');
+
+    expect(response.status).toBe(400);
+    expect(response.body).toHaveProperty('error', 'Bad Request');
+    expect(response.body.message).toBe('provider must be one of: openai, anthropic, fake');
+  });
+
+  it('should return 400 if the fake provider is requested in production', async () => {
+    const nodeEnv = process.env.NODE_ENV;
+    process.env.NODE_ENV = 'production';
+    const response = await agent
+      .post('/generate')
+      .field('salesText', 'Mock sales content')
+      .field('provider', 'fake');
+    process.env.NODE_ENV = nodeEnv;
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toBe('provider must be one of: openai, anthropic');
+  });
+
+  it('should generate plans with the requested provider', async () => {
+    const response = await agent
+      .post('/generate')
+      .field('salesText', 'Mock sales content')
+      .field('provider', 'anthropic')
+      .field('planCount', '1');
+
+    expect(response.status).toBe(202);
+    const job = await waitForJob(agent, response.body.jobId);
+    expect(job.status).toBe('completed');
+    expect(vi.mocked(LLMService).mock.lastCall?.[0]).toMatchObject({ provider: 'anthropic' });
+  });
+
+  it('should return 400 if the column schema is unknown', async () => {
+    const response = await agent
+      .post('/generate')
+      .field('salesText', 'Mock sales content')
+      .field('columnSchema', 'agency-b');
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toBe('Unknown columnSchema: agency-b');
+  });
+
+  it('should generate plans with the requested column schema', async () => {
+    const response = await agent
+      .post('/generate')
+      .field('salesText', 'Mock sales content')
+      .field('columnSchema', 'agency-a')
+      .field('planCount', '1');
+
+    expect(response.status).toBe(202);
+    const job = await waitForJob(agent, response.body.jobId);
+    expect(job.result?.metadata.columnSchema).toBe('agency-a');
+    expect(vi.mocked(LLMService).mock.lastCall?.[0]).toMatchObject({
+      columnSchema: { name: 'agency-a' },
+    });
+  });
+
+  it('should return 400 if the prompt profile is unknown', async () => {
+    const response = await agent
+      .post('/generate')
+      .field('salesText', 'Mock sales content')
+      .field('promptProfile', 'retail');
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toBe('Unknown promptProfile: retail');
+  });
+
+  it('should record the prompt versions in the metadata and the Backlog sheet', async () => {
+    const response = await agent
+      .post('/generate')
+      .field('salesText', 'Mock sales content')
+      .field('planCount', '1');
+
+    const job = await waitForJob(agent, response.body.jobId);
+    const prompts = { profile: 'default', versions: { 'plan.system': '1', 'plan.generate': '1' } };
+    expect(job.result?.metadata.prompts).toEqual(prompts);
+    const sheetsService = vi.mocked(SheetsService).mock.results.at(-1)?.value;
+    expect(sheetsService.writeBacklog).toHaveBeenCalledWith(
+      'mock-spreadsheet-id',
+      'GENERATED',
+      'Generated 1 plans',
+      { columnSchema: 'default', language: 'ja', prompts }
+    );
+  });
+
+  it('should return 400 if the language is not supported', async () => {
+    const response = await agent
+      .post('/generate')
+      .field('salesText', 'Mock sales content')
+      .field('language', 'fr');
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toBe('language must be one of: ja, en, zh');
+  });
+
+  it('should generate English plans with localized sheet headers', async () => {
+    const response = await agent
+      .post('/generate')
+      .field('salesText', 'Mock sales content')
+      .field('language', 'en')
+      .field('planCount', '1');
+
+    expect(response.status).toBe(202);
+    const job = await waitForJob(agent, response.body.jobId);
+    expect(job.result?.metadata.language).toBe('en');
+    const config = vi.mocked(LLMService).mock.lastCall?.[0];
+    expect(config?.language).toBe('en');
+    expect(config?.columnSchema?.columns).toContainEqual(
+      expect.objectContaining({ name: 'Title', field: 'タイトル' })
+    );
+    const sheetsService = vi.mocked(SheetsService).mock.results.at(-1)?.value;
+    expect(sheetsService.writeData.mock.lastCall?.[4]).toBe('en');
+  });
+
   it('should generate whitepaper plans with text inputs', async () => {
-    const response = await request(app)
+    const response = await agent
       .post('/generate')
       .field('salesText', 'Our product offers advanced AI capabilities')
       .field('targetText', 'Enterprise decision makers seeking automation')
       .field('keywordsText', 'AI,ML,automation')
       .field('planCount', '3');
 
-    expect(response.status).toBe(200);
+    expect(response.status).toBe(202);
     expect(response.body).toHaveProperty('success', true);
-    expect(response.body).toHaveProperty('spreadsheetId', 'mock-spreadsheet-id');
-    expect(response.body).toHaveProperty('spreadsheetUrl');
-    expect(response.body.spreadsheetUrl).toContain('docs.google.com/spreadsheets');
-    expect(response.body).toHaveProperty('planCount', 3);
-    expect(response.body).toHaveProperty('plans');
-    expect(Array.isArray(response.body.plans)).toBe(true);
-    expect(response.body.plans).toHaveLength(3);
-    expect(response.body.metadata).toHaveProperty('duration');
-    expect(response.body.metadata).toHaveProperty('timestamp');
+    expect(response.body).toHaveProperty('jobId');
+
+    const job = await waitForJob(agent, response.body.jobId);
+    expect(job.status).toBe('completed');
+    const result = job.result!;
+    expect(result).toHaveProperty('spreadsheetId', 'mock-spreadsheet-id');
+    expect(result).toHaveProperty('spreadsheetUrl');
+    expect(result.spreadsheetUrl).toContain('docs.google.com/spreadsheets');
+    expect(result).toHaveProperty('planCount', 3);
+    expect(result).toHaveProperty('plans');
+    expect(Array.isArray(result.plans)).toBe(true);
+    expect(result.plans).toHaveLength(3);
+    expect(result.metadata).toHaveProperty('duration');
+    expect(result.metadata).toHaveProperty('timestamp');
 
     // Validate plan structure
-    const plan = response.body.plans[0];
+    const plan = result.plans[0];
     expect(plan).toHaveProperty('no');
     expect(plan).toHaveProperty('タイトル');
     expect(plan).toHaveProperty('目的');
@@ -174,70 +359,224 @@ describe('POST /generate', () => {
     const salesPdfBuffer = Buffer.from('mock pdf content');
     const targetPdfBuffer = Buffer.from('mock pdf content');
 
-    const response = await request(app)
+    const response = await agent
       .post('/generate')
       .attach('salesPdf', salesPdfBuffer, 'sales.pdf')
       .attach('targetPdf', targetPdfBuffer, 'target.pdf')
       .field('keywordsText', 'AI,ML,automation')
       .field('planCount', '5');
 
-    expect(response.status).toBe(200);
+    expect(response.status).toBe(202);
     expect(response.body).toHaveProperty('success', true);
-    expect(response.body).toHaveProperty('planCount', 5);
-    expect(response.body.plans).toHaveLength(5);
+    expect(response.body).toHaveProperty('jobId');
+
+    const job = await waitForJob(agent, response.body.jobId);
+    expect(job.status).toBe('completed');
+    const result = job.result!;
+    expect(result).toHaveProperty('planCount', 5);
+    expect(result.plans).toHaveLength(5);
+  });
+
+  it('should parse uploaded files in memory without using storage', async () => {
+    vi.mocked(createStorageService).mockClear();
+
+    const response = await agent
+      .post('/generate')
+      .attach('salesPdf', Buffer.from('sales pdf bytes'), 'sales.pdf')
+      .attach('keywordsCsv', Buffer.from('AI,ML'), 'keywords.csv')
+      .field('planCount', '1');
+
+    const job = await waitForJob(agent, response.body.jobId);
+    expect(job.status).toBe('completed');
+
+    const parser = vi.mocked(ParserService).mock.results.at(-1)!.value;
+    const parseInput = parser.buildContext.mock.calls[0][0];
+    expect(parseInput.salesPdf).toEqual(Buffer.from('sales pdf bytes'));
+    expect(parseInput.keywordsCsv).toEqual(Buffer.from('AI,ML'));
+    expect(createStorageService).not.toHaveBeenCalled();
+  });
+
+  it('should accept keyword exports sent with an Excel or TSV content type', async () => {
+    for (const contentType of ['application/vnd.ms-excel', 'text/tab-separated-values']) {
+      const response = await agent
+        .post('/generate')
+        .attach('keywordsCsv', Buffer.from('Keyword\tVolume\nSFA\t1200'), {
+          filename: 'keywords.csv',
+          contentType,
+        })
+        .field('planCount', '1');
+
+      expect(response.status).toBe(202);
+      await waitForJob(agent, response.body.jobId);
+    }
+  });
+
+  it('should accept Office, HTML and Markdown documents as salesFile and targetFile', async () => {
+    const pptxType = 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+
+    const response = await agent
+      .post('/generate')
+      .attach('salesFile', Buffer.from('pptx bytes'), { filename: 'deck.pptx', contentType: pptxType })
+      .attach('targetFile', Buffer.from('# Persona'), { filename: 'brief.md', contentType: 'text/plain' })
+      .field('planCount', '1');
+
+    expect(response.status).toBe(202);
+    const job = await waitForJob(agent, response.body.jobId);
+    expect(job.status).toBe('completed');
+
+    const parser = vi.mocked(ParserService).mock.results.at(-1)!.value;
+    const parseInput = parser.buildContext.mock.calls[0][0];
+    expect(parseInput.salesFile).toEqual({
+      content: Buffer.from('pptx bytes'),
+      mimeType: pptxType,
+      fileName: 'deck.pptx',
+    });
+    expect(parseInput.targetFile).toMatchObject({ fileName: 'brief.md', mimeType: 'text/plain' });
+  });
+
+  it('should reject unsupported document types and duplicate sales fields', async () => {
+    const unsupported = await agent
+      .post('/generate')
+      .attach('salesFile', Buffer.from('png'), { filename: 'chart.png', contentType: 'image/png' })
+      .field('planCount', '1');
+    expect(unsupported.status).toBe(500);
+    expect(unsupported.text).toContain('Invalid file type: image/png');
+
+    const duplicate = await agent
+      .post('/generate')
+      .attach('salesPdf', Buffer.from('pdf'), 'sales.pdf')
+      .attach('salesFile', Buffer.from('# Deck'), { filename: 'deck.md', contentType: 'text/markdown' })
+      .field('planCount', '1');
+    expect(duplicate.status).toBe(400);
+    expect(duplicate.body.message).toBe('Provide either salesPdf or salesFile, not both');
+  });
+
+  it('should pass salesUrl and targetUrl lists to the parser', async () => {
+    const response = await agent
+      .post('/generate')
+      .field('salesUrl', 'https://example.com/product https://example.com/pricing')
+      .field('targetUrl', 'https://customer.example.jp/about')
+      .field('planCount', '1');
+
+    expect(response.status).toBe(202);
+    const job = await waitForJob(agent, response.body.jobId);
+    expect(job.status).toBe('completed');
+
+    const parser = vi.mocked(ParserService).mock.results.at(-1)!.value;
+    const parseInput = parser.buildContext.mock.calls[0][0];
+    expect(parseInput.salesUrl).toEqual(['https://example.com/product', 'https://example.com/pricing']);
+    expect(parseInput.targetUrl).toEqual(['https://customer.example.jp/about']);
+  });
+
+  it('should reject invalid URLs and too many URLs', async () => {
+    const invalid = await agent
+      .post('/generate')
+      .field('salesUrl', 'ftp://example.com/deck')
+      .field('planCount', '1');
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.message).toBe('salesUrl must contain http or https URLs: ftp://example.com/deck');
+
+    let tooMany = agent.post('/generate').field('planCount', '1');
+    for (let i = 0; i < 11; i++) {
+      tooMany = tooMany.field('targetUrl', `https://example.com/${i}`);
+    }
+    const response = await tooMany;
+    expect(response.status).toBe(400);
+    expect(response.body.message).toBe('targetUrl accepts at most 10 URLs');
+  });
+
+  it('should not fail the job when archiving fails', async () => {
+    process.env.ARCHIVE_UPLOADS = 'true';
+    vi.mocked(createStorageService).mockImplementationOnce(
+      () =>
+        ({
+          uploadFile: vi.fn().mockRejectedValue(new Error('bucket unavailable')),
+        }) as any
+    );
+
+    try {
+      const response = await agent
+        .post('/generate')
+        .attach('salesPdf', Buffer.from('mock pdf content'), 'sales.pdf')
+        .field('planCount', '1');
+
+      const job = await waitForJob(agent, response.body.jobId);
+      expect(job.status).toBe('completed');
+      expect(job.steps.find((step) => step.id === 'archive')?.status).toBe('skipped');
+    } finally {
+      delete process.env.ARCHIVE_UPLOADS;
+    }
   });
 
   it('should accept custom spreadsheet title', async () => {
     const customTitle = 'My Custom Whitepaper Plans';
 
-    const response = await request(app)
+    const response = await agent
       .post('/generate')
       .field('salesText', 'Test sales content')
       .field('spreadsheetTitle', customTitle)
       .field('planCount', '2');
 
-    expect(response.status).toBe(200);
+    expect(response.status).toBe(202);
     expect(response.body).toHaveProperty('success', true);
+    expect(response.body).toHaveProperty('jobId');
+
+    const job = await waitForJob(agent, response.body.jobId);
+    expect(job.status).toBe('completed');
   });
 
   it('should accept folder ID for moving spreadsheet', async () => {
     const folderId = 'test-folder-id';
 
-    const response = await request(app)
+    const response = await agent
       .post('/generate')
       .field('salesText', 'Test sales content')
       .field('folderId', folderId)
       .field('planCount', '2');
 
-    expect(response.status).toBe(200);
+    expect(response.status).toBe(202);
     expect(response.body).toHaveProperty('success', true);
+    expect(response.body).toHaveProperty('jobId');
+
+    const job = await waitForJob(agent, response.body.jobId);
+    expect(job.status).toBe('completed');
   });
 
   it('should use default planCount of 3 when not specified', async () => {
-    const response = await request(app)
+    const response = await agent
       .post('/generate')
       .field('salesText', 'Test sales content')
       .field('targetText', 'Test target content');
 
-    expect(response.status).toBe(200);
+    expect(response.status).toBe(202);
     expect(response.body).toHaveProperty('success', true);
-    expect(response.body).toHaveProperty('planCount', 3);
-    expect(response.body.plans).toHaveLength(3);
+    expect(response.body).toHaveProperty('jobId');
+
+    const job = await waitForJob(agent, response.body.jobId);
+    expect(job.status).toBe('completed');
+    const result = job.result!;
+    expect(result).toHaveProperty('planCount', 3);
+    expect(result.plans).toHaveLength(3);
   });
 
   it('should handle mixed input sources (files and text)', async () => {
     const salesPdfBuffer = Buffer.from('mock pdf content');
 
-    const response = await request(app)
+    const response = await agent
       .post('/generate')
       .attach('salesPdf', salesPdfBuffer, 'sales.pdf')
       .field('targetText', 'Test target content')
       .field('keywordsText', 'keyword1,keyword2')
       .field('planCount', '4');
 
-    expect(response.status).toBe(200);
+    expect(response.status).toBe(202);
     expect(response.body).toHaveProperty('success', true);
-    expect(response.body).toHaveProperty('planCount', 4);
+    expect(response.body).toHaveProperty('jobId');
+
+    const job = await waitForJob(agent, response.body.jobId);
+    expect(job.status).toBe('completed');
+    const result = job.result!;
+    expect(result).toHaveProperty('planCount', 4);
   });
 
   it('should handle file validation gracefully', async () => {
@@ -245,38 +584,60 @@ describe('POST /generate', () => {
     // This test verifies that valid files are accepted
     const validPdfBuffer = Buffer.from('mock pdf content');
 
-    const response = await request(app)
+    const response = await agent
       .post('/generate')
       .attach('salesPdf', validPdfBuffer, 'sales.pdf')
       .field('planCount', '3');
 
-    expect(response.status).toBe(200);
+    expect(response.status).toBe(202);
     expect(response.body).toHaveProperty('success', true);
+    expect(response.body).toHaveProperty('jobId');
+
+    const job = await waitForJob(agent, response.body.jobId);
+    expect(job.status).toBe('completed');
   });
 
   it('should include metadata in response', async () => {
-    const response = await request(app)
+    const response = await agent
       .post('/generate')
       .field('salesText', 'Test content')
       .field('planCount', '2');
 
-    expect(response.status).toBe(200);
-    expect(response.body.metadata).toHaveProperty('duration');
-    expect(response.body.metadata.duration).toMatch(/^\d+ms$/);
-    expect(response.body.metadata).toHaveProperty('timestamp');
-    expect(new Date(response.body.metadata.timestamp).getTime()).toBeGreaterThan(0);
+    expect(response.status).toBe(202);
+    expect(response.body).toHaveProperty('success', true);
+    expect(response.body).toHaveProperty('jobId');
+
+    const job = await waitForJob(agent, response.body.jobId);
+    expect(job.status).toBe('completed');
+    const result = job.result!;
+    expect(result.metadata).toHaveProperty('duration');
+    expect(result.metadata.duration).toMatch(/^\d+ms$/);
+    expect(result.metadata).toHaveProperty('timestamp');
+    expect(new Date(result.metadata.timestamp).getTime()).toBeGreaterThan(0);
+    expect(result.metadata.planSimilarity).toMatchObject({ threshold: 0.6, regenerated: 0 });
+    expect(result.metadata.planSimilarity?.matrix).toHaveLength(2);
+    expect(result.metadata.planSimilarity?.matrix[0]?.[0]).toBe(1);
+    expect(result.metadata.quality).toMatchObject({ threshold: 80, revised: 0 });
+    expect(result.metadata.columnSchema).toBe('default');
+    expect(result.plans[0]?.未確認の主張).toEqual([]);
   });
 
   it('should return plan summaries in response', async () => {
-    const response = await request(app)
+    const response = await agent
       .post('/generate')
       .field('salesText', 'Test content')
       .field('planCount', '3');
 
-    expect(response.status).toBe(200);
-    expect(response.body.plans).toHaveLength(3);
+    expect(response.status).toBe(202);
+    expect(response.body).toHaveProperty('success', true);
+    expect(response.body).toHaveProperty('jobId');
+
+    const job = await waitForJob(agent, response.body.jobId);
+    expect(job.status).toBe('completed');
+    const result = job.result!;
+    expect(result.plans).toHaveLength(3);
 
-    response.body.plans.forEach((plan: any, index: number) => {
+    result.plans.forEach((plan: any, index: number) => {
       expect(plan.no).toBe(index + 1);
       expect(plan.タイトル).toBe(`ホワイトペーパー企画 ${index + 1}`);
       expect(plan.目的).toBe(`目的 ${index + 1}`);
@@ -286,26 +647,306 @@ describe('POST /generate', () => {
   });
 
   it('should handle only keywords input', async () => {
-    const response = await request(app)
+    const response = await agent
       .post('/generate')
       .field('keywordsText', 'AI,ML,automation,cloud')
       .field('planCount', '2');
 
-    expect(response.status).toBe(200);
+    expect(response.status).toBe(202);
     expect(response.body).toHaveProperty('success', true);
-    expect(response.body).toHaveProperty('planCount', 2);
+    expect(response.body).toHaveProperty('jobId');
+
+    const job = await waitForJob(agent, response.body.jobId);
+    expect(job.status).toBe('completed');
+    const result = job.result!;
+    expect(result).toHaveProperty('planCount', 2);
   });
 
   it('should handle CSV keywords file', async () => {
     const csvBuffer = Buffer.from('keyword1,keyword2,keyword3\nAI,ML,automation');
 
-    const response = await request(app)
+    const response = await agent
       .post('/generate')
       .attach('keywordsCsv', csvBuffer, 'keywords.csv')
       .field('salesText', 'Test content')
       .field('planCount', '2');
 
-    expect(response.status).toBe(200);
+    expect(response.status).toBe(202);
     expect(response.body).toHaveProperty('success', true);
+    expect(response.body).toHaveProperty('jobId');
+
+    const job = await waitForJob(agent, response.body.jobId);
+    expect(job.status).toBe('completed');
+  });
+
+  it('should record per-step progress for completed jobs', async () => {
+    const response = await agent
+      .post('/generate')
+      .field('salesText', 'Test content')
+      .field('planCount', '2');
+
+    const job = await waitForJob(agent, response.body.jobId);
+
+    expect(job.steps).toHaveLength(7);
+    expect(job.steps.map((step) => step.id)).toEqual([
+      'parse',
+      'generate',
+      'spreadsheet',
+      'bind_script',
+      'move',
+      'archive',
+      'finalize',
+    ]);
+    expect(job.steps.find((step) => step.id === 'generate')?.status).toBe('completed');
+    expect(job.steps.find((step) => step.id === 'move')?.status).toBe('skipped');
+    expect(job.steps.find((step) => step.id === 'archive')?.status).toBe('skipped');
+    expect(job).not.toHaveProperty('ownerId');
+  });
+
+  it('should record the error and failing step when generation fails', async () => {
+    vi.mocked(LLMService).mockImplementationOnce(
+      () =>
+        ({
+          generatePlans: vi.fn().mockRejectedValue(new Error('LLM unavailable')),
+        }) as any
+    );
+
+    const response = await agent
+      .post('/generate')
+      .field('salesText', 'Test content')
+      .field('planCount', '2');
+
+    expect(response.status).toBe(202);
+
+    const job = await waitForJob(agent, response.body.jobId);
+    expect(job.status).toBe('failed');
+    expect(job.error).toEqual({ message: 'LLM unavailable', step: 'generate' });
+    expect(job.result).toBeUndefined();
+    expect(job.steps.find((step) => step.id === 'generate')?.status).toBe('failed');
+    expect(job.steps.find((step) => step.id === 'spreadsheet')?.status).toBe('pending');
+  });
+});
+
+describe('GET /generate/jobs', () => {
+  let app: express.Application;
+
+  beforeAll(() => {
+    app = express();
+    app.use(session({
+      secret: 'test-secret',
+      resave: false,
+      saveUninitialized: false,
+      cookie: { secure: false }
+    }));
+    app.use((req, _res, next) => {
+      req.session.authenticated = true;
+      req.session.tokens = {
+        access_token: 'mock-access-token',
+        refresh_token: 'mock-refresh-token',
+        expiry_date: Date.now() + 3600000,
+        token_type: 'Bearer'
+      };
+      next();
+    });
+    app.use('/generate', generateRouter);
+  });
+
+  it('should list only the jobs of the current session', async () => {
+    const agent = request.agent(app);
+    const first = await agent.post('/generate').field('salesText', 'First').field('planCount', '1');
+    const second = await agent.post('/generate').field('salesText', 'Second').field('planCount', '1');
+    await waitForJob(agent, first.body.jobId);
+    await waitForJob(agent, second.body.jobId);
+
+    const response = await agent.get('/generate/jobs');
+
+    expect(response.status).toBe(200);
+    expect(response.body.success).toBe(true);
+    expect(response.body.jobs.map((job: GenerationJob) => job.id).sort()).toEqual(
+      [first.body.jobId, second.body.jobId].sort()
+    );
+
+    const otherSession = await request.agent(app).get('/generate/jobs');
+    expect(otherSession.body.jobs).toEqual([]);
+  });
+
+  it('should return 404 for unknown jobs', async () => {
+    const response = await request(app).get('/generate/jobs/does-not-exist');
+
+    expect(response.status).toBe(404);
+    expect(response.body).toHaveProperty('error', 'Not Found');
+  });
+
+  it('should not expose jobs to other sessions', async () => {
+    const owner = request.agent(app);
+    const created = await owner.post('/generate').field('salesText', 'Private').field('planCount', '1');
+    await waitForJob(owner, created.body.jobId);
+
+    const response = await request.agent(app).get(`/generate/jobs/${created.body.jobId}`);
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe('GET /generate/jobs/:id/events', () => {
+  let app: express.Application;
+
+  beforeAll(() => {
+    app = express();
+    app.use(session({
+      secret: 'test-secret',
+      resave: false,
+      saveUninitialized: false,
+      cookie: { secure: false }
+    }));
+    app.use((req, _res, next) => {
+      req.session.authenticated = true;
+      req.session.tokens = {
+        access_token: 'mock-access-token',
+        refresh_token: 'mock-refresh-token',
+        expiry_date: Date.now() + 3600000,
+        token_type: 'Bearer'
+      };
+      next();
+    });
+    app.use('/generate', generateRouter);
+  });
+
+  /**
+   * Parses an SSE body into its event names and payloads
+   */
+  function parseEvents(body: string): Array<{ id: number; event: string; data: any }> {
+    return body
+      .split('\n\n')
+      .filter((block) => block.startsWith('id:'))
+      .map((block) => {
+        const lines = Object.fromEntries(
+          block.split('\n').map((line) => [line.slice(0, line.indexOf(':')), line.slice(line.indexOf(':') + 2)])
+        );
+        return { id: Number(lines.id), event: lines.event, data: JSON.parse(lines.data) };
+      });
+  }
+
+  it('should stream typed pipeline events and end with done', async () => {
+    const agent = request.agent(app);
+    process.env.ARCHIVE_UPLOADS = 'true';
+    const created = await agent
+      .post('/generate')
+      .attach('salesPdf', Buffer.from('mock pdf content'), 'sales.pdf')
+      .field('folderId', 'folder-1')
+      .field('planCount', '2');
+
+    const response = await agent.get(`/generate/jobs/${created.body.jobId}/events`);
+    delete process.env.ARCHIVE_UPLOADS;
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toContain('text/event-stream');
+
+    const events = parseEvents(response.text);
+    const types = events.map((event) => event.event);
+
+    expect(types).toContain('step');
+    expect(types).toContain('uploaded');
+    expect(types).toContain('sheet_created');
+    expect(types).toContain('script_bound');
+    expect(types).toContain('moved');
+    expect(types[types.length - 1]).toBe('done');
+    expect(events.map((event) => event.id)).toEqual(events.map((_event, index) => index + 1));
+
+    const uploaded = events.find((event) => event.event === 'uploaded');
+    expect(uploaded?.data).toMatchObject({ type: 'uploaded', field: 'salesPdf', fileName: 'test-file.pdf' });
+
+    const done = events[events.length - 1];
+    expect(done?.data.result.spreadsheetId).toBe('mock-spreadsheet-id');
+  });
+
+  it('should end with an error event when generation fails', async () => {
+    vi.mocked(LLMService).mockImplementationOnce(
+      () =>
+        ({
+          generatePlans: vi.fn().mockRejectedValue(new Error('LLM unavailable')),
+        }) as any
+    );
+
+    const agent = request.agent(app);
+    const created = await agent.post('/generate').field('salesText', 'Test').field('planCount', '1');
+
+    const response = await agent.get(`/generate/jobs/${created.body.jobId}/events`);
+    const events = parseEvents(response.text);
+    const last = events[events.length - 1];
+
+    expect(last?.event).toBe('error');
+    expect(last?.data).toMatchObject({ message: 'LLM unavailable', step: 'generate' });
+  });
+
+  it('should only replay events after Last-Event-ID', async () => {
+    const agent = request.agent(app);
+    const created = await agent.post('/generate').field('salesText', 'Test').field('planCount', '1');
+    const full = parseEvents((await agent.get(`/generate/jobs/${created.body.jobId}/events`)).text);
+
+    const response = await agent
+      .get(`/generate/jobs/${created.body.jobId}/events`)
+      .set('Last-Event-ID', String(full.length - 2));
+    const events = parseEvents(response.text);
+
+    expect(events.map((event) => event.id)).toEqual([full.length - 1, full.length]);
+  });
+
+  it('should end the stream when reconnecting after the done event', async () => {
+    const agent = request.agent(app);
+    const created = await agent.post('/generate').field('salesText', 'Test').field('planCount', '1');
+    const full = parseEvents((await agent.get(`/generate/jobs/${created.body.jobId}/events`)).text);
+
+    const response = await agent
+      .get(`/generate/jobs/${created.body.jobId}/events`)
+      .set('Last-Event-ID', String(full.length))
+      .timeout(5000);
+
+    expect(response.status).toBe(200);
+    expect(parseEvents(response.text)).toEqual([]);
+  });
+
+  it('should stop the heartbeat and unsubscribe before ending a failed replay', async () => {
+    const agent = request.agent(app);
+    const created = await agent.post('/generate').field('salesText', 'Test').field('planCount', '1');
+
+    const calls: string[] = [];
+    const subscribe = vi
+      .spyOn(JobRunner.prototype, 'subscribe')
+      .mockReturnValueOnce(() => calls.push('unsubscribe'));
+    const getEvents = vi
+      .spyOn(InMemoryJobStore.prototype, 'getEvents')
+      .mockRejectedValueOnce(new Error('store unavailable'));
+    const clearIntervalSpy = vi.spyOn(globalThis, 'clearInterval').mockImplementation((timer) => {
+      calls.push('clearInterval');
+      clearTimeout(timer);
+    });
+    const end = http.ServerResponse.prototype.end;
+    const endSpy = vi.spyOn(http.ServerResponse.prototype, 'end').mockImplementation(function (
+      this: http.ServerResponse,
+      ...args: any[]
+    ) {
+      calls.push('end');
+      return end.apply(this, args as any);
+    });
+
+    const response = await agent.get(`/generate/jobs/${created.body.jobId}/events`).timeout(5000);
+
+    endSpy.mockRestore();
+    clearIntervalSpy.mockRestore();
+    getEvents.mockRestore();
+    subscribe.mockRestore();
+
+    expect(response.status).toBe(200);
+    expect(calls.slice(0, 3)).toEqual(['clearInterval', 'unsubscribe', 'end']);
+  });
+
+  it('should return 404 for jobs of other sessions', async () => {
+    const owner = request.agent(app);
+    const created = await owner.post('/generate').field('salesText', 'Test').field('planCount', '1');
+
+    const response = await request.agent(app).get(`/generate/jobs/${created.body.jobId}/events`);
+
+    expect(response.status).toBe(404);
   });
 });
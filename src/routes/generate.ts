@@ -1,29 +1,63 @@
 import { Router, Request, Response } from 'express';
 import multer from 'multer';
-import * as fs from 'fs/promises';
-import * as path from 'path';
-import { StorageService } from '../services/storage.js';
-import { ParserService } from '../services/parser.js';
-import { LLMService } from '../services/llm.js';
-import { SheetsService } from '../services/sheets.js';
 import { AuthService } from '../services/auth.js';
-import { AppsScriptService } from '../services/appsscript.js';
+import { runGeneration } from '../services/generation.js';
+import { detectDocumentFormat } from '../services/document-text.js';
+import { InMemoryJobStore, JobRunner } from '../services/jobs.js';
+import { createColumnSchemaStore } from '../services/column-schema-store.js';
+import { createPromptRegistry } from '../services/prompt-templates.js';
+import { isLLMProviderName, requestableLLMProviderNames } from '../services/llm-provider.js';
+import { isOutputLanguage, OUTPUT_LANGUAGES } from '../services/output-language.js';
 import { Logger } from '../utils/logger.js';
-import type { ParseInput, WhitepaperPlan } from '../types/index.js';
+import type { GenerationEventRecord, GenerationJob } from '../types/index.js';
 
 const logger = new Logger('GenerateRoute');
 const router = Router();
 
+// Jobs outlive the request that created them; the in-memory store keeps
+// them for the lifetime of this instance
+const jobStore = new InMemoryJobStore();
+const jobRunner = new JobRunner(jobStore);
+
+// Presets selectable with the columnSchema form field
+const columnSchemaStore = createColumnSchemaStore();
+
+// Upload fields accepting any supported document format
+const DOCUMENT_FIELDS = ['salesFile', 'targetFile'];
+
+// Maximum number of salesUrl or targetUrl entries
+const MAX_URLS_PER_SOURCE = 10;
+
 // Configure multer for file uploads (memory storage)
 const upload = multer({
   storage: multer.memoryStorage(),
   limits: {
     fileSize: 10 * 1024 * 1024, // 10MB max file size
-    files: 3, // Maximum 3 files (salesPdf, targetPdf, optional keywordsCsv)
+    files: 5, // salesPdf/salesFile, targetPdf/targetFile, optional keywordsCsv
   },
   fileFilter: (_req, file, cb) => {
-    // Allow PDF and CSV files
-    const allowedMimes = ['application/pdf', 'text/csv', 'text/plain'];
+    // Allow PDF, DOCX, PPTX, HTML, Markdown and text documents
+    if (DOCUMENT_FIELDS.includes(file.fieldname)) {
+      if (detectDocumentFormat(file.mimetype, file.originalname)) {
+        cb(null, true);
+      } else {
+        cb(
+          new Error(
+            `Invalid file type: ${file.mimetype}. Supported documents: PDF, DOCX, PPTX, HTML, Markdown and text.`
+          )
+        );
+      }
+      return;
+    }
+
+    // Allow PDF and CSV files (browsers on Windows send CSV as an Excel type)
+    const allowedMimes = [
+      'application/pdf',
+      'text/csv',
+      'text/plain',
+      'text/tab-separated-values',
+      'application/vnd.ms-excel',
+    ];
     if (allowedMimes.includes(file.mimetype)) {
       cb(null, true);
     } else {
@@ -37,9 +71,15 @@ const upload = multer({
  */
 interface GenerateRequestBody {
   salesText?: string;
+  salesUrl?: string | string[];
   targetText?: string;
+  targetUrl?: string | string[];
   keywordsText?: string;
   planCount?: string;
+  provider?: string;
+  columnSchema?: string;
+  promptProfile?: string;
+  language?: string;
   spreadsheetTitle?: string;
   folderId?: string;
 }
@@ -49,7 +89,9 @@ interface GenerateRequestBody {
  */
 interface MulterFiles {
   salesPdf?: Express.Multer.File[];
+  salesFile?: Express.Multer.File[];
   targetPdf?: Express.Multer.File[];
+  targetFile?: Express.Multer.File[];
   keywordsCsv?: Express.Multer.File[];
 }
 
@@ -57,24 +99,34 @@ interface MulterFiles {
  * POST /generate
  *
  * Main API endpoint for whitepaper plan generation.
- * Accepts file uploads and/or text inputs to generate whitepaper plans
- * and save them to Google Sheets.
+ * Accepts file uploads and/or text inputs, validates them and starts an
+ * asynchronous generation job that saves the plans to Google Sheets.
+ * Poll `GET /generate/jobs/:id` for progress and the final spreadsheet URL.
  *
  * @route POST /generate
  * @group Whitepaper - Whitepaper plan generation operations
  *
  * @param {Express.Multer.File} [salesPdf] - Sales material PDF file (multipart/form-data)
+ * @param {Express.Multer.File} [salesFile] - Sales material as PDF, DOCX, PPTX, HTML or Markdown (instead of salesPdf)
  * @param {Express.Multer.File} [targetPdf] - Target audience PDF file (multipart/form-data)
- * @param {Express.Multer.File} [keywordsCsv] - Keywords CSV file (multipart/form-data)
+ * @param {Express.Multer.File} [targetFile] - Target audience as PDF, DOCX, PPTX, HTML or Markdown (instead of targetPdf)
+ * @param {Express.Multer.File} [keywordsCsv] - Keyword list or SEO tool export (CSV/TSV, multipart/form-data)
  * @param {string} [salesText] - Sales material text (form field)
  * @param {string} [targetText] - Target audience text (form field)
+ * @param {string|string[]} [salesUrl] - Sales web pages to fetch (repeated or whitespace-separated form field, max 10)
+ * @param {string|string[]} [targetUrl] - Target web pages to fetch (repeated or whitespace-separated form field, max 10)
  * @param {string} [keywordsText] - Keywords as comma-separated text (form field)
  * @param {number} [planCount=3] - Number of whitepaper plans to generate (form field)
+ * @param {string} [provider] - LLM provider: openai or anthropic; fake outside production or when LLM_PROVIDER=fake (form field, default: LLM_PROVIDER)
+ * @param {string} [columnSchema=default] - Column schema preset of the plans and the sheet (form field, see /column-schemas)
+ * @param {string} [promptProfile=default] - Prompt profile overriding the built-in prompts (form field, see PROMPT_PROFILES_PATH)
+ * @param {string} [language=ja] - Output language of the plans and the sheet headers: ja, en or zh (form field)
  * @param {string} [spreadsheetTitle] - Custom spreadsheet title (form field)
  * @param {string} [folderId] - Google Drive folder ID to move spreadsheet to (form field)
  *
- * @returns {object} 200 - Success response with spreadsheet URL and plans
+ * @returns {object} 202 - Job accepted, with job ID and status URL
  * @returns {object} 400 - Bad request (invalid input)
+ * @returns {object} 401 - Unauthorized (no authenticated session)
  * @returns {object} 500 - Internal server error
  *
  * @example
@@ -86,6 +138,13 @@ interface MulterFiles {
  *   -F "planCount=5"
  *
  * @example
+ * // Using curl with a PowerPoint deck and a Word brief
+ * curl -X POST http://localhost:8080/generate \
+ *   -F "salesFile=@deck.pptx" \
+ *   -F "targetFile=@brief.docx" \
+ *   -F "planCount=5"
+ *
+ * @example
  * // Using curl with text inputs
  * curl -X POST http://localhost:8080/generate \
  *   -F "salesText=Product features and benefits..." \
@@ -97,12 +156,13 @@ router.post(
   '/',
   upload.fields([
     { name: 'salesPdf', maxCount: 1 },
+    { name: 'salesFile', maxCount: 1 },
     { name: 'targetPdf', maxCount: 1 },
+    { name: 'targetFile', maxCount: 1 },
     { name: 'keywordsCsv', maxCount: 1 },
   ]),
   async (req: Request, res: Response): Promise<void> => {
     const startTime = Date.now();
-    let tempFiles: string[] = [];
 
     try {
       logger.info('Received whitepaper generation request');
@@ -126,9 +186,20 @@ router.post(
       const files = req.files as MulterFiles;
       const body = req.body as GenerateRequestBody;
 
+      // Parse and validate URL lists
+      const salesUrl = parseUrlList(body.salesUrl);
+      const targetUrl = parseUrlList(body.targetUrl);
+      const urlError = validateUrlList('salesUrl', salesUrl) ?? validateUrlList('targetUrl', targetUrl);
+      if (urlError) {
+        res.status(400).json({ error: 'Bad Request', message: urlError });
+        return;
+      }
+
       // Validate input: at least one source must be provided
-      const hasSalesInput = !!files.salesPdf?.[0] || !!body.salesText;
-      const hasTargetInput = !!files.targetPdf?.[0] || !!body.targetText;
+      const hasSalesInput =
+        !!files.salesPdf?.[0] || !!files.salesFile?.[0] || !!body.salesText || salesUrl.length > 0;
+      const hasTargetInput =
+        !!files.targetPdf?.[0] || !!files.targetFile?.[0] || !!body.targetText || targetUrl.length > 0;
       const hasKeywordsInput = !!files.keywordsCsv?.[0] || !!body.keywordsText;
 
       if (!hasSalesInput && !hasTargetInput && !hasKeywordsInput) {
@@ -139,6 +210,18 @@ router.post(
         return;
       }
 
+      // Each source takes either its PDF field or its generic file field
+      const duplicateField = (['sales', 'target'] as const).find(
+        (source) => files[`${source}Pdf`]?.[0] && files[`${source}File`]?.[0]
+      );
+      if (duplicateField) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `Provide either ${duplicateField}Pdf or ${duplicateField}File, not both`,
+        });
+        return;
+      }
+
       // Parse plan count (default: 3)
       const planCount = body.planCount ? parseInt(body.planCount, 10) : 3;
       if (isNaN(planCount) || planCount < 1 || planCount > 50) {
@@ -149,190 +232,96 @@ router.post(
         return;
       }
 
-      logger.info(`Processing request with planCount=${planCount}`);
-
-      // Step 1: Upload files to Cloud Storage (if provided)
-      const storageService = new StorageService({
-        projectId: process.env.GCP_PROJECT_ID,
-        keyFilename: process.env.GOOGLE_APPLICATION_CREDENTIALS,
-        bucketName: process.env.GCS_BUCKET_NAME || '',
-      });
-
-      const uploadedFiles: { [key: string]: string } = {};
-
-      if (files.salesPdf?.[0]) {
-        logger.info('Uploading sales PDF to Cloud Storage');
-        const result = await storageService.uploadFile(files.salesPdf[0]);
-        logger.info(`Sales PDF uploaded: ${result.fileName}`);
-        uploadedFiles.salesPdf = result.fileName;
+      // Validate LLM provider (default: LLM_PROVIDER)
+      const provider = body.provider || undefined;
+      const providerNames = requestableLLMProviderNames();
+      if (provider !== undefined && !(isLLMProviderName(provider) && providerNames.includes(provider))) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `provider must be one of: ${providerNames.join(', ')}`,
+        });
+        return;
       }
 
-      if (files.targetPdf?.[0]) {
-        logger.info('Uploading target PDF to Cloud Storage');
-        const result = await storageService.uploadFile(files.targetPdf[0]);
-        logger.info(`Target PDF uploaded: ${result.fileName}`);
-        uploadedFiles.targetPdf = result.fileName;
+      // Resolve the column schema preset (default: the built-in 13 columns)
+      const columnSchemaName = body.columnSchema || undefined;
+      const columnSchema = columnSchemaName && (await columnSchemaStore.get(columnSchemaName));
+      if (columnSchemaName !== undefined && !columnSchema) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `Unknown columnSchema: ${columnSchemaName}`,
+        });
+        return;
       }
 
-      if (files.keywordsCsv?.[0]) {
-        logger.info('Uploading keywords CSV to Cloud Storage');
-        const result = await storageService.uploadFile(files.keywordsCsv[0]);
-        logger.info(`Keywords CSV uploaded: ${result.fileName}`);
-        uploadedFiles.keywordsCsv = result.fileName;
+      // Resolve the prompt profile (default: the built-in prompts); the
+      // profiles file is read per request so edits apply without a restart
+      const prompts = createPromptRegistry();
+      const promptProfile = body.promptProfile || undefined;
+      if (promptProfile !== undefined && !prompts.hasProfile(promptProfile)) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `Unknown promptProfile: ${promptProfile}`,
+        });
+        return;
       }
 
-      // Step 2: Download files to local temp directory for parsing
-      const tmpDir = '/tmp/whitepaper-gen';
-      await fs.mkdir(tmpDir, { recursive: true });
-
-      const localPaths: { [key: string]: string } = {};
-
-      for (const [key, fileName] of Object.entries(uploadedFiles)) {
-        const localPath = path.join(tmpDir, fileName);
-        logger.info(`Downloading ${key} from Cloud Storage`);
-        const buffer = await storageService.downloadFile(fileName);
-        await fs.writeFile(localPath, buffer);
-        localPaths[key] = localPath;
-        tempFiles.push(localPath);
-        logger.info(`${key} saved to ${localPath}`);
+      // Validate the output language (default: ja)
+      const language = body.language || undefined;
+      if (language !== undefined && !isOutputLanguage(language)) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `language must be one of: ${OUTPUT_LANGUAGES.join(', ')}`,
+        });
+        return;
       }
 
-      // Step 3: Parse context using ParserService
-      logger.info('Building context from input sources');
-      const parserService = new ParserService({
-        projectId: process.env.GCP_PROJECT_ID,
-        keyFilename: process.env.GOOGLE_APPLICATION_CREDENTIALS,
-      });
-
-      const parseInput: ParseInput = {
-        salesPdf: localPaths.salesPdf,
-        salesText: body.salesText,
-        targetPdf: localPaths.targetPdf,
-        targetText: body.targetText,
-        keywordsCsv: localPaths.keywordsCsv,
-        keywordsText: body.keywordsText,
-      };
-
-      const context = await parserService.buildContext(parseInput);
-      logger.info('Context built successfully', {
-        salesTextLength: context.salesText.length,
-        targetTextLength: context.targetText.length,
-        keywordsCount: context.keywords.length,
-      });
-
-      // Step 4: Generate whitepaper plans using LLMService
-      logger.info(`Generating ${planCount} whitepaper plans using LLM`);
-      const llmService = new LLMService({
-        apiKey: process.env.OPENAI_API_KEY || '',
-        model: process.env.OPENAI_MODEL || 'gpt-4',
-        maxTokens: process.env.OPENAI_MAX_TOKENS
-          ? parseInt(process.env.OPENAI_MAX_TOKENS, 10)
-          : 4096,
-        temperature: process.env.OPENAI_TEMPERATURE
-          ? parseFloat(process.env.OPENAI_TEMPERATURE)
-          : 0.7,
-      });
-
-      const plans: WhitepaperPlan[] = await llmService.generatePlans(context, planCount);
-      logger.info(`Generated ${plans.length} whitepaper plans`);
-
-      // Step 5: Create authenticated client and spreadsheet
-      logger.info('Creating authenticated Google Sheets client');
+      // Refresh the access token now so the session is updated before the
+      // response is sent; the background job cannot write to the session
       const authService = new AuthService();
-
-      // Check if token needs refreshing
       if (!authService.isTokenValid(req.session.tokens)) {
         logger.info('Access token expired, refreshing...');
         req.session.tokens = await authService.refreshToken(req.session.tokens);
       }
 
-      const authenticatedClient = authService.getAuthenticatedClient(req.session.tokens);
-      const sheetsService = new SheetsService(authenticatedClient);
-
-      logger.info('Creating Google Spreadsheet in user\'s Google Drive');
-      const spreadsheetTitle =
-        body.spreadsheetTitle || `Whitepaper Plans - ${new Date().toISOString()}`;
-      const { spreadsheetId, sheetId } = await sheetsService.createSpreadsheet(spreadsheetTitle);
-      logger.info(`Spreadsheet created: ${spreadsheetId}, sheet: ${sheetId}`);
-
-      logger.info('Writing data to spreadsheet');
-      await sheetsService.writeData(spreadsheetId, plans, sheetId);
-      logger.info('Data written successfully');
-
-      // Step 6: Bind Google Apps Script to spreadsheet
-      logger.info('Binding Google Apps Script to spreadsheet');
-      const backendApiUrl = process.env.BACKEND_API_URL || 'http://localhost:8080';
-      const appsScriptService = new AppsScriptService(authenticatedClient);
-
-      try {
-        const { scriptId, projectUrl } = await appsScriptService.createAndBindScript(
-          spreadsheetId,
-          backendApiUrl
-        );
-        logger.info(`Apps Script bound successfully: ${scriptId}`);
-        logger.info(`Script project URL: ${projectUrl}`);
-      } catch (scriptError: any) {
-        logger.warn('Failed to bind Apps Script (non-fatal)', scriptError);
-        // Don't fail the entire request if GAS binding fails
-        // Users can still use the spreadsheet without rewriter functionality
-      }
-
-      // Step 7: Move spreadsheet to folder (if folderId provided)
-      if (body.folderId) {
-        logger.info(`Moving spreadsheet to folder: ${body.folderId}`);
-        await sheetsService.moveToFolder(spreadsheetId, body.folderId);
-        logger.info('Spreadsheet moved successfully');
-      }
-
-      // Step 8: Cleanup temporary files
-      logger.info('Cleaning up temporary files');
-      await cleanupTempFiles(tempFiles);
-      tempFiles = []; // Clear array after cleanup
-
-      // Step 9: Cleanup uploaded files from Cloud Storage
-      logger.info('Cleaning up uploaded files from Cloud Storage');
-      const fileNamesToDelete = Object.values(uploadedFiles);
-      if (fileNamesToDelete.length > 0) {
-        const deleteResult = await storageService.deleteFiles(fileNamesToDelete);
-        logger.info('Cloud Storage cleanup completed', {
-          deleted: deleteResult.deleted,
-          failed: deleteResult.failed,
-        });
-      }
-
-      // Step 10: Return success response
-      const spreadsheetUrl = sheetsService.getSpreadsheetUrl(spreadsheetId);
-      const duration = Date.now() - startTime;
-
-      logger.info(`Request completed successfully in ${duration}ms`);
+      logger.info(`Queueing generation job with planCount=${planCount}`);
+
+      const job = await jobRunner.enqueue(req.sessionID, (progress) =>
+        runGeneration(
+          {
+            files: {
+              salesPdf: files.salesPdf?.[0],
+              salesFile: files.salesFile?.[0],
+              targetPdf: files.targetPdf?.[0],
+              targetFile: files.targetFile?.[0],
+              keywordsCsv: files.keywordsCsv?.[0],
+            },
+            salesText: body.salesText,
+            salesUrl,
+            targetText: body.targetText,
+            targetUrl,
+            keywordsText: body.keywordsText,
+            planCount,
+            provider,
+            ...(columnSchema && { columnSchema }),
+            prompts,
+            promptProfile,
+            language,
+            spreadsheetTitle: body.spreadsheetTitle,
+            folderId: body.folderId,
+            tokens: req.session.tokens!,
+          },
+          progress
+        )
+      );
 
-      res.status(200).json({
+      res.status(202).json({
         success: true,
-        spreadsheetId,
-        spreadsheetUrl,
-        planCount: plans.length,
-        plans: plans.map((plan) => ({
-          no: plan.no,
-          タイトル: plan.タイトル,
-          目的: plan.目的,
-          ターゲット: plan.ターゲット,
-          構成: plan.構成,
-        })),
-        metadata: {
-          duration: `${duration}ms`,
-          timestamp: new Date().toISOString(),
-        },
+        jobId: job.id,
+        status: job.status,
+        statusUrl: `${req.baseUrl}/jobs/${job.id}`,
       });
     } catch (error) {
-      // Cleanup temporary files on error
-      if (tempFiles.length > 0) {
-        logger.warn('Cleaning up temporary files after error');
-        await cleanupTempFiles(tempFiles).catch((cleanupError) => {
-          logger.error('Failed to cleanup temporary files', cleanupError);
-        });
-      }
-
-      // Log and return error response
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       logger.error('Request failed', error instanceof Error ? error : new Error(errorMessage));
 
@@ -352,25 +341,244 @@ router.post(
 );
 
 /**
- * Cleanup temporary files from local filesystem
+ * GET /generate/jobs
+ *
+ * Lists the generation jobs started from the current session, newest first.
  *
- * @param filePaths - Array of file paths to delete
- * @returns Promise that resolves when cleanup is complete
+ * @route GET /generate/jobs
+ * @group Whitepaper - Whitepaper plan generation operations
+ *
+ * @returns {object} 200 - List of jobs with status and step progress
+ * @returns {object} 500 - Internal server error
  */
-async function cleanupTempFiles(filePaths: string[]): Promise<void> {
-  const deletePromises = filePaths.map(async (filePath) => {
-    try {
-      await fs.unlink(filePath);
-      logger.debug(`Deleted temporary file: ${filePath}`);
-    } catch (error) {
-      // Ignore errors if file doesn't exist
-      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
-        logger.warn(`Failed to delete temporary file: ${filePath}`, error);
+router.get('/jobs', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const jobs = await jobStore.list(req.sessionID);
+    res.status(200).json({
+      success: true,
+      jobs: jobs.map(toJobResponse),
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Failed to list jobs', error instanceof Error ? error : new Error(errorMessage));
+
+    res.status(500).json({
+      success: false,
+      error: 'Internal Server Error',
+      message: errorMessage,
+    });
+  }
+});
+
+/**
+ * GET /generate/jobs/:id
+ *
+ * Returns a generation job with per-step progress, the final spreadsheet
+ * URL once completed, or the error once failed.
+ *
+ * @route GET /generate/jobs/:id
+ * @group Whitepaper - Whitepaper plan generation operations
+ *
+ * @param {string} id - Job ID returned by POST /generate (path parameter)
+ *
+ * @returns {object} 200 - Job status
+ * @returns {object} 404 - Job not found (or owned by another session)
+ * @returns {object} 500 - Internal server error
+ *
+ * @example
+ * curl http://localhost:8080/generate/jobs/1f0c2d9e-... -b cookies.txt
+ */
+router.get('/jobs/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const job = await jobStore.get(req.params.id as string);
+
+    if (!job || job.ownerId !== req.sessionID) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: `Job not found: ${req.params.id}`,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      job: toJobResponse(job),
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Failed to get job', error instanceof Error ? error : new Error(errorMessage));
+
+    res.status(500).json({
+      success: false,
+      error: 'Internal Server Error',
+      message: errorMessage,
+    });
+  }
+});
+
+/**
+ * GET /generate/jobs/:id/events
+ *
+ * Streams the progress of a generation job as Server-Sent Events.
+ * Events already recorded are replayed first (after `Last-Event-ID` when the
+ * browser reconnects), then live events follow until a `done` or `error`
+ * event ends the stream. The stream also ends right after the replay when
+ * the job has already finished.
+ *
+ * Event types: step, uploaded, ocr_page_done, url_fetched, context_summarized,
+ * llm_started, llm_tokens, duplicates_replaced, plans_revised, sheet_created,
+ * script_bound, moved, done, error
+ *
+ * @route GET /generate/jobs/:id/events
+ * @group Whitepaper - Whitepaper plan generation operations
+ *
+ * @param {string} id - Job ID returned by POST /generate (path parameter)
+ *
+ * @returns {text/event-stream} 200 - Event stream
+ * @returns {object} 404 - Job not found (or owned by another session)
+ *
+ * @example
+ * const source = new EventSource('/generate/jobs/1f0c2d9e-.../events');
+ * source.addEventListener('done', (event) => console.log(JSON.parse(event.data)));
+ */
+router.get('/jobs/:id/events', async (req: Request, res: Response): Promise<void> => {
+  const jobId = req.params.id as string;
+  // Stops the heartbeat and the live subscription once they exist
+  let close = (): void => {};
+
+  try {
+    const job = await jobStore.get(jobId);
+
+    if (!job || job.ownerId !== req.sessionID) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: `Job not found: ${jobId}`,
+      });
+      return;
+    }
+
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+
+    const lastEventId = parseInt(req.get('Last-Event-ID') || '0', 10);
+    let lastSeq = isNaN(lastEventId) ? 0 : lastEventId;
+    let replaying = true;
+    const pending: GenerationEventRecord[] = [];
+
+    const send = (event: GenerationEventRecord): void => {
+      if (event.seq <= lastSeq || res.writableEnded) {
+        return;
       }
+      lastSeq = event.seq;
+      res.write(formatSseEvent(event));
+
+      if (event.type === 'done' || event.type === 'error') {
+        close();
+        res.end();
+      }
+    };
+
+    // Subscribe before replaying so no event falls between the two;
+    // live events are held back until the replay has been written
+    const unsubscribe = jobRunner.subscribe(jobId, (event) => {
+      if (replaying) {
+        pending.push(event);
+      } else {
+        send(event);
+      }
+    });
+
+    // Comment lines keep proxies from closing an idle stream
+    const heartbeat = setInterval(() => {
+      res.write(': heartbeat\n\n');
+    }, 15000);
+
+    close = (): void => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    };
+    req.on('close', close);
+
+    const history = await jobStore.getEvents(jobId, lastSeq);
+    history.forEach(send);
+    replaying = false;
+    pending.forEach(send);
+
+    // A client reconnecting after the final event has nothing left to wait for
+    const current = await jobStore.get(jobId);
+    if (!res.writableEnded && (current?.status === 'completed' || current?.status === 'failed')) {
+      close();
+      res.end();
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Failed to stream job events', error instanceof Error ? error : new Error(errorMessage));
+    close();
+
+    if (!res.headersSent) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal Server Error',
+        message: errorMessage,
+      });
+    } else {
+      res.end();
     }
-  });
+  }
+});
+
+/**
+ * Parses a URL list form field, given as repeated fields or separated by
+ * whitespace
+ *
+ * @param value - Raw form field value
+ * @returns Non-empty URL strings
+ */
+function parseUrlList(value: string | string[] | undefined): string[] {
+  return (Array.isArray(value) ? value : [value ?? ''])
+    .flatMap((entry) => entry.split(/\s+/))
+    .filter((url) => url !== '');
+}
+
+/**
+ * Validates a URL list form field
+ *
+ * @param field - Form field name, used in the message
+ * @param urls - Parsed URLs
+ * @returns Error message, or undefined if the list is valid
+ */
+function validateUrlList(field: string, urls: string[]): string | undefined {
+  if (urls.length > MAX_URLS_PER_SOURCE) {
+    return `${field} accepts at most ${MAX_URLS_PER_SOURCE} URLs`;
+  }
+  const invalid = urls.find((url) => !URL.canParse(url) || !/^https?:$/.test(new URL(url).protocol));
+  return invalid === undefined ? undefined : `${field} must contain http or https URLs: ${invalid}`;
+}
 
-  await Promise.all(deletePromises);
+/**
+ * Formats an event record as a Server-Sent Events message
+ *
+ * @param event - Recorded generation event
+ * @returns SSE message with id, event type and JSON data
+ */
+function formatSseEvent(event: GenerationEventRecord): string {
+  return `id: ${event.seq}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Strips internal fields from a job before returning it to the client
+ *
+ * @param job - Stored generation job
+ * @returns Job without owner information
+ */
+function toJobResponse(job: GenerationJob): Omit<GenerationJob, 'ownerId'> {
+  const { ownerId: _ownerId, ...rest } = job;
+  return rest;
 }
 
 export { router as generateRouter };
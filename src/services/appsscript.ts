@@ -17,11 +17,14 @@ export class AppsScriptService {
 
   /**
    * Create and bind GAS to a spreadsheet
-   * Note: The GAS code calls Backend API for OpenAI processing
+   * Note: The GAS code calls Backend API for OpenAI processing, with the
+   * prompt profile and the output language the sheet was generated with
    */
   async createAndBindScript(
     spreadsheetId: string,
-    backendApiUrl: string
+    backendApiUrl: string,
+    promptProfile = 'default',
+    language = 'ja'
   ): Promise<{ scriptId: string; projectUrl: string }> {
     try {
       console.log(`Creating Apps Script project for spreadsheet ${spreadsheetId}...`);
@@ -32,6 +35,8 @@ export class AppsScriptService {
 
       // Replace placeholder with actual backend API URL
       gasCode = gasCode.replace('BACKEND_URL_PLACEHOLDER', backendApiUrl);
+      gasCode = gasCode.replace('PROMPT_PROFILE_PLACEHOLDER', promptProfile);
+      gasCode = gasCode.replace('LANGUAGE_PLACEHOLDER', language);
 
       // Create container-bound script
       const createResponse = await this.script.projects.create({
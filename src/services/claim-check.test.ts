@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { findUnsupportedClaims } from './claim-check';
+import type { WhitepaperPlan } from '../types/index';
+
+const plan: WhitepaperPlan = {
+  no: 1,
+  タイトル: '営業DXの実践ガイド',
+  目的: '営業部門が案件管理を見直せるようにする。',
+  内容概要: '導入企業１，２００社の傾向を整理する。',
+  感情的ニーズ: '遅れを取りたくない',
+  機能的ニーズ: '工数削減',
+  成果的ニーズ: '売上20%増と商談化率3倍',
+  ニーズ複数: '不安の解消、工数削減、売上20%増',
+  ターゲット: '中堅製造業の営業企画責任者',
+  職種部署: '営業企画部',
+  レベル: '部長',
+  構成: '## 第1章 背景\n### 1-1 市場動向\n## 第2章 事例\n### 2-1 A社の事例\n### 2-2 株式会社サンプル商事の取り組み',
+  コメント: '',
+};
+
+describe('findUnsupportedClaims', () => {
+  it('should flag figures, companies and case studies missing from the sources', () => {
+    const claims = findUnsupportedClaims(plan, { salesText: '導入企業は1,200社。', targetText: '' });
+
+    expect(claims).toEqual([
+      { field: '成果的ニーズ', type: 'number', text: '20%' },
+      { field: '成果的ニーズ', type: 'number', text: '3倍' },
+      { field: 'ニーズ複数', type: 'number', text: '20%' },
+      { field: '構成', type: 'company', text: '株式会社サンプル商事' },
+      { field: '構成', type: 'case', text: 'A社の事例' },
+    ]);
+  });
+
+  it('should accept claims found in the sales or target text', () => {
+    const claims = findUnsupportedClaims(plan, {
+      salesText: '導入企業1200社。A社では売上が２０％増加し、商談化率は3 倍に。',
+      targetText: 'サンプル商事(株)の営業部門',
+    });
+
+    expect(claims).toEqual([]);
+  });
+
+  it('should not match a figure inside a longer number', () => {
+    const claims = findUnsupportedClaims(
+      { ...plan, 成果的ニーズ: '工数0%削減', ニーズ複数: '', 構成: '## 第1章 背景', 内容概要: '' },
+      { salesText: '工数30%削減', targetText: '' }
+    );
+
+    expect(claims).toEqual([{ field: '成果的ニーズ', type: 'number', text: '0%' }]);
+  });
+});
+
+describe('findUnsupportedClaims in English and Chinese', () => {
+  const empty = { ...plan, タイトル: '', 目的: '', 内容概要: '', 成果的ニーズ: '', ニーズ複数: '', 構成: '' };
+
+  it('should flag English figures, companies and case studies missing from the sources', () => {
+    const english: WhitepaperPlan = {
+      ...empty,
+      内容概要: 'Trends across 1,200 companies. Deploys 3x faster and saves $1.5M per year.',
+      成果的ニーズ: 'Cut onboarding from 6 months to 2 weeks',
+      構成: "## Chapter 1 Background\n### 1-1 5 steps\n## Chapter 2 Cases\n### 2-1 Acme's case study\n### 2-2 How Globex Inc. did it",
+    };
+
+    const claims = findUnsupportedClaims(english, { salesText: 'Used by 1200 companies.', targetText: '' }, 'en');
+
+    expect(claims).toEqual([
+      { field: '内容概要', type: 'number', text: '3x' },
+      { field: '内容概要', type: 'number', text: '$1.5M' },
+      { field: '成果的ニーズ', type: 'number', text: '6 months' },
+      { field: '成果的ニーズ', type: 'number', text: '2 weeks' },
+      { field: '構成', type: 'company', text: 'How Globex Inc.' },
+      { field: '構成', type: 'case', text: "Acme's case study" },
+    ]);
+    expect(
+      findUnsupportedClaims(
+        english,
+        {
+          salesText: 'Acme deploys 3X faster and saved $1.5M. Onboarding went from 6 Months to 2 weeks.',
+          targetText: 'Globex, Inc. rolled it out in 1,200 companies',
+        },
+        'en'
+      )
+    ).toEqual([]);
+  });
+
+  it('should flag Chinese figures, companies and case studies missing from the sources', () => {
+    const chinese: WhitepaperPlan = {
+      ...empty,
+      内容概要: '整理500家企业的趋势。',
+      成果的ニーズ: '销售额提升20%，周期缩短2个月',
+      構成: '## 第1章 背景\n### 1-1 与华为技术有限公司合作\n## 第2章 案例\n### 2-1 某公司案例\n### 2-2 介绍腾讯公司的案例',
+    };
+
+    const claims = findUnsupportedClaims(chinese, { salesText: '服务了500家企业。', targetText: '' }, 'zh');
+
+    expect(claims).toEqual([
+      { field: '成果的ニーズ', type: 'number', text: '20%' },
+      { field: '成果的ニーズ', type: 'number', text: '2个月' },
+      { field: '構成', type: 'company', text: '与华为技术有限公司' },
+      { field: '構成', type: 'case', text: '某公司案例' },
+      { field: '構成', type: 'case', text: '介绍腾讯公司的案例' },
+    ]);
+    expect(
+      findUnsupportedClaims(
+        chinese,
+        {
+          salesText: '服务了500家企业，销售额提升２０％，周期缩短2 个月。',
+          targetText: '华为技术有限公司与腾讯公司的合作；某公司的做法',
+        },
+        'zh'
+      )
+    ).toEqual([]);
+  });
+});
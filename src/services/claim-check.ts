@@ -0,0 +1,197 @@
+import { DEFAULT_OUTPUT_LANGUAGE } from './output-language.js';
+import type { OutputLanguage, ParsedContext, UnsupportedClaim, WhitepaperPlan } from '../types/index.js';
+
+type CheckedField = UnsupportedClaim['field'];
+
+/**
+ * Plan fields checked for claims, in sheet column order
+ */
+const CHECKED_FIELDS: readonly CheckedField[] = [
+  'タイトル',
+  '目的',
+  '内容概要',
+  '感情的ニーズ',
+  '機能的ニーズ',
+  '成果的ニーズ',
+  'ニーズ複数',
+  '構成',
+];
+
+/**
+ * Claim patterns of one output language
+ */
+interface ClaimPatterns {
+  /** Figures with a unit; bare numbers such as chapter numbers are not claims */
+  number: RegExp;
+  /** Company names with a legal form */
+  company: RegExp;
+  /** Case-study references; the first defined group is the company name */
+  case: RegExp;
+  /** Legal forms removed before looking a company name up in the sources */
+  legalForm: RegExp;
+  /** Text following a case-study company name in the sources (e.g. 社) */
+  caseSuffix: string;
+  /**
+   * Part of a company or case-study name that must appear in the sources:
+   * the whole name, a trailing run of its words (English names may carry a
+   * capitalized word that starts the sentence) or a trailing run of two or
+   * more characters (Chinese names are not delimited from the words before
+   * them; a company must then be followed by its legal form)
+   */
+  nameMatch: 'whole' | 'words' | 'characters';
+}
+
+/**
+ * Claim patterns by output language
+ *
+ * - ja: `20%`, `3倍`, `1.5億円`, `500社`, `2ヶ月`; `株式会社サンプル`,
+ *   `サンプル(株)` (stopping at hiragana, spaces and punctuation);
+ *   `A社の事例`, `ソニック社での導入事例`
+ * - en: `20%`, `3x`, `$1.5M`, `500 companies`, `2 months`; `Acme Inc.`,
+ *   `Acme Co., Ltd.`; `Acme's case study`, `case study of Company A`
+ * - zh: `20%`, `3倍`, `1.5亿元`, `500家`, `2个月`; `华为技术有限公司`;
+ *   `A公司的案例`, `某公司案例`
+ */
+const CLAIM_PATTERNS: Readonly<Record<OutputLanguage, ClaimPatterns>> = {
+  ja: {
+    number: /(?<![\d.])\d+(?:[.,]\d+)*\s*[万億千]?\s*(?:%|倍|割|円|社|名|人|件|時間|分|日|週間|か月|ヶ月|カ月|ヵ月)/g,
+    company:
+      /(?:株式会社|有限会社|合同会社|\(株\))[^\s\p{Script=Hiragana}、。,「」『』()・/]+|[^\s\p{Script=Hiragana}、。,「」『』()・/#]+?(?:株式会社|有限会社|合同会社|\(株\))/gu,
+    case: /([A-Za-z][A-Za-z0-9&.-]*|\p{Script=Katakana}[\p{Script=Katakana}ー]*)社(?:の|での|における)?(?:導入)?(?:事例|ケース)/gu,
+    legalForm: /株式会社|有限会社|合同会社|\(株\)/g,
+    caseSuffix: '社',
+    nameMatch: 'whole',
+  },
+  en: {
+    number:
+      /[$€£¥]\s?\d+(?:[.,]\d+)*(?:\s?(?:[KMB]|thousand|million|billion)\b)?|(?<![\d.])\d+(?:[.,]\d+)*\s?(?:thousand\s|million\s|billion\s)?(?:%|percent\b|x\b|times\b|(?:compan(?:y|ies)|customers?|clients?|users?|people|employees|businesses|hours?|days?|weeks?|months?)\b)/gi,
+    company:
+      /(?:[A-Z][\w&'-]*\s+){1,3}(?:Inc\b\.?|Corp\b\.?|Corporation\b|Co\.,?\s?Ltd\b\.?|Ltd\b\.?|LLC\b|GmbH\b|PLC\b)/g,
+    case: /((?:Company\s+)?[A-Z][A-Za-z0-9&.-]*)(?:'s)?\s+(?:[Cc]ase\s+[Ss]tud(?:y|ies)|[Ss]uccess\s+[Ss]tor(?:y|ies))|[Cc]ase\s+[Ss]tud(?:y|ies)\s+(?:of|from|at)\s+((?:Company\s+)?[A-Z][A-Za-z0-9&.-]*)/g,
+    legalForm: /,?\s*(?:Inc\b\.?|Corp\b\.?|Corporation\b|Co\.,?\s?Ltd\b\.?|Ltd\b\.?|LLC\b|GmbH\b|PLC\b)/g,
+    caseSuffix: '',
+    nameMatch: 'words',
+  },
+  zh: {
+    number: /(?<![\d.])\d+(?:[.,]\d+)*\s*[万亿千]?\s*(?:%|倍|元|家|名|人|个月|小时|分钟|天|周)/g,
+    company: /[^\s，。、,：:“”「」『』()（）/#]+?(?:股份有限公司|有限责任公司|有限公司)/gu,
+    case: /([A-Za-z][A-Za-z0-9&.-]*|某|\p{Script=Han}{2,6}?)公司(?:的)?(?:导入|应用)?案例/gu,
+    legalForm: /股份有限公司|有限责任公司|有限公司/g,
+    caseSuffix: '公司',
+    nameMatch: 'characters',
+  },
+};
+
+/**
+ * Finds the claims of a plan that the parsed sources do not back
+ *
+ * Three kinds of claims are extracted from the text fields of the plan,
+ * with the patterns of the plan language (see CLAIM_PATTERNS):
+ * - number: figures with a unit, e.g. `売上20%増` or `導入企業500社`
+ * - company: company names with a legal form, e.g. `株式会社サンプル`
+ * - case: case-study references, e.g. `A社の事例`
+ *
+ * A claim is supported if the same figure (with its unit) or company name
+ * appears in the sales or target text, compared after NFKC normalization
+ * and ignoring case, spaces and thousands separators.
+ *
+ * @param plan - Plan to check
+ * @param context - Parsed context with the full sales and target text
+ * @param language - Language the plan is written in (default: ja)
+ * @returns Unsupported claims in field order, each listed once per field
+ *
+ * @example
+ * ```typescript
+ * findUnsupportedClaims(plan, context);
+ * // [{ field: '成果的ニーズ', type: 'number', text: '20%' }]
+ * ```
+ */
+export function findUnsupportedClaims(
+  plan: WhitepaperPlan,
+  context: Pick<ParsedContext, 'salesText' | 'targetText'>,
+  language: OutputLanguage = DEFAULT_OUTPUT_LANGUAGE
+): UnsupportedClaim[] {
+  const patterns = CLAIM_PATTERNS[language];
+  const sources = normalize(`${context.salesText}\n${context.targetText}`);
+
+  return CHECKED_FIELDS.flatMap((field) => {
+    const text = plan[field].normalize('NFKC');
+    const claims: UnsupportedClaim[] = [
+      ...[...text.matchAll(patterns.number)].map((match) => ({
+        field,
+        type: 'number' as const,
+        text: match[0],
+        supported: containsFigure(sources, normalize(match[0])),
+      })),
+      ...[...text.matchAll(patterns.company)].map((match) => {
+        const name = match[0].replace(patterns.legalForm, '');
+        const legalForm = match[0].match(patterns.legalForm)?.[0] ?? '';
+        return {
+          field,
+          type: 'company' as const,
+          text: match[0],
+          supported:
+            sources.includes(normalize(name)) ||
+            mentionsName(sources, name, patterns.nameMatch === 'characters' ? legalForm : '', patterns.nameMatch),
+        };
+      }),
+      ...[...text.matchAll(patterns.case)].map((match) => ({
+        field,
+        type: 'case' as const,
+        text: match[0],
+        supported: mentionsName(sources, match[1] ?? match[2] ?? '', patterns.caseSuffix, patterns.nameMatch),
+      })),
+    ].flatMap(({ supported, ...claim }) => (supported ? [] : [claim]));
+
+    return claims.filter(
+      (claim, index) => claims.findIndex((other) => other.text === claim.text) === index
+    );
+  });
+}
+
+/**
+ * Returns true if the figure appears in the text, not as the tail of a
+ * longer number (`0%` does not match `30%`)
+ */
+function containsFigure(text: string, figure: string): boolean {
+  const escaped = figure.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(?<![\\d.])${escaped}`).test(text);
+}
+
+/**
+ * Returns true if the name, or the trailing part of it allowed by
+ * `nameMatch`, appears in the normalized sources followed by the suffix
+ * (`How Globex` matches `Globex`, `介绍华为` matches `华为公司`); trailing
+ * parts shorter than two characters do not count
+ */
+function mentionsName(
+  sources: string,
+  name: string,
+  suffix: string,
+  nameMatch: ClaimPatterns['nameMatch']
+): boolean {
+  const trimmed = name.trim();
+  const words = trimmed.split(/\s+/);
+  const parts =
+    nameMatch === 'words'
+      ? words.map((_word, index) => words.slice(index).join(' '))
+      : nameMatch === 'characters'
+        ? [...trimmed].map((_char, index) => [...trimmed].slice(index).join(''))
+        : [trimmed];
+
+  return parts
+    .filter((part, index) => index === 0 || [...part].length >= 2)
+    .some((part) => sources.includes(`${normalize(part)}${normalize(suffix)}`));
+}
+
+/**
+ * NFKC-normalizes a text, lowercases it and removes spaces and thousands
+ * separators
+ */
+function normalize(text: string): string {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/(?<=\d),(?=\d{3})/g, '')
+    .replace(/[ \t]+/g, '');
+}
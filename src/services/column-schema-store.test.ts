@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { FileColumnSchemaStore } from './column-schema-store';
+import { DEFAULT_COLUMN_SCHEMA, parseColumnSchema } from './column-schema';
+
+const schema = parseColumnSchema({
+  name: 'agency-a',
+  columns: [{ name: '企画名', description: '30字以内', required: true, field: 'タイトル' }],
+});
+
+describe('FileColumnSchemaStore', () => {
+  let rootDir: string;
+  let store: FileColumnSchemaStore;
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'column-schema-test-'));
+    store = new FileColumnSchemaStore({ rootDir: path.join(rootDir, 'presets') });
+  });
+
+  afterEach(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('should list only the built-in schema before anything is saved', async () => {
+    expect(await store.list()).toEqual([DEFAULT_COLUMN_SCHEMA]);
+    expect(await store.get('default')).toBe(DEFAULT_COLUMN_SCHEMA);
+    expect(await store.get('agency-a')).toBeUndefined();
+  });
+
+  it('should save, read and delete presets', async () => {
+    await store.save(schema);
+
+    expect(await store.get('agency-a')).toEqual(schema);
+    expect((await store.list()).map((preset) => preset.name)).toEqual(['default', 'agency-a']);
+    expect(await store.delete('agency-a')).toBe(true);
+    expect(await store.delete('agency-a')).toBe(false);
+  });
+
+  it('should not replace the built-in schema or read outside the directory', async () => {
+    await expect(store.save({ ...schema, name: 'default' })).rejects.toThrow(
+      'Failed to save column schema: The default schema cannot be replaced'
+    );
+    await expect(store.delete('default')).rejects.toThrow('cannot be deleted');
+    expect(await store.get('../presets/agency-a')).toBeUndefined();
+  });
+
+  it('should skip invalid preset files when listing', async () => {
+    await store.save(schema);
+    const presetDir = path.join(rootDir, 'presets');
+    await fs.writeFile(path.join(presetDir, 'broken.json'), '{"columns":[]}');
+    await fs.writeFile(path.join(presetDir, 'not-json.json'), '{');
+    await fs.writeFile(path.join(presetDir, 'bad name.json'), JSON.stringify(schema));
+    await fs.writeFile(path.join(presetDir, 'default.json'), JSON.stringify(schema));
+
+    expect((await store.list()).map((preset) => preset.name)).toEqual(['default', 'agency-a']);
+  });
+
+  it('should reject an invalid preset file', async () => {
+    await fs.mkdir(path.join(rootDir, 'presets'));
+    await fs.writeFile(path.join(rootDir, 'presets', 'broken.json'), '{"columns":[]}');
+
+    await expect(store.get('broken')).rejects.toThrow(
+      'Failed to read column schema broken: Invalid column schema: columns: Define at least one column'
+    );
+  });
+});
@@ -0,0 +1,226 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  COLUMN_SCHEMA_NAME_PATTERN,
+  DEFAULT_COLUMN_SCHEMA,
+  DEFAULT_COLUMN_SCHEMA_NAME,
+  parseColumnSchema,
+} from './column-schema.js';
+import { Logger } from '../utils/logger.js';
+import type { ColumnSchema } from '../types/index.js';
+
+const logger = new Logger('ColumnSchemaStore');
+
+/**
+ * Default directory of the column schema presets
+ */
+export const DEFAULT_COLUMN_SCHEMA_DIR = '.column-schemas';
+
+/**
+ * Persistence interface for named column schema presets
+ *
+ * The built-in `default` schema is always available and cannot be
+ * replaced.
+ */
+export interface ColumnSchemaStore {
+  list(): Promise<ColumnSchema[]>;
+  get(name: string): Promise<ColumnSchema | undefined>;
+  save(schema: ColumnSchema): Promise<void>;
+  delete(name: string): Promise<boolean>;
+}
+
+/**
+ * FileColumnSchemaStore
+ *
+ * Keeps each preset as `<name>.json` in a directory, so presets survive
+ * restarts and can be checked into a deployment. Files are validated when
+ * read; an invalid file fails the request that reads it, and is skipped (and
+ * logged) when listing.
+ *
+ * @example
+ * ```typescript
+ * const store = new FileColumnSchemaStore({ rootDir: './.column-schemas' });
+ * await store.save(parseColumnSchema(req.body));
+ * const schema = await store.get('agency-a');
+ * ```
+ */
+export class FileColumnSchemaStore implements ColumnSchemaStore {
+  private rootDir: string;
+
+  /**
+   * Creates a new FileColumnSchemaStore instance
+   *
+   * @param config - Directory of the preset files; created on first save
+   * @throws {Error} If root directory is not provided
+   */
+  constructor(config: { rootDir: string }) {
+    if (!config.rootDir) {
+      throw new Error('Root directory is required');
+    }
+
+    this.rootDir = path.resolve(config.rootDir);
+  }
+
+  /**
+   * Lists the built-in schema and the stored presets, sorted by name
+   *
+   * Files whose name is not a valid preset name and presets that fail to
+   * parse or validate are skipped, so one bad file does not hide the others.
+   *
+   * @returns Schemas, `default` first
+   * @throws {Error} If the directory cannot be read
+   */
+  async list(): Promise<ColumnSchema[]> {
+    try {
+      let fileNames: string[] = [];
+      try {
+        fileNames = await fs.readdir(this.rootDir);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw error;
+        }
+      }
+
+      const presets = await Promise.all(
+        fileNames
+          .filter((fileName) => fileName.endsWith('.json'))
+          .map((fileName) => fileName.slice(0, -'.json'.length))
+          .filter(
+            (name) => COLUMN_SCHEMA_NAME_PATTERN.test(name) && name !== DEFAULT_COLUMN_SCHEMA_NAME
+          )
+          .sort()
+          .map((name) =>
+            this.read(name).catch((error: unknown) => {
+              const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+              logger.warn(`Skipping invalid column schema ${name}: ${errorMessage}`);
+              return undefined;
+            })
+          )
+      );
+      return [
+        DEFAULT_COLUMN_SCHEMA,
+        ...presets.filter((schema): schema is ColumnSchema => schema !== undefined),
+      ];
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Failed to list column schemas: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Reads a preset by name
+   *
+   * @param name - Preset name (`default` for the built-in schema)
+   * @returns The schema, or undefined if there is no such preset (or the
+   *   name is not a valid preset name)
+   * @throws {Error} If the preset file is invalid
+   */
+  async get(name: string): Promise<ColumnSchema | undefined> {
+    if (name === DEFAULT_COLUMN_SCHEMA_NAME) {
+      return DEFAULT_COLUMN_SCHEMA;
+    }
+    if (!COLUMN_SCHEMA_NAME_PATTERN.test(name)) {
+      return undefined;
+    }
+    try {
+      return await this.read(name);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Failed to read column schema ${name}: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Creates or replaces a preset
+   *
+   * @param schema - Validated schema (see `parseColumnSchema`)
+   * @throws {Error} If the name is `default` or the file cannot be written
+   */
+  async save(schema: ColumnSchema): Promise<void> {
+    try {
+      if (schema.name === DEFAULT_COLUMN_SCHEMA_NAME) {
+        throw new Error(`The ${DEFAULT_COLUMN_SCHEMA_NAME} schema cannot be replaced`);
+      }
+
+      await fs.mkdir(this.rootDir, { recursive: true });
+      await fs.writeFile(this.filePath(schema.name), `${JSON.stringify(schema, null, 2)}\n`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Failed to save column schema: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Deletes a preset
+   *
+   * @param name - Preset name
+   * @returns True if the preset existed
+   * @throws {Error} If the name is `default` or the file cannot be removed
+   */
+  async delete(name: string): Promise<boolean> {
+    try {
+      if (name === DEFAULT_COLUMN_SCHEMA_NAME) {
+        throw new Error(`The ${DEFAULT_COLUMN_SCHEMA_NAME} schema cannot be deleted`);
+      }
+      if (!COLUMN_SCHEMA_NAME_PATTERN.test(name)) {
+        return false;
+      }
+
+      await fs.rm(this.filePath(name));
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return false;
+      }
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Failed to delete column schema: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Reads and validates a preset file, or returns undefined if it is missing
+   * @private
+   */
+  private async read(name: string): Promise<ColumnSchema | undefined> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath(name), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+    return parseColumnSchema({ ...JSON.parse(content), name });
+  }
+
+  /**
+   * Returns the file of a preset, rejecting names that are not plain file
+   * names
+   * @private
+   */
+  private filePath(name: string): string {
+    if (!COLUMN_SCHEMA_NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid column schema name: ${name}`);
+    }
+    return path.join(this.rootDir, `${name}.json`);
+  }
+}
+
+/**
+ * Creates the column schema store configured by environment variables
+ *
+ * Presets are kept under `COLUMN_SCHEMA_DIR` (default: `.column-schemas`).
+ *
+ * @returns Column schema store instance
+ *
+ * @example
+ * ```typescript
+ * const schema = await createColumnSchemaStore().get('agency-a');
+ * ```
+ */
+export function createColumnSchemaStore(): ColumnSchemaStore {
+  return new FileColumnSchemaStore({
+    rootDir: process.env.COLUMN_SCHEMA_DIR || DEFAULT_COLUMN_SCHEMA_DIR,
+  });
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_COLUMN_SCHEMA,
+  localizeDefaultColumnSchema,
+  parseColumnSchema,
+  planColumnValues,
+  planFromColumns,
+} from './column-schema';
+
+const agencySchema = {
+  name: 'agency-a',
+  columns: [
+    { name: '企画名', description: '30字以内', required: true, field: 'タイトル' },
+    { name: '想定CTA', description: '読了後に促す行動', example: '無料相談' },
+    { name: '想定ページ数', type: 'number' },
+  ],
+};
+
+describe('parseColumnSchema', () => {
+  it('should apply defaults to the columns', () => {
+    const schema = parseColumnSchema(agencySchema);
+
+    expect(schema.columns[1]).toEqual({
+      name: '想定CTA',
+      description: '読了後に促す行動',
+      required: false,
+      type: 'text',
+      example: '無料相談',
+    });
+    expect(schema.columns[2]).toMatchObject({ description: '', type: 'number' });
+  });
+
+  it('should accept the built-in schema', () => {
+    expect(parseColumnSchema(DEFAULT_COLUMN_SCHEMA)).toEqual(DEFAULT_COLUMN_SCHEMA);
+  });
+
+  it('should list every problem', () => {
+    expect(() =>
+      parseColumnSchema({
+        name: '../agency',
+        columns: [
+          { name: '企画名', field: 'タイトル' },
+          { name: '企画名', field: 'タイトル' },
+          { name: '出典' },
+        ],
+      })
+    ).toThrow(
+      /^Invalid column schema: name: .+; columns\.1\.name: Column name "企画名" is used more than once; columns\.1\.field: .+; columns\.2\.name: Column name "出典" is reserved$/
+    );
+  });
+});
+
+describe('localizeDefaultColumnSchema', () => {
+  it('should localize the built-in columns and keep their fields', () => {
+    const { name, columns } = localizeDefaultColumnSchema('en');
+
+    expect(name).toBe('default');
+    expect(columns.map((column) => column.name).slice(0, 4)).toEqual(['No', 'Title', 'Purpose', 'Summary']);
+    expect(columns.map((column) => column.field)).toEqual(
+      DEFAULT_COLUMN_SCHEMA.columns.map((column) => column.field)
+    );
+    expect(columns[1]).toMatchObject({ required: true, type: 'text' });
+    expect(localizeDefaultColumnSchema('zh').columns[1]?.name).toBe('标题');
+    expect(localizeDefaultColumnSchema('ja')).toBe(DEFAULT_COLUMN_SCHEMA);
+  });
+
+  it('should map localized plan output back to the plan fields', () => {
+    const { columns } = localizeDefaultColumnSchema('en');
+
+    expect(
+      planFromColumns({ No: 1, Title: 'CRM Buyer Guide', 'Role / Department': 'Sales' }, columns, 0)
+    ).toMatchObject({ タイトル: 'CRM Buyer Guide', 職種部署: 'Sales' });
+  });
+
+  it('should reserve the analysis columns of every language', () => {
+    expect(() =>
+      parseColumnSchema({ name: 'agency-en', columns: [{ name: 'Sources' }] })
+    ).toThrow(/columns\.0\.name: Column name "Sources" is reserved/);
+  });
+});
+
+describe('planFromColumns / planColumnValues', () => {
+  const { columns } = parseColumnSchema(agencySchema);
+
+  it('should map columns to plan fields and keep the rest in 追加列', () => {
+    const plan = planFromColumns({ 企画名: 'SFA比較ガイド', 想定CTA: '無料相談', 想定ページ数: 12 }, columns, 1);
+
+    expect(plan).toMatchObject({
+      no: 2,
+      タイトル: 'SFA比較ガイド',
+      目的: '',
+      構成: '',
+      追加列: { 想定CTA: '無料相談', 想定ページ数: '12' },
+    });
+    expect(planColumnValues(plan, columns)).toEqual(['SFA比較ガイド', '無料相談', '12']);
+  });
+
+  it('should read the built-in columns from a plan', () => {
+    const plan = planFromColumns(
+      { No: 3, タイトル: 'T', '内容（概要）': '概要', '職種／部署': '営業部', コメント: '' },
+      DEFAULT_COLUMN_SCHEMA.columns,
+      0
+    );
+
+    expect(plan).toMatchObject({ no: 3, 内容概要: '概要', 職種部署: '営業部' });
+    expect(plan.追加列).toBeUndefined();
+    expect(planColumnValues(plan, DEFAULT_COLUMN_SCHEMA.columns).slice(0, 4)).toEqual([
+      '3',
+      'T',
+      '',
+      '概要',
+    ]);
+  });
+});
@@ -0,0 +1,401 @@
+import { z } from 'zod';
+import type {
+  ColumnDefinition,
+  ColumnSchema,
+  OutputLanguage,
+  PlanField,
+  WhitepaperPlan,
+} from '../types/index.js';
+
+/**
+ * Name of the built-in column schema
+ */
+export const DEFAULT_COLUMN_SCHEMA_NAME = 'default';
+
+/**
+ * Valid preset names; they are also used as file names
+ */
+export const COLUMN_SCHEMA_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/;
+
+/**
+ * The built-in 13-column layout (agent-requirements.md Section 3)
+ */
+export const DEFAULT_COLUMN_SCHEMA: ColumnSchema = {
+  name: DEFAULT_COLUMN_SCHEMA_NAME,
+  columns: [
+    { name: 'No', description: '1 からの連番', required: false, type: 'number', field: 'no' },
+    {
+      name: 'タイトル',
+      description: '具体的で魅力的なタイトル',
+      required: true,
+      type: 'text',
+      field: 'タイトル',
+    },
+    { name: '目的', description: '1-2文で明確に', required: true, type: 'text', field: '目的' },
+    {
+      name: '内容（概要）',
+      description: '詳細で実行可能な概要（3-5文）',
+      required: true,
+      type: 'text',
+      field: '内容概要',
+    },
+    {
+      name: '感情的ニーズ',
+      description: '読者が抱える不安や願望',
+      required: true,
+      type: 'text',
+      example: '「遅れを取りたくない」「安心したい」',
+      field: '感情的ニーズ',
+    },
+    {
+      name: '機能的ニーズ',
+      description: '具体的な機能要求',
+      required: true,
+      type: 'text',
+      example: '「工数削減」「可視化」',
+      field: '機能的ニーズ',
+    },
+    {
+      name: '成果的ニーズ',
+      description: '達成したい成果',
+      required: true,
+      type: 'text',
+      example: '「売上20%増」「離職率低減」',
+      field: '成果的ニーズ',
+    },
+    {
+      name: 'ニーズ（複数）',
+      description: '上記3つを簡潔にまとめたもの',
+      required: true,
+      type: 'text',
+      field: 'ニーズ複数',
+    },
+    {
+      name: 'ターゲット',
+      description: '業種・企業規模・役職まで具体的に',
+      required: true,
+      type: 'text',
+      example: '中堅SaaS企業のIT部門責任者',
+      field: 'ターゲット',
+    },
+    {
+      name: '職種／部署',
+      description: '読者の職種・部署',
+      required: true,
+      type: 'text',
+      example: '情報システム部',
+      field: '職種部署',
+    },
+    {
+      name: 'レベル',
+      description: '読者の役職レベル',
+      required: true,
+      type: 'text',
+      example: '課長',
+      field: 'レベル',
+    },
+    {
+      name: '構成',
+      description: 'H2/H3 で章立て',
+      required: true,
+      type: 'markdown',
+      example: '## 第1章 背景と課題 ### 1-1 市場動向',
+      field: '構成',
+    },
+    {
+      name: 'コメント',
+      description: 'クライアントのコメント欄。空文字列で生成',
+      required: false,
+      type: 'text',
+      field: 'コメント',
+    },
+  ],
+};
+
+/**
+ * Names, descriptions and examples of the built-in columns in the other
+ * output languages, by plan field
+ */
+const LOCALIZED_DEFAULT_COLUMNS: Readonly<
+  Record<
+    Exclude<OutputLanguage, 'ja'>,
+    Record<PlanField, Pick<ColumnDefinition, 'name' | 'description' | 'example'>>
+  >
+> = {
+  en: {
+    no: { name: 'No', description: 'Sequential number from 1' },
+    タイトル: { name: 'Title', description: 'A specific, compelling title' },
+    目的: { name: 'Purpose', description: 'Clearly, in 1-2 sentences' },
+    内容概要: { name: 'Summary', description: 'A detailed, actionable summary (3-5 sentences)' },
+    感情的ニーズ: {
+      name: 'Emotional Needs',
+      description: 'Worries and aspirations of the reader',
+      example: '"Not falling behind", "Peace of mind"',
+    },
+    機能的ニーズ: {
+      name: 'Functional Needs',
+      description: 'Specific functional requirements',
+      example: '"Fewer man-hours", "Visibility"',
+    },
+    成果的ニーズ: {
+      name: 'Outcome Needs',
+      description: 'Results the reader wants to achieve',
+      example: '"20% more revenue", "Lower turnover"',
+    },
+    ニーズ複数: { name: 'Needs', description: 'A short summary of the three needs above' },
+    ターゲット: {
+      name: 'Target',
+      description: 'Specific down to industry, company size and role',
+      example: 'Head of IT at a mid-sized SaaS company',
+    },
+    職種部署: {
+      name: 'Role / Department',
+      description: 'Role or department of the reader',
+      example: 'IT department',
+    },
+    レベル: { name: 'Level', description: 'Seniority of the reader', example: 'Manager' },
+    構成: {
+      name: 'Structure',
+      description: 'Chapters as H2/H3 headings',
+      example: '## Chapter 1 Background and Challenges ### 1-1 Market Trends',
+    },
+    コメント: {
+      name: 'Comment',
+      description: 'Comment field for the client. Generate an empty string',
+    },
+  },
+  zh: {
+    no: { name: 'No', description: '从 1 开始的序号' },
+    タイトル: { name: '标题', description: '具体且有吸引力的标题' },
+    目的: { name: '目的', description: '用1-2句话明确说明' },
+    内容概要: { name: '内容概要', description: '详细且可执行的概要（3-5句）' },
+    感情的ニーズ: {
+      name: '情感需求',
+      description: '读者的担忧与期望',
+      example: '「不想落后」「希望安心」',
+    },
+    機能的ニーズ: {
+      name: '功能需求',
+      description: '具体的功能要求',
+      example: '「减少工时」「可视化」',
+    },
+    成果的ニーズ: {
+      name: '成果需求',
+      description: '希望达成的成果',
+      example: '「销售额增长20%」「降低离职率」',
+    },
+    ニーズ複数: { name: '需求汇总', description: '简要概括以上三种需求' },
+    ターゲット: {
+      name: '目标读者',
+      description: '具体到行业、企业规模和职位',
+      example: '中型SaaS企业的IT部门负责人',
+    },
+    職種部署: { name: '职能／部门', description: '读者的职能或部门', example: '信息系统部' },
+    レベル: { name: '职级', description: '读者的职级', example: '科长' },
+    構成: {
+      name: '结构',
+      description: '用 H2/H3 划分章节',
+      example: '## 第1章 背景与课题 ### 1-1 市场动向',
+    },
+    コメント: { name: '备注', description: '客户备注栏。生成空字符串' },
+  },
+};
+
+/**
+ * Headers of the columns the sheet adds after generation, and of the
+ * comment column when the schema has none
+ */
+export const ANALYSIS_COLUMN_LABELS: Readonly<
+  Record<OutputLanguage, { keywords: string; score: string; sources: string; comment: string }>
+> = {
+  ja: { keywords: '対象キーワード', score: '品質スコア', sources: '出典', comment: 'コメント' },
+  en: { keywords: 'Target Keywords', score: 'Quality Score', sources: 'Sources', comment: 'Comment' },
+  zh: { keywords: '目标关键词', score: '质量评分', sources: '出处', comment: '备注' },
+};
+
+/**
+ * Columns the sheet adds after generation; a schema cannot define them
+ */
+export const RESERVED_COLUMN_NAMES: readonly string[] = Object.values(
+  ANALYSIS_COLUMN_LABELS
+).flatMap(({ keywords, score, sources }) => [keywords, score, sources]);
+
+/**
+ * Returns the built-in column schema in an output language
+ *
+ * The columns keep their plan fields, so plans generated with localized
+ * headers map back to the same fields.
+ *
+ * @param language - Output language
+ * @returns The built-in schema with localized names, descriptions and examples
+ */
+export function localizeDefaultColumnSchema(language: OutputLanguage): ColumnSchema {
+  if (language === 'ja') {
+    return DEFAULT_COLUMN_SCHEMA;
+  }
+
+  const localized = LOCALIZED_DEFAULT_COLUMNS[language];
+  return {
+    name: DEFAULT_COLUMN_SCHEMA_NAME,
+    columns: DEFAULT_COLUMN_SCHEMA.columns.map(({ example: _example, ...column }) => ({
+      ...column,
+      ...localized[column.field!],
+    })),
+  };
+}
+
+const PLAN_FIELDS = [
+  'no',
+  'タイトル',
+  '目的',
+  '内容概要',
+  '感情的ニーズ',
+  '機能的ニーズ',
+  '成果的ニーズ',
+  'ニーズ複数',
+  'ターゲット',
+  '職種部署',
+  'レベル',
+  '構成',
+  'コメント',
+] as const satisfies readonly PlanField[];
+
+/**
+ * Schema of a user-defined column schema (request bodies and preset files)
+ *
+ * Column schemas do not belong to an output language, so the messages are
+ * in English like the rest of the API errors.
+ */
+export const columnSchemaSchema = z
+  .object({
+    name: z
+      .string()
+      .regex(COLUMN_SCHEMA_NAME_PATTERN, 'Use up to 64 letters, digits, hyphens and underscores'),
+    columns: z
+      .array(
+        z.object({
+          name: z.string().trim().min(1, 'Must not be empty').max(50),
+          description: z.string().trim().default(''),
+          required: z.boolean().default(false),
+          type: z.enum(['text', 'markdown', 'number']).default('text'),
+          example: z.string().trim().optional(),
+          field: z.enum(PLAN_FIELDS).optional(),
+        })
+      )
+      .min(1, 'Define at least one column')
+      .max(40, 'Define at most 40 columns'),
+  })
+  .superRefine((schema, ctx) => {
+    schema.columns.forEach((column, index) => {
+      const issue = (message: string, key: string): void =>
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['columns', index, key], message });
+
+      if (schema.columns.findIndex((other) => other.name === column.name) !== index) {
+        issue(`Column name "${column.name}" is used more than once`, 'name');
+      }
+      if (RESERVED_COLUMN_NAMES.includes(column.name)) {
+        issue(`Column name "${column.name}" is reserved`, 'name');
+      }
+      if (
+        column.field &&
+        schema.columns.findIndex((other) => other.field === column.field) !== index
+      ) {
+        issue(`Field "${column.field}" is mapped to more than one column`, 'field');
+      }
+      if (column.field === 'no' && column.type !== 'number') {
+        issue('The column mapped to field "no" must have type: number', 'type');
+      }
+    });
+  });
+
+/**
+ * Validates a user-defined column schema
+ *
+ * @param value - Parsed JSON of the schema
+ * @returns The schema with defaults applied (`required: false`, `type: 'text'`)
+ * @throws {Error} If the schema is invalid, listing every problem
+ *
+ * @example
+ * ```typescript
+ * const schema = parseColumnSchema({
+ *   name: 'agency-a',
+ *   columns: [
+ *     { name: '企画名', description: '30字以内', required: true, field: 'タイトル' },
+ *     { name: '想定CTA', description: '読了後に促す行動', example: '無料相談' },
+ *   ],
+ * });
+ * ```
+ */
+export function parseColumnSchema(value: unknown): ColumnSchema {
+  const result = columnSchemaSchema.safeParse(value);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid column schema: ${issues}`);
+  }
+  return result.data;
+}
+
+/**
+ * Builds a plan from one validated LLM output item
+ *
+ * Mapped columns fill their plan field; fields without a column are left
+ * empty. Columns without a field are kept in `追加列`.
+ *
+ * @param item - Validated output item, keyed by column name
+ * @param columns - Columns of the schema
+ * @param index - 0-based position of the item, used when it has no number
+ * @returns The plan, without generation metadata such as keywords
+ */
+export function planFromColumns(
+  item: Record<string, unknown>,
+  columns: ColumnDefinition[],
+  index: number
+): WhitepaperPlan {
+  const plan: WhitepaperPlan = {
+    no: index + 1,
+    タイトル: '',
+    目的: '',
+    内容概要: '',
+    感情的ニーズ: '',
+    機能的ニーズ: '',
+    成果的ニーズ: '',
+    ニーズ複数: '',
+    ターゲット: '',
+    職種部署: '',
+    レベル: '',
+    構成: '',
+    コメント: '',
+  };
+  const extra: Record<string, string> = {};
+
+  for (const column of columns) {
+    const value = item[column.name];
+    if (column.field === 'no') {
+      plan.no = typeof value === 'number' && value > 0 ? value : index + 1;
+    } else if (column.field) {
+      plan[column.field] = value === undefined ? '' : String(value);
+    } else {
+      extra[column.name] = value === undefined ? '' : String(value);
+    }
+  }
+
+  return Object.keys(extra).length > 0 ? { ...plan, 追加列: extra } : plan;
+}
+
+/**
+ * Reads the value of each column from a plan
+ *
+ * @param plan - Plan to read
+ * @param columns - Columns of the schema
+ * @returns Values in column order
+ */
+export function planColumnValues(plan: WhitepaperPlan, columns: ColumnDefinition[]): string[] {
+  return columns.map((column) => {
+    if (column.field === 'no') {
+      return plan.no.toString();
+    }
+    return column.field ? plan[column.field] : plan.追加列?.[column.name] ?? '';
+  });
+}
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi } from 'vitest';
+import { FakeLLMProvider } from './llm-provider';
+import { estimateTokens, exceedsContextBudget, fitContextToBudget } from './context-budget';
+import type { ParsedContext } from '../types/index';
+
+/**
+ * Builds a text of `lines` lines with about 50 tokens each
+ */
+function longText(lines: number, word = '営業支援ツールの導入効果') {
+  return Array.from({ length: lines }, (_, index) => `${index + 1}. ${word.repeat(4)}`).join('\n');
+}
+
+describe('estimateTokens', () => {
+  it('should count CJK characters as one token and others as a quarter', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('営業DX')).toBe(3);
+    expect(estimateTokens('sales enablement')).toBe(4);
+    expect(estimateTokens('ＡＩ、営業')).toBe(5);
+  });
+});
+
+describe('fitContextToBudget', () => {
+  const context: ParsedContext = { salesText: '', targetText: '短いターゲット情報', keywords: [] };
+
+  it('should return the context unchanged when it fits', async () => {
+    const provider = new FakeLLMProvider([]);
+
+    const fitted = await fitContextToBudget(context, { provider, maxSourceTokens: 1000 });
+
+    expect(fitted).toBe(context);
+    expect(exceedsContextBudget(context, 1000)).toBe(false);
+    expect(provider.requests).toHaveLength(0);
+  });
+
+  it('should summarize an oversized source chunk by chunk', async () => {
+    const provider = new FakeLLMProvider((request) => `要約: ${request.messages[0]!.content.slice(0, 20)}`);
+    const onEvent = vi.fn();
+    const salesText = longText(100);
+
+    const fitted = await fitContextToBudget(
+      { ...context, salesText },
+      { provider, maxSourceTokens: 2000, chunkTokens: 1000 },
+      onEvent
+    );
+
+    expect(exceedsContextBudget({ ...context, salesText }, 2000)).toBe(true);
+    expect(provider.requests.length).toBeGreaterThan(1);
+    expect(provider.requests[0]!.system).toContain('数値（金額・割合・件数・期間）、製品名');
+    expect(provider.requests[0]!.system).toContain('長い営業資料の一部（1/');
+    expect(fitted.salesText).toMatch(/^要約: 1\. 営業支援/);
+    expect(fitted.targetText).toBe(context.targetText);
+    expect(fitted.summarizedSources).toEqual([
+      {
+        source: 'sales',
+        originalTokens: estimateTokens(salesText),
+        summaryTokens: estimateTokens(fitted.salesText),
+        chunks: provider.requests.length,
+        truncated: false,
+      },
+    ]);
+    expect(onEvent).toHaveBeenCalledWith({
+      type: 'context_summarized',
+      source: 'sales',
+      originalTokens: estimateTokens(salesText),
+      summaryTokens: estimateTokens(fitted.salesText),
+    });
+  });
+
+  it('should write the summarization prompt in the output language', async () => {
+    for (const language of ['en', 'zh'] as const) {
+      const provider = new FakeLLMProvider(() => 'summary');
+
+      await fitContextToBudget(
+        { ...context, salesText: longText(100, 'sales enablement results ') },
+        { provider, maxSourceTokens: 200, chunkTokens: 1000, language }
+      );
+
+      expect(provider.requests.length).toBeGreaterThan(0);
+      // Kana only appears in Japanese text
+      expect(provider.requests.map((request) => request.system).join('\n')).not.toMatch(/[ぁ-ゖァ-ヺ]/);
+    }
+  });
+
+  it('should summarize the summaries again while still over budget', async () => {
+    const provider = new FakeLLMProvider((request) => {
+      const content = request.messages[0]!.content;
+      return content.slice(0, content.length / 4);
+    });
+
+    const fitted = await fitContextToBudget(
+      { ...context, salesText: longText(200) },
+      { provider, maxSourceTokens: 600, chunkTokens: 1000 }
+    );
+
+    const firstRound = fitted.summarizedSources![0]!.chunks;
+    expect(provider.requests.length).toBeGreaterThan(firstRound);
+    expect(estimateTokens(fitted.salesText)).toBeLessThanOrEqual(600);
+    expect(fitted.summarizedSources![0]!.truncated).toBe(false);
+  });
+
+  it('should split the budget between sources and truncate when summaries do not shrink', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const provider = new FakeLLMProvider(() => '');
+
+    const fitted = await fitContextToBudget(
+      { ...context, salesText: longText(40), targetText: longText(40, '製造業の情報システム部門') },
+      { provider, maxSourceTokens: 1000, chunkTokens: 500 }
+    );
+
+    expect(estimateTokens(fitted.salesText)).toBeLessThanOrEqual(500);
+    expect(estimateTokens(fitted.targetText)).toBeLessThanOrEqual(500);
+    expect(fitted.salesText).toMatch(/^1\. 営業支援/);
+    expect(fitted.summarizedSources?.map(({ source, truncated }) => ({ source, truncated }))).toEqual([
+      { source: 'sales', truncated: true },
+      { source: 'target', truncated: true },
+    ]);
+  });
+});
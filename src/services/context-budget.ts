@@ -0,0 +1,337 @@
+import type { LLMProvider } from './llm-provider.js';
+import { DEFAULT_OUTPUT_LANGUAGE } from './output-language.js';
+import { renderTemplate, SOURCE_PROMPTS } from './prompt-templates.js';
+import { sourceText } from './source-passages.js';
+import { Logger } from '../utils/logger.js';
+import type {
+  GenerationEvent,
+  OutputLanguage,
+  ParsedContext,
+  SummarizedSource,
+} from '../types/index.js';
+
+const logger = new Logger('ContextBudget');
+
+/**
+ * Default token budget for the sales and target text of one prompt combined
+ */
+export const DEFAULT_MAX_SOURCE_TOKENS = 30_000;
+
+/**
+ * Default size of the chunks summarized in one request
+ */
+export const DEFAULT_SUMMARY_CHUNK_TOKENS = 8_000;
+
+/**
+ * Maximum map-reduce rounds before the remaining text is truncated
+ */
+const MAX_SUMMARY_ROUNDS = 3;
+
+/**
+ * Summaries are asked to be at least this long, however many chunks share
+ * the budget
+ */
+const MIN_CHUNK_SUMMARY_TOKENS = 200;
+
+/**
+ * Characters counted as one token each: CJK punctuation, kana, kanji and
+ * full-width forms
+ */
+const CJK_CHAR = /[\u3000-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uff00-\uffef]/;
+
+/**
+ * Options for fitting a context into the token budget
+ */
+export interface ContextBudgetOptions {
+  /** Provider used for summarization */
+  provider: LLMProvider;
+  /** Token budget for the sales and target text combined (default: 30000) */
+  maxSourceTokens?: number;
+  /** Tokens per summarized chunk (default: 8000) */
+  chunkTokens?: number;
+  /** Maximum tokens of each summary response (default: 4096) */
+  maxTokens?: number;
+  /** Language of the summarization prompt (default: ja) */
+  language?: OutputLanguage;
+}
+
+/**
+ * Estimates the number of tokens of a text
+ *
+ * A tokenizer-free approximation for budgeting: each CJK character counts as
+ * one token and other characters as a quarter token, which errs on the high
+ * side for Japanese with current OpenAI and Anthropic tokenizers.
+ *
+ * @param text - Text to measure
+ * @returns Estimated token count
+ *
+ * @example
+ * ```typescript
+ * estimateTokens('営業DX'); // 3 (営, 業 and "DX" rounded up)
+ * ```
+ */
+export function estimateTokens(text: string): number {
+  let cjk = 0;
+  for (const char of text) {
+    if (CJK_CHAR.test(char)) {
+      cjk++;
+    }
+  }
+  return cjk + Math.ceil((text.length - cjk) / 4);
+}
+
+/**
+ * Returns true if the sales and target text exceed the token budget
+ *
+ * @param context - Parsed context
+ * @param maxSourceTokens - Token budget for both texts (default: 30000)
+ * @returns Whether `fitContextToBudget` would summarize anything
+ */
+export function exceedsContextBudget(
+  context: ParsedContext,
+  maxSourceTokens = DEFAULT_MAX_SOURCE_TOKENS
+): boolean {
+  return (
+    estimateTokens(sourceText(context, 'sales')) + estimateTokens(sourceText(context, 'target')) >
+    maxSourceTokens
+  );
+}
+
+/**
+ * Shrinks the sales and target text of a context to the token budget
+ *
+ * Each source gets half of the budget plus whatever the other source leaves
+ * unused. A source over its share is summarized map-reduce style: it is
+ * split into chunks at line boundaries, each chunk is summarized keeping
+ * figures, product names and case studies, and the joined summaries are
+ * summarized again while still over the share (at most 3 rounds). Chunks
+ * whose summary fails keep their text, and text still over the share after
+ * the last round is truncated. Sources split into passages are summarized
+ * with their passage ids, which the summaries keep so plans can still cite
+ * them.
+ *
+ * @param context - Parsed context
+ * @param options - Summarization provider and budget
+ * @param onEvent - Optional listener for `context_summarized` events
+ * @returns The context with shortened texts and `summarizedSources` set,
+ *   or the context itself when it fits
+ *
+ * @example
+ * ```typescript
+ * const fitted = await fitContextToBudget(context, { provider, maxSourceTokens: 20000 });
+ * // fitted.summarizedSources: [{ source: 'sales', originalTokens: 84000, summaryTokens: 14500, ... }]
+ * ```
+ */
+export async function fitContextToBudget(
+  context: ParsedContext,
+  options: ContextBudgetOptions,
+  onEvent?: (event: GenerationEvent) => void
+): Promise<ParsedContext> {
+  const maxSourceTokens = options.maxSourceTokens ?? DEFAULT_MAX_SOURCE_TOKENS;
+  const texts = {
+    sales: sourceText(context, 'sales'),
+    target: sourceText(context, 'target'),
+  };
+  const tokens = {
+    sales: estimateTokens(texts.sales),
+    target: estimateTokens(texts.target),
+  };
+  if (tokens.sales + tokens.target <= maxSourceTokens) {
+    return context;
+  }
+
+  const half = Math.floor(maxSourceTokens / 2);
+  const budgets = {
+    sales: Math.max(half, maxSourceTokens - tokens.target),
+    target: Math.max(half, maxSourceTokens - tokens.sales),
+  };
+
+  const fitted = { ...context };
+  const summarizedSources: SummarizedSource[] = [...(context.summarizedSources ?? [])];
+
+  for (const source of ['sales', 'target'] as const) {
+    if (tokens[source] <= budgets[source]) {
+      continue;
+    }
+
+    const textKey = source === 'sales' ? 'salesText' : 'targetText';
+    const summary = await summarizeSource(texts[source], source, budgets[source], options);
+    fitted[textKey] = summary.text;
+
+    const summarized: SummarizedSource = {
+      source,
+      originalTokens: tokens[source],
+      summaryTokens: estimateTokens(summary.text),
+      chunks: summary.chunks,
+      truncated: summary.truncated,
+    };
+    summarizedSources.push(summarized);
+    logger.info(`Summarized ${source} text to fit the token budget`, summarized);
+    onEvent?.({
+      type: 'context_summarized',
+      source,
+      originalTokens: summarized.originalTokens,
+      summaryTokens: summarized.summaryTokens,
+    });
+  }
+
+  return { ...fitted, summarizedSources };
+}
+
+/**
+ * Summarizes a text chunk by chunk until it fits `budget` tokens, then
+ * truncates what is still over
+ */
+async function summarizeSource(
+  text: string,
+  source: 'sales' | 'target',
+  budget: number,
+  options: ContextBudgetOptions
+): Promise<{ text: string; chunks: number; truncated: boolean }> {
+  const chunkTokens = options.chunkTokens && options.chunkTokens > 0
+    ? options.chunkTokens
+    : DEFAULT_SUMMARY_CHUNK_TOKENS;
+  let current = text;
+  let firstRoundChunks = 0;
+
+  for (let round = 1; round <= MAX_SUMMARY_ROUNDS; round++) {
+    const currentTokens = estimateTokens(current);
+    if (currentTokens <= budget) {
+      break;
+    }
+
+    const chunks = splitIntoChunks(current, chunkTokens);
+    firstRoundChunks ||= chunks.length;
+    const targetTokens = Math.max(Math.floor(budget / chunks.length), MIN_CHUNK_SUMMARY_TOKENS);
+
+    const summaries: string[] = [];
+    for (const [index, chunk] of chunks.entries()) {
+      try {
+        summaries.push(
+          await summarizeChunk(options.provider, chunk, {
+            source,
+            position: `${index + 1}/${chunks.length}`,
+            targetTokens,
+            maxTokens: options.maxTokens,
+            language: options.language,
+          })
+        );
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.warn(
+          `Could not summarize ${source} chunk ${index + 1}/${chunks.length}, keeping its text: ${errorMessage}`
+        );
+        summaries.push(chunk);
+      }
+    }
+
+    const next = summaries.join('\n\n');
+    if (estimateTokens(next) >= currentTokens) {
+      // Summaries are not getting shorter; further rounds would not help
+      current = next;
+      break;
+    }
+    current = next;
+  }
+
+  const truncated = estimateTokens(current) > budget;
+  return {
+    text: truncated ? truncateToTokens(current, budget) : current,
+    chunks: firstRoundChunks,
+    truncated,
+  };
+}
+
+/**
+ * Summarizes one chunk of a source with the LLM
+ */
+async function summarizeChunk(
+  provider: LLMProvider,
+  chunk: string,
+  {
+    source,
+    position,
+    targetTokens,
+    maxTokens = 4096,
+    language = DEFAULT_OUTPUT_LANGUAGE,
+  }: {
+    source: 'sales' | 'target';
+    position: string;
+    targetTokens: number;
+    maxTokens?: number;
+    language?: OutputLanguage;
+  }
+): Promise<string> {
+  const prompts = SOURCE_PROMPTS[language];
+  const completion = await provider.rewriteText({
+    system: renderTemplate(prompts.summarizeChunk, {
+      source: source === 'sales' ? prompts.salesSource : prompts.targetSource,
+      position,
+      targetTokens: String(targetTokens),
+    }),
+    messages: [{ role: 'user', content: chunk }],
+    maxTokens,
+  });
+
+  const summary = completion.content.trim();
+  if (!summary) {
+    throw new Error(
+      `Empty response from ${provider.label} API. Finish reason: ${completion.finishReason || 'unknown'}`
+    );
+  }
+  return summary;
+}
+
+/**
+ * Splits a text into chunks of at most `chunkTokens` at line boundaries,
+ * splitting lines that are longer on their own
+ */
+function splitIntoChunks(text: string, chunkTokens: number): string[] {
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let currentTokens = 0;
+
+  const flush = (): void => {
+    if (current.length > 0) {
+      chunks.push(current.join('\n'));
+      current = [];
+      currentTokens = 0;
+    }
+  };
+
+  for (const line of text.split('\n')) {
+    let rest = line;
+    while (estimateTokens(rest) > chunkTokens) {
+      flush();
+      const head = truncateToTokens(rest, chunkTokens);
+      chunks.push(head);
+      rest = rest.slice(head.length);
+    }
+
+    const lineTokens = estimateTokens(rest) + 1;
+    if (currentTokens + lineTokens > chunkTokens) {
+      flush();
+    }
+    current.push(rest);
+    currentTokens += lineTokens;
+  }
+  flush();
+
+  return chunks.filter((chunk) => chunk.trim() !== '');
+}
+
+/**
+ * Returns the longest prefix of a text within `maxTokens`
+ */
+function truncateToTokens(text: string, maxTokens: number): string {
+  let tokens = 0;
+  let end = 0;
+  for (const char of text) {
+    tokens += CJK_CHAR.test(char) ? 1 : 0.25;
+    if (Math.ceil(tokens) > maxTokens) {
+      break;
+    }
+    end += char.length;
+  }
+  return text.slice(0, end);
+}
@@ -0,0 +1,195 @@
+import { describe, it, expect } from 'vitest';
+import { strToU8, zipSync } from 'fflate';
+import { detectDocumentFormat, extractDocumentText, extractHtmlPage } from './document-text';
+
+const W = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+const P = 'xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main" xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+const REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+function zip(files: Record<string, string>): Buffer {
+  return Buffer.from(
+    zipSync(Object.fromEntries(Object.entries(files).map(([name, xml]) => [name, strToU8(xml)])))
+  );
+}
+
+function wordParagraph(text: string, props = ''): string {
+  return `<w:p><w:pPr>${props}</w:pPr><w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+}
+
+function slideShape(paragraphs: string[], placeholder?: string): string {
+  return `<p:sp><p:nvSpPr><p:nvPr>${placeholder ? `<p:ph type="${placeholder}"/>` : ''}</p:nvPr></p:nvSpPr><p:txBody>${paragraphs
+    .map((text) => `<a:p><a:r><a:t>${text}</a:t></a:r></a:p>`)
+    .join('')}</p:txBody></p:sp>`;
+}
+
+describe('detectDocumentFormat', () => {
+  it('should detect formats by MIME type', () => {
+    expect(detectDocumentFormat('application/pdf', 'sales.pdf')).toBe('pdf');
+    expect(
+      detectDocumentFormat(
+        'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+        'deck.pptx'
+      )
+    ).toBe('pptx');
+    expect(detectDocumentFormat('text/html; charset=utf-8', 'page')).toBe('html');
+  });
+
+  it('should fall back to the extension for generic MIME types', () => {
+    expect(detectDocumentFormat('text/plain', 'brief.md')).toBe('markdown');
+    expect(detectDocumentFormat('application/octet-stream', 'Brief.DOCX')).toBe('docx');
+    expect(detectDocumentFormat('text/plain', 'notes')).toBe('text');
+  });
+
+  it('should reject unsupported files', () => {
+    expect(detectDocumentFormat('image/png', 'chart.png')).toBeUndefined();
+    expect(detectDocumentFormat('application/octet-stream', 'deck.key')).toBeUndefined();
+  });
+});
+
+describe('extractDocumentText', () => {
+  it('should extract Word paragraphs with headings and list items', () => {
+    const docx = zip({
+      'word/document.xml': `<w:document ${W}><w:body>${[
+        wordParagraph('導入ガイド', '<w:pStyle w:val="Title"/>'),
+        wordParagraph('背景と課題', '<w:pStyle w:val="1"/>'),
+        wordParagraph('紙の申請が残っている &amp; 承認が遅い'),
+        wordParagraph('手入力の工数', '<w:numPr><w:ilvl w:val="0"/></w:numPr>'),
+        '<w:p/>',
+        `<w:p><w:r><w:t>列1</w:t><w:tab/><w:t>列2</w:t></w:r></w:p>`,
+        wordParagraph('解決策', '<w:outlineLvl w:val="1"/>'),
+      ].join('')}</w:body></w:document>`,
+      'word/styles.xml': `<w:styles ${W}><w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/></w:style><w:style w:type="paragraph" w:styleId="1"><w:name w:val="heading 1"/></w:style></w:styles>`,
+    });
+
+    expect(extractDocumentText(docx, 'docx')).toBe(
+      '# 導入ガイド\n\n# 背景と課題\n\n紙の申請が残っている & 承認が遅い\n- 手入力の工数\n列1\t列2\n\n## 解決策'
+    );
+  });
+
+  it('should extract slides in presentation order with titles and speaker notes', () => {
+    const pptx = zip({
+      'ppt/presentation.xml': `<p:presentation ${P}><p:sldIdLst><p:sldId id="256" r:id="rId3"/><p:sldId id="257" r:id="rId2"/></p:sldIdLst></p:presentation>`,
+      'ppt/_rels/presentation.xml.rels': `<Relationships><Relationship Id="rId2" Type="${REL}/slide" Target="slides/slide1.xml"/><Relationship Id="rId3" Type="${REL}/slide" Target="slides/slide2.xml"/></Relationships>`,
+      'ppt/slides/slide1.xml': `<p:sld ${P}><p:cSld><p:spTree>${slideShape(['導入効果'], 'title')}${slideShape(['工数 30% 削減', '承認 2日→当日'])}</p:spTree></p:cSld></p:sld>`,
+      'ppt/slides/slide2.xml': `<p:sld ${P}><p:cSld><p:spTree>${slideShape(['DX推進の進め方'], 'ctrTitle')}</p:spTree></p:cSld></p:sld>`,
+      'ppt/slides/_rels/slide1.xml.rels': `<Relationships><Relationship Id="rId1" Type="${REL}/notesSlide" Target="../notesSlides/notesSlide1.xml"/></Relationships>`,
+      'ppt/notesSlides/notesSlide1.xml': `<p:notes ${P}><p:cSld><p:spTree>${slideShape([], 'sldImg')}${slideShape(['顧客事例で補足する'], 'body')}<p:sp><p:nvSpPr><p:nvPr><p:ph type="sldNum"/></p:nvPr></p:nvSpPr><p:txBody><a:p><a:fld id="1" type="slidenum"><a:t>1</a:t></a:fld></a:p></p:txBody></p:sp></p:spTree></p:cSld></p:notes>`,
+    });
+
+    expect(extractDocumentText(pptx, 'pptx')).toBe(
+      '## スライド 1: DX推進の進め方\n\n## スライド 2: 導入効果\n工数 30% 削減\n承認 2日→当日\n\n（スピーカーノート）\n顧客事例で補足する'
+    );
+  });
+
+  it('should fall back to slide file numbers without presentation.xml', () => {
+    const pptx = zip({
+      'ppt/slides/slide10.xml': `<p:sld ${P}>${slideShape(['Ten'])}</p:sld>`,
+      'ppt/slides/slide2.xml': `<p:sld ${P}>${slideShape(['Two'])}</p:sld>`,
+    });
+
+    expect(extractDocumentText(pptx, 'pptx')).toBe('## スライド 1\nTwo\n\n## スライド 2\nTen');
+  });
+
+  it('should label slides and speaker notes in the output language', () => {
+    const pptx = zip({
+      'ppt/slides/slide1.xml': `<p:sld ${P}>${slideShape(['Results'], 'title')}</p:sld>`,
+      'ppt/slides/_rels/slide1.xml.rels': `<Relationships><Relationship Id="rId1" Type="${REL}/notesSlide" Target="../notesSlides/notesSlide1.xml"/></Relationships>`,
+      'ppt/notesSlides/notesSlide1.xml': `<p:notes ${P}>${slideShape(['Mention the case study'], 'body')}</p:notes>`,
+    });
+
+    expect(extractDocumentText(pptx, 'pptx', 'en')).toBe(
+      '## Slide 1: Results\n\n(Speaker notes)\nMention the case study'
+    );
+    expect(extractDocumentText(pptx, 'pptx', 'zh')).toBe(
+      '## 幻灯片 1: Results\n\n（演讲者备注）\nMention the case study'
+    );
+  });
+
+  it('should extract readable HTML text with headings, lists and tables', () => {
+    const html = Buffer.from(`<!DOCTYPE html><html><head><title>t</title><style>p { color: red }</style></head>
+<body><nav><a href="/">Home</a></nav><h1>製品 <small>概要</small></h1>
+<p>クラウド&nbsp;ERP &lt;SaaS&gt;</p><script>alert(1)</script>
+<ul><li>在庫管理</li><li>会計</li></ul>
+<table><tr><th>項目</th><th>効果</th></tr><tr><td>工数</td><td>&#x2212;30%</td></tr></table>
+<footer>© 2025</footer></body></html>`);
+
+    expect(extractDocumentText(html, 'html')).toBe(
+      '# 製品 概要\n\nクラウド ERP <SaaS>\n\n- 在庫管理\n- 会計\n\n項目 | 効果\n工数 | −30%'
+    );
+  });
+
+  it('should decode HTML with a declared Shift_JIS charset', () => {
+    const html = Buffer.concat([
+      Buffer.from('<meta charset="shift_jis"><p>'),
+      Buffer.from([0x93, 0xfa, 0x96, 0x7b]), // 日本
+      Buffer.from('</p>'),
+    ]);
+
+    expect(extractDocumentText(html, 'html')).toBe('日本');
+  });
+
+  it('should keep Markdown and text as is, without a BOM', () => {
+    const markdown = Buffer.from('\uFEFF# 背景\r\n\r\n\r\n\r\n本文\r\n## 課題\n');
+
+    expect(extractDocumentText(markdown, 'markdown')).toBe('# 背景\n\n本文\n## 課題');
+    expect(extractDocumentText(Buffer.from(' plain text \n'), 'text')).toBe('plain text');
+  });
+
+  it('should throw error for invalid Office files', () => {
+    expect(() => extractDocumentText(Buffer.from('not a zip'), 'docx')).toThrow('Invalid Office file');
+    expect(() => extractDocumentText(zip({ 'other.xml': '<x/>' }), 'docx')).toThrow(
+      'Invalid DOCX file: word/document.xml is missing'
+    );
+    expect(() => extractDocumentText(zip({ 'other.xml': '<x/>' }), 'pptx')).toThrow(
+      'Invalid PPTX file: no slides found'
+    );
+  });
+
+  it('should reject Office files that inflate past the size limit', () => {
+    const docx = zip({ 'word/document.xml': `<w:document ${W}><w:body>${wordParagraph('本文')}</w:body></w:document>` });
+    // Claim a 2GB uncompressed size in the central directory entry
+    docx.writeUInt32LE(0x7fffffff, docx.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02])) + 24);
+
+    expect(() => extractDocumentText(docx, 'docx')).toThrow(
+      'Invalid Office file: contents exceed 100MB uncompressed'
+    );
+  });
+
+  it('should replace out-of-range character references', () => {
+    const html = Buffer.from('<p>&#99999999; &#xD800; &#x41;</p>');
+
+    expect(extractDocumentText(html, 'html')).toBe('� � A');
+  });
+});
+
+describe('extractHtmlPage', () => {
+  it('should keep only the main content of a page', () => {
+    const html = Buffer.from(`<html><head><title>料金プラン &amp; 導入事例</title></head><body>
+<header><p>Example</p></header><aside>関連記事</aside>
+<main><h1>料金プラン</h1><p>月額 5 万円から</p></main>
+<form><input name="q"></form></body></html>`);
+
+    expect(extractHtmlPage(html)).toEqual({
+      title: '料金プラン & 導入事例',
+      text: '# 料金プラン\n\n月額 5 万円から',
+    });
+  });
+
+  it('should fall back to articles, then the body without headers and sidebars', () => {
+    const articles = Buffer.from(
+      '<header>Site</header><article><h2>事例 A</h2></article><div>広告</div><article><h2>事例 B</h2></article>'
+    );
+    const body = Buffer.from(
+      '<meta property="og:title" content="導入事例"><header>Site</header><div><p>本文</p></div><aside>広告</aside>'
+    );
+
+    expect(extractHtmlPage(articles)).toEqual({ title: '', text: '## 事例 A\n\n## 事例 B' });
+    expect(extractHtmlPage(body)).toEqual({ title: '導入事例', text: '本文' });
+  });
+
+  it('should decode with the given charset', () => {
+    const html = Buffer.concat([Buffer.from('<p>'), Buffer.from([0x93, 0xfa, 0x96, 0x7b]), Buffer.from('</p>')]);
+
+    expect(extractHtmlPage(html, 'shift_jis').text).toBe('日本');
+  });
+});
@@ -0,0 +1,477 @@
+import { strFromU8, unzipSync } from 'fflate';
+import { DEFAULT_OUTPUT_LANGUAGE, SOURCE_LABELS } from './output-language.js';
+import { renderTemplate } from './prompt-templates.js';
+import type { OutputLanguage } from '../types/index.js';
+
+/**
+ * Document formats accepted for sales and target material
+ */
+export type DocumentFormat = 'pdf' | 'docx' | 'pptx' | 'html' | 'markdown' | 'text';
+
+/**
+ * Document formats by MIME type
+ */
+export const DOCUMENT_MIME_TYPES: Readonly<Record<string, DocumentFormat>> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': 'pptx',
+  'text/html': 'html',
+  'application/xhtml+xml': 'html',
+  'text/markdown': 'markdown',
+  'text/x-markdown': 'markdown',
+  'text/plain': 'text',
+};
+
+/**
+ * Document formats by file extension, for uploads sent with a generic MIME
+ * type (browsers often send `.md` as text/plain or octet-stream)
+ */
+const DOCUMENT_EXTENSIONS: Readonly<Record<string, DocumentFormat>> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  pptx: 'pptx',
+  html: 'html',
+  htm: 'html',
+  md: 'markdown',
+  markdown: 'markdown',
+  txt: 'text',
+};
+
+/**
+ * Readable content of an HTML page
+ */
+export interface HtmlPage {
+  /** Page title (`<title>`, `og:title` or the first `<h1>`), or empty */
+  title: string;
+  text: string;
+}
+
+const XML_ENTITIES: Readonly<Record<string, string>> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: '\u00A0',
+};
+
+/**
+ * Largest total uncompressed size of the parts read from a DOCX or PPTX file
+ */
+const MAX_OFFICE_UNCOMPRESSED_BYTES = 100 * 1024 * 1024;
+
+/**
+ * Detects the format of an uploaded document
+ *
+ * The MIME type decides, except that a generic type (text/plain,
+ * application/octet-stream, application/zip) defers to the file extension.
+ *
+ * @param mimeType - MIME type reported by the client
+ * @param fileName - Original file name
+ * @returns Document format, or undefined if the file is not supported
+ *
+ * @example
+ * ```typescript
+ * detectDocumentFormat('text/plain', 'brief.md'); // 'markdown'
+ * detectDocumentFormat('image/png', 'chart.png'); // undefined
+ * ```
+ */
+export function detectDocumentFormat(
+  mimeType: string,
+  fileName = ''
+): DocumentFormat | undefined {
+  const byMimeType = DOCUMENT_MIME_TYPES[mimeType.split(';')[0]!.trim().toLowerCase()];
+  const extension = fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase() : '';
+  const byExtension = DOCUMENT_EXTENSIONS[extension];
+
+  const isGeneric =
+    byMimeType === 'text' ||
+    mimeType === 'application/octet-stream' ||
+    mimeType === 'application/zip';
+  return isGeneric ? byExtension ?? byMimeType : byMimeType;
+}
+
+/**
+ * Extracts the text of a non-PDF document, keeping its structure
+ *
+ * Headings become Markdown headings (`#`, `##`, ...) so that section
+ * boundaries survive; each PowerPoint slide becomes a `## スライド N`
+ * section followed by its speaker notes, labeled in `language`.
+ *
+ * @param content - File contents
+ * @param format - Document format (see `detectDocumentFormat`)
+ * @param language - Language of the slide labels (default: ja)
+ * @returns Extracted text
+ * @throws {Error} If the file is not a valid document of that format
+ *
+ * @example
+ * ```typescript
+ * const text = extractDocumentText(req.file.buffer, 'pptx');
+ * // '## スライド 1: 導入効果\n工数 30% 削減\n\n（スピーカーノート）\n...'
+ * ```
+ */
+export function extractDocumentText(
+  content: Buffer,
+  format: Exclude<DocumentFormat, 'pdf'>,
+  language: OutputLanguage = DEFAULT_OUTPUT_LANGUAGE
+): string {
+  switch (format) {
+    case 'docx':
+      return extractDocxText(content);
+    case 'pptx':
+      return extractPptxText(content, language);
+    case 'html':
+      return extractHtmlText(content);
+    case 'markdown':
+    case 'text':
+      return normalizeText(decodeUtf8(content));
+  }
+}
+
+/**
+ * Extracts the title and main content of a web page
+ *
+ * Scripts, styles, navigation and footers are removed. When the page marks
+ * up its main content with `<main>` or `<article>`, only that content is
+ * kept; otherwise headers, sidebars and forms are dropped from the body.
+ *
+ * @param content - HTML contents
+ * @param charset - Charset from the Content-Type header (default: `<meta charset>` or UTF-8)
+ * @returns Page title and text, formatted like `extractDocumentText`
+ *
+ * @example
+ * ```typescript
+ * const { title, text } = extractHtmlPage(body, 'shift_jis');
+ * ```
+ */
+export function extractHtmlPage(content: Buffer, charset?: string): HtmlPage {
+  const html = removeBoilerplate(decodeHtml(content, charset));
+
+  const title =
+    html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1] ??
+    html.match(/<meta[^>]+property=["']og:title["'][^>]+content=["']([^"']*)["']/i)?.[1] ??
+    html.match(/<h1\b[^>]*>([\s\S]*?)<\/h1>/i)?.[1] ??
+    '';
+
+  const body = html.replace(/<(head|title)\b[\s\S]*?<\/\1>/gi, '');
+  const main = body.match(/<main\b[^>]*>[\s\S]*?<\/main>/i)?.[0];
+  const articles = body.match(/<article\b[^>]*>[\s\S]*?<\/article>/gi);
+  const mainContent =
+    main ??
+    articles?.join('\n') ??
+    body.replace(/<(header|aside|form)\b[\s\S]*?<\/\1>/gi, '');
+
+  return {
+    title: decodeEntities(title.replace(/<[^>]+>/g, '')).replace(/\s+/g, ' ').trim(),
+    text: htmlToText(mainContent),
+  };
+}
+
+/**
+ * Extracts the paragraphs of a Word document; headings (by style or outline
+ * level) become Markdown headings and list items are prefixed with `-`
+ */
+function extractDocxText(content: Buffer): string {
+  const files = unzipOfficeFile(content, /^word\/(document|styles)\.xml$/);
+  const documentXml = files['word/document.xml'];
+  if (documentXml === undefined) {
+    throw new Error('Invalid DOCX file: word/document.xml is missing');
+  }
+
+  // Map style IDs to heading levels ("Heading1", or localized IDs whose
+  // name is "heading 1"); "Title" counts as level 1
+  const headingStyles = new Map<string, number>();
+  for (const [, styleId, body] of (files['word/styles.xml'] ?? '').matchAll(
+    /<w:style\b[^>]*w:styleId="([^"]+)"[^>]*>([\s\S]*?)<\/w:style>/g
+  )) {
+    const name = body!.match(/<w:name w:val="([^"]+)"/)?.[1]?.toLowerCase() ?? '';
+    const level = name === 'title' ? 1 : Number(name.match(/^heading (\d)$/)?.[1] ?? 0);
+    if (level > 0) {
+      headingStyles.set(styleId!, level);
+    }
+  }
+
+  const lines: string[] = [];
+  for (const [paragraph] of documentXml.matchAll(/<w:p(?:\s[^>]*)?(?<!\/)>[\s\S]*?<\/w:p>/g)) {
+    const text = readRuns(paragraph, /<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:(tab|br|cr)\b[^>]*\/>/g);
+    if (text.trim() === '') {
+      continue;
+    }
+
+    const level = headingLevel(paragraph, headingStyles);
+    if (level > 0) {
+      lines.push('', `${'#'.repeat(level)} ${text.trim()}`, '');
+    } else if (paragraph.includes('<w:numPr>')) {
+      lines.push(`- ${text.trim()}`);
+    } else {
+      lines.push(text.trim());
+    }
+  }
+
+  return normalizeText(lines.join('\n'));
+}
+
+/**
+ * Returns the heading level of a Word paragraph (0 for body text), from its
+ * style or, failing that, its outline level
+ */
+function headingLevel(paragraph: string, headingStyles: Map<string, number>): number {
+  const styleId = paragraph.match(/<w:pStyle w:val="([^"]+)"/)?.[1];
+  if (styleId) {
+    const level = headingStyles.get(styleId) ?? Number(styleId.match(/^heading(\d)$/i)?.[1] ?? 0);
+    if (level > 0) {
+      return level;
+    }
+  }
+
+  const outlineLevel = paragraph.match(/<w:outlineLvl w:val="(\d)"/)?.[1];
+  return outlineLevel !== undefined ? Number(outlineLevel) + 1 : 0;
+}
+
+/**
+ * Extracts the text and speaker notes of each slide, in presentation order
+ */
+function extractPptxText(content: Buffer, language: OutputLanguage): string {
+  const labels = SOURCE_LABELS[language];
+  const files = unzipOfficeFile(content, /^ppt\/(presentation\.xml|_rels\/|slides\/|notesSlides\/)/);
+  const slidePaths = orderSlides(files);
+  if (slidePaths.length === 0) {
+    throw new Error('Invalid PPTX file: no slides found');
+  }
+
+  const sections = slidePaths.map((slidePath, index) => {
+    const slideXml = files[slidePath] ?? '';
+    const shapes = slideXml.match(/<p:sp\b[\s\S]*?<\/p:sp>/g) ?? [];
+    const titleShape = shapes.find((shape) => /<p:ph\b[^>]*type="(title|ctrTitle)"/.test(shape));
+    const title = titleShape ? readDrawingParagraphs(titleShape).join(' ') : '';
+    const body = readDrawingParagraphs(titleShape ? slideXml.replace(titleShape, '') : slideXml);
+
+    const notesPath = resolveRelationship(files, slidePath, 'notesSlide');
+    const notesXml = notesPath ? files[notesPath] ?? '' : '';
+    // Notes slides also hold the slide image and number placeholders; only
+    // the body placeholder contains the speaker notes
+    const notesShape = (notesXml.match(/<p:sp\b[\s\S]*?<\/p:sp>/g) ?? []).find((shape) =>
+      /<p:ph\b[^>]*type="body"/.test(shape)
+    );
+    const notes = notesShape ? readDrawingParagraphs(notesShape) : [];
+
+    return [
+      `${renderTemplate(labels.slide, { no: String(index + 1) })}${title ? `: ${title}` : ''}`,
+      ...body,
+      ...(notes.length > 0 ? ['', labels.speakerNotes, ...notes] : []),
+    ].join('\n');
+  });
+
+  return normalizeText(sections.join('\n\n'));
+}
+
+/**
+ * Extracts the readable text of an uploaded HTML document
+ */
+function extractHtmlText(content: Buffer): string {
+  return htmlToText(removeBoilerplate(decodeHtml(content)).replace(/<head\b[\s\S]*?<\/head>/gi, ''));
+}
+
+/**
+ * Decodes HTML with the given charset, the `<meta charset>` of the page or
+ * UTF-8, in that order
+ */
+function decodeHtml(content: Buffer, charset?: string): string {
+  const encoding =
+    charset ||
+    content
+      .subarray(0, 1024)
+      .toString('latin1')
+      .match(/<meta[^>]+charset=["']?([\w-]+)/i)?.[1];
+  try {
+    return new TextDecoder(encoding || 'utf-8').decode(content);
+  } catch {
+    return decodeUtf8(content);
+  }
+}
+
+/**
+ * Removes comments, scripts, styles, navigation and footers
+ */
+function removeBoilerplate(html: string): string {
+  return html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|noscript|template|svg|nav|footer)\b[\s\S]*?<\/\1>/gi, '');
+}
+
+/**
+ * Converts HTML to text; headings become Markdown headings, list items are
+ * prefixed with `-` and table cells are separated by ` | `
+ */
+function htmlToText(html: string): string {
+  const text = html
+    .replace(
+      /<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi,
+      (_, level: string, inner: string) =>
+        `\n\n${'#'.repeat(Number(level))} ${inner.replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim()}\n\n`
+    )
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<\/t[dh]>\s*<t[dh]\b[^>]*>/gi, ' | ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/tr>/gi, '\n')
+    .replace(/<\/?(p|div|section|article|main|header|aside|ul|ol|table|blockquote|pre|dl|dt|dd|figure|figcaption)\b[^>]*>/gi, '\n')
+    .replace(/<[^>]+>/g, '');
+
+  return normalizeText(
+    decodeEntities(text)
+      .split('\n')
+      .map((line) => line.replace(/[ \t\u00A0]+/g, ' ').trim())
+      .join('\n')
+  );
+}
+
+/**
+ * Unzips the XML parts of an Office file whose paths match `pattern`
+ *
+ * Archives whose matching parts would inflate past
+ * MAX_OFFICE_UNCOMPRESSED_BYTES are rejected before anything is inflated.
+ */
+function unzipOfficeFile(content: Buffer, pattern: RegExp): Record<string, string> {
+  let entries: Record<string, Uint8Array>;
+  try {
+    let totalSize = 0;
+    entries = unzipSync(new Uint8Array(content), {
+      filter: (file) => {
+        if (!pattern.test(file.name)) {
+          return false;
+        }
+        totalSize += file.originalSize;
+        if (totalSize > MAX_OFFICE_UNCOMPRESSED_BYTES) {
+          throw new Error(`contents exceed ${MAX_OFFICE_UNCOMPRESSED_BYTES / (1024 * 1024)}MB uncompressed`);
+        }
+        return true;
+      },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Invalid Office file: ${errorMessage}`);
+  }
+
+  return Object.fromEntries(
+    Object.entries(entries).map(([name, data]) => [name, strFromU8(data)])
+  );
+}
+
+/**
+ * Returns slide paths in presentation order (from presentation.xml), falling
+ * back to the slide file numbers
+ */
+function orderSlides(files: Record<string, string>): string[] {
+  const slideIds = [...(files['ppt/presentation.xml'] ?? '').matchAll(/<p:sldId\b[^>]*r:id="([^"]+)"/g)]
+    .map((match) => match[1]!);
+  const ordered = slideIds
+    .map((id) => resolveRelationship(files, 'ppt/presentation.xml', undefined, id))
+    .filter((path): path is string => path !== undefined && files[path] !== undefined);
+  if (ordered.length > 0) {
+    return ordered;
+  }
+
+  const slideNumber = (path: string): number => Number(path.match(/(\d+)\.xml$/)?.[1] ?? 0);
+  return Object.keys(files)
+    .filter((path) => /^ppt\/slides\/slide\d+\.xml$/.test(path))
+    .sort((a, b) => slideNumber(a) - slideNumber(b));
+}
+
+/**
+ * Resolves a relationship of an Office part by type suffix or ID
+ *
+ * @returns Absolute path of the target part inside the archive
+ */
+function resolveRelationship(
+  files: Record<string, string>,
+  partPath: string,
+  typeSuffix?: string,
+  id?: string
+): string | undefined {
+  const directory = partPath.slice(0, partPath.lastIndexOf('/'));
+  const fileName = partPath.slice(partPath.lastIndexOf('/') + 1);
+  const rels = files[`${directory}/_rels/${fileName}.rels`] ?? '';
+
+  const relationship = [...rels.matchAll(/<Relationship\b[^>]*\/>/g)]
+    .map(([element]) => element)
+    .find((element) =>
+      id !== undefined
+        ? element.includes(`Id="${id}"`)
+        : new RegExp(`Type="[^"]*/${typeSuffix}"`).test(element)
+    );
+  const target = relationship?.match(/Target="([^"]+)"/)?.[1];
+  if (!target) {
+    return undefined;
+  }
+
+  // Targets are relative to the part's directory
+  const segments = target.startsWith('/') ? [] : directory.split('/');
+  for (const segment of target.replace(/^\//, '').split('/')) {
+    if (segment === '..') {
+      segments.pop();
+    } else if (segment !== '.') {
+      segments.push(segment);
+    }
+  }
+  return segments.join('/');
+}
+
+/**
+ * Reads the non-empty `<a:p>` paragraphs of DrawingML, skipping fields
+ * such as slide numbers
+ */
+function readDrawingParagraphs(xml: string): string[] {
+  return [...xml.replace(/<a:fld\b[\s\S]*?<\/a:fld>/g, '').matchAll(/<a:p\b[\s\S]*?<\/a:p>/g)]
+    .map(([paragraph]) => readRuns(paragraph, /<a:t>([^<]*)<\/a:t>|<a:(br)\b[^>]*\/>/g).trim())
+    .filter((text) => text !== '');
+}
+
+/**
+ * Concatenates text runs of a paragraph; the pattern captures run text in
+ * group 1 and a tab/break element name in group 2
+ */
+function readRuns(paragraph: string, pattern: RegExp): string {
+  return [...paragraph.matchAll(pattern)]
+    .map(([, text, element]) =>
+      text !== undefined ? decodeEntities(text) : element === 'tab' ? '\t' : '\n'
+    )
+    .join('');
+}
+
+/**
+ * Decodes XML/HTML character references and common named entities
+ */
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name.startsWith('#')) {
+      const codePoint = name[1] === 'x' || name[1] === 'X'
+        ? parseInt(name.slice(2), 16)
+        : parseInt(name.slice(1), 10);
+      if (Number.isNaN(codePoint)) {
+        return entity;
+      }
+      // Out-of-range and surrogate references decode to the replacement character, as in HTML
+      return codePoint > 0x10ffff || (codePoint >= 0xd800 && codePoint <= 0xdfff)
+        ? '\uFFFD'
+        : String.fromCodePoint(codePoint);
+    }
+    return XML_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Decodes UTF-8, dropping a byte order mark
+ */
+function decodeUtf8(content: Buffer): string {
+  return content.toString('utf8').replace(/^\uFEFF/, '');
+}
+
+/**
+ * Normalizes line endings and collapses runs of blank lines
+ */
+function normalizeText(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
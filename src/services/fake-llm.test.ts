@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { createFakeLLMHandler, loadFakeLLMFixtures } from './fake-llm';
+import { FakeLLMProvider } from './llm-provider';
+import { LLMService } from './llm';
+import type { ParsedContext } from '../types/index';
+
+const context: ParsedContext = {
+  salesText: '営業資料',
+  targetText: 'ターゲット',
+  keywords: ['生成AI', 'RPA'],
+};
+
+describe('createFakeLLMHandler', () => {
+  it('should produce schema-valid plans for every chunk through LLMService', async () => {
+    const service = new LLMService({ provider: 'fake', chunkSize: 4 });
+
+    const plans = await service.generatePlans(context, 10);
+
+    expect(plans).toHaveLength(10);
+    expect(plans.map((plan) => plan.no)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    expect(new Set(plans.map((plan) => plan.タイトル)).size).toBe(10);
+    expect(plans.every((plan) => /生成AI|RPA/.test(plan.タイトル))).toBe(true);
+    expect(plans[0]?.構成).toContain('## 第1章');
+    expect(plans[0]?.コメント).toBe('');
+  });
+
+  it('should cite the passages listed in the prompt', async () => {
+    const service = new LLMService({ provider: 'fake' });
+
+    const plans = await service.generatePlans(
+      {
+        ...context,
+        passages: [
+          { id: 'S1', source: 'sales', label: 'deck.pdf', page: 1, paragraph: 1, text: '営業資料' },
+          { id: 'T1', source: 'target', label: 'テキスト入力', paragraph: 1, text: 'ターゲット' },
+        ],
+      },
+      3
+    );
+
+    expect(plans.map((plan) => plan.出典?.map((reference) => reference.id))).toEqual([
+      ['S1'],
+      ['T1'],
+      ['S1'],
+    ]);
+  });
+
+  it('should be deterministic for the same seed and vary with the seed', async () => {
+    const generate = (seed: string) =>
+      new LLMService({ provider: new FakeLLMProvider(createFakeLLMHandler({ seed })) }).generatePlans(
+        context,
+        3
+      );
+
+    const first = await generate('a');
+    const second = await generate('a');
+    const other = await generate('b');
+
+    expect(second).toEqual(first);
+    expect(other.map((plan) => plan.タイトル)).not.toEqual(first.map((plan) => plan.タイトル));
+  });
+
+  it('should use fixture plans and fill missing fields from templates', async () => {
+    const handler = createFakeLLMHandler({
+      fixtures: { plans: [{ タイトル: 'フィクスチャ企画A' }, { タイトル: 'フィクスチャ企画B' }] },
+    });
+    const service = new LLMService({ provider: new FakeLLMProvider(handler) });
+
+    const plans = await service.generatePlans(context, 3);
+
+    expect(plans.map((plan) => plan.タイトル)).toEqual([
+      'フィクスチャ企画A',
+      'フィクスチャ企画B',
+      'フィクスチャ企画A',
+    ]);
+    expect(plans[0]?.目的).not.toBe('');
+  });
+
+  it('should fill the columns of a custom column schema', async () => {
+    const service = new LLMService({
+      provider: 'fake',
+      columnSchema: {
+        name: 'agency-a',
+        columns: [
+          { name: 'タイトル', description: '', required: true, type: 'text', field: 'タイトル' },
+          { name: '想定CTA', description: '', required: true, type: 'text' },
+          { name: '想定ページ数', description: '', required: true, type: 'number' },
+        ],
+      },
+    });
+
+    const plans = await service.generatePlans(context, 2);
+
+    expect(plans[1]?.タイトル).toMatch(/生成AI|RPA/);
+    expect(plans[1]?.追加列).toEqual({ 想定CTA: '想定CTA（フェイク2）', 想定ページ数: '2' });
+  });
+
+  it('should answer prompts in other output languages', async () => {
+    const service = new LLMService({ provider: 'fake', chunkSize: 2, language: 'zh' });
+
+    const plans = await service.generatePlans(context, 3);
+
+    expect(plans.map((plan) => plan.no)).toEqual([1, 2, 3]);
+    expect(new Set(plans.map((plan) => plan.タイトル)).size).toBe(3);
+    expect(plans[0]?.構成).toContain('## 第1章');
+    expect(plans[0]?.追加列).toBeUndefined();
+  });
+
+  it('should rewrite text from fixtures or a fixed template', async () => {
+    const handler = createFakeLLMHandler({ fixtures: { rewrites: { 元の文章: '書き換えた文章' } } });
+    const request = (content: string) => ({ system: '', messages: [{ role: 'user' as const, content }] });
+
+    expect(await handler(request('元の文章'), 'text')).toBe('書き換えた文章');
+    expect(await handler(request('別の文章'), 'text')).toBe('別の文章（書き換え済み）');
+  });
+});
+
+describe('loadFakeLLMFixtures', () => {
+  it('should throw a descriptive error for a missing file', () => {
+    expect(() => loadFakeLLMFixtures('/nonexistent/fixtures.json')).toThrow(
+      'Failed to load fake LLM fixtures from /nonexistent/fixtures.json'
+    );
+  });
+});
@@ -0,0 +1,258 @@
+import * as fs from 'fs';
+import type { FakeLLMHandler, LLMCompletionRequest } from './llm-provider.js';
+import type { PlanItem } from './plan-schema.js';
+import { DEFAULT_COLUMN_SCHEMA, localizeDefaultColumnSchema } from './column-schema.js';
+import { OUTPUT_LANGUAGES } from './output-language.js';
+import { PROMPT_SECTIONS } from './prompt-templates.js';
+
+/**
+ * Fixture file for the fake provider (`LLM_FAKE_FIXTURES`)
+ *
+ * `plans` are returned in order (cycling when more are requested) instead of
+ * the built-in templates; `rewrites` maps an original text to its rewrite.
+ */
+export interface FakeLLMFixtures {
+  plans?: Array<Partial<PlanItem>>;
+  rewrites?: Record<string, string>;
+}
+
+/**
+ * Options for the deterministic fake handler
+ */
+export interface FakeLLMOptions {
+  fixtures?: FakeLLMFixtures;
+  /** Changes which templates are picked; the same seed gives the same output */
+  seed?: string;
+}
+
+const THEMES = ['業務効率化', 'コスト削減', 'リスク管理', '売上拡大', '人材育成', 'データ活用'];
+
+const TITLE_FORMATS = [
+  (keyword: string, theme: string) => `${keyword}で実現する${theme}の実践ガイド`,
+  (keyword: string, theme: string) => `${theme}を加速する${keyword}活用チェックリスト`,
+  (keyword: string, theme: string) => `失敗しない${keyword}導入：${theme}のための5つのステップ`,
+];
+
+const AUDIENCES = [
+  { target: '中堅製造業の経営企画責任者', department: '経営企画部', level: '部長' },
+  { target: '中堅SaaS企業のIT部門責任者', department: '情報システム部', level: '課長' },
+  { target: '小売チェーンのマーケティング担当者', department: 'マーケティング部', level: '担当者' },
+  { target: '金融機関の業務改革リーダー', department: '業務改革推進室', level: '部長' },
+];
+
+/**
+ * Template column of each localized built-in column name, so that prompts
+ * in every output language get the template values
+ */
+const TEMPLATE_COLUMNS: ReadonlyMap<string, string> = new Map(
+  OUTPUT_LANGUAGES.flatMap((language) =>
+    localizeDefaultColumnSchema(language).columns.map((column): [string, string] => [
+      column.name,
+      DEFAULT_COLUMN_SCHEMA.columns.find(({ field }) => field === column.field)!.name,
+    ])
+  )
+);
+
+/**
+ * Creates a handler that answers plan generation prompts with
+ * schema-conforming plans, rewrite prompts with deterministic rewrites and
+ * image prompts with a fixed caption
+ *
+ * Output depends only on the prompt, the fixtures and the seed, so repeated
+ * runs produce identical spreadsheets without network access.
+ *
+ * @param options - Fixtures and seed
+ * @returns Handler for `FakeLLMProvider`
+ *
+ * @example
+ * ```typescript
+ * const provider = new FakeLLMProvider(createFakeLLMHandler({ seed: 'demo' }));
+ * const llmService = new LLMService({ provider });
+ * ```
+ */
+export function createFakeLLMHandler(options: FakeLLMOptions = {}): FakeLLMHandler {
+  const seedOffset = hashString(options.seed ?? '');
+
+  return (request, kind) => {
+    if (kind === 'json') {
+      return JSON.stringify({ items: buildFakePlans(request, options.fixtures, seedOffset) });
+    }
+    if (kind === 'image') {
+      return '図表の要約（フェイク）: 導入前後の業務フローと効果を比較した図';
+    }
+
+    const original = request.messages[request.messages.length - 1]?.content ?? '';
+    return options.fixtures?.rewrites?.[original] ?? `${original}（書き換え済み）`;
+  };
+}
+
+/**
+ * Reads a fixture file for the fake provider
+ *
+ * @param filePath - Path to a JSON file with `plans` and/or `rewrites`
+ * @returns Parsed fixtures
+ * @throws {Error} If the file cannot be read or parsed
+ */
+export function loadFakeLLMFixtures(filePath: string): FakeLLMFixtures {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf8')) as FakeLLMFixtures;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Failed to load fake LLM fixtures from ${filePath}: ${errorMessage}`);
+  }
+}
+
+/**
+ * Builds `count` plan items in the LLM output format
+ *
+ * Columns of the prompt that the templates do not have (user-defined column
+ * schemas) are filled with placeholder text, or a number for number columns.
+ */
+function buildFakePlans(
+  request: LLMCompletionRequest,
+  fixtures: FakeLLMFixtures | undefined,
+  seedOffset: number
+): Array<Record<string, unknown>> {
+  const prompt = request.messages[0]?.content ?? '';
+  const count = parseRequestedCount(prompt);
+  // Continue numbering after plans generated by earlier chunks so titles stay unique
+  const offset = parsePreviousTitleCount(prompt);
+  const keywords = parseKeywords(prompt);
+  const passageIds = parsePassageIds(prompt);
+  const columns = parseColumns(prompt);
+
+  return Array.from({ length: count }, (_, index) => {
+    const n = offset + index;
+    const fixture = fixtures?.plans?.length ? fixtures.plans[n % fixtures.plans.length] : undefined;
+    const citation = passageIds.length > 0 ? [passageIds[n % passageIds.length]!] : [];
+    const template: Record<string, unknown> = buildTemplatePlan(n, keywords, seedOffset);
+    const extra = Object.fromEntries(
+      columns
+        .filter(({ name }) => !(name in template))
+        .map(({ name, number }) => {
+          const templateColumn = TEMPLATE_COLUMNS.get(name);
+          return [
+            name,
+            templateColumn !== undefined && templateColumn in template
+              ? template[templateColumn]
+              : number
+                ? n + 1
+                : `${name}（フェイク${n + 1}）`,
+          ];
+        })
+    );
+    return {
+      ...template,
+      ...extra,
+      出典: citation,
+      ...fixture,
+      No: index + 1,
+    };
+  });
+}
+
+/**
+ * Builds one plan from the built-in templates
+ */
+function buildTemplatePlan(n: number, keywords: string[], seedOffset: number): PlanItem {
+  const keyword = keywords[(n + seedOffset) % keywords.length]!;
+  const theme = THEMES[(Math.floor(n / keywords.length) + seedOffset) % THEMES.length]!;
+  const format = TITLE_FORMATS[(n + seedOffset) % TITLE_FORMATS.length]!;
+  const audience = AUDIENCES[(n + seedOffset) % AUDIENCES.length]!;
+  const round = Math.floor(n / (keywords.length * THEMES.length));
+  const title = format(keyword, theme) + (round > 0 ? ` Vol.${round + 1}` : '');
+
+  return {
+    No: n + 1,
+    タイトル: title,
+    目的: `${audience.target}が${keyword}による${theme}の進め方を理解し、社内検討を始められるようにする。`,
+    '内容（概要）': `${theme}における現状の課題を整理し、${keyword}を活用した解決アプローチを紹介する。導入ステップと評価指標を示し、事例を通じて効果を具体的に説明する。`,
+    感情的ニーズ: `${theme}の取り組みで他社に遅れを取りたくない`,
+    機能的ニーズ: `${keyword}による業務の可視化と工数削減`,
+    成果的ニーズ: `${theme}による年間コスト10%削減`,
+    'ニーズ（複数）': `遅れへの不安の解消、${keyword}による可視化、${theme}の成果`,
+    ターゲット: audience.target,
+    '職種／部署': audience.department,
+    レベル: audience.level,
+    構成: [
+      `## 第1章 ${theme}の背景と課題`,
+      '### 1-1 市場動向',
+      '### 1-2 従来の取り組みの限界',
+      `## 第2章 ${keyword}による解決アプローチ`,
+      '### 2-1 導入ステップ',
+      '### 2-2 評価指標',
+      '## 第3章 導入事例と成果',
+      '### 3-1 事例紹介',
+    ].join('\n'),
+    コメント: '',
+    出典: [],
+  };
+}
+
+/**
+ * Reads N from "items配列に N 件" (or its English and Chinese versions) in
+ * the generation prompt
+ */
+function parseRequestedCount(prompt: string): number {
+  const match = prompt.match(/items配列に (\d+) 件|items array has (\d+) objects|items数组包含 (\d+) 个对象/);
+  const count = match?.slice(1).find((group) => group !== undefined);
+  return count !== undefined ? parseInt(count, 10) : 1;
+}
+
+/**
+ * Counts titles listed in the 【作成済みの企画（重複禁止）】 section
+ */
+function parsePreviousTitleCount(prompt: string): number {
+  const section = prompt.match(
+    /(?:【作成済みの企画（重複禁止）】|\[Plans Already Created \(Do Not Duplicate\)\]|【已创建的企划（禁止重复）】)\n[^\n]*\n((?:- [^\n]*\n?)*)/
+  );
+  return section ? section[1]!.split('\n').filter((line) => line.startsWith('- ')).length : 0;
+}
+
+/**
+ * Reads the keywords listed under 【SEOキーワード（配列）】
+ */
+function parseKeywords(prompt: string): string[] {
+  const line =
+    prompt.match(/(?:【SEOキーワード（配列）】|\[SEO Keywords \(array\)\]|【SEO关键词（数组）】)\n([^\n]*)/)?.[1] ??
+    '';
+  const noKeywords = Object.values(PROMPT_SECTIONS).map((sections) => sections.noKeywords);
+  const keywords = line
+    .split(',')
+    .map((keyword) => keyword.trim())
+    .filter((keyword) => keyword && !noKeywords.includes(keyword));
+  return keywords.length > 0 ? keywords : ['DX'];
+}
+
+/**
+ * Reads the columns listed under 【列の定義】 and whether they are numbers
+ */
+function parseColumns(prompt: string): Array<{ name: string; number: boolean }> {
+  const section =
+    prompt.match(/(?:【列の定義】|\[Column Definitions\]|【列定义】)\n((?:- [^\n]*\n?)*)/)?.[1] ?? '';
+  return [
+    ...section.matchAll(/^- (.+?) ?[（(](?:必須|任意|required|optional|必填|选填)([・,][^）)]+)?[）)]/gm),
+  ].map((match) => ({
+    name: match[1]!,
+    number: ['・数値', ', number', '・数值'].includes(match[2] ?? ''),
+  }));
+}
+
+/**
+ * Reads the passage ids (`[S1] ...`) listed in the source sections
+ */
+function parsePassageIds(prompt: string): string[] {
+  return [...prompt.matchAll(/^\[([ST]\d+)\] /gm)].map((match) => match[1]!);
+}
+
+/**
+ * Small non-negative hash (FNV-1a) used to turn the seed into an offset
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % 1000;
+}
@@ -0,0 +1,439 @@
+import { Credentials } from 'google-auth-library';
+import { createStorageService, MulterFile } from './storage.js';
+import { ParserService } from './parser.js';
+import { LLMService } from './llm.js';
+import { summarizeKeywordCoverage } from './keyword-cluster.js';
+import { exceedsContextBudget, fitContextToBudget } from './context-budget.js';
+import { DEFAULT_DUPLICATE_THRESHOLD, planSimilarityMatrix } from './plan-similarity.js';
+import { DEFAULT_QUALITY_THRESHOLD, scorePlan } from './plan-critic.js';
+import { findUnsupportedClaims } from './claim-check.js';
+import { DEFAULT_COLUMN_SCHEMA_NAME, localizeDefaultColumnSchema } from './column-schema.js';
+import { DEFAULT_OUTPUT_LANGUAGE } from './output-language.js';
+import { createPromptRegistry, type PromptRegistry } from './prompt-templates.js';
+import {
+  createLLMProvider,
+  providerConfigFromEnv,
+  type LLMProviderName,
+} from './llm-provider.js';
+import { SheetsService } from './sheets.js';
+import { AuthService } from './auth.js';
+import { AppsScriptService } from './appsscript.js';
+import { numberFromEnv } from '../utils/config.js';
+import { Logger } from '../utils/logger.js';
+import type { JobProgress } from './jobs.js';
+import type {
+  ColumnSchema,
+  DocumentFile,
+  GenerationEvent,
+  GenerationResult,
+  OutputLanguage,
+  ParseInput,
+  WhitepaperPlan,
+} from '../types/index.js';
+
+const logger = new Logger('GenerationPipeline');
+
+/**
+ * Input for a single whitepaper generation run
+ */
+export interface GenerationInput {
+  files: {
+    salesPdf?: MulterFile;
+    salesFile?: MulterFile;
+    targetPdf?: MulterFile;
+    targetFile?: MulterFile;
+    keywordsCsv?: MulterFile;
+  };
+  salesText?: string;
+  /** Sales web pages, fetched when no sales text or file is given */
+  salesUrl?: string[];
+  targetText?: string;
+  /** Target web pages, fetched when no target text or file is given */
+  targetUrl?: string[];
+  keywordsText?: string;
+  planCount: number;
+  /** LLM provider for plan generation; defaults to `LLM_PROVIDER` */
+  provider?: LLMProviderName;
+  /** Columns of the plans and the sheet; defaults to the built-in 13 columns */
+  columnSchema?: ColumnSchema;
+  /** Prompt templates; defaults to the profiles of `PROMPT_PROFILES_PATH` */
+  prompts?: PromptRegistry;
+  /** Profile of `prompts` to generate with; defaults to the built-in templates */
+  promptProfile?: string;
+  /** Language of the prompts, the plans and the sheet headers; defaults to ja */
+  language?: OutputLanguage;
+  spreadsheetTitle?: string;
+  folderId?: string;
+  tokens: Credentials;
+}
+
+/**
+ * Runs the whitepaper generation pipeline
+ *
+ * Parses the uploaded files in memory, generates plans with the LLM,
+ * writes them to a new spreadsheet in the user's Drive and binds the
+ * rewriter Apps Script. When `ARCHIVE_UPLOADS=true`, the uploads are also
+ * copied to storage in the background; archiving never fails the run.
+ * Each numbered step, and the typed events within the steps, are reported
+ * through `progress`.
+ *
+ * @param input - Validated generation input
+ * @param progress - Progress reporter for the owning job
+ * @returns Spreadsheet location and plan summaries
+ * @throws {Error} If any non-optional step fails
+ *
+ * @example
+ * ```typescript
+ * const job = await jobRunner.enqueue(req.sessionID, (progress) =>
+ *   runGeneration(input, progress)
+ * );
+ * ```
+ */
+export async function runGeneration(
+  input: GenerationInput,
+  progress: JobProgress
+): Promise<GenerationResult> {
+  const startTime = Date.now();
+
+  // Services report events synchronously; a failure to record one must not
+  // fail the generation itself
+  const emit = (event: GenerationEvent): void => {
+    progress.emit(event).catch((emitError) => {
+      logger.warn(`Failed to record ${event.type} event`, emitError);
+    });
+  };
+
+  const { files } = input;
+  const language = input.language ?? DEFAULT_OUTPUT_LANGUAGE;
+  // Custom schemas keep the headers they define; the built-in one is
+  // localized and maps back to the same plan fields
+  const columnSchema =
+    input.columnSchema && input.columnSchema.name !== DEFAULT_COLUMN_SCHEMA_NAME
+      ? input.columnSchema
+      : localizeDefaultColumnSchema(language);
+
+  // Archiving runs alongside parsing and generation; its result is only
+  // awaited in the archive step
+  const hasFiles = Object.values(files).some((file) => file !== undefined);
+  const archiving =
+    process.env.ARCHIVE_UPLOADS === 'true' && hasFiles ? archiveUploads(files, emit) : undefined;
+
+  // Step 1: Parse context from the uploaded buffers
+  await progress.startStep('parse');
+  logger.info('Building context from input sources');
+  // OCR cleanup and figure summaries use the same provider as plan generation
+  const ocrCleanup = process.env.OCR_LLM_CLEANUP === 'true';
+  const diagramSummary = process.env.PDF_DIAGRAM_SUMMARY === 'true';
+  const parseProvider =
+    ocrCleanup || diagramSummary
+      ? createLLMProvider(providerConfigFromEnv(input.provider))
+      : undefined;
+  const parserService = new ParserService({
+    projectId: process.env.GCP_PROJECT_ID,
+    keyFilename: process.env.GOOGLE_APPLICATION_CREDENTIALS,
+    maxPdfPages: numberFromEnv('PDF_MAX_PAGES', { integer: true }),
+    maxOcrPages: numberFromEnv('PDF_MAX_OCR_PAGES', { integer: true }),
+    useTextLayer: process.env.PDF_TEXT_LAYER !== 'false',
+    minTextLayerChars: numberFromEnv('PDF_MIN_TEXT_LAYER_CHARS', { integer: true }),
+    minOcrConfidence: numberFromEnv('OCR_MIN_CONFIDENCE'),
+    ocrCleanupProvider: ocrCleanup ? parseProvider : undefined,
+    diagramProvider: diagramSummary ? parseProvider : undefined,
+    maxDiagramPages: numberFromEnv('PDF_MAX_DIAGRAM_PAGES', { integer: true }),
+    urlTimeoutMs: numberFromEnv('URL_FETCH_TIMEOUT_MS', { integer: true }),
+    maxUrlBytes: numberFromEnv('URL_MAX_BYTES', { integer: true }),
+    allowedUrlHosts: process.env.URL_ALLOWED_HOSTS
+      ? process.env.URL_ALLOWED_HOSTS.split(',').filter((host) => host.trim() !== '')
+      : undefined,
+    language,
+  });
+
+  const parseInput: ParseInput = {
+    salesPdf: files.salesPdf?.buffer,
+    salesFile: files.salesFile && toDocumentFile(files.salesFile),
+    salesText: input.salesText,
+    salesUrl: input.salesUrl,
+    targetPdf: files.targetPdf?.buffer,
+    targetFile: files.targetFile && toDocumentFile(files.targetFile),
+    targetText: input.targetText,
+    targetUrl: input.targetUrl,
+    keywordsCsv: files.keywordsCsv?.buffer,
+    keywordsText: input.keywordsText,
+  };
+
+  const parsedContext = await parserService.buildContext(parseInput, emit);
+  logger.info('Context built successfully', {
+    salesTextLength: parsedContext.salesText.length,
+    targetTextLength: parsedContext.targetText.length,
+    keywordsCount: parsedContext.keywords.length,
+    ...parsedContext.pdfPages,
+  });
+
+  // Long sources are summarized so that the prompt leaves room for output
+  const maxSourceTokens = numberFromEnv('CONTEXT_MAX_SOURCE_TOKENS', { integer: true });
+  const context = exceedsContextBudget(parsedContext, maxSourceTokens)
+    ? await fitContextToBudget(
+        parsedContext,
+        {
+          provider: parseProvider ?? createLLMProvider(providerConfigFromEnv(input.provider)),
+          maxSourceTokens,
+          chunkTokens: numberFromEnv('CONTEXT_SUMMARY_CHUNK_TOKENS', { integer: true }),
+          language,
+        },
+        emit
+      )
+    : parsedContext;
+  await progress.completeStep('parse');
+
+  // Step 2: Generate whitepaper plans using LLMService
+  await progress.startStep('generate');
+  logger.info(`Generating ${input.planCount} whitepaper plans using LLM`);
+  const duplicateThreshold =
+    numberFromEnv('PLAN_DUPLICATE_THRESHOLD') ?? DEFAULT_DUPLICATE_THRESHOLD;
+  const qualityThreshold = numberFromEnv('PLAN_QUALITY_THRESHOLD') ?? DEFAULT_QUALITY_THRESHOLD;
+  const llmService = new LLMService({
+    ...providerConfigFromEnv(input.provider),
+    maxTokens: numberFromEnv('OPENAI_MAX_TOKENS', { integer: true }) ?? 4096,
+    temperature: numberFromEnv('OPENAI_TEMPERATURE') ?? 0.7,
+    chunkSize: numberFromEnv('LLM_PLAN_CHUNK_SIZE', { integer: true }),
+    maxAttempts: numberFromEnv('LLM_MAX_ATTEMPTS', { integer: true }),
+    keywordClusterSimilarity: numberFromEnv('KEYWORD_CLUSTER_SIMILARITY'),
+    duplicateThreshold,
+    qualityThreshold,
+    columnSchema,
+    language,
+    prompts: input.prompts ?? createPromptRegistry(),
+    promptProfile: input.promptProfile,
+  });
+
+  const generatedPlans: WhitepaperPlan[] = await llmService.generatePlans(
+    context,
+    input.planCount,
+    emit
+  );
+  const promptUsage = llmService.promptUsage;
+  logger.info(
+    `Generated ${generatedPlans.length} whitepaper plans with prompt profile ${promptUsage.profile}`
+  );
+
+  let plans = generatedPlans;
+  let regenerated = 0;
+  try {
+    ({ plans, regenerated } = await llmService.replaceDuplicatePlans(context, generatedPlans, emit));
+    if (regenerated > 0) {
+      logger.info(`Regenerated ${regenerated} duplicate plans`);
+    }
+  } catch (dedupError: any) {
+    logger.warn('Failed to regenerate duplicate plans (non-fatal)', dedupError);
+    // The generated plans are still usable, duplicates included
+  }
+
+  let revised = 0;
+  try {
+    ({ plans, revised } = await llmService.revisePlans(context, plans, emit));
+    if (revised > 0) {
+      logger.info(`Revised ${revised} low-scoring plans`);
+    }
+  } catch (reviseError: any) {
+    logger.warn('Failed to revise low-scoring plans (non-fatal)', reviseError);
+    plans = plans.map((plan) => ({
+      ...plan,
+      品質スコア: scorePlan(plan, context.keywords, columnSchema.columns, language),
+    }));
+  }
+
+  // Flag figures and case studies the material does not back (checked
+  // against the full text, not the summaries given to the LLM)
+  if (parsedContext.salesText !== '' || parsedContext.targetText !== '') {
+    plans = plans.map((plan) => ({
+      ...plan,
+      未確認の主張: findUnsupportedClaims(plan, parsedContext, language),
+    }));
+    const flagged = plans.filter((plan) => plan.未確認の主張!.length > 0).length;
+    if (flagged > 0) {
+      logger.info(`Flagged unsupported claims in ${flagged} plans`);
+    }
+  }
+  await progress.completeStep('generate');
+
+  // Step 3: Create authenticated client and spreadsheet
+  await progress.startStep('spreadsheet');
+  logger.info('Creating authenticated Google Sheets client');
+  const authService = new AuthService();
+  const authenticatedClient = authService.getAuthenticatedClient(input.tokens);
+  const sheetsService = new SheetsService(authenticatedClient);
+
+  logger.info('Creating Google Spreadsheet in user\'s Google Drive');
+  const spreadsheetTitle =
+    input.spreadsheetTitle || `Whitepaper Plans - ${new Date().toISOString()}`;
+  const { spreadsheetId, sheetId } = await sheetsService.createSpreadsheet(spreadsheetTitle);
+  logger.info(`Spreadsheet created: ${spreadsheetId}, sheet: ${sheetId}`);
+  emit({
+    type: 'sheet_created',
+    spreadsheetId,
+    spreadsheetUrl: sheetsService.getSpreadsheetUrl(spreadsheetId),
+  });
+
+  logger.info('Writing data to spreadsheet');
+  await sheetsService.writeData(spreadsheetId, plans, sheetId, columnSchema, language);
+  logger.info('Data written successfully');
+
+  // Record the prompt versions in the Backlog sheet so the sheet can be
+  // traced back to the prompts that produced it
+  try {
+    await sheetsService.writeBacklog(
+      spreadsheetId,
+      'GENERATED',
+      `Generated ${plans.length} plans`,
+      { columnSchema: columnSchema.name, language, prompts: promptUsage }
+    );
+  } catch (backlogError: any) {
+    logger.warn('Failed to write the Backlog sheet (non-fatal)', backlogError);
+  }
+  await progress.completeStep('spreadsheet');
+
+  // Step 4: Bind Google Apps Script to spreadsheet
+  await progress.startStep('bind_script');
+  logger.info('Binding Google Apps Script to spreadsheet');
+  const backendApiUrl = process.env.BACKEND_API_URL || 'http://localhost:8080';
+  const appsScriptService = new AppsScriptService(authenticatedClient);
+
+  try {
+    const { scriptId, projectUrl } = await appsScriptService.createAndBindScript(
+      spreadsheetId,
+      backendApiUrl,
+      promptUsage.profile,
+      language
+    );
+    logger.info(`Apps Script bound successfully: ${scriptId}`);
+    logger.info(`Script project URL: ${projectUrl}`);
+    emit({ type: 'script_bound', scriptId });
+    await progress.completeStep('bind_script');
+  } catch (scriptError: any) {
+    logger.warn('Failed to bind Apps Script (non-fatal)', scriptError);
+    // Don't fail the entire job if GAS binding fails
+    // Users can still use the spreadsheet without rewriter functionality
+    await progress.skipStep('bind_script');
+  }
+
+  // Step 5: Move spreadsheet to folder (if folderId provided)
+  if (input.folderId) {
+    await progress.startStep('move');
+    logger.info(`Moving spreadsheet to folder: ${input.folderId}`);
+    await sheetsService.moveToFolder(spreadsheetId, input.folderId);
+    logger.info('Spreadsheet moved successfully');
+    emit({ type: 'moved', folderId: input.folderId });
+    await progress.completeStep('move');
+  } else {
+    await progress.skipStep('move');
+  }
+
+  // Step 6: Wait for the background archive (if enabled)
+  if (archiving) {
+    await progress.startStep('archive');
+    if (await archiving) {
+      await progress.completeStep('archive');
+    } else {
+      await progress.skipStep('archive');
+    }
+  } else {
+    await progress.skipStep('archive');
+  }
+
+  // Step 7: Build the job result
+  await progress.startStep('finalize');
+  const spreadsheetUrl = sheetsService.getSpreadsheetUrl(spreadsheetId);
+  const duration = Date.now() - startTime;
+
+  logger.info(`Generation completed successfully in ${duration}ms`);
+
+  const result: GenerationResult = {
+    spreadsheetId,
+    spreadsheetUrl,
+    planCount: plans.length,
+    plans: plans.map((plan) => ({
+      no: plan.no,
+      タイトル: plan.タイトル,
+      目的: plan.目的,
+      ターゲット: plan.ターゲット,
+      構成: plan.構成,
+      ...(plan.対象キーワード && { 対象キーワード: plan.対象キーワード }),
+      ...(plan.品質スコア && { 品質スコア: plan.品質スコア }),
+      ...(plan.出典 && { 出典: plan.出典 }),
+      ...(plan.未確認の主張 && { 未確認の主張: plan.未確認の主張 }),
+      ...(plan.追加列 && { 追加列: plan.追加列 }),
+    })),
+    metadata: {
+      duration: `${duration}ms`,
+      timestamp: new Date().toISOString(),
+      columnSchema: columnSchema.name,
+      language,
+      prompts: promptUsage,
+      ...(context.pdfPages && { pdfPages: context.pdfPages }),
+      ...(context.keywords.length > 0 && {
+        keywordCoverage: summarizeKeywordCoverage(context.keywords, plans),
+      }),
+      ...(context.summarizedSources && { summarizedSources: context.summarizedSources }),
+      planSimilarity: {
+        threshold: duplicateThreshold,
+        regenerated,
+        matrix: planSimilarityMatrix(plans),
+      },
+      quality: {
+        threshold: qualityThreshold,
+        revised,
+        averageScore: Math.round(
+          plans.reduce((sum, plan) => sum + (plan.品質スコア?.score ?? 0), 0) / plans.length
+        ),
+      },
+    },
+  };
+  await progress.completeStep('finalize');
+
+  return result;
+}
+
+/**
+ * Converts an uploaded file to parser input
+ */
+function toDocumentFile(file: MulterFile): DocumentFile {
+  return { content: file.buffer, mimeType: file.mimetype, fileName: file.originalname };
+}
+
+/**
+ * Copies the uploaded files to storage
+ *
+ * Failures are logged instead of thrown so that archiving cannot fail the
+ * generation.
+ *
+ * @param files - Uploaded files to archive
+ * @param emit - Event listener for `uploaded` events
+ * @returns True if every file was archived, false if any upload failed
+ */
+async function archiveUploads(
+  files: GenerationInput['files'],
+  emit: (event: GenerationEvent) => void
+): Promise<boolean> {
+  try {
+    const storageService = createStorageService();
+    const uploads = Object.entries(files).filter(
+      (entry): entry is [string, MulterFile] => entry[1] !== undefined
+    );
+
+    const results = await Promise.allSettled(
+      uploads.map(async ([field, file]) => {
+        const result = await storageService.uploadFile(file);
+        logger.info(`Archived ${field}: ${result.fileName}`);
+        emit({ type: 'uploaded', field, fileName: result.fileName, size: result.size });
+      })
+    );
+
+    const failures = results.filter(
+      (result): result is PromiseRejectedResult => result.status === 'rejected'
+    );
+    failures.forEach((failure) => logger.warn('Failed to archive upload (non-fatal)', failure.reason));
+    return failures.length === 0;
+  } catch (error) {
+    logger.warn('Failed to archive uploads (non-fatal)', error);
+    return false;
+  }
+}
@@ -0,0 +1,247 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { InMemoryJobStore, JobRunner, GENERATION_STEPS } from './jobs';
+import type { GenerationEventRecord, GenerationJob, GenerationResult } from '../types/index';
+
+const mockResult: GenerationResult = {
+  spreadsheetId: 'sheet-1',
+  spreadsheetUrl: 'https://docs.google.com/spreadsheets/d/sheet-1/edit',
+  planCount: 1,
+  plans: [{ no: 1, タイトル: 'タイトル', 目的: '目的', ターゲット: 'ターゲット', 構成: '## 第1章' }],
+  metadata: { duration: '10ms', timestamp: '2025-01-01T00:00:00.000Z' },
+};
+
+function buildJob(id: string, overrides: Partial<GenerationJob> = {}): GenerationJob {
+  return {
+    id,
+    ownerId: 'owner-1',
+    status: 'queued',
+    steps: [],
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    ...overrides,
+  };
+}
+
+/**
+ * Polls the store until the job leaves the queued/running states
+ */
+async function waitForJob(store: InMemoryJobStore, id: string): Promise<GenerationJob> {
+  for (let attempt = 0; attempt < 100; attempt++) {
+    const job = await store.get(id);
+    if (job && (job.status === 'completed' || job.status === 'failed')) {
+      return job;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+  throw new Error(`Job ${id} did not finish`);
+}
+
+describe('InMemoryJobStore', () => {
+  let store: InMemoryJobStore;
+
+  beforeEach(() => {
+    store = new InMemoryJobStore();
+  });
+
+  it('should create and get jobs', async () => {
+    await store.create(buildJob('job-1'));
+
+    const job = await store.get('job-1');
+    expect(job?.id).toBe('job-1');
+    expect(await store.get('missing')).toBeUndefined();
+  });
+
+  it('should return copies that cannot mutate stored jobs', async () => {
+    await store.create(buildJob('job-1'));
+
+    const job = await store.get('job-1');
+    job!.status = 'failed';
+
+    expect((await store.get('job-1'))?.status).toBe('queued');
+  });
+
+  it('should update jobs and bump updatedAt', async () => {
+    await store.create(buildJob('job-1', { updatedAt: '2000-01-01T00:00:00.000Z' }));
+
+    const updated = await store.update('job-1', { status: 'running' });
+
+    expect(updated.status).toBe('running');
+    expect(updated.updatedAt).not.toBe('2000-01-01T00:00:00.000Z');
+  });
+
+  it('should throw when updating an unknown job', async () => {
+    await expect(store.update('missing', { status: 'running' })).rejects.toThrow(
+      'Job not found: missing'
+    );
+  });
+
+  it('should list jobs by owner, newest first', async () => {
+    await store.create(buildJob('old', { createdAt: '2025-01-01T00:00:00.000Z' }));
+    await store.create(buildJob('new', { createdAt: '2025-01-02T00:00:00.000Z' }));
+    await store.create(buildJob('other', { ownerId: 'owner-2' }));
+
+    const jobs = await store.list('owner-1');
+
+    expect(jobs.map((job) => job.id)).toEqual(['new', 'old']);
+    expect(await store.list()).toHaveLength(3);
+  });
+
+  it('should append events with increasing sequence numbers', async () => {
+    await store.create(buildJob('job-1'));
+
+    const first = await store.appendEvent('job-1', { type: 'moved', folderId: 'a' });
+    const second = await store.appendEvent('job-1', { type: 'moved', folderId: 'b' });
+
+    expect(first.seq).toBe(1);
+    expect(second.seq).toBe(2);
+    expect((await store.getEvents('job-1')).map((event) => event.seq)).toEqual([1, 2]);
+    expect((await store.getEvents('job-1', 1)).map((event) => event.seq)).toEqual([2]);
+  });
+
+  it('should update one step without touching the others', async () => {
+    await store.create(
+      buildJob('job-1', {
+        steps: [
+          { id: 'parse', label: 'Parse', status: 'pending' },
+          { id: 'archive', label: 'Archive', status: 'pending' },
+        ],
+      })
+    );
+
+    await Promise.all([
+      store.updateStep('job-1', 'parse', { status: 'running' }, 'parse'),
+      store.updateStep('job-1', 'archive', { status: 'completed' }),
+    ]);
+
+    const job = await store.get('job-1');
+    expect(job?.steps.map((step) => step.status)).toEqual(['running', 'completed']);
+    expect(job?.currentStep).toBe('parse');
+    await expect(store.updateStep('missing', 'parse', {})).rejects.toThrow('Job not found: missing');
+  });
+
+  it('should throw when appending events to an unknown job', async () => {
+    await expect(store.appendEvent('missing', { type: 'moved', folderId: 'a' })).rejects.toThrow(
+      'Job not found: missing'
+    );
+  });
+
+  it('should evict the oldest finished jobs when over capacity', async () => {
+    store = new InMemoryJobStore({ maxJobs: 2 });
+    await store.create(buildJob('done', { status: 'completed', createdAt: '2025-01-01T00:00:00.000Z' }));
+    await store.create(buildJob('running', { status: 'running', createdAt: '2025-01-02T00:00:00.000Z' }));
+    await store.create(buildJob('queued', { createdAt: '2025-01-03T00:00:00.000Z' }));
+
+    expect(await store.get('done')).toBeUndefined();
+    expect(await store.get('running')).toBeDefined();
+    expect(await store.get('queued')).toBeDefined();
+  });
+});
+
+describe('JobRunner', () => {
+  let store: InMemoryJobStore;
+  let runner: JobRunner;
+
+  beforeEach(() => {
+    store = new InMemoryJobStore();
+    runner = new JobRunner(store);
+  });
+
+  it('should return a queued job with all steps pending', async () => {
+    const job = await runner.enqueue('owner-1', async () => mockResult);
+
+    expect(job.status).toBe('queued');
+    expect(job.ownerId).toBe('owner-1');
+    expect(job.steps).toHaveLength(GENERATION_STEPS.length);
+    expect(job.steps.every((step) => step.status === 'pending')).toBe(true);
+  });
+
+  it('should record step progress and the result', async () => {
+    const job = await runner.enqueue('owner-1', async (progress) => {
+      await progress.startStep('parse');
+      await progress.completeStep('parse');
+      await progress.skipStep('move');
+      return mockResult;
+    });
+
+    const finished = await waitForJob(store, job.id);
+
+    expect(finished.status).toBe('completed');
+    expect(finished.result).toEqual(mockResult);
+    const parse = finished.steps.find((step) => step.id === 'parse');
+    expect(parse?.status).toBe('completed');
+    expect(parse?.startedAt).toBeDefined();
+    expect(parse?.completedAt).toBeDefined();
+    expect(finished.steps.find((step) => step.id === 'move')?.status).toBe('skipped');
+  });
+
+  it('should keep concurrent step updates', async () => {
+    const job = await runner.enqueue('owner-1', async (progress) => {
+      await Promise.all([progress.startStep('parse'), progress.completeStep('archive')]);
+      await progress.completeStep('parse');
+      return mockResult;
+    });
+
+    const finished = await waitForJob(store, job.id);
+
+    expect(finished.steps.find((step) => step.id === 'parse')?.status).toBe('completed');
+    expect(finished.steps.find((step) => step.id === 'archive')?.status).toBe('completed');
+  });
+
+  it('should record the error and failing step', async () => {
+    const job = await runner.enqueue('owner-1', async (progress) => {
+      await progress.startStep('generate');
+      throw new Error('boom');
+    });
+
+    const finished = await waitForJob(store, job.id);
+
+    expect(finished.status).toBe('failed');
+    expect(finished.error).toEqual({ message: 'boom', step: 'generate' });
+    expect(finished.steps.find((step) => step.id === 'generate')?.status).toBe('failed');
+  });
+
+  it('should not blame a completed step for a failure between steps', async () => {
+    const job = await runner.enqueue('owner-1', async (progress) => {
+      await progress.startStep('parse');
+      await progress.completeStep('parse');
+      throw new Error('between steps');
+    });
+
+    const finished = await waitForJob(store, job.id);
+
+    expect(finished.error).toEqual({ message: 'between steps', step: undefined });
+    expect(finished.steps.find((step) => step.id === 'parse')?.status).toBe('completed');
+  });
+
+  it('should publish events to subscribers and record them', async () => {
+    const received: GenerationEventRecord[] = [];
+
+    const job = await runner.enqueue('owner-1', async (progress) => {
+      await progress.emit({ type: 'llm_started', model: 'gpt-5', planCount: 1 });
+      return mockResult;
+    });
+    const unsubscribe = runner.subscribe(job.id, (event) => received.push(event));
+
+    await waitForJob(store, job.id);
+    unsubscribe();
+
+    const recorded = await store.getEvents(job.id);
+    expect(recorded.map((event) => event.type)).toEqual(['llm_started', 'done']);
+    expect(received.map((event) => event.type)).toEqual(['llm_started', 'done']);
+  });
+
+  it('should emit step events and a final error event on failure', async () => {
+    const job = await runner.enqueue('owner-1', async (progress) => {
+      await progress.startStep('parse');
+      throw new Error('boom');
+    });
+
+    await waitForJob(store, job.id);
+    const events = await store.getEvents(job.id);
+
+    expect(events.map((event) => event.type)).toEqual(['step', 'step', 'error']);
+    expect(events[0]).toMatchObject({ type: 'step', step: 'parse', status: 'running' });
+    expect(events[1]).toMatchObject({ type: 'step', step: 'parse', status: 'failed' });
+    expect(events[2]).toMatchObject({ type: 'error', message: 'boom', step: 'parse' });
+  });
+});
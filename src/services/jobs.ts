@@ -0,0 +1,337 @@
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import { Logger } from '../utils/logger.js';
+import type {
+  GenerationEvent,
+  GenerationEventRecord,
+  GenerationJob,
+  GenerationJobStep,
+  GenerationResult,
+  GenerationStepId,
+} from '../types/index.js';
+
+const logger = new Logger('JobRunner');
+
+/**
+ * Numbered steps of the whitepaper generation pipeline, in execution order
+ */
+export const GENERATION_STEPS: ReadonlyArray<{ id: GenerationStepId; label: string }> = [
+  { id: 'parse', label: 'Build context from input sources' },
+  { id: 'generate', label: 'Generate whitepaper plans' },
+  { id: 'spreadsheet', label: 'Create spreadsheet and write plans' },
+  { id: 'bind_script', label: 'Bind Google Apps Script' },
+  { id: 'move', label: 'Move spreadsheet to folder' },
+  { id: 'archive', label: 'Archive uploaded files to storage' },
+  { id: 'finalize', label: 'Finalize result' },
+];
+
+/**
+ * Persistence interface for generation jobs
+ *
+ * Implementations must keep jobs beyond the lifetime of the HTTP request
+ * that created them. The in-memory implementation is suitable for a single
+ * instance and for tests; a shared store (e.g. Firestore) is required when
+ * running more than one instance.
+ *
+ * Progress events are stored alongside each job so that late subscribers
+ * can replay them. `updateStep` must apply its changes to the stored steps
+ * in a single operation (e.g. a transaction), because steps such as the
+ * background archive run concurrently with the main pipeline.
+ */
+export interface JobStore {
+  create(job: GenerationJob): Promise<void>;
+  get(id: string): Promise<GenerationJob | undefined>;
+  list(ownerId?: string): Promise<GenerationJob[]>;
+  update(id: string, patch: Partial<Omit<GenerationJob, 'id'>>): Promise<GenerationJob>;
+  updateStep(
+    id: string,
+    stepId: GenerationStepId,
+    changes: Partial<GenerationJobStep>,
+    currentStep?: GenerationStepId
+  ): Promise<GenerationJob>;
+  appendEvent(id: string, event: GenerationEvent): Promise<GenerationEventRecord>;
+  getEvents(id: string, afterSeq?: number): Promise<GenerationEventRecord[]>;
+}
+
+/**
+ * InMemoryJobStore
+ *
+ * Keeps jobs in a Map. Once `maxJobs` is exceeded, the oldest finished jobs
+ * are evicted so that a long-running process does not grow without bound.
+ *
+ * @example
+ * ```typescript
+ * const store = new InMemoryJobStore({ maxJobs: 50 });
+ * const runner = new JobRunner(store);
+ * ```
+ */
+export class InMemoryJobStore implements JobStore {
+  private jobs = new Map<string, GenerationJob>();
+  private events = new Map<string, GenerationEventRecord[]>();
+  private maxJobs: number;
+
+  constructor(options?: { maxJobs?: number }) {
+    this.maxJobs = options?.maxJobs ?? 100;
+  }
+
+  async create(job: GenerationJob): Promise<void> {
+    this.jobs.set(job.id, cloneJob(job));
+    this.events.set(job.id, []);
+    this.evict();
+  }
+
+  async get(id: string): Promise<GenerationJob | undefined> {
+    const job = this.jobs.get(id);
+    return job ? cloneJob(job) : undefined;
+  }
+
+  async list(ownerId?: string): Promise<GenerationJob[]> {
+    return Array.from(this.jobs.values())
+      .filter((job) => ownerId === undefined || job.ownerId === ownerId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map(cloneJob);
+  }
+
+  async update(id: string, patch: Partial<Omit<GenerationJob, 'id'>>): Promise<GenerationJob> {
+    const job = this.jobs.get(id);
+    if (!job) {
+      throw new Error(`Job not found: ${id}`);
+    }
+
+    const updated: GenerationJob = {
+      ...job,
+      ...patch,
+      updatedAt: new Date().toISOString(),
+    };
+    this.jobs.set(id, cloneJob(updated));
+    return cloneJob(updated);
+  }
+
+  async updateStep(
+    id: string,
+    stepId: GenerationStepId,
+    changes: Partial<GenerationJobStep>,
+    currentStep?: GenerationStepId
+  ): Promise<GenerationJob> {
+    const job = this.jobs.get(id);
+    if (!job) {
+      throw new Error(`Job not found: ${id}`);
+    }
+
+    const steps = job.steps.map((step) => (step.id === stepId ? { ...step, ...changes } : step));
+    return this.update(id, currentStep ? { steps, currentStep } : { steps });
+  }
+
+  async appendEvent(id: string, event: GenerationEvent): Promise<GenerationEventRecord> {
+    const events = this.events.get(id);
+    if (!events) {
+      throw new Error(`Job not found: ${id}`);
+    }
+
+    const record: GenerationEventRecord = {
+      ...event,
+      seq: events.length + 1,
+      timestamp: new Date().toISOString(),
+    };
+    events.push(structuredClone(record));
+    return record;
+  }
+
+  async getEvents(id: string, afterSeq = 0): Promise<GenerationEventRecord[]> {
+    const events = this.events.get(id) ?? [];
+    return events.filter((event) => event.seq > afterSeq).map((event) => structuredClone(event));
+  }
+
+  /**
+   * Removes the oldest finished jobs while the store is over capacity
+   * @private
+   */
+  private evict(): void {
+    if (this.jobs.size <= this.maxJobs) {
+      return;
+    }
+
+    const finished = Array.from(this.jobs.values())
+      .filter((job) => job.status === 'completed' || job.status === 'failed')
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+    for (const job of finished) {
+      if (this.jobs.size <= this.maxJobs) {
+        break;
+      }
+      this.jobs.delete(job.id);
+      this.events.delete(job.id);
+    }
+  }
+}
+
+/**
+ * Progress reporter handed to a running job task
+ */
+export interface JobProgress {
+  startStep(step: GenerationStepId): Promise<void>;
+  completeStep(step: GenerationStepId): Promise<void>;
+  skipStep(step: GenerationStepId): Promise<void>;
+  emit(event: GenerationEvent): Promise<void>;
+}
+
+/**
+ * Listener for live job events
+ */
+export type JobEventListener = (event: GenerationEventRecord) => void;
+
+/**
+ * Task executed in the background for a job
+ */
+export type JobTask = (progress: JobProgress) => Promise<GenerationResult>;
+
+/**
+ * JobRunner
+ *
+ * Creates generation jobs and executes their tasks in the background,
+ * recording per-step progress, the final result, or the failure in a JobStore.
+ * Every recorded event is also published to live subscribers.
+ *
+ * @example
+ * ```typescript
+ * const runner = new JobRunner(new InMemoryJobStore());
+ * const job = await runner.enqueue(req.sessionID, (progress) =>
+ *   runGeneration(input, progress)
+ * );
+ * res.status(202).json({ jobId: job.id });
+ * ```
+ */
+export class JobRunner {
+  private store: JobStore;
+  private emitter = new EventEmitter();
+
+  constructor(store: JobStore) {
+    this.store = store;
+    // One listener per open SSE connection
+    this.emitter.setMaxListeners(0);
+  }
+
+  /**
+   * Subscribes to events recorded for a job from now on
+   *
+   * @param jobId - ID of the job to follow
+   * @param listener - Called with each new event record
+   * @returns Function that removes the subscription
+   */
+  subscribe(jobId: string, listener: JobEventListener): () => void {
+    this.emitter.on(jobId, listener);
+    return () => {
+      this.emitter.off(jobId, listener);
+    };
+  }
+
+  /**
+   * Creates a queued job and starts its task without waiting for it
+   *
+   * @param ownerId - Identifier of the job owner (e.g. session ID)
+   * @param task - Pipeline to execute for the job
+   * @returns The newly created job in `queued` state
+   */
+  async enqueue(ownerId: string, task: JobTask): Promise<GenerationJob> {
+    const now = new Date().toISOString();
+    const job: GenerationJob = {
+      id: randomUUID(),
+      ownerId,
+      status: 'queued',
+      steps: GENERATION_STEPS.map((step) => ({ ...step, status: 'pending' })),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.store.create(job);
+    logger.info(`Job queued: ${job.id}`);
+
+    // Intentionally not awaited: the job continues after the request ends
+    void this.run(job.id, task);
+
+    return job;
+  }
+
+  /**
+   * Executes a job task and records its outcome
+   * @private
+   */
+  private async run(jobId: string, task: JobTask): Promise<void> {
+    let currentStep: GenerationStepId | undefined;
+
+    const progress: JobProgress = {
+      startStep: async (step) => {
+        currentStep = step;
+        await this.updateStep(jobId, step, { status: 'running', startedAt: new Date().toISOString() }, step);
+      },
+      completeStep: async (step) => {
+        currentStep = currentStep === step ? undefined : currentStep;
+        await this.updateStep(jobId, step, { status: 'completed', completedAt: new Date().toISOString() });
+      },
+      skipStep: async (step) => {
+        currentStep = currentStep === step ? undefined : currentStep;
+        await this.updateStep(jobId, step, { status: 'skipped', completedAt: new Date().toISOString() });
+      },
+      emit: async (event) => {
+        await this.emit(jobId, event);
+      },
+    };
+
+    try {
+      await this.store.update(jobId, { status: 'running' });
+      const result = await task(progress);
+      await this.store.update(jobId, { status: 'completed', currentStep: undefined, result });
+      await this.emit(jobId, { type: 'done', result });
+      logger.info(`Job completed: ${jobId}`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error(`Job failed: ${jobId}`, error instanceof Error ? error : new Error(errorMessage));
+
+      try {
+        if (currentStep) {
+          await this.updateStep(jobId, currentStep, { status: 'failed', completedAt: new Date().toISOString() });
+        }
+        await this.store.update(jobId, {
+          status: 'failed',
+          error: { message: errorMessage, step: currentStep },
+        });
+        await this.emit(jobId, { type: 'error', message: errorMessage, step: currentStep });
+      } catch (storeError) {
+        logger.error(`Failed to record failure for job ${jobId}`, storeError);
+      }
+    }
+  }
+
+  /**
+   * Applies changes to a single step of a job
+   * @private
+   */
+  private async updateStep(
+    jobId: string,
+    stepId: GenerationStepId,
+    changes: Partial<GenerationJobStep>,
+    currentStep?: GenerationStepId
+  ): Promise<void> {
+    await this.store.updateStep(jobId, stepId, changes, currentStep);
+
+    if (changes.status) {
+      await this.emit(jobId, { type: 'step', step: stepId, status: changes.status });
+    }
+  }
+
+  /**
+   * Records an event for a job and publishes it to live subscribers
+   * @private
+   */
+  private async emit(jobId: string, event: GenerationEvent): Promise<void> {
+    const record = await this.store.appendEvent(jobId, event);
+    this.emitter.emit(jobId, record);
+  }
+}
+
+/**
+ * Deep-copies a job so callers cannot mutate stored state
+ */
+function cloneJob(job: GenerationJob): GenerationJob {
+  return structuredClone(job);
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+  assignKeywordClusters,
+  clusterKeywords,
+  keywordSimilarity,
+  summarizeKeywordCoverage,
+} from './keyword-cluster';
+
+describe('keywordSimilarity', () => {
+  it('should score shared head terms and compounds above unrelated keywords', () => {
+    expect(keywordSimilarity('SFA 比較', 'SFA 比較 おすすめ')).toBeGreaterThanOrEqual(0.5);
+    expect(keywordSimilarity('営業効率化', '営業効率化ツール')).toBeGreaterThan(0.4);
+    expect(keywordSimilarity('ＳＦＡ　比較', 'sfa 比較')).toBe(1);
+    expect(keywordSimilarity('SFA 比較', 'CRM 比較')).toBeLessThan(0.3);
+    expect(keywordSimilarity('SFA', '営業 DX')).toBe(0);
+  });
+});
+
+describe('clusterKeywords', () => {
+  const entries = [
+    { keyword: 'SFA 比較', searchVolume: 1900 },
+    { keyword: '営業 DX', searchVolume: 2400 },
+    { keyword: 'SFA 比較 おすすめ', searchVolume: 320 },
+    { keyword: '営業 DX 事例', searchVolume: 140 },
+    { keyword: 'インサイドセールス' },
+  ];
+
+  it('should group similar keywords and order clusters by search volume', () => {
+    const clusters = clusterKeywords(entries);
+
+    expect(clusters).toEqual([
+      {
+        label: '営業 DX',
+        keywords: [entries[1], entries[3]],
+        searchVolume: 2540,
+      },
+      {
+        label: 'SFA 比較',
+        keywords: [entries[0], entries[2]],
+        searchVolume: 2220,
+      },
+      { label: 'インサイドセールス', keywords: [entries[4]], searchVolume: 0 },
+    ]);
+  });
+
+  it('should not merge below the minimum cluster count', () => {
+    expect(clusterKeywords(entries, { minClusters: 4 })).toHaveLength(4);
+    expect(clusterKeywords(entries, { minClusters: 10 })).toHaveLength(5);
+    expect(clusterKeywords(entries, { minSimilarity: 1 })).toHaveLength(5);
+  });
+
+  it('should return no clusters without keywords', () => {
+    expect(clusterKeywords([])).toEqual([]);
+  });
+});
+
+describe('assignKeywordClusters', () => {
+  it('should give each plan a distinct cluster', () => {
+    const clusters = clusterKeywords([
+      { keyword: 'SFA 比較' },
+      { keyword: 'SFA 比較 おすすめ' },
+      { keyword: '営業 DX' },
+    ]);
+
+    expect(assignKeywordClusters(clusters, 1)).toEqual([
+      { primary: 'SFA 比較', secondary: ['SFA 比較 おすすめ'] },
+    ]);
+    expect(assignKeywordClusters(clusters, 3)).toEqual([
+      { primary: 'SFA 比較', secondary: ['SFA 比較 おすすめ'] },
+      { primary: '営業 DX', secondary: [] },
+    ]);
+  });
+});
+
+describe('summarizeKeywordCoverage', () => {
+  it('should list the keywords no plan targets', () => {
+    const coverage = summarizeKeywordCoverage(
+      ['SFA 比較', 'SFA 比較 おすすめ', '営業 DX', 'MA ツール'],
+      [
+        { 対象キーワード: { primary: 'sfa 比較', secondary: ['SFA 比較 おすすめ'] } },
+        {},
+      ]
+    );
+
+    expect(coverage).toEqual({
+      totalKeywords: 4,
+      assignedKeywords: 2,
+      unassignedKeywords: ['営業 DX', 'MA ツール'],
+    });
+  });
+});
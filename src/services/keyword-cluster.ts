@@ -0,0 +1,239 @@
+import { normalizeKeyword } from './keyword-csv.js';
+import type {
+  KeywordCoverage,
+  KeywordEntry,
+  PlanKeywords,
+  WhitepaperPlan,
+} from '../types/index.js';
+
+/**
+ * Keywords grouped into one topic
+ */
+export interface KeywordCluster {
+  /** Representative keyword (highest search volume, then first in the input) */
+  label: string;
+  /** Keywords by search volume, highest first */
+  keywords: KeywordEntry[];
+  /** Total search volume of the keywords with a known volume */
+  searchVolume: number;
+}
+
+/**
+ * Options for keyword clustering
+ */
+export interface ClusterOptions {
+  /** Clusters are not merged below this count, e.g. the number of plans (default: 1) */
+  minClusters?: number;
+  /** Clusters less similar than this are not merged (default: 0.3) */
+  minSimilarity?: number;
+}
+
+/**
+ * Default minimum average similarity for merging two clusters
+ */
+export const DEFAULT_MIN_CLUSTER_SIMILARITY = 0.3;
+
+/**
+ * Maximum keywords clustered; keywords with lower search volume beyond this
+ * are left out (clustering time grows with the cube of the count)
+ */
+export const MAX_CLUSTERED_KEYWORDS = 300;
+
+/**
+ * Maximum secondary keywords assigned to one plan
+ */
+const MAX_SECONDARY_KEYWORDS = 10;
+
+/**
+ * Groups keywords into topics by lexical similarity
+ *
+ * Starts with one cluster per keyword and repeatedly merges the two most
+ * similar clusters (average linkage over `keywordSimilarity`) until no pair
+ * reaches `minSimilarity` or only `minClusters` clusters are left. At most
+ * 300 keywords, those with the highest search volume, are clustered.
+ *
+ * @param entries - Deduplicated keywords, e.g. `ParsedContext.keywordEntries`
+ * @param options - Minimum cluster count and similarity threshold
+ * @returns Clusters by total search volume, then size, highest first
+ *
+ * @example
+ * ```typescript
+ * const clusters = clusterKeywords(
+ *   [{ keyword: 'SFA 比較' }, { keyword: 'SFA 比較 おすすめ' }, { keyword: '営業 DX' }],
+ *   { minClusters: 2 }
+ * );
+ * // [{ label: 'SFA 比較', keywords: [...2 entries], ... }, { label: '営業 DX', ... }]
+ * ```
+ */
+export function clusterKeywords(
+  entries: KeywordEntry[],
+  options: ClusterOptions = {}
+): KeywordCluster[] {
+  const minClusters = Math.max(options.minClusters ?? 1, 1);
+  const minSimilarity = options.minSimilarity ?? DEFAULT_MIN_CLUSTER_SIMILARITY;
+
+  // Highest search volume first; the sort is stable, so ties keep input order
+  const items = [...entries]
+    .sort((a, b) => (b.searchVolume ?? -1) - (a.searchVolume ?? -1))
+    .slice(0, MAX_CLUSTERED_KEYWORDS);
+  const features = items.map((entry) => keywordFeatures(entry.keyword));
+
+  const members = items.map((_, index) => [index]);
+  const similarity = items.map((_, i) =>
+    items.map((_, j) => (i === j ? 0 : jaccard(features[i]!, features[j]!)))
+  );
+
+  while (members.length > minClusters) {
+    let best = { i: -1, j: -1, value: -1 };
+    for (let i = 0; i < members.length; i++) {
+      for (let j = i + 1; j < members.length; j++) {
+        if (similarity[i]![j]! > best.value) {
+          best = { i, j, value: similarity[i]![j]! };
+        }
+      }
+    }
+    if (best.value < minSimilarity) {
+      break;
+    }
+
+    // Average linkage update (Lance-Williams) for the merged cluster
+    const { i, j } = best;
+    const sizeI = members[i]!.length;
+    const sizeJ = members[j]!.length;
+    for (let k = 0; k < members.length; k++) {
+      if (k !== i && k !== j) {
+        const merged = (sizeI * similarity[i]![k]! + sizeJ * similarity[j]![k]!) / (sizeI + sizeJ);
+        similarity[i]![k] = merged;
+        similarity[k]![i] = merged;
+      }
+    }
+    members[i]!.push(...members[j]!);
+    members.splice(j, 1);
+    similarity.splice(j, 1);
+    similarity.forEach((row) => row.splice(j, 1));
+  }
+
+  return members
+    .map((indexes) => {
+      const keywords = [...indexes].sort((a, b) => a - b).map((index) => items[index]!);
+      return {
+        label: keywords[0]!.keyword,
+        keywords,
+        searchVolume: keywords.reduce((sum, entry) => sum + (entry.searchVolume ?? 0), 0),
+        first: Math.min(...indexes),
+      };
+    })
+    .sort(
+      (a, b) =>
+        b.searchVolume - a.searchVolume || b.keywords.length - a.keywords.length || a.first - b.first
+    )
+    .map(({ first: _first, ...cluster }) => cluster);
+}
+
+/**
+ * Assigns a distinct cluster to each plan
+ *
+ * Plan N gets the Nth cluster: its label as the primary keyword and up to
+ * 10 other keywords as secondary keywords. Clusters beyond the plan count
+ * stay unassigned; with fewer clusters than plans, the last plans get none.
+ *
+ * @param clusters - Clusters from `clusterKeywords`, most important first
+ * @param planCount - Number of plans
+ * @returns Keywords of each plan, at most `planCount` entries
+ *
+ * @example
+ * ```typescript
+ * const assignments = assignKeywordClusters(clusterKeywords(entries, { minClusters: 5 }), 5);
+ * // [{ primary: 'SFA 比較', secondary: ['SFA 比較 おすすめ'] }, ...]
+ * ```
+ */
+export function assignKeywordClusters(
+  clusters: KeywordCluster[],
+  planCount: number
+): PlanKeywords[] {
+  return clusters.slice(0, planCount).map((cluster) => ({
+    primary: cluster.label,
+    secondary: cluster.keywords
+      .slice(1, MAX_SECONDARY_KEYWORDS + 1)
+      .map((entry) => entry.keyword),
+  }));
+}
+
+/**
+ * Reports which keywords are targeted by at least one plan
+ *
+ * @param keywords - All input keywords
+ * @param plans - Generated plans with their assigned keywords
+ * @returns Counts and the keywords no plan targets, in input order
+ *
+ * @example
+ * ```typescript
+ * const coverage = summarizeKeywordCoverage(context.keywords, plans);
+ * // { totalKeywords: 200, assignedKeywords: 42, unassignedKeywords: ['...', ...] }
+ * ```
+ */
+export function summarizeKeywordCoverage(
+  keywords: string[],
+  plans: Array<Pick<WhitepaperPlan, '対象キーワード'>>
+): KeywordCoverage {
+  const assigned = new Set(
+    plans
+      .flatMap((plan) =>
+        plan.対象キーワード ? [plan.対象キーワード.primary, ...plan.対象キーワード.secondary] : []
+      )
+      .map((keyword) => normalizeKeyword(keyword).toLowerCase())
+  );
+  const unassignedKeywords = keywords.filter(
+    (keyword) => !assigned.has(normalizeKeyword(keyword).toLowerCase())
+  );
+
+  return {
+    totalKeywords: keywords.length,
+    assignedKeywords: keywords.length - unassignedKeywords.length,
+    unassignedKeywords,
+  };
+}
+
+/**
+ * Lexical similarity of two keywords (0-1)
+ *
+ * Jaccard similarity of their words and the character bigrams within each
+ * word, so that keywords sharing a head term (`SFA 比較` / `SFA 比較
+ * おすすめ`) or a compound (`営業効率化` / `営業効率化ツール`) score high.
+ *
+ * @param a - First keyword
+ * @param b - Second keyword
+ * @returns Similarity between 0 (nothing shared) and 1 (same words)
+ */
+export function keywordSimilarity(a: string, b: string): number {
+  return jaccard(keywordFeatures(a), keywordFeatures(b));
+}
+
+/**
+ * Returns the words of a normalized, lowercased keyword and the character
+ * bigrams within each word
+ */
+function keywordFeatures(keyword: string): Set<string> {
+  const features = new Set<string>();
+  for (const word of normalizeKeyword(keyword).toLowerCase().split(' ')) {
+    features.add(word);
+    for (let i = 0; i + 2 <= word.length; i++) {
+      features.add(word.slice(i, i + 2));
+    }
+  }
+  return features;
+}
+
+/**
+ * Jaccard similarity of two sets
+ */
+function jaccard(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  for (const feature of a) {
+    if (b.has(feature)) {
+      shared++;
+    }
+  }
+  const union = a.size + b.size - shared;
+  return union === 0 ? 0 : shared / union;
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeKeyword, parseKeywordCsv } from './keyword-csv';
+
+describe('parseKeywordCsv', () => {
+  it('should read comma-separated and one-per-line lists', () => {
+    expect(parseKeywordCsv('AI, 機械学習 ,,DX')).toEqual([
+      { keyword: 'AI' },
+      { keyword: '機械学習' },
+      { keyword: 'DX' },
+    ]);
+    expect(parseKeywordCsv('営業DX\r\nSFA 比較\r\n\r\n')).toEqual([
+      { keyword: '営業DX' },
+      { keyword: 'SFA 比較' },
+    ]);
+  });
+
+  it('should handle quoted fields with delimiters, quotes and newlines', () => {
+    const csv = 'Keyword,Volume\n"SFA, CRM 違い",1900\n"""脱Excel"" 方法",320\n"複数行\nキーワード",10\n';
+
+    expect(parseKeywordCsv(csv)).toEqual([
+      { keyword: 'SFA, CRM 違い', searchVolume: 1900 },
+      { keyword: '"脱Excel" 方法', searchVolume: 320 },
+      { keyword: '複数行 キーワード', searchVolume: 10 },
+    ]);
+  });
+
+  it('should map Semrush and Ahrefs export columns', () => {
+    const semrush =
+      'Keyword,Intent,Volume,Trend,Keyword Difficulty,CPC (USD)\n' +
+      'sfa 比較,"Commercial, Informational",1900,"0.8,1.0",42,3.1\n' +
+      'sfa とは,i,"2,400",,18,1.2\n';
+    const ahrefs = '#,Keyword,Country,Difficulty,Volume,CPC\n1,営業支援ツール,JP,23,1.2K,2.5\n';
+
+    expect(parseKeywordCsv(semrush)).toEqual([
+      { keyword: 'sfa 比較', searchVolume: 1900, difficulty: 42, intent: 'commercial' },
+      { keyword: 'sfa とは', searchVolume: 2400, difficulty: 18, intent: 'informational' },
+    ]);
+    expect(parseKeywordCsv(ahrefs)).toEqual([
+      { keyword: '営業支援ツール', searchVolume: 1200, difficulty: 23 },
+    ]);
+  });
+
+  it('should read a UTF-16LE Keyword Planner export with preamble rows', () => {
+    const tsv =
+      'Keyword Stats 2026-10-01 at 09_00_00\n' +
+      'October 1, 2025 - September 30, 2026\n' +
+      'Keyword\tCurrency\tAvg. monthly searches\tCompetition\tCompetition (indexed value)\n' +
+      '営業 効率化\tJPY\t1K – 10K\tLow\t12\n';
+    const content = Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from(tsv, 'utf16le')]);
+
+    expect(parseKeywordCsv(content)).toEqual([
+      { keyword: '営業 効率化', searchVolume: 1000, difficulty: 12 },
+    ]);
+  });
+
+  it('should decode UTF-8 with a BOM and Shift_JIS', () => {
+    const utf8 = Buffer.from('\uFEFFキーワード,検索ボリューム\n生成AI,3万\n', 'utf8');
+    // '生成AI' in Shift_JIS
+    const shiftJis = Buffer.from('\x90\xB6\x90\xACAI', 'latin1');
+
+    expect(parseKeywordCsv(utf8)).toEqual([{ keyword: '生成AI', searchVolume: 30000 }]);
+    expect(parseKeywordCsv(shiftJis)).toEqual([{ keyword: '生成AI' }]);
+  });
+
+  it('should read headerless keyword and volume rows', () => {
+    expect(parseKeywordCsv('SFA,1200\nCRM,880\n')).toEqual([
+      { keyword: 'SFA', searchVolume: 1200 },
+      { keyword: 'CRM', searchVolume: 880 },
+    ]);
+  });
+
+  it('should normalize keywords and merge duplicates ignoring case', () => {
+    const csv = 'Keyword,Volume,Intent\nＳＦＡ　比較,,\nsfa 比較,1900,\nSFA 比較,2000,commercial\n';
+
+    expect(parseKeywordCsv(csv)).toEqual([
+      { keyword: 'SFA 比較', searchVolume: 1900, intent: 'commercial' },
+    ]);
+  });
+});
+
+describe('normalizeKeyword', () => {
+  it('should convert full-width characters and collapse whitespace', () => {
+    expect(normalizeKeyword('  ＡＩ　活用  事例 ')).toBe('AI 活用 事例');
+  });
+});
@@ -0,0 +1,291 @@
+import type { KeywordEntry, KeywordIntent } from '../types/index.js';
+
+type KeywordColumn = 'keyword' | 'searchVolume' | 'difficulty' | 'intent';
+
+/**
+ * Header names of each column in common SEO tool exports (Google Keyword
+ * Planner, Ahrefs, Semrush, Ubersuggest, Search Console and Japanese
+ * tools), compared after NFKC normalization and lowercasing
+ */
+const COLUMN_ALIASES: Readonly<Record<KeywordColumn, readonly string[]>> = {
+  keyword: [
+    'keyword',
+    'keywords',
+    'query',
+    'queries',
+    'top queries',
+    'search term',
+    'search terms',
+    'キーワード',
+    '検索キーワード',
+    'クエリ',
+    '検索クエリ',
+    '上位のクエリ',
+    '検索語句',
+  ],
+  searchVolume: [
+    'volume',
+    'search volume',
+    'avg. monthly searches',
+    'monthly searches',
+    '検索ボリューム',
+    '月間検索ボリューム',
+    '月間平均検索ボリューム',
+    '月間検索数',
+    '検索数',
+  ],
+  difficulty: [
+    'difficulty',
+    'keyword difficulty',
+    'keyword difficulty index',
+    'kd',
+    'kd%',
+    'kd %',
+    'seo difficulty',
+    'competition (indexed value)',
+    '難易度',
+    'キーワード難易度',
+    'seo難易度',
+    '競合性(インデックス値)',
+  ],
+  intent: ['intent', 'intents', 'search intent', '検索意図', 'インテント'],
+};
+
+/**
+ * Search intents by the labels and one-letter codes used in exports
+ */
+const INTENT_LABELS: Readonly<Record<string, KeywordIntent>> = {
+  informational: 'informational',
+  i: 'informational',
+  情報収集: 'informational',
+  インフォメーショナル: 'informational',
+  navigational: 'navigational',
+  n: 'navigational',
+  指名検索: 'navigational',
+  ナビゲーショナル: 'navigational',
+  commercial: 'commercial',
+  c: 'commercial',
+  比較検討: 'commercial',
+  コマーシャル: 'commercial',
+  transactional: 'transactional',
+  t: 'transactional',
+  購入: 'transactional',
+  トランザクショナル: 'transactional',
+};
+
+/**
+ * Number of leading rows searched for a header (Keyword Planner exports
+ * start with a report title and a date range)
+ */
+const MAX_HEADER_ROW = 5;
+
+/**
+ * Parses a keyword list or an SEO tool keyword export
+ *
+ * Accepts a comma-separated list, one keyword per line, or a CSV/TSV
+ * export with a header row. The encoding (UTF-8 with or without BOM,
+ * UTF-16LE with BOM, or Shift_JIS) and the delimiter (comma, tab or
+ * semicolon) are detected. Quoted fields may contain delimiters, doubled
+ * quotes and newlines. Keyword, search volume, difficulty and intent
+ * columns are found by their header names; without a header, a numeric
+ * second column is read as the search volume.
+ *
+ * Keywords are NFKC-normalized with whitespace collapsed, and duplicates
+ * (ignoring case) are merged into the first occurrence.
+ *
+ * @param content - CSV file contents, or CSV text
+ * @returns Keywords in file order
+ *
+ * @example
+ * ```typescript
+ * parseKeywordCsv('Keyword,Volume,KD\n"営業 DX",1200,35\nSFA 比較,880,');
+ * // [
+ * //   { keyword: '営業 DX', searchVolume: 1200, difficulty: 35 },
+ * //   { keyword: 'SFA 比較', searchVolume: 880 },
+ * // ]
+ * ```
+ */
+export function parseKeywordCsv(content: Buffer | string): KeywordEntry[] {
+  const text = typeof content === 'string' ? content.replace(/^\uFEFF/, '') : decodeCsv(content);
+  const rows = parseCsvRows(text).filter((row) => row.some((cell) => cell.trim() !== ''));
+
+  const headerIndex = rows
+    .slice(0, MAX_HEADER_ROW)
+    .findIndex((row) => findColumn(row, 'keyword') !== -1);
+
+  let entries: KeywordEntry[];
+  if (headerIndex !== -1) {
+    const header = rows[headerIndex]!;
+    const columns = {
+      keyword: findColumn(header, 'keyword'),
+      searchVolume: findColumn(header, 'searchVolume'),
+      difficulty: findColumn(header, 'difficulty'),
+      intent: findColumn(header, 'intent'),
+    };
+    entries = rows.slice(headerIndex + 1).map((row) => ({
+      keyword: row[columns.keyword] ?? '',
+      searchVolume: parseMetric(row[columns.searchVolume]),
+      difficulty: parseMetric(row[columns.difficulty]),
+      intent: parseIntent(row[columns.intent]),
+    }));
+  } else if (rows.length > 1 && rows.every((row) => parseMetric(row[1]) !== undefined)) {
+    // Headerless "keyword,volume" rows
+    entries = rows.map((row) => ({ keyword: row[0] ?? '', searchVolume: parseMetric(row[1]) }));
+  } else {
+    // A plain list: every cell is a keyword
+    entries = rows.flat().map((keyword) => ({ keyword }));
+  }
+
+  return mergeDuplicates(entries);
+}
+
+/**
+ * Normalizes a keyword for display and comparison
+ *
+ * @param keyword - Raw keyword
+ * @returns NFKC-normalized keyword with whitespace collapsed and trimmed
+ *
+ * @example
+ * ```typescript
+ * normalizeKeyword('  ＡＩ　活用 '); // 'AI 活用'
+ * ```
+ */
+export function normalizeKeyword(keyword: string): string {
+  return keyword.normalize('NFKC').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Decodes CSV bytes: UTF-16LE with BOM, then UTF-8 (BOM dropped), falling
+ * back to Shift_JIS (Excel's default on Japanese Windows)
+ */
+function decodeCsv(content: Buffer): string {
+  if (content[0] === 0xff && content[1] === 0xfe) {
+    return new TextDecoder('utf-16le').decode(content);
+  }
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(content);
+  } catch {
+    return new TextDecoder('shift_jis').decode(content);
+  }
+}
+
+/**
+ * Splits CSV text into rows of fields (RFC 4180 quoting), using the most
+ * frequent of comma, tab and semicolon in the leading lines as the delimiter
+ */
+function parseCsvRows(text: string): string[][] {
+  const sample = text.split(/\r?\n/, MAX_HEADER_ROW).join('\n');
+  const delimiter = [',', '\t', ';'].reduce((best, candidate) =>
+    sample.split(candidate).length > sample.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]!;
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === '') {
+      field = '';
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+
+  return rows;
+}
+
+/**
+ * Returns the index of the header cell naming the given column, or -1
+ */
+function findColumn(header: string[], column: KeywordColumn): number {
+  return header.findIndex((cell) =>
+    COLUMN_ALIASES[column].includes(normalizeKeyword(cell).toLowerCase())
+  );
+}
+
+/**
+ * Parses a volume or difficulty cell such as `1,200`, `1.2K`, `3万`, `35%`
+ * or `1K – 10K` (ranges give their lower bound); blanks and `-` give
+ * undefined
+ */
+function parseMetric(value: string | undefined): number | undefined {
+  const match = normalizeKeyword(value ?? '')
+    .replace(/,/g, '')
+    .match(/^[<>≤≥~]?\s*(\d+(?:\.\d+)?)\s*([km万]?)/i);
+  if (!match) {
+    return undefined;
+  }
+
+  const multipliers: Record<string, number> = { k: 1_000, m: 1_000_000, 万: 10_000 };
+  const multiplier = multipliers[match[2]!.toLowerCase()] ?? 1;
+  return Math.round(parseFloat(match[1]!) * multiplier);
+}
+
+/**
+ * Reads the first recognized intent of a cell such as `Commercial,
+ * Informational`, `i, t` or `比較検討`
+ */
+function parseIntent(value: string | undefined): KeywordIntent | undefined {
+  return normalizeKeyword(value ?? '')
+    .toLowerCase()
+    .split(/[\s,/、・|]+/)
+    .map((label) => INTENT_LABELS[label])
+    .find((intent) => intent !== undefined);
+}
+
+/**
+ * Normalizes keywords, drops empty ones and merges duplicates (ignoring
+ * case); later duplicates only fill in metrics missing from the first
+ */
+function mergeDuplicates(entries: KeywordEntry[]): KeywordEntry[] {
+  const merged = new Map<string, KeywordEntry>();
+
+  for (const entry of entries) {
+    const keyword = normalizeKeyword(entry.keyword);
+    if (keyword === '') {
+      continue;
+    }
+
+    const key = keyword.toLowerCase();
+    const existing = merged.get(key);
+    const metrics = definedMetrics(entry);
+    merged.set(key, existing ? { ...metrics, ...existing } : { keyword, ...metrics });
+  }
+
+  return [...merged.values()];
+}
+
+/**
+ * Returns the metrics of an entry that are defined
+ */
+function definedMetrics(entry: KeywordEntry): Omit<KeywordEntry, 'keyword'> {
+  const { keyword: _keyword, ...metrics } = entry;
+  return Object.fromEntries(
+    Object.entries(metrics).filter(([, value]) => value !== undefined)
+  ) as Omit<KeywordEntry, 'keyword'>;
+}
@@ -0,0 +1,285 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import OpenAI from 'openai';
+import Anthropic from '@anthropic-ai/sdk';
+import {
+  AnthropicProvider,
+  createLLMProvider,
+  FakeLLMProvider,
+  isLLMProviderName,
+  OpenAIProvider,
+  providerConfigFromEnv,
+} from './llm-provider';
+
+// Mock openai
+vi.mock('openai', () => {
+  const mockCreate = vi.fn();
+
+  return {
+    default: vi.fn(() => ({
+      chat: {
+        completions: {
+          create: mockCreate,
+        },
+      },
+    })),
+  };
+});
+
+// Mock @anthropic-ai/sdk
+vi.mock('@anthropic-ai/sdk', () => {
+  const mockCreate = vi.fn();
+
+  return {
+    default: vi.fn(() => ({
+      messages: {
+        create: mockCreate,
+      },
+    })),
+  };
+});
+
+const request = {
+  system: 'system prompt',
+  messages: [{ role: 'user' as const, content: 'user prompt' }],
+  maxTokens: 1000,
+};
+
+const imageRequest = {
+  ...request,
+  image: { data: Buffer.from('png'), mediaType: 'image/png' as const },
+};
+
+describe('OpenAIProvider', () => {
+  let mockCreate: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockCreate = (new OpenAI() as any).chat.completions.create;
+    mockCreate.mockResolvedValue({
+      choices: [{ message: { content: '{"items": []}' }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: 10, completion_tokens: 20, total_tokens: 30 },
+    });
+  });
+
+  it('should throw error if API key is missing', () => {
+    expect(() => new OpenAIProvider('')).toThrow('OpenAI API key is required');
+  });
+
+  it('should request JSON mode for generateJson', async () => {
+    const provider = new OpenAIProvider('test-key', 'gpt-5');
+
+    const completion = await provider.generateJson(request);
+
+    expect(completion).toEqual({
+      content: '{"items": []}',
+      finishReason: 'stop',
+      usage: { promptTokens: 10, completionTokens: 20, totalTokens: 30 },
+    });
+    expect(mockCreate).toHaveBeenCalledWith({
+      model: 'gpt-5',
+      messages: [
+        { role: 'system', content: 'system prompt' },
+        { role: 'user', content: 'user prompt' },
+      ],
+      max_completion_tokens: 1000,
+      response_format: { type: 'json_object' },
+    });
+  });
+
+  it('should not request JSON mode for rewriteText', async () => {
+    const provider = new OpenAIProvider('test-key');
+
+    await provider.rewriteText(request);
+
+    expect(mockCreate.mock.calls[0]?.[0]).not.toHaveProperty('response_format');
+  });
+
+  it('should attach the image to the last user message for describeImage', async () => {
+    const provider = new OpenAIProvider('test-key');
+
+    await provider.describeImage(imageRequest);
+
+    expect(mockCreate.mock.calls[0]?.[0].messages[1]).toEqual({
+      role: 'user',
+      content: [
+        { type: 'image_url', image_url: { url: 'data:image/png;base64,cG5n' } },
+        { type: 'text', text: 'user prompt' },
+      ],
+    });
+    expect(mockCreate.mock.calls[0]?.[0]).not.toHaveProperty('response_format');
+  });
+});
+
+describe('AnthropicProvider', () => {
+  let mockCreate: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockCreate = (new Anthropic() as any).messages.create;
+  });
+
+  it('should throw error if API key is missing', () => {
+    expect(() => new AnthropicProvider(undefined)).toThrow('Anthropic API key is required');
+  });
+
+  it('should call the Messages API and map usage', async () => {
+    mockCreate.mockResolvedValueOnce({
+      content: [{ type: 'text', text: 'rewritten' }],
+      stop_reason: 'end_turn',
+      usage: { input_tokens: 12, output_tokens: 8 },
+    });
+    const provider = new AnthropicProvider('test-key', 'claude-test');
+
+    const completion = await provider.rewriteText(request);
+
+    expect(completion).toEqual({
+      content: 'rewritten',
+      finishReason: 'end_turn',
+      usage: { promptTokens: 12, completionTokens: 8, totalTokens: 20 },
+    });
+    expect(mockCreate).toHaveBeenCalledWith({
+      model: 'claude-test',
+      system: 'system prompt',
+      messages: [{ role: 'user', content: 'user prompt' }],
+      max_tokens: 1000,
+    });
+  });
+
+  it('should ask for JSON only and strip code fences', async () => {
+    mockCreate.mockResolvedValueOnce({
+      content: [{ type: 'text', text: '```json\n{"items": []}\n```' }],
+      stop_reason: 'end_turn',
+      usage: { input_tokens: 1, output_tokens: 1 },
+    });
+    const provider = new AnthropicProvider('test-key');
+
+    const completion = await provider.generateJson(request);
+
+    expect(completion.content).toBe('{"items": []}');
+    expect(mockCreate.mock.calls[0]?.[0].system).toContain('JSON オブジェクトのみ');
+  });
+
+  it('should ask for JSON only in the language of the request', async () => {
+    mockCreate.mockResolvedValue({
+      content: [{ type: 'text', text: '{}' }],
+      stop_reason: 'end_turn',
+      usage: { input_tokens: 1, output_tokens: 1 },
+    });
+    const provider = new AnthropicProvider('test-key');
+
+    await provider.generateJson({ ...request, language: 'en' });
+    await provider.generateJson({ ...request, language: 'zh' });
+
+    expect(mockCreate.mock.calls[0]?.[0].system).toBe(
+      'system prompt\n\nOutput only the JSON object, with no explanation or code block before or after it.'
+    );
+    expect(mockCreate.mock.calls[1]?.[0].system).toContain('只输出 JSON 对象');
+    // Kana only appears in Japanese text
+    expect(mockCreate.mock.calls.map((call) => call[0].system).join('\n')).not.toMatch(/[ぁ-ゖァ-ヺ]/);
+  });
+
+  it('should send the image as a base64 block for describeImage', async () => {
+    mockCreate.mockResolvedValueOnce({
+      content: [{ type: 'text', text: 'caption' }],
+      stop_reason: 'end_turn',
+      usage: { input_tokens: 1, output_tokens: 1 },
+    });
+    const provider = new AnthropicProvider('test-key');
+
+    const completion = await provider.describeImage(imageRequest);
+
+    expect(completion.content).toBe('caption');
+    expect(mockCreate.mock.calls[0]?.[0].messages).toEqual([
+      {
+        role: 'user',
+        content: [
+          { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'cG5n' } },
+          { type: 'text', text: 'user prompt' },
+        ],
+      },
+    ]);
+  });
+});
+
+describe('FakeLLMProvider', () => {
+  it('should return queued responses in order and record requests', async () => {
+    const provider = new FakeLLMProvider(['first', 'second']);
+
+    expect((await provider.generateJson(request)).content).toBe('first');
+    expect((await provider.rewriteText(request)).content).toBe('second');
+    expect(provider.requests).toHaveLength(2);
+    await expect(provider.generateJson(request)).rejects.toThrow(
+      'FakeLLMProvider has no queued responses left'
+    );
+  });
+
+  it('should use a handler when given', async () => {
+    const provider = new FakeLLMProvider((_request, kind) => `${kind} response`);
+
+    expect((await provider.generateJson(request)).content).toBe('json response');
+    expect((await provider.rewriteText(request)).content).toBe('text response');
+    expect((await provider.describeImage(imageRequest)).content).toBe('image response');
+  });
+});
+
+describe('createLLMProvider', () => {
+  it('should create providers by name', () => {
+    expect(createLLMProvider({ provider: 'openai', apiKey: 'key' })).toBeInstanceOf(OpenAIProvider);
+    expect(createLLMProvider({ provider: 'anthropic', apiKey: 'key' })).toBeInstanceOf(AnthropicProvider);
+    expect(createLLMProvider({ provider: 'fake' })).toBeInstanceOf(FakeLLMProvider);
+  });
+
+  it('should reject unknown providers', () => {
+    expect(() => createLLMProvider({ provider: 'unknown' as any })).toThrow(
+      'Unknown LLM provider: unknown'
+    );
+    expect(isLLMProviderName('anthropic')).toBe(true);
+    expect(isLLMProviderName('unknown')).toBe(false);
+  });
+});
+
+describe('providerConfigFromEnv', () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  it('should default to OpenAI', () => {
+    delete process.env.LLM_PROVIDER;
+    process.env.OPENAI_API_KEY = 'openai-key';
+    process.env.OPENAI_MODEL = 'gpt-5';
+
+    expect(providerConfigFromEnv()).toEqual({ provider: 'openai', apiKey: 'openai-key', model: 'gpt-5' });
+  });
+
+  it('should prefer the requested provider over LLM_PROVIDER', () => {
+    process.env.LLM_PROVIDER = 'openai';
+    process.env.ANTHROPIC_API_KEY = 'anthropic-key';
+    delete process.env.ANTHROPIC_MODEL;
+
+    expect(providerConfigFromEnv('anthropic')).toEqual({
+      provider: 'anthropic',
+      apiKey: 'anthropic-key',
+      model: undefined,
+    });
+  });
+
+  it('should read fake provider settings without an API key', () => {
+    process.env.LLM_PROVIDER = 'fake';
+    process.env.LLM_FAKE_FIXTURES = '/tmp/fixtures.json';
+    process.env.LLM_FAKE_SEED = 'demo';
+
+    expect(providerConfigFromEnv()).toEqual({
+      provider: 'fake',
+      fixturesPath: '/tmp/fixtures.json',
+      seed: 'demo',
+    });
+  });
+
+  it('should reject an invalid LLM_PROVIDER', () => {
+    process.env.LLM_PROVIDER = 'gemini';
+
+    expect(() => providerConfigFromEnv()).toThrow('Invalid LLM_PROVIDER: gemini');
+  });
+});
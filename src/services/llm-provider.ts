@@ -0,0 +1,479 @@
+import OpenAI from 'openai';
+import Anthropic from '@anthropic-ai/sdk';
+import { createFakeLLMHandler, loadFakeLLMFixtures } from './fake-llm.js';
+import { DEFAULT_OUTPUT_LANGUAGE } from './output-language.js';
+import { SOURCE_PROMPTS } from './prompt-templates.js';
+import type { OutputLanguage } from '../types/index.js';
+
+/**
+ * LLM providers selectable in configuration and requests
+ * `fake` is a deterministic offline provider for tests and local runs
+ */
+export type LLMProviderName = 'openai' | 'anthropic' | 'fake';
+
+/**
+ * Provider names accepted in configuration and requests
+ */
+export const LLM_PROVIDER_NAMES: readonly LLMProviderName[] = ['openai', 'anthropic', 'fake'];
+
+/**
+ * A single turn of a conversation sent to a provider
+ */
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Request for a completion
+ */
+export interface LLMCompletionRequest {
+  system: string;
+  messages: LLMMessage[];
+  maxTokens?: number;
+  /** Language of instructions a provider adds to the system prompt (default: ja) */
+  language?: OutputLanguage;
+}
+
+/**
+ * Image attached to a multimodal request
+ */
+export interface LLMImage {
+  data: Buffer;
+  mediaType: 'image/png' | 'image/jpeg';
+}
+
+/**
+ * Request for a description of an image; the image is attached to the last
+ * user message
+ */
+export interface LLMImageRequest extends LLMCompletionRequest {
+  image: LLMImage;
+}
+
+/**
+ * Token usage reported by a provider
+ */
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * Result of a completion
+ */
+export interface LLMCompletion {
+  /** Text content, empty when the model returned nothing */
+  content: string;
+  finishReason?: string;
+  usage?: LLMUsage;
+}
+
+/**
+ * LLM Provider
+ *
+ * Vendor-neutral interface used by plan generation, text rewriting and
+ * figure captioning. `generateJson` must return a JSON object as text;
+ * `rewriteText` and `describeImage` return plain text.
+ */
+export interface LLMProvider {
+  readonly name: string;
+  /** Human-readable vendor name used in error messages */
+  readonly label: string;
+  readonly model: string;
+  generateJson(request: LLMCompletionRequest): Promise<LLMCompletion>;
+  rewriteText(request: LLMCompletionRequest): Promise<LLMCompletion>;
+  describeImage(request: LLMImageRequest): Promise<LLMCompletion>;
+}
+
+/**
+ * Configuration for creating a provider by name
+ */
+export interface LLMProviderConfig {
+  provider: LLMProviderName;
+  apiKey?: string;
+  model?: string;
+  /** Fake provider only: JSON fixture file with `plans` and/or `rewrites` */
+  fixturesPath?: string;
+  /** Fake provider only: seed for template selection */
+  seed?: string;
+}
+
+/**
+ * OpenAI Provider
+ * Uses Chat Completions in JSON mode for structured output
+ *
+ * @example
+ * ```typescript
+ * const provider = new OpenAIProvider(process.env.OPENAI_API_KEY, 'gpt-5');
+ * const { content } = await provider.generateJson({ system, messages });
+ * ```
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai' as const;
+  readonly label = 'OpenAI';
+  readonly model: string;
+  private client: OpenAI;
+
+  /**
+   * @param apiKey - OpenAI API key
+   * @param model - Model name (default: gpt-5)
+   * @throws {Error} If API key is not provided
+   */
+  constructor(apiKey: string | undefined, model?: string) {
+    if (!apiKey || apiKey.trim() === '') {
+      throw new Error('OpenAI API key is required');
+    }
+
+    this.client = new OpenAI({ apiKey });
+    this.model = model || 'gpt-5';
+  }
+
+  async generateJson(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    // Use JSON mode (GPT-5 doesn't support json_schema structured outputs)
+    return this.complete(request, true);
+  }
+
+  async rewriteText(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    return this.complete(request, false);
+  }
+
+  async describeImage(request: LLMImageRequest): Promise<LLMCompletion> {
+    const messages: OpenAI.Chat.ChatCompletionMessageParam[] = request.messages.map(
+      (message, index) =>
+        message.role === 'user' && index === request.messages.length - 1
+          ? {
+              role: 'user',
+              content: [
+                {
+                  type: 'image_url',
+                  image_url: {
+                    url: `data:${request.image.mediaType};base64,${request.image.data.toString('base64')}`,
+                  },
+                },
+                { type: 'text', text: message.content },
+              ],
+            }
+          : message
+    );
+
+    return this.complete({ ...request, messages }, false);
+  }
+
+  /**
+   * Sends a chat completion request
+   * @private
+   */
+  private async complete(
+    request: Omit<LLMCompletionRequest, 'messages'> & {
+      messages: OpenAI.Chat.ChatCompletionMessageParam[];
+    },
+    json: boolean
+  ): Promise<LLMCompletion> {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [{ role: 'system', content: request.system }, ...request.messages],
+      max_completion_tokens: request.maxTokens,
+      ...(json && { response_format: { type: 'json_object' as const } }),
+    });
+
+    return {
+      content: response.choices[0]?.message?.content ?? '',
+      finishReason: response.choices[0]?.finish_reason,
+      usage: response.usage && {
+        promptTokens: response.usage.prompt_tokens,
+        completionTokens: response.usage.completion_tokens,
+        totalTokens: response.usage.total_tokens,
+      },
+    };
+  }
+}
+
+/**
+ * Anthropic Provider
+ * Uses the Messages API. Claude has no JSON mode, so JSON output is requested
+ * in the system prompt and any Markdown code fence around it is removed.
+ *
+ * @example
+ * ```typescript
+ * const provider = new AnthropicProvider(process.env.ANTHROPIC_API_KEY, 'claude-sonnet-4-20250514');
+ * const { content } = await provider.generateJson({ system, messages });
+ * ```
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic' as const;
+  readonly label = 'Anthropic';
+  readonly model: string;
+  private client: Anthropic;
+
+  /**
+   * @param apiKey - Anthropic API key
+   * @param model - Model name (default: claude-sonnet-4-20250514)
+   * @throws {Error} If API key is not provided
+   */
+  constructor(apiKey: string | undefined, model?: string) {
+    if (!apiKey || apiKey.trim() === '') {
+      throw new Error('Anthropic API key is required');
+    }
+
+    this.client = new Anthropic({ apiKey });
+    this.model = model || 'claude-sonnet-4-20250514';
+  }
+
+  async generateJson(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const completion = await this.complete({
+      ...request,
+      system: `${request.system}\n\n${SOURCE_PROMPTS[request.language ?? DEFAULT_OUTPUT_LANGUAGE].jsonOnly}`,
+    });
+
+    return { ...completion, content: stripCodeFence(completion.content) };
+  }
+
+  async rewriteText(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    return this.complete(request);
+  }
+
+  async describeImage(request: LLMImageRequest): Promise<LLMCompletion> {
+    const messages: Anthropic.MessageParam[] = request.messages.map((message, index) =>
+      message.role === 'user' && index === request.messages.length - 1
+        ? {
+            role: 'user',
+            content: [
+              {
+                type: 'image',
+                source: {
+                  type: 'base64',
+                  media_type: request.image.mediaType,
+                  data: request.image.data.toString('base64'),
+                },
+              },
+              { type: 'text', text: message.content },
+            ],
+          }
+        : message
+    );
+
+    return this.complete({ ...request, messages });
+  }
+
+  /**
+   * Sends a Messages API request
+   * @private
+   */
+  private async complete(
+    request: Omit<LLMCompletionRequest, 'messages'> & { messages: Anthropic.MessageParam[] }
+  ): Promise<LLMCompletion> {
+    const response = await this.client.messages.create({
+      model: this.model,
+      system: request.system,
+      messages: request.messages,
+      // max_tokens is required by the Messages API
+      max_tokens: request.maxTokens ?? 4096,
+    });
+
+    const content = response.content
+      .map((block) => (block.type === 'text' ? block.text : ''))
+      .join('');
+
+    return {
+      content,
+      finishReason: response.stop_reason ?? undefined,
+      usage: {
+        promptTokens: response.usage.input_tokens,
+        completionTokens: response.usage.output_tokens,
+        totalTokens: response.usage.input_tokens + response.usage.output_tokens,
+      },
+    };
+  }
+}
+
+/**
+ * Handler that produces the content of a fake completion
+ */
+export type FakeLLMHandler = (
+  request: LLMCompletionRequest,
+  kind: 'json' | 'text' | 'image'
+) => string | Promise<string>;
+
+/**
+ * Fake Provider
+ * Offline provider for tests and local runs. Returns queued responses in
+ * order, or the output of a handler, and records every request it receives.
+ * Without arguments it uses the deterministic plan/rewrite generator from
+ * `fake-llm.ts`.
+ *
+ * @example
+ * ```typescript
+ * const provider = new FakeLLMProvider(['{"items": []}']);
+ * const llmService = new LLMService({ provider });
+ * ```
+ */
+export class FakeLLMProvider implements LLMProvider {
+  readonly name = 'fake' as const;
+  readonly label = 'Fake';
+  readonly model: string;
+  readonly requests: LLMCompletionRequest[] = [];
+  private responses: string[];
+  private handler?: FakeLLMHandler;
+
+  /**
+   * @param responses - Queued response contents, or a handler called per request
+   *   (default: deterministic templates)
+   * @param model - Model name reported to callers (default: fake)
+   */
+  constructor(responses: string[] | FakeLLMHandler = createFakeLLMHandler(), model = 'fake') {
+    this.responses = Array.isArray(responses) ? [...responses] : [];
+    this.handler = Array.isArray(responses) ? undefined : responses;
+    this.model = model;
+  }
+
+  async generateJson(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    return this.complete(request, 'json');
+  }
+
+  async rewriteText(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    return this.complete(request, 'text');
+  }
+
+  async describeImage(request: LLMImageRequest): Promise<LLMCompletion> {
+    return this.complete(request, 'image');
+  }
+
+  /**
+   * Returns the next queued response or the handler output
+   * @private
+   */
+  private async complete(
+    request: LLMCompletionRequest,
+    kind: 'json' | 'text' | 'image'
+  ): Promise<LLMCompletion> {
+    this.requests.push(structuredClone(request));
+
+    let content: string;
+    if (this.handler) {
+      content = await this.handler(request, kind);
+    } else {
+      const next = this.responses.shift();
+      if (next === undefined) {
+        throw new Error('FakeLLMProvider has no queued responses left');
+      }
+      content = next;
+    }
+
+    return { content, finishReason: 'stop' };
+  }
+}
+
+/**
+ * Creates a provider by name
+ *
+ * @param config - Provider name, API key and model
+ * @returns Provider instance
+ * @throws {Error} If the provider name is unknown or its API key is missing
+ *
+ * @example
+ * ```typescript
+ * const provider = createLLMProvider({
+ *   provider: 'anthropic',
+ *   apiKey: process.env.ANTHROPIC_API_KEY,
+ * });
+ * ```
+ */
+export function createLLMProvider(config: LLMProviderConfig): LLMProvider {
+  switch (config.provider) {
+    case 'openai':
+      return new OpenAIProvider(config.apiKey, config.model);
+    case 'anthropic':
+      return new AnthropicProvider(config.apiKey, config.model);
+    case 'fake':
+      return new FakeLLMProvider(
+        createFakeLLMHandler({
+          fixtures: config.fixturesPath ? loadFakeLLMFixtures(config.fixturesPath) : undefined,
+          seed: config.seed,
+        }),
+        config.model
+      );
+    default:
+      throw new Error(`Unknown LLM provider: ${String(config.provider)}`);
+  }
+}
+
+/**
+ * Environment variables holding the API key and model of each vendor provider
+ */
+export const LLM_PROVIDER_ENV: Readonly<
+  Record<Exclude<LLMProviderName, 'fake'>, { apiKey: string; model: string }>
+> = {
+  openai: { apiKey: 'OPENAI_API_KEY', model: 'OPENAI_MODEL' },
+  anthropic: { apiKey: 'ANTHROPIC_API_KEY', model: 'ANTHROPIC_MODEL' },
+};
+
+/**
+ * Reads provider configuration from environment variables
+ *
+ * The provider is `provider` if given, otherwise `LLM_PROVIDER`, otherwise
+ * OpenAI. The API key and model are read from that provider's variables
+ * (see `LLM_PROVIDER_ENV`); the fake provider reads `LLM_FAKE_FIXTURES`
+ * and `LLM_FAKE_SEED` instead.
+ *
+ * @param provider - Provider selected for this request, if any
+ * @returns Provider configuration for `createLLMProvider`
+ * @throws {Error} If `LLM_PROVIDER` is set to an unknown provider
+ */
+export function providerConfigFromEnv(provider?: LLMProviderName): LLMProviderConfig {
+  const envProvider = process.env.LLM_PROVIDER;
+  if (!provider && envProvider && !isLLMProviderName(envProvider)) {
+    throw new Error(
+      `Invalid LLM_PROVIDER: ${envProvider}. Expected one of: ${LLM_PROVIDER_NAMES.join(', ')}`
+    );
+  }
+
+  const name: LLMProviderName = provider ?? (envProvider as LLMProviderName | undefined) ?? 'openai';
+  if (name === 'fake') {
+    return {
+      provider: name,
+      fixturesPath: process.env.LLM_FAKE_FIXTURES || undefined,
+      seed: process.env.LLM_FAKE_SEED || undefined,
+    };
+  }
+
+  const env = LLM_PROVIDER_ENV[name];
+
+  return {
+    provider: name,
+    apiKey: process.env[env.apiKey],
+    model: process.env[env.model] || undefined,
+  };
+}
+
+/**
+ * Checks whether a value is a supported provider name
+ *
+ * @param value - Value to check (e.g. request body field)
+ * @returns True if the value is a provider name
+ */
+export function isLLMProviderName(value: unknown): value is LLMProviderName {
+  return typeof value === 'string' && (LLM_PROVIDER_NAMES as readonly string[]).includes(value);
+}
+
+/**
+ * Lists the providers a single request may select
+ *
+ * The fake provider is only offered outside production, or when it is
+ * already the configured `LLM_PROVIDER`.
+ *
+ * @returns Provider names accepted per request
+ */
+export function requestableLLMProviderNames(): LLMProviderName[] {
+  const allowFake = process.env.LLM_PROVIDER === 'fake' || process.env.NODE_ENV !== 'production';
+  return LLM_PROVIDER_NAMES.filter((name) => name !== 'fake' || allowFake);
+}
+
+/**
+ * Removes a surrounding Markdown code fence (```json ... ```)
+ */
+function stripCodeFence(content: string): string {
+  const match = content.trim().match(/^```(?:json)?\s*\n?([\s\S]*?)\n?```$/);
+  return match?.[1] !== undefined ? match[1].trim() : content.trim();
+}
@@ -0,0 +1,514 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import OpenAI from 'openai';
+import { LLMService } from './llm';
+import { PlanValidationError } from './plan-schema';
+import { FakeLLMProvider } from './llm-provider';
+import { PromptRegistry } from './prompt-templates';
+import type { ParsedContext } from '../types/index';
+
+// Mock openai
+vi.mock('openai', () => {
+  const mockCreate = vi.fn();
+
+  const MockOpenAI = vi.fn(() => ({
+    chat: {
+      completions: {
+        create: mockCreate,
+      },
+    },
+  }));
+
+  return {
+    default: MockOpenAI,
+  };
+});
+
+/**
+ * Builds a chat completion response containing `count` plan items
+ */
+function buildResponse(count: number, titlePrefix = '企画') {
+  const items = Array.from({ length: count }, (_, index) => ({
+    No: index + 1,
+    タイトル: `${titlePrefix} ${index + 1}`,
+    目的: '目的',
+    '内容（概要）': '概要',
+    感情的ニーズ: '感情',
+    機能的ニーズ: '機能',
+    成果的ニーズ: '成果',
+    'ニーズ（複数）': 'ニーズ',
+    ターゲット: 'ターゲット',
+    '職種／部署': '情報システム部',
+    レベル: '課長',
+    構成: '## 第1章 背景\n### 1-1 市場動向',
+    コメント: '',
+  }));
+
+  return {
+    choices: [{ message: { content: JSON.stringify({ items }) }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 100, completion_tokens: 200, total_tokens: 300 },
+  };
+}
+
+describe('LLMService', () => {
+  let mockCreate: ReturnType<typeof vi.fn>;
+
+  const context: ParsedContext = {
+    salesText: '営業資料',
+    targetText: 'ターゲット',
+    keywords: ['AI', 'DX'],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockCreate = (new OpenAI() as any).chat.completions.create;
+  });
+
+  describe('constructor', () => {
+    it('should throw error if API key is missing', () => {
+      expect(() => new LLMService({ apiKey: '', model: 'gpt-5' })).toThrow(
+        'OpenAI API key is required'
+      );
+    });
+  });
+
+  describe('generatePlans', () => {
+    it('should generate plans with a single completion when count fits in one chunk', async () => {
+      mockCreate.mockResolvedValueOnce(buildResponse(3));
+      const service = new LLMService({ apiKey: 'test-key', model: 'gpt-5', chunkSize: 10 });
+
+      const plans = await service.generatePlans(context, 3);
+
+      expect(plans).toHaveLength(3);
+      expect(mockCreate).toHaveBeenCalledTimes(1);
+      expect(plans[0]).toMatchObject({ no: 1, タイトル: '企画 1', 内容概要: '概要', 職種部署: '情報システム部' });
+    });
+
+    it('should throw error if count is less than 1', async () => {
+      const service = new LLMService({ apiKey: 'test-key', model: 'gpt-5' });
+
+      await expect(service.generatePlans(context, 0)).rejects.toThrow('Count must be at least 1');
+    });
+
+    it('should split large requests into chunks and renumber contiguously', async () => {
+      mockCreate
+        .mockResolvedValueOnce(buildResponse(4, 'A'))
+        .mockResolvedValueOnce(buildResponse(4, 'B'))
+        .mockResolvedValueOnce(buildResponse(2, 'C'));
+      const service = new LLMService({ apiKey: 'test-key', model: 'gpt-5', chunkSize: 4 });
+
+      const plans = await service.generatePlans(context, 10);
+
+      expect(mockCreate).toHaveBeenCalledTimes(3);
+      expect(plans).toHaveLength(10);
+      expect(plans.map((plan) => plan.no)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+      expect(plans[4]?.タイトル).toBe('B 1');
+      expect(plans[9]?.タイトル).toBe('C 2');
+    });
+
+    it('should pass previously generated titles to later chunks', async () => {
+      mockCreate
+        .mockResolvedValueOnce(buildResponse(2, 'A'))
+        .mockResolvedValueOnce(buildResponse(2, 'B'));
+      const service = new LLMService({ apiKey: 'test-key', model: 'gpt-5', chunkSize: 2 });
+
+      await service.generatePlans(context, 4);
+
+      const firstPrompt = mockCreate.mock.calls[0]?.[0].messages[1].content as string;
+      const secondPrompt = mockCreate.mock.calls[1]?.[0].messages[1].content as string;
+      expect(firstPrompt).not.toContain('作成済みの企画');
+      expect(firstPrompt).toContain('2 件の企画を出力してください');
+      expect(secondPrompt).toContain('作成済みの企画');
+      expect(secondPrompt).toContain('- A 1');
+      expect(secondPrompt).toContain('- A 2');
+    });
+
+    it('should list imported keyword metrics in the prompt', async () => {
+      mockCreate.mockResolvedValue(buildResponse(1));
+      const service = new LLMService({ apiKey: 'test-key', model: 'gpt-5' });
+
+      await service.generatePlans(context, 1);
+      await service.generatePlans(
+        {
+          ...context,
+          keywordEntries: [
+            { keyword: 'AI', searchVolume: 12000, difficulty: 45, intent: 'informational' },
+            { keyword: 'DX' },
+          ],
+        },
+        1
+      );
+
+      const plainPrompt = mockCreate.mock.calls[0]?.[0].messages[1].content as string;
+      const metricsPrompt = mockCreate.mock.calls[1]?.[0].messages[1].content as string;
+      expect(plainPrompt).not.toContain('【キーワード指標】');
+      expect(metricsPrompt).toContain('【SEOキーワード（配列）】\nAI, DX\n');
+      expect(metricsPrompt).toContain(
+        '- AI: 月間検索ボリューム 12,000 / 難易度 45 / 検索意図 情報収集'
+      );
+      expect(metricsPrompt).not.toContain('- DX');
+    });
+
+    it('should assign a distinct keyword cluster to each plan', async () => {
+      mockCreate
+        .mockResolvedValueOnce(buildResponse(2, 'A'))
+        .mockResolvedValueOnce(buildResponse(1, 'B'));
+      const service = new LLMService({ apiKey: 'test-key', model: 'gpt-5', chunkSize: 2 });
+
+      const plans = await service.generatePlans(
+        {
+          ...context,
+          keywords: ['SFA 比較', 'SFA 比較 おすすめ', '営業 DX', '営業 DX 事例'],
+          keywordEntries: [
+            { keyword: 'SFA 比較', searchVolume: 1900 },
+            { keyword: 'SFA 比較 おすすめ', searchVolume: 320 },
+            { keyword: '営業 DX', searchVolume: 880 },
+            { keyword: '営業 DX 事例', searchVolume: 140 },
+          ],
+        },
+        3
+      );
+
+      const firstPrompt = mockCreate.mock.calls[0]?.[0].messages[1].content as string;
+      const secondPrompt = mockCreate.mock.calls[1]?.[0].messages[1].content as string;
+      expect(firstPrompt).toContain(
+        '- 企画1: 主キーワード「SFA 比較」\n- 企画2: 主キーワード「営業 DX」／関連キーワード: 営業 DX 事例\n'
+      );
+      expect(secondPrompt).toContain('- 企画1: 主キーワード「SFA 比較 おすすめ」\n');
+      expect(plans.map((plan) => plan.対象キーワード)).toEqual([
+        { primary: 'SFA 比較', secondary: [] },
+        { primary: '営業 DX', secondary: ['営業 DX 事例'] },
+        { primary: 'SFA 比較 おすすめ', secondary: [] },
+      ]);
+    });
+
+    it('should leave plans without a keyword when there are fewer keywords than plans', async () => {
+      mockCreate.mockResolvedValueOnce(buildResponse(3));
+      const service = new LLMService({ apiKey: 'test-key', model: 'gpt-5' });
+
+      const plans = await service.generatePlans(context, 3);
+
+      const prompt = mockCreate.mock.calls[0]?.[0].messages[1].content as string;
+      expect(prompt).toContain('企画3以降は担当キーワードなし');
+      expect(plans.map((plan) => plan.対象キーワード?.primary)).toEqual(['AI', 'DX', undefined]);
+    });
+
+    it('should regenerate near-duplicate plans in place', async () => {
+      mockCreate.mockResolvedValueOnce(buildResponse(1, '生成AI活用ガイド'));
+      const service = new LLMService({ apiKey: 'test-key', model: 'gpt-5' });
+      const onEvent = vi.fn();
+      const plan = {
+        no: 1,
+        タイトル: '製造業の品質管理をDXするためのチェックリスト',
+        目的: '目的',
+        内容概要: '品質管理の課題と解決策',
+        感情的ニーズ: '',
+        機能的ニーズ: '',
+        成果的ニーズ: '',
+        ニーズ複数: '',
+        ターゲット: '',
+        職種部署: '',
+        レベル: '',
+        構成: '## 第1章 品質管理の現状',
+        コメント: '',
+      };
+
+      const result = await service.replaceDuplicatePlans(
+        context,
+        [
+          plan,
+          { ...plan, no: 2, 対象キーワード: { primary: 'DX', secondary: [] } },
+          { ...plan, no: 3, タイトル: '営業組織の立ち上げ方' },
+        ],
+        onEvent
+      );
+
+      const prompt = mockCreate.mock.calls[0]?.[0].messages[1].content as string;
+      expect(prompt).toContain('1 件の企画を出力してください');
+      expect(prompt).toContain('- 製造業の品質管理をDXするためのチェックリスト');
+      expect(prompt).toContain('- 企画1: 主キーワード「DX」');
+      expect(result.regenerated).toBe(1);
+      expect(result.plans.map((item) => item.タイトル)).toEqual([
+        '製造業の品質管理をDXするためのチェックリスト',
+        '生成AI活用ガイド 1',
+        '営業組織の立ち上げ方',
+      ]);
+      expect(result.plans[1]).toMatchObject({ no: 2, 対象キーワード: { primary: 'DX', secondary: [] } });
+      expect(onEvent).toHaveBeenCalledWith({ type: 'duplicates_replaced', plans: [2] });
+    });
+
+    it('should revise plans scoring below the quality threshold', async () => {
+      const strong = {
+        no: 1,
+        タイトル: 'AIで進める営業DX',
+        目的: '目的',
+        内容概要: '課題を整理します。解決策を示します。事例を紹介します。',
+        感情的ニーズ: '',
+        機能的ニーズ: '',
+        成果的ニーズ: '工数30%削減',
+        ニーズ複数: '',
+        ターゲット: '従業員300名規模の製造業の営業部長',
+        職種部署: '',
+        レベル: '',
+        構成: '## 第1章 背景\n### 1-1 市場\n## 第2章 解決策\n### 2-1 手順',
+        コメント: '',
+      };
+      const weak = { ...strong, no: 2, タイトル: 'AI入門', 成果的ニーズ: '売上を伸ばしたい', ターゲット: '企業' };
+      const revision = JSON.parse(buildResponse(1).choices[0]!.message.content);
+      Object.assign(revision.items[0], {
+        タイトル: 'AI入門：営業DXの第一歩',
+        '内容（概要）': strong.内容概要,
+        成果的ニーズ: strong.成果的ニーズ,
+        ターゲット: strong.ターゲット,
+        構成: strong.構成,
+      });
+      mockCreate.mockResolvedValueOnce({
+        ...buildResponse(1),
+        choices: [{ message: { content: JSON.stringify(revision) }, finish_reason: 'stop' }],
+      });
+      const service = new LLMService({ apiKey: 'test-key', model: 'gpt-5' });
+      const onEvent = vi.fn();
+
+      const result = await service.revisePlans(context, [strong, weak], onEvent);
+
+      expect(mockCreate).toHaveBeenCalledTimes(1);
+      const prompt = mockCreate.mock.calls[0]?.[0].messages[1].content as string;
+      expect(prompt).toContain('【改善対象の企画】');
+      expect(prompt).toContain('"タイトル": "AI入門"');
+      expect(prompt).toContain('- 成果的ニーズに数値目標（例: 工数30%削減）を入れてください');
+      expect(prompt).not.toContain('"タイトル": "AIで進める営業DX"');
+      expect(result.revised).toBe(1);
+      expect(result.plans[0]).toMatchObject({ タイトル: 'AIで進める営業DX', 品質スコア: { score: 100 } });
+      expect(result.plans[1]).toMatchObject({
+        no: 2,
+        タイトル: 'AI入門：営業DXの第一歩',
+        品質スコア: { score: 100, issues: [] },
+      });
+      expect(onEvent).toHaveBeenCalledWith({ type: 'plans_revised', plans: [2] });
+    });
+
+    it('should list passages with ids and resolve the cited ones', async () => {
+      const response = buildResponse(2);
+      const items = JSON.parse(response.choices[0]!.message.content).items;
+      items[0].出典 = ['S2', 'x9', 's2'];
+      response.choices[0]!.message.content = JSON.stringify({ items });
+      mockCreate.mockResolvedValueOnce(response);
+      const service = new LLMService({ apiKey: 'test-key', model: 'gpt-5' });
+
+      const plans = await service.generatePlans(
+        {
+          ...context,
+          passages: [
+            { id: 'S1', source: 'sales', label: 'deck.pdf', page: 1, paragraph: 1, text: '製品概要' },
+            { id: 'S2', source: 'sales', label: 'deck.pdf', page: 4, paragraph: 2, text: '工数30%削減' },
+            { id: 'T1', source: 'target', label: 'テキスト入力', paragraph: 1, text: '製造業' },
+          ],
+        },
+        2
+      );
+
+      const prompt = mockCreate.mock.calls[0]?.[0].messages[1].content as string;
+      expect(prompt).toContain('[S1] 製品概要\n\n[S2] 工数30%削減');
+      expect(prompt).toContain('[T1] 製造業');
+      expect(prompt).toContain('構成, コメント, 出典');
+      expect(plans[0]?.出典).toEqual([
+        { id: 'S2', source: 'sales', label: 'deck.pdf', page: 4, paragraph: 2 },
+      ]);
+      expect(plans[1]?.出典).toEqual([]);
+    });
+
+    it('should report which chunk failed', async () => {
+      mockCreate
+        .mockResolvedValueOnce(buildResponse(2))
+        .mockResolvedValueOnce(buildResponse(1));
+      const service = new LLMService({ apiKey: 'test-key', model: 'gpt-5', chunkSize: 2, maxAttempts: 1 });
+
+      await expect(service.generatePlans(context, 4)).rejects.toThrow(
+        'Failed to generate whitepaper plans: Chunk 2/2: Invalid plan output after 1 attempt(s): items: items 配列は 2 件である必要があります'
+      );
+    });
+
+    it('should emit llm_started once and llm_tokens per chunk', async () => {
+      mockCreate
+        .mockResolvedValueOnce(buildResponse(2))
+        .mockResolvedValueOnce(buildResponse(1));
+      const service = new LLMService({ apiKey: 'test-key', model: 'gpt-5', chunkSize: 2 });
+      const onEvent = vi.fn();
+
+      await service.generatePlans(context, 3, onEvent);
+
+      expect(onEvent.mock.calls.map(([event]) => event.type)).toEqual([
+        'llm_started',
+        'llm_tokens',
+        'llm_tokens',
+      ]);
+      expect(onEvent.mock.calls[0]?.[0]).toEqual({ type: 'llm_started', model: 'gpt-5', planCount: 3 });
+    });
+
+    it('should throw error on empty response', async () => {
+      mockCreate.mockResolvedValueOnce({ choices: [{ message: { content: '' }, finish_reason: 'length' }] });
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const service = new LLMService({ apiKey: 'test-key', model: 'gpt-5' });
+
+      await expect(service.generatePlans(context, 1)).rejects.toThrow(
+        'Empty response from OpenAI API. Finish reason: length'
+      );
+    });
+
+    it('should re-prompt with validation errors and accept the repaired output', async () => {
+      const invalid = buildResponse(2);
+      const items = JSON.parse(invalid.choices[0]!.message.content).items;
+      delete items[1].目的;
+      invalid.choices[0]!.message.content = JSON.stringify({ items });
+      mockCreate.mockResolvedValueOnce(invalid).mockResolvedValueOnce(buildResponse(2));
+      const service = new LLMService({ apiKey: 'test-key', model: 'gpt-5' });
+
+      const plans = await service.generatePlans(context, 2);
+
+      expect(plans).toHaveLength(2);
+      expect(mockCreate).toHaveBeenCalledTimes(2);
+      const repairMessages = mockCreate.mock.calls[1]?.[0].messages;
+      expect(repairMessages).toHaveLength(4);
+      expect(repairMessages[2]).toEqual({ role: 'assistant', content: invalid.choices[0]!.message.content });
+      expect(repairMessages[3].content).toContain('出力が指定の JSON スキーマに一致していません');
+      expect(repairMessages[3].content).toContain('配列長は 2 件に固定');
+      expect(repairMessages[3].content).toContain('- items[1].目的:');
+    });
+
+    it('should repair invalid JSON syntax', async () => {
+      mockCreate
+        .mockResolvedValueOnce({ choices: [{ message: { content: '{"items": [' }, finish_reason: 'stop' }] })
+        .mockResolvedValueOnce(buildResponse(1));
+      const service = new LLMService({ apiKey: 'test-key', model: 'gpt-5' });
+
+      const plans = await service.generatePlans(context, 1);
+
+      expect(plans).toHaveLength(1);
+      expect(mockCreate.mock.calls[1]?.[0].messages[3].content).toContain('(root): JSON の構文エラー');
+    });
+
+    it('should fail with structured issues after exhausting repair attempts', async () => {
+      const invalid = buildResponse(1);
+      const items = JSON.parse(invalid.choices[0]!.message.content).items;
+      items[0].タイトル = '  ';
+      invalid.choices[0]!.message.content = JSON.stringify({ items });
+      mockCreate.mockResolvedValueOnce(invalid).mockResolvedValueOnce(invalid);
+      const service = new LLMService({ apiKey: 'test-key', model: 'gpt-5', maxAttempts: 2 });
+
+      const error = await service.generatePlans(context, 1).catch((caught: unknown) => caught);
+
+      expect(mockCreate).toHaveBeenCalledTimes(2);
+      expect(error).toBeInstanceOf(PlanValidationError);
+      expect((error as PlanValidationError).message).toBe(
+        'Failed to generate whitepaper plans: Invalid plan output after 2 attempt(s): items[0].タイトル: 空文字は不可です'
+      );
+      expect((error as PlanValidationError).attempts).toBe(2);
+      expect((error as PlanValidationError).issues).toEqual([
+        { path: 'items[0].タイトル', message: '空文字は不可です' },
+      ]);
+    });
+
+    it('should generate plans offline with an injected provider', async () => {
+      const provider = new FakeLLMProvider([buildResponse(2).choices[0]!.message.content]);
+      const service = new LLMService({ provider });
+      const onEvent = vi.fn();
+
+      const plans = await service.generatePlans(context, 2, onEvent);
+
+      expect(plans.map((plan) => plan.タイトル)).toEqual(['企画 1', '企画 2']);
+      expect(mockCreate).not.toHaveBeenCalled();
+      expect(service.providerName).toBe('fake');
+      expect(provider.requests[0]?.system).toContain('B2Bマーケティングの編集者');
+      expect(onEvent.mock.calls[0]?.[0]).toEqual({ type: 'llm_started', model: 'fake', planCount: 2 });
+    });
+
+    it('should request and map the columns of a custom column schema', async () => {
+      const provider = new FakeLLMProvider([
+        JSON.stringify({ items: [{ 企画名: 'SFA比較ガイド', 想定CTA: '無料相談' }] }),
+      ]);
+      const service = new LLMService({
+        provider,
+        columnSchema: {
+          name: 'agency-a',
+          columns: [
+            { name: '企画名', description: '30字以内', required: true, type: 'text', field: 'タイトル' },
+            { name: '想定CTA', description: '読了後に促す行動', required: false, type: 'text', example: '無料相談' },
+          ],
+        },
+      });
+
+      const plans = await service.generatePlans(context, 1);
+
+      const prompt = provider.requests[0]?.messages[0]?.content;
+      expect(prompt).toContain('- 列：企画名, 想定CTA\n');
+      expect(prompt).toContain('【列の定義】\n- 企画名（必須）: 30字以内\n- 想定CTA（任意）: 読了後に促す行動（例: 無料相談）');
+      expect(prompt).not.toContain('構成フィールドの例');
+      expect(plans[0]).toMatchObject({ no: 1, タイトル: 'SFA比較ガイド', 構成: '', 追加列: { 想定CTA: '無料相談' } });
+    });
+
+    it('should render the templates of the prompt profile and report their versions', async () => {
+      const provider = new FakeLLMProvider([buildResponse(1).choices[0]!.message.content]);
+      const prompts = new PromptRegistry({
+        manufacturing: {
+          templates: { 'plan.system': { version: 'mfg-2', template: '製造業向けに{{tone}}書きます。' } },
+          variables: { tone: '現場の用語で' },
+        },
+      });
+      const service = new LLMService({ provider, prompts, promptProfile: 'manufacturing' });
+
+      await service.generatePlans(context, 1);
+
+      expect(provider.requests[0]?.system).toBe('製造業向けに現場の用語で書きます。');
+      expect(provider.requests[0]?.messages[0]?.content).toContain('【営業資料要約】');
+      expect(service.promptUsage).toEqual({
+        profile: 'manufacturing',
+        versions: { 'plan.system': 'mfg-2', 'plan.generate': '1', 'plan.revise': '1', 'plan.repair': '1' },
+      });
+      expect(() => new LLMService({ provider, prompts, promptProfile: 'retail' })).toThrow(
+        'Unknown prompt profile: retail'
+      );
+    });
+
+    it('should write the prompts and request the columns in the output language', async () => {
+      const provider = new FakeLLMProvider([
+        JSON.stringify({
+          items: [
+            {
+              No: 1,
+              Title: 'CRM Buyer Guide',
+              Purpose: 'Purpose',
+              Summary: 'Summary',
+              'Emotional Needs': 'Emotional',
+              'Functional Needs': 'Functional',
+              'Outcome Needs': 'Outcome',
+              Needs: 'Needs',
+              Target: 'Target',
+              'Role / Department': 'Sales',
+              Level: 'Manager',
+              Structure: '## Chapter 1 Background\n### 1-1 Market',
+              Comment: '',
+            },
+          ],
+        }),
+      ]);
+      const service = new LLMService({ provider, language: 'en', qualityThreshold: 0 });
+
+      const plans = await service.generatePlans({ ...context, keywords: [] }, 1);
+
+      const prompt = provider.requests[0]?.messages[0]?.content;
+      expect(provider.requests[0]?.system).toContain('Write every value in English');
+      expect(prompt).toContain('[SEO Keywords (array)]\nNo keywords specified');
+      expect(prompt).toContain('- Title (required): A specific, compelling title');
+      expect(prompt).toContain('items array has 1 objects');
+      expect(plans[0]).toMatchObject({ タイトル: 'CRM Buyer Guide', 職種部署: 'Sales' });
+    });
+
+    it('should name the provider in empty response errors', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const service = new LLMService({ provider: new FakeLLMProvider(['']) });
+
+      await expect(service.generatePlans(context, 1)).rejects.toThrow(
+        'Empty response from Fake API. Finish reason: stop'
+      );
+    });
+  });
+});
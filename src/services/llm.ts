@@ -1,41 +1,87 @@
-import OpenAI from 'openai';
-import type { ParsedContext, WhitepaperPlan } from '../types/index.js';
+import type {
+  ColumnDefinition,
+  ColumnSchema,
+  GenerationEvent,
+  KeywordEntry,
+  OutputLanguage,
+  ParsedContext,
+  PlanKeywords,
+  PromptUsage,
+  SourcePassage,
+  WhitepaperPlan,
+} from '../types/index.js';
+import { assignKeywordClusters, clusterKeywords } from './keyword-cluster.js';
+import { DEFAULT_DUPLICATE_THRESHOLD, findDuplicatePlans } from './plan-similarity.js';
+import { DEFAULT_QUALITY_THRESHOLD, scorePlan } from './plan-critic.js';
+import { resolveSourceReferences, sourceText } from './source-passages.js';
+import { localizeDefaultColumnSchema, planColumnValues, planFromColumns } from './column-schema.js';
+import { DEFAULT_OUTPUT_LANGUAGE } from './output-language.js';
+import {
+  DEFAULT_PROMPT_PROFILE,
+  PROMPT_SECTIONS,
+  PromptRegistry,
+  renderTemplate,
+  type PromptSections,
+} from './prompt-templates.js';
+import {
+  PlanValidationError,
+  validatePlansResponse,
+  type PlanValidationIssue,
+} from './plan-schema.js';
+import {
+  createLLMProvider,
+  providerConfigFromEnv,
+  LLM_PROVIDER_ENV,
+  type LLMMessage,
+  type LLMProvider,
+  type LLMProviderName,
+} from './llm-provider.js';
+import { numberFromEnv } from '../utils/config.js';
 
 /**
  * LLM Service Configuration
  */
 interface LLMServiceConfig {
-  apiKey: string;
-  model: string;
+  /** Vendor name or a provider instance (default: openai) */
+  provider?: LLMProviderName | LLMProvider;
+  /** API key for the named provider; unused when a provider instance is given */
+  apiKey?: string;
+  model?: string;
+  /** Fake provider only: fixture file (see `LLM_FAKE_FIXTURES`) */
+  fixturesPath?: string;
+  /** Fake provider only: template seed (see `LLM_FAKE_SEED`) */
+  seed?: string;
   maxTokens?: number;
   temperature?: number;
+  /** Maximum number of plans requested in a single completion (default: 10) */
+  chunkSize?: number;
+  /** Maximum completions per chunk, including schema repair retries (default: 3) */
+  maxAttempts?: number;
+  /** Minimum similarity for grouping keywords into one plan's cluster (default: 0.3) */
+  keywordClusterSimilarity?: number;
+  /** Plan similarity at or above which a plan is regenerated as a duplicate (default: 0.6) */
+  duplicateThreshold?: number;
+  /** Review score below which a plan gets one revision (default: 80, 0 disables) */
+  qualityThreshold?: number;
+  /** Columns the plans are requested and validated with (default: the built-in 13 columns) */
+  columnSchema?: ColumnSchema;
+  /** Language the prompts are written in and the plans requested in (default: ja) */
+  language?: OutputLanguage;
+  /** Prompt templates (default: the built-in templates only) */
+  prompts?: PromptRegistry;
+  /** Profile of `prompts` whose overrides are used (default: the built-in templates) */
+  promptProfile?: string;
 }
 
 /**
- * LLM API Response for Whitepaper Plans
+ * Maximum rounds of regenerating duplicate plans
  */
-interface WhitepaperPlansResponse {
-  items: Array<{
-    No: number;
-    タイトル: string;
-    目的: string;
-    '内容（概要）': string;
-    感情的ニーズ: string;
-    機能的ニーズ: string;
-    成果的ニーズ: string;
-    'ニーズ（複数）': string;
-    ターゲット: string;
-    '職種／部署': string;
-    レベル: string;
-    構成: string;
-    コメント: string;
-  }>;
-}
+const MAX_DUPLICATE_ROUNDS = 2;
 
 /**
  * LLM Service
- * Provides AI-powered whitepaper plan generation using OpenAI GPT-5
- * with Structured Outputs (Response Schema)
+ * Provides AI-powered whitepaper plan generation on a pluggable LLM provider
+ * (OpenAI GPT-5 by default, or Anthropic Claude) with schema-validated JSON output
  *
  * @example
  * ```typescript
@@ -54,41 +100,93 @@ interface WhitepaperPlansResponse {
  * ```
  */
 export class LLMService {
-  private client: OpenAI;
-  private model: string;
+  private provider: LLMProvider;
   private maxTokens: number;
+  private chunkSize: number;
+  private maxAttempts: number;
+  private keywordClusterSimilarity?: number;
+  private duplicateThreshold: number;
+  private qualityThreshold: number;
+  private columnSchema: ColumnSchema;
+  private language: OutputLanguage;
+  private prompts: PromptRegistry;
+  private promptProfile: string;
 
   /**
    * Creates a new LLM Service instance
    *
    * @param config - Configuration for the LLM service
-   * @throws {Error} If API key is not provided
+   * @throws {Error} If API key is not provided for the named provider
+   * @throws {Error} If the prompt profile does not exist
    */
   constructor(config: LLMServiceConfig) {
-    if (!config.apiKey || config.apiKey.trim() === '') {
-      throw new Error('OpenAI API key is required');
-    }
-
-    this.client = new OpenAI({
-      apiKey: config.apiKey,
-    });
-    this.model = config.model || 'gpt-5';
+    this.provider =
+      typeof config.provider === 'object'
+        ? config.provider
+        : createLLMProvider({
+            provider: config.provider ?? 'openai',
+            apiKey: config.apiKey,
+            model: config.model,
+            fixturesPath: config.fixturesPath,
+            seed: config.seed,
+          });
     this.maxTokens = config.maxTokens ?? 4096;
+    this.chunkSize = config.chunkSize && config.chunkSize > 0 ? config.chunkSize : 10;
+    this.maxAttempts = config.maxAttempts && config.maxAttempts > 0 ? config.maxAttempts : 3;
+    this.keywordClusterSimilarity = config.keywordClusterSimilarity;
+    this.duplicateThreshold = config.duplicateThreshold ?? DEFAULT_DUPLICATE_THRESHOLD;
+    this.qualityThreshold = config.qualityThreshold ?? DEFAULT_QUALITY_THRESHOLD;
+    this.language = config.language ?? DEFAULT_OUTPUT_LANGUAGE;
+    this.columnSchema = config.columnSchema ?? localizeDefaultColumnSchema(this.language);
+    this.prompts = config.prompts ?? new PromptRegistry();
+    this.promptProfile = config.promptProfile ?? DEFAULT_PROMPT_PROFILE;
+    if (!this.prompts.hasProfile(this.promptProfile)) {
+      throw new Error(`Unknown prompt profile: ${this.promptProfile}`);
+    }
     // Note: GPT-5 only supports default temperature value
   }
 
+  /**
+   * Name of the provider used for generation (e.g. 'openai')
+   */
+  get providerName(): string {
+    return this.provider.name;
+  }
+
+  /**
+   * Prompt profile and template versions used for generation
+   */
+  get promptUsage(): PromptUsage {
+    return {
+      profile: this.promptProfile,
+      versions: this.prompts.versions(this.promptProfile, this.language),
+    };
+  }
+
   /**
    * Generates whitepaper plans based on parsed context
    *
-   * Uses OpenAI's Structured Outputs feature to ensure the response
-   * conforms exactly to the WhitepaperPlan schema with N fixed items
+   * Requests larger than the configured chunk size are split into several
+   * completions (e.g. N=50 as 5 × 10). Titles generated by earlier chunks are
+   * passed to later ones to avoid duplicates, and `no` is renumbered so the
+   * merged result is a contiguous 1..N sequence.
+   *
+   * Keywords are grouped into topic clusters and each plan is assigned a
+   * distinct cluster (see keyword-cluster.ts). The prompt asks each plan to
+   * target its cluster, and the cluster is returned as `対象キーワード`.
+   *
+   * Every item is validated against the plan schema. Invalid output is sent
+   * back to the model with the validation errors (repair prompt, see
+   * agent-requirements.md Section 16.4) until it passes or `maxAttempts`
+   * is reached.
    *
    * @param context - Parsed context from sales materials, target documents, and keywords
    * @param count - Number of plans to generate (must be >= 1)
+   * @param onEvent - Optional listener for LLM progress and token usage events
    * @returns Array of whitepaper plans with exactly `count` items
    * @throws {Error} If count is less than 1
    * @throws {Error} If OpenAI API call fails
-   * @throws {Error} If response parsing fails
+   * @throws {PlanValidationError} If the output is still invalid after all repair attempts
    *
    * @example
    * ```typescript
@@ -100,158 +198,464 @@ export class LLMService {
    * // Returns exactly 3 WhitepaperPlan objects
    * ```
    */
-  async generatePlans(context: ParsedContext, count: number): Promise<WhitepaperPlan[]> {
+  async generatePlans(
+    context: ParsedContext,
+    count: number,
+    onEvent?: (event: GenerationEvent) => void
+  ): Promise<WhitepaperPlan[]> {
     if (count < 1) {
       throw new Error('Count must be at least 1');
     }
 
     try {
-      const systemPrompt = this.getSystemPrompt();
-      const userPrompt = this.buildPrompt(context, count);
-
-      // Use JSON mode (GPT-5 doesn't support json_schema structured outputs)
-      const response = await this.client.chat.completions.create({
-        model: this.model,
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt },
-        ],
-        max_completion_tokens: this.maxTokens,
-        response_format: {
-          type: 'json_object',
-        },
-      });
-
-      const content = response.choices[0]?.message?.content;
-      if (!content) {
-        // Log full response for debugging
-        console.error('OpenAI API Response:', JSON.stringify(response, null, 2));
-        throw new Error(`Empty response from OpenAI API. Finish reason: ${response.choices[0]?.finish_reason || 'unknown'}`);
+      onEvent?.({ type: 'llm_started', model: this.provider.model, planCount: count });
+
+      const totalChunks = Math.ceil(count / this.chunkSize);
+      const plans: WhitepaperPlan[] = [];
+      const keywordAssignments = this.assignKeywords(context, count);
+
+      for (let chunk = 1; chunk <= totalChunks; chunk++) {
+        const chunkCount = Math.min(this.chunkSize, count - plans.length);
+        const previousTitles = plans.map((plan) => plan.タイトル);
+        const chunkKeywords = keywordAssignments.slice(plans.length, plans.length + chunkCount);
+
+        try {
+          const chunkPlans = await this.generateChunk(
+            context,
+            chunkCount,
+            previousTitles,
+            chunkKeywords,
+            onEvent
+          );
+          plans.push(...chunkPlans);
+        } catch (error) {
+          if (totalChunks > 1 && error instanceof Error) {
+            throw withMessagePrefix(error, `Chunk ${chunk}/${totalChunks}: `);
+          }
+          throw error;
+        }
       }
 
-      // Parse the structured JSON response
-      const parsed = JSON.parse(content) as WhitepaperPlansResponse;
+      // Renumber so merged chunks form a contiguous 1..N sequence
+      return plans.map((plan, index) => ({ ...plan, no: index + 1 }));
+    } catch (error) {
+      if (error instanceof Error) {
+        // Re-throw known errors with context
+        throw withMessagePrefix(error, 'Failed to generate whitepaper plans: ');
+      }
+      // Handle unknown error types
+      throw new Error('Failed to generate whitepaper plans: Unknown error');
+    }
+  }
+
+  /**
+   * Regenerates plans that duplicate an earlier plan
+   *
+   * Plans scoring at or above the duplicate threshold against an earlier
+   * plan (see plan-similarity.ts) are replaced in place by new plans, which
+   * are asked to differ from every current title and keep the replaced
+   * plans' keywords. Replacements are checked again, for at most 2 rounds;
+   * duplicates left after that are kept so the count does not change.
+   *
+   * @param context - Parsed context the plans were generated from
+   * @param plans - Generated plans
+   * @param onEvent - Optional listener for `duplicates_replaced` and token usage events
+   * @returns The plans with duplicates replaced, and how many were regenerated
+   * @throws {Error} If regenerating fails
+   *
+   * @example
+   * ```typescript
+   * const generated = await llmService.generatePlans(context, 10);
+   * const { plans, regenerated } = await llmService.replaceDuplicatePlans(context, generated);
+   * ```
+   */
+  async replaceDuplicatePlans(
+    context: ParsedContext,
+    plans: WhitepaperPlan[],
+    onEvent?: (event: GenerationEvent) => void
+  ): Promise<{ plans: WhitepaperPlan[]; regenerated: number }> {
+    let current = plans;
+    let regenerated = 0;
+
+    try {
+      for (let round = 1; round <= MAX_DUPLICATE_ROUNDS; round++) {
+        const duplicates = findDuplicatePlans(current, this.duplicateThreshold);
+        if (duplicates.length === 0) {
+          break;
+        }
+
+        const titles = current.map((plan) => plan.タイトル);
+        // Keywords are assigned to the leading plans, so this stays aligned
+        const planKeywords = duplicates
+          .map((index) => current[index]!.対象キーワード)
+          .filter((keywords): keywords is PlanKeywords => keywords !== undefined);
+
+        const replacements: WhitepaperPlan[] = [];
+        while (replacements.length < duplicates.length) {
+          const chunkCount = Math.min(this.chunkSize, duplicates.length - replacements.length);
+          replacements.push(
+            ...(await this.generateChunk(
+              context,
+              chunkCount,
+              titles,
+              planKeywords.slice(replacements.length, replacements.length + chunkCount),
+              onEvent
+            ))
+          );
+        }
+
+        const next = [...current];
+        duplicates.forEach((index, i) => {
+          next[index] = { ...replacements[i]!, no: index + 1 };
+        });
+        current = next;
+        regenerated += duplicates.length;
+        onEvent?.({ type: 'duplicates_replaced', plans: duplicates.map((index) => index + 1) });
+      }
 
-      if (!parsed.items || !Array.isArray(parsed.items)) {
-        throw new Error('Invalid response structure: missing items array');
+      return { plans: current, regenerated };
+    } catch (error) {
+      if (error instanceof Error) {
+        throw withMessagePrefix(error, 'Failed to regenerate duplicate plans: ');
       }
+      throw new Error('Failed to regenerate duplicate plans: Unknown error');
+    }
+  }
+
+  /**
+   * Scores plans against the review rubric and revises the weak ones once
+   *
+   * Plans scoring below the quality threshold (see plan-critic.ts) are sent
+   * back to the model with the rubric issues, in chunks. A revision replaces
+   * its plan only if it scores higher; `no` and `対象キーワード` are kept.
+   * Every returned plan has `品質スコア` set.
+   *
+   * @param context - Parsed context the plans were generated from
+   * @param plans - Generated plans
+   * @param onEvent - Optional listener for `plans_revised` and token usage events
+   * @returns The scored plans, and how many were replaced by a revision
+   * @throws {Error} If a revision request fails
+   *
+   * @example
+   * ```typescript
+   * const { plans, revised } = await llmService.revisePlans(context, generated);
+   * // plans[0].品質スコア: { score: 100, issues: [] }
+   * ```
+   */
+  async revisePlans(
+    context: ParsedContext,
+    plans: WhitepaperPlan[],
+    onEvent?: (event: GenerationEvent) => void
+  ): Promise<{ plans: WhitepaperPlan[]; revised: number }> {
+    const columns = this.columnSchema.columns;
+    const scored = plans.map((plan) => ({
+      ...plan,
+      品質スコア: scorePlan(plan, context.keywords, columns, this.language),
+    }));
+    const weak = scored.flatMap((plan, index) =>
+      plan.品質スコア.score < this.qualityThreshold ? [index] : []
+    );
 
-      if (parsed.items.length !== count) {
-        throw new Error(
-          `Expected ${count} plans but received ${parsed.items.length}`
+    try {
+      const revisedIndexes: number[] = [];
+      for (let start = 0; start < weak.length; start += this.chunkSize) {
+        const indexes = weak.slice(start, start + this.chunkSize);
+        const revisions = await this.requestPlans(
+          this.buildRevisionPrompt(context, indexes.map((index) => scored[index]!)),
+          indexes.length,
+          [],
+          context.passages,
+          onEvent
         );
+
+        indexes.forEach((index, i) => {
+          const original = scored[index]!;
+          const revision = {
+            ...revisions[i]!,
+            no: original.no,
+            ...(original.対象キーワード && { 対象キーワード: original.対象キーワード }),
+          };
+          const score = scorePlan(revision, context.keywords, columns, this.language);
+          if (score.score > original.品質スコア.score) {
+            scored[index] = { ...revision, 品質スコア: score };
+            revisedIndexes.push(index);
+          }
+        });
       }
 
-      // Transform API response to WhitepaperPlan objects
-      const plans: WhitepaperPlan[] = parsed.items.map((item, index) => ({
-        no: item.No || index + 1,
-        タイトル: item.タイトル,
-        目的: item.目的,
-        内容概要: item['内容（概要）'],
-        感情的ニーズ: item.感情的ニーズ,
-        機能的ニーズ: item.機能的ニーズ,
-        成果的ニーズ: item.成果的ニーズ,
-        ニーズ複数: item['ニーズ（複数）'],
-        ターゲット: item.ターゲット,
-        職種部署: item['職種／部署'],
-        レベル: item.レベル,
-        構成: item.構成,
-        コメント: item.コメント || '',
-      }));
-
-      return plans;
+      if (revisedIndexes.length > 0) {
+        onEvent?.({ type: 'plans_revised', plans: revisedIndexes.map((index) => index + 1) });
+      }
+      return { plans: scored, revised: revisedIndexes.length };
     } catch (error) {
       if (error instanceof Error) {
-        // Re-throw known errors with context
-        throw new Error(`Failed to generate whitepaper plans: ${error.message}`);
+        throw withMessagePrefix(error, 'Failed to revise plans: ');
       }
-      // Handle unknown error types
-      throw new Error('Failed to generate whitepaper plans: Unknown error');
+      throw new Error('Failed to revise plans: Unknown error');
+    }
+  }
+
+  /**
+   * Generates a single chunk of plans, repairing invalid output
+   *
+   * @param context - Parsed context from input documents
+   * @param count - Number of plans in this chunk
+   * @param previousTitles - Titles generated by earlier chunks
+   * @param planKeywords - Keywords assigned to the plans of this chunk, in order
+   * @param onEvent - Optional listener for token usage events
+   * @returns Array of exactly `count` plans
+   * @throws {PlanValidationError} If no attempt produced valid output
+   * @private
+   */
+  private async generateChunk(
+    context: ParsedContext,
+    count: number,
+    previousTitles: string[],
+    planKeywords: PlanKeywords[],
+    onEvent?: (event: GenerationEvent) => void
+  ): Promise<WhitepaperPlan[]> {
+    return this.requestPlans(
+      this.buildPrompt(context, count, previousTitles, planKeywords),
+      count,
+      planKeywords,
+      context.passages,
+      onEvent
+    );
+  }
+
+  /**
+   * Requests `count` plans for a user prompt, repairing invalid output
+   *
+   * @param prompt - User prompt asking for `count` plans
+   * @param count - Number of plans expected
+   * @param planKeywords - Keywords to attach to the plans, in order
+   * @param passages - Passages the prompt listed, for resolving the cited ids
+   * @param onEvent - Optional listener for token usage events
+   * @returns Array of exactly `count` plans
+   * @throws {PlanValidationError} If no attempt produced valid output
+   * @private
+   */
+  private async requestPlans(
+    prompt: string,
+    count: number,
+    planKeywords: PlanKeywords[],
+    passages: SourcePassage[] = [],
+    onEvent?: (event: GenerationEvent) => void
+  ): Promise<WhitepaperPlan[]> {
+    const systemPrompt = this.getSystemPrompt();
+    const messages: LLMMessage[] = [{ role: 'user', content: prompt }];
+    let issues: PlanValidationIssue[] = [];
+
+    for (let attempt = 1; attempt <= this.maxAttempts; attempt++) {
+      const content = await this.requestCompletion(systemPrompt, messages, onEvent);
+      const result = validatePlansResponse(content, count, this.columnSchema.columns, this.language);
+
+      if (result.success) {
+        // Transform validated items to WhitepaperPlan objects
+        return result.items.map((item, index) => ({
+          ...planFromColumns(item, this.columnSchema.columns, index),
+          ...(planKeywords[index] && { 対象キーワード: planKeywords[index] }),
+          ...(passages.length > 0 && {
+            出典: resolveSourceReferences(item.出典 as string[], passages),
+          }),
+        }));
+      }
+
+      issues = result.issues;
+      messages.push(
+        { role: 'assistant', content },
+        { role: 'user', content: this.buildRepairPrompt(count, issues) }
+      );
     }
+
+    throw new PlanValidationError(
+      `Invalid plan output after ${this.maxAttempts} attempt(s): ${summarizeIssues(issues)}`,
+      issues,
+      this.maxAttempts
+    );
+  }
+
+  /**
+   * Requests one JSON completion and returns its content
+   *
+   * @param systemPrompt - System prompt for the provider
+   * @param messages - Conversation so far, including repair prompts
+   * @param onEvent - Optional listener for token usage events
+   * @returns Raw JSON content of the completion
+   * @throws {Error} If the completion is empty
+   * @private
+   */
+  private async requestCompletion(
+    systemPrompt: string,
+    messages: LLMMessage[],
+    onEvent?: (event: GenerationEvent) => void
+  ): Promise<string> {
+    const completion = await this.provider.generateJson({
+      system: systemPrompt,
+      messages,
+      maxTokens: this.maxTokens,
+      language: this.language,
+    });
+
+    if (completion.usage) {
+      onEvent?.({ type: 'llm_tokens', ...completion.usage });
+    }
+
+    if (!completion.content) {
+      // Log full completion for debugging
+      console.error(`${this.provider.label} API Response:`, JSON.stringify(completion, null, 2));
+      throw new Error(
+        `Empty response from ${this.provider.label} API. Finish reason: ${completion.finishReason || 'unknown'}`
+      );
+    }
+
+    return completion.content;
+  }
+
+  /**
+   * Builds the repair prompt sent after a response fails validation
+   *
+   * Based on the re-request prompt in agent-requirements.md Section 16.4
+   *
+   * @param count - Required number of plans
+   * @param issues - Validation issues of the previous response
+   * @returns Repair prompt string
+   * @private
+   */
+  private buildRepairPrompt(count: number, issues: PlanValidationIssue[]): string {
+    return this.prompts.render(
+      'plan.repair',
+      {
+        count: String(count),
+        issues: issues.map((issue) => `- ${issue.path}: ${issue.message}`).join('\n'),
+      },
+      this.promptProfile,
+      this.language
+    );
   }
 
   /**
    * Returns the system prompt for whitepaper plan generation
    *
    * Defines the AI's role, expertise, and output requirements
+   * (`plan.system` template of the prompt profile)
    *
    * @returns System prompt string
    * @private
    */
   private getSystemPrompt(): string {
-    return `あなたはB2Bマーケティングの編集者です。以下の入力（営業資料/ターゲット/SEOキーワード）から、検索意図・差別化・実務適用性に優れたホワイトペーパー企画を N 件出します。列定義に厳密に従い、日本語で具体的に書きます。重複と冗長は排除します。
-
-主な役割：
-- 営業資料から製品/サービスの価値提案を理解する
-- ターゲット層の課題や関心事を特定する
-- SEOキーワードを自然に組み込む
-- 多様で補完的なホワイトペーパー企画を作成する
-- ビジネスインパクトとオーディエンスの関連性に基づいて優先順位をつける
-
-出力要件：
-- 各企画は独自で重複しないこと
-- 内容概要は詳細で実行可能であること（3-5文）
-- ターゲットは具体的に（例：「中堅SaaS企業のIT部門責任者」）
-- 構成はH2/H3で章立て
-- コメント列は空文字列で生成
-- No は 1 起算の連番
-
-要求された件数ちょうどを返す必要があります。`;
+    return this.prompts.render('plan.system', {}, this.promptProfile, this.language);
   }
 
   /**
    * Builds the user prompt with context and requirements
    *
    * Structures the input context and specifies output requirements
+   * (`plan.generate` template of the prompt profile)
    *
    * @param context - Parsed context from input documents
    * @param count - Number of plans to generate
+   * @param previousTitles - Titles already generated by earlier chunks
+   * @param planKeywords - Keywords assigned to the plans, in order
    * @returns Formatted user prompt string
    * @private
    */
-  private buildPrompt(context: ParsedContext, count: number): string {
+  private buildPrompt(
+    context: ParsedContext,
+    count: number,
+    previousTitles: string[] = [],
+    planKeywords: PlanKeywords[] = []
+  ): string {
+    const sections = PROMPT_SECTIONS[this.language];
     const keywordsText = context.keywords.length > 0
       ? context.keywords.join(', ')
-      : 'キーワード指定なし';
-
-    return `【営業資料要約】
-${context.salesText || '営業資料なし'}
-
-【ターゲット情報】
-${context.targetText || 'ターゲット情報なし'}
-
-【SEOキーワード（配列）】
-${keywordsText}
-
-【出力フォーマット】
-- 列：No, タイトル, 目的, 内容（概要）, 感情的ニーズ, 機能的ニーズ, 成果的ニーズ, ニーズ（複数）, ターゲット, 職種／部署, レベル, 構成, コメント
-- No は 1 からの連番
-- 構成は H2/H3 で章立て（例: ## 第1章 背景と課題 ### 1-1 市場動向）
-- 競合が多いキーワードはサブトピック/角度を変えて差別化
-- ${count} 件の企画を出力してください
-
-## 重要な指示
-- 感情的ニーズ: 読者が抱える不安や願望（例: 「遅れを取りたくない」「安心したい」）
-- 機能的ニーズ: 具体的な機能要求（例: 「工数削減」「可視化」）
-- 成果的ニーズ: 達成したい成果（例: 「売上20%増」「離職率低減」）
-- ニーズ（複数）: 上記3つを簡潔にまとめたもの
-- タイトルは具体的で魅力的に
-- 目的は1-2文で明確に
-
-## 構成フィールドの例
-## 第1章 DX推進の背景と課題
-### 1-1 製造業を取り巻くデジタル化の波
-### 1-2 従来システムの限界と課題
-
-## 第2章 ○○による解決アプローチ
-### 2-1 クラウド基盤の選定ポイント
-### 2-2 段階的導入のロードマップ
-
-## 第3章 導入事例と成果
-### 3-1 A社の事例（製造業・従業員500名）
-### 3-2 ROI試算と効果測定
-
-JSONのみを返してください。items配列に ${count} 件のオブジェクトを含むJSON形式で出力してください。`;
+      : sections.noKeywords;
+    const keywordMetricsSection = formatKeywordMetrics(context.keywordEntries ?? [], sections);
+    const planKeywordsSection = formatPlanKeywords(planKeywords, count, sections);
+    const columns = this.columnSchema.columns;
+    const structureColumn = columns.find((column) => column.field === '構成');
+    const structureExample = structureColumn
+      ? renderTemplate(sections.structureExample, { name: structureColumn.name })
+      : '';
+
+    const previousTitlesSection = previousTitles.length > 0
+      ? renderTemplate(sections.previousTitles, {
+          titles: previousTitles.map((title) => `- ${title}`).join('\n'),
+        })
+      : '';
+
+    return this.prompts.render(
+      'plan.generate',
+      {
+        salesText: sourceText(context, 'sales') || sections.noSales,
+        targetText: sourceText(context, 'target') || sections.noTarget,
+        keywords: keywordsText,
+        keywordMetrics: keywordMetricsSection,
+        planKeywords: planKeywordsSection,
+        previousTitles: previousTitlesSection,
+        columns: columns.map((column) => column.name).join(', '),
+        citationInstruction: formatCitationInstruction(context, sections),
+        columnDefinitions: formatColumnDefinitions(columns, sections),
+        structureExample,
+        count: String(count),
+      },
+      this.promptProfile,
+      this.language
+    );
+  }
+
+  /**
+   * Builds the user prompt asking for revisions of plans that failed the
+   * review rubric
+   *
+   * @param context - Parsed context from input documents
+   * @param plans - Scored plans to revise
+   * @returns Formatted user prompt string
+   * @private
+   */
+  private buildRevisionPrompt(context: ParsedContext, plans: WhitepaperPlan[]): string {
+    const sections = PROMPT_SECTIONS[this.language];
+    const planSections = plans.map((plan, index) =>
+      renderTemplate(sections.revisionPlan, {
+        no: String(index + 1),
+        plan: JSON.stringify(toPlanItem(plan, index + 1, this.columnSchema.columns), null, 2),
+        issues: plan.品質スコア?.issues.map((issue) => `- ${issue.message}`).join('\n') ?? '',
+      })
+    );
+
+    return this.prompts.render(
+      'plan.revise',
+      {
+        salesText: sourceText(context, 'sales') || sections.noSales,
+        targetText: sourceText(context, 'target') || sections.noTarget,
+        plans: planSections.join('\n\n'),
+        columns: this.columnSchema.columns.map((column) => column.name).join(', '),
+        citationInstruction: formatCitationInstruction(context, sections),
+        columnDefinitions: formatColumnDefinitions(this.columnSchema.columns, sections),
+        count: String(plans.length),
+      },
+      this.promptProfile,
+      this.language
+    );
+  }
+
+  /**
+   * Clusters the context keywords and assigns a distinct cluster to each plan
+   *
+   * @param context - Parsed context with keywords and their metrics
+   * @param count - Number of plans
+   * @returns Keywords of each plan; shorter than `count` with fewer clusters
+   * @private
+   */
+  private assignKeywords(context: ParsedContext, count: number): PlanKeywords[] {
+    const entries = context.keywordEntries?.length
+      ? context.keywordEntries
+      : context.keywords.map((keyword) => ({ keyword }));
+    const clusters = clusterKeywords(entries, {
+      minClusters: count,
+      minSimilarity: this.keywordClusterSimilarity,
+    });
+    return assignKeywordClusters(clusters, count);
   }
 
 }
@@ -259,31 +663,164 @@ JSONのみを返してください。items配列に ${count} 件のオブジェ
 /**
  * Factory function to create an LLM Service instance from environment variables
  *
+ * @param provider - Provider to use instead of `LLM_PROVIDER` (default: openai)
  * @returns Configured LLMService instance
- * @throws {Error} If OPENAI_API_KEY environment variable is not set
+ * @throws {Error} If the API key environment variable of the provider is not set
+ *   (not required for the `fake` provider)
  *
  * @example
  * ```typescript
  * import { createLLMService } from './services/llm.js';
  *
- * const llmService = createLLMService();
+ * const llmService = createLLMService('anthropic');
  * const plans = await llmService.generatePlans(context, 5);
  * ```
  */
-export function createLLMService(): LLMService {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    throw new Error('OPENAI_API_KEY environment variable is required');
+export function createLLMService(provider?: LLMProviderName): LLMService {
+  const providerConfig = providerConfigFromEnv(provider);
+  if (providerConfig.provider !== 'fake' && !providerConfig.apiKey) {
+    throw new Error(
+      `${LLM_PROVIDER_ENV[providerConfig.provider].apiKey} environment variable is required`
+    );
   }
 
-  const model = process.env.OPENAI_MODEL || 'gpt-5';
-  const maxTokens = process.env.OPENAI_MAX_TOKENS
-    ? parseInt(process.env.OPENAI_MAX_TOKENS, 10)
-    : undefined;
+  const maxTokens = numberFromEnv('OPENAI_MAX_TOKENS', { integer: true });
+  const chunkSize = numberFromEnv('LLM_PLAN_CHUNK_SIZE', { integer: true });
+  const maxAttempts = numberFromEnv('LLM_MAX_ATTEMPTS', { integer: true });
+  const keywordClusterSimilarity = numberFromEnv('KEYWORD_CLUSTER_SIMILARITY');
+  const duplicateThreshold = numberFromEnv('PLAN_DUPLICATE_THRESHOLD');
+  const qualityThreshold = numberFromEnv('PLAN_QUALITY_THRESHOLD');
 
   return new LLMService({
-    apiKey,
-    model,
+    ...providerConfig,
     maxTokens,
+    chunkSize,
+    maxAttempts,
+    keywordClusterSimilarity,
+    duplicateThreshold,
+    qualityThreshold,
   });
 }
+
+/**
+ * Formats the imported metrics of keywords as a prompt section, or returns
+ * an empty string when no keyword has any
+ */
+function formatKeywordMetrics(entries: KeywordEntry[], sections: PromptSections): string {
+  const lines = entries.flatMap(({ keyword, searchVolume, difficulty, intent }) => {
+    const metrics = [
+      searchVolume !== undefined &&
+        renderTemplate(sections.searchVolume, {
+          value: searchVolume.toLocaleString(sections.numberLocale),
+        }),
+      difficulty !== undefined && renderTemplate(sections.difficulty, { value: String(difficulty) }),
+      intent !== undefined &&
+        renderTemplate(sections.intent, { value: sections.keywordIntents[intent] }),
+    ].filter((metric): metric is string => metric !== false);
+    return metrics.length > 0 ? [`- ${keyword}: ${metrics.join(' / ')}`] : [];
+  });
+
+  return lines.length > 0
+    ? renderTemplate(sections.keywordMetrics, { lines: lines.join('\n') })
+    : '';
+}
+
+/**
+ * Formats the keyword clusters assigned to the plans of a chunk as a prompt
+ * section, or returns an empty string when no keywords were given
+ */
+function formatPlanKeywords(
+  planKeywords: PlanKeywords[],
+  count: number,
+  sections: PromptSections
+): string {
+  if (planKeywords.length === 0) {
+    return '';
+  }
+
+  const lines = planKeywords.map(({ primary, secondary }, index) =>
+    renderTemplate(sections.planKeyword, {
+      no: String(index + 1),
+      primary,
+      related:
+        secondary.length > 0
+          ? renderTemplate(sections.relatedKeywords, { keywords: secondary.join(', ') })
+          : '',
+    })
+  );
+  const unassigned = planKeywords.length < count
+    ? renderTemplate(sections.unassignedPlans, { no: String(planKeywords.length + 1) })
+    : '';
+
+  return renderTemplate(sections.planKeywords, { lines: lines.join('\n'), unassigned });
+}
+
+/**
+ * Formats the instruction to cite passage ids, when the sources were split
+ * into passages
+ */
+function formatCitationInstruction(context: ParsedContext, sections: PromptSections): string {
+  if (!context.passages || context.passages.length === 0) {
+    return '';
+  }
+  return sections.citation;
+}
+
+/**
+ * Formats the description, required flag, type and example of each column
+ * as a prompt section
+ */
+function formatColumnDefinitions(columns: ColumnDefinition[], sections: PromptSections): string {
+  const lines = columns.map((column) =>
+    renderTemplate(sections.columnDefinition, {
+      name: column.name,
+      flags: `${column.required ? sections.required : sections.optional}${sections.columnTypes[column.type]}`,
+      description: column.description
+        ? renderTemplate(sections.columnDescription, { description: column.description })
+        : '',
+      example: column.example
+        ? renderTemplate(sections.columnExample, { example: column.example })
+        : '',
+    })
+  );
+
+  return renderTemplate(sections.columnDefinitions, { lines: lines.join('\n') });
+}
+
+/**
+ * Converts a plan back to the LLM output format
+ */
+function toPlanItem(
+  plan: WhitepaperPlan,
+  no: number,
+  columns: ColumnDefinition[]
+): Record<string, string | number | string[]> {
+  const values = planColumnValues(plan, columns);
+  return {
+    ...Object.fromEntries(
+      columns.map((column, index) => [column.name, column.field === 'no' ? no : values[index]!])
+    ),
+    ...(plan.出典 && { 出典: plan.出典.map((reference) => reference.id) }),
+  };
+}
+
+/**
+ * Re-creates an error with a prefixed message, keeping validation details
+ */
+function withMessagePrefix(error: Error, prefix: string): Error {
+  if (error instanceof PlanValidationError) {
+    return new PlanValidationError(`${prefix}${error.message}`, error.issues, error.attempts);
+  }
+  return new Error(`${prefix}${error.message}`);
+}
+
+/**
+ * Formats validation issues for an error message, truncating long lists
+ */
+function summarizeIssues(issues: PlanValidationIssue[], limit = 5): string {
+  const listed = issues.slice(0, limit).map((issue) => `${issue.path}: ${issue.message}`);
+  if (issues.length > limit) {
+    listed.push(`and ${issues.length - limit} more`);
+  }
+  return listed.join('; ');
+}
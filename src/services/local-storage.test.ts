@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { LocalStorageService } from './local-storage';
+import { MulterFile } from './storage';
+
+function createMulterFile(originalname: string, content: string, mimetype = 'application/pdf'): MulterFile {
+  const buffer = Buffer.from(content);
+  return {
+    fieldname: 'file',
+    originalname,
+    encoding: '7bit',
+    mimetype,
+    size: buffer.length,
+    buffer,
+  };
+}
+
+describe('LocalStorageService', () => {
+  let rootDir: string;
+  let storageService: LocalStorageService;
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'local-storage-test-'));
+    storageService = new LocalStorageService({ rootDir });
+  });
+
+  afterEach(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  describe('constructor', () => {
+    it('should throw error when root directory is missing', () => {
+      expect(() => new LocalStorageService({ rootDir: '' })).toThrow('Root directory is required');
+    });
+  });
+
+  describe('uploadFile / downloadFile', () => {
+    it('should round-trip file contents with a timestamped name', async () => {
+      const result = await storageService.uploadFile(createMulterFile('sales.pdf', 'pdf body'));
+
+      expect(result.fileName).toMatch(/^\d+-sales\.pdf$/);
+      expect(result.signedUrl).toBeUndefined();
+      expect(result.size).toBe(8);
+      expect(result.contentType).toBe('application/pdf');
+
+      const buffer = await storageService.downloadFile(result.fileName);
+      expect(buffer.toString()).toBe('pdf body');
+    });
+
+    it('should create the root directory on first upload', async () => {
+      const nestedRoot = path.join(rootDir, 'nested', 'uploads');
+      const service = new LocalStorageService({ rootDir: nestedRoot });
+
+      const result = await service.uploadFile(createMulterFile('a.csv', 'keyword', 'text/csv'));
+
+      expect(await service.fileExists(result.fileName)).toBe(true);
+    });
+
+    it('should throw error when buffer is missing', async () => {
+      const file = { ...createMulterFile('a.pdf', ''), buffer: undefined as any };
+
+      await expect(storageService.uploadFile(file)).rejects.toThrow(
+        'Failed to upload file: Invalid file: file or buffer is missing'
+      );
+    });
+
+    it('should throw error for missing files', async () => {
+      await expect(storageService.downloadFile('missing.pdf')).rejects.toThrow(
+        'Failed to download file: File not found: missing.pdf'
+      );
+      await expect(storageService.downloadFile('')).rejects.toThrow(
+        'Failed to download file: File name is required'
+      );
+    });
+
+    it('should reject names outside the root directory', async () => {
+      await expect(storageService.downloadFile('../secret.txt')).rejects.toThrow(
+        'Failed to download file: Invalid file name: ../secret.txt'
+      );
+      await expect(storageService.downloadFile('.metadata/x.json')).rejects.toThrow(
+        'Invalid file name'
+      );
+    });
+  });
+
+  describe('deleteFile / deleteFiles', () => {
+    it('should delete a file and its metadata', async () => {
+      const { fileName } = await storageService.uploadFile(createMulterFile('a.pdf', 'x'));
+
+      await storageService.deleteFile(fileName);
+
+      expect(await storageService.fileExists(fileName)).toBe(false);
+      await expect(fs.readdir(path.join(rootDir, '.metadata'))).resolves.toEqual([]);
+    });
+
+    it('should report per-file failures in batch deletion', async () => {
+      const { fileName } = await storageService.uploadFile(createMulterFile('a.pdf', 'x'));
+
+      const result = await storageService.deleteFiles([fileName, 'missing.pdf']);
+
+      expect(result.deleted).toBe(1);
+      expect(result.failed).toBe(1);
+      expect(result.errors).toEqual([
+        { fileName: 'missing.pdf', error: 'Failed to delete file: File not found: missing.pdf' },
+      ]);
+    });
+
+    it('should throw error for empty file names array', async () => {
+      await expect(storageService.deleteFiles([])).rejects.toThrow(
+        'File names array is required and must not be empty'
+      );
+    });
+  });
+
+  describe('listFiles', () => {
+    it('should list nested files sorted and filtered by prefix, skipping metadata', async () => {
+      await fs.mkdir(path.join(rootDir, 'reports'), { recursive: true });
+      await fs.writeFile(path.join(rootDir, 'reports', 'b.pdf'), 'b');
+      await fs.writeFile(path.join(rootDir, 'reports', 'a.pdf'), 'a');
+      await storageService.uploadFile(createMulterFile('c.pdf', 'c'));
+
+      const all = await storageService.listFiles();
+      expect(all).toHaveLength(3);
+      expect(all.slice(-2)).toEqual(['reports/a.pdf', 'reports/b.pdf']);
+
+      expect(await storageService.listFiles('reports/')).toEqual(['reports/a.pdf', 'reports/b.pdf']);
+    });
+
+    it('should return an empty list when nothing was stored yet', async () => {
+      const service = new LocalStorageService({ rootDir: path.join(rootDir, 'empty') });
+
+      expect(await service.listFiles()).toEqual([]);
+    });
+  });
+
+  describe('getFileMetadata', () => {
+    it('should return stored content type and size', async () => {
+      const { fileName, uploadedAt } = await storageService.uploadFile(
+        createMulterFile('k.csv', 'AI,ML', 'text/csv')
+      );
+
+      const metadata = await storageService.getFileMetadata(fileName);
+
+      expect(metadata).toMatchObject({
+        name: fileName,
+        size: 5,
+        contentType: 'text/csv',
+        created: uploadedAt,
+      });
+    });
+
+    it('should guess the content type for files written outside the service', async () => {
+      await fs.writeFile(path.join(rootDir, 'manual.pdf'), 'pdf');
+
+      const metadata = await storageService.getFileMetadata('manual.pdf');
+
+      expect(metadata.contentType).toBe('application/pdf');
+    });
+
+    it('should throw error for missing files', async () => {
+      await expect(storageService.getFileMetadata('missing.pdf')).rejects.toThrow(
+        'Failed to get file metadata: File not found: missing.pdf'
+      );
+    });
+  });
+
+  describe('getSignedUrl', () => {
+    it('should return a file URL with an expiry', async () => {
+      const { fileName, signedUrl } = await storageService.uploadFile(createMulterFile('a.pdf', 'x'), {
+        signedUrlTtlSeconds: 60,
+      });
+
+      const url = new URL(await storageService.getSignedUrl(fileName, 60));
+
+      expect(url.protocol).toBe('file:');
+      expect(fileURLToPath(url)).toBe(path.join(rootDir, fileName));
+      expect(Date.parse(url.searchParams.get('expires')!)).toBeGreaterThan(Date.now());
+      expect(signedUrl).toMatch(/^file:\/\//);
+    });
+
+    it('should throw the same errors as Cloud Storage', async () => {
+      await expect(storageService.getSignedUrl('missing.pdf', 60)).rejects.toThrow(
+        'Failed to get signed URL: File not found: missing.pdf'
+      );
+
+      const { fileName } = await storageService.uploadFile(createMulterFile('a.pdf', 'x'));
+      await expect(storageService.getSignedUrl(fileName, 0)).rejects.toThrow(
+        'Signed URL TTL must be between 1 and 604800 seconds: 0'
+      );
+    });
+  });
+
+  describe('fileExists', () => {
+    it('should return false for empty, missing or invalid names', async () => {
+      expect(await storageService.fileExists('')).toBe(false);
+      expect(await storageService.fileExists('missing.pdf')).toBe(false);
+      expect(await storageService.fileExists('../etc/passwd')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,414 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import {
+  validateSignedUrlTtl,
+  type DeleteFilesResult,
+  type FileMetadata,
+  type MulterFile,
+  type StorageBackend,
+  type UploadOptions,
+  type UploadResult,
+} from './storage.js';
+
+/**
+ * Directory (inside the root) holding per-file metadata such as content type
+ */
+const METADATA_DIR = '.metadata';
+
+/**
+ * Content types guessed from the extension when no metadata was stored
+ */
+const CONTENT_TYPES: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.csv': 'text/csv',
+  '.txt': 'text/plain',
+  '.json': 'application/json',
+};
+
+/**
+ * Configuration options for LocalStorageService
+ */
+export interface LocalStorageServiceConfig {
+  /** Directory where files are stored; created on first upload */
+  rootDir: string;
+}
+
+/**
+ * Metadata stored alongside each uploaded file
+ */
+interface StoredMetadata {
+  contentType: string;
+  originalName: string;
+  uploadedAt: string;
+}
+
+/**
+ * LocalStorageService
+ *
+ * Local-disk implementation of the storage backend for development without
+ * GCP. File names map to paths below `rootDir` (`a/b.pdf` → `rootDir/a/b.pdf`)
+ * and behave like Cloud Storage object names: the same upload naming, the same
+ * "File not found" errors and prefix-based listing. "Signed" URLs are plain
+ * file:// URLs carrying the expiry as a query parameter; nothing enforces it.
+ *
+ * @example
+ * ```typescript
+ * const storageService = new LocalStorageService({ rootDir: './.local-storage' });
+ * const { fileName } = await storageService.uploadFile(multerFile);
+ * const buffer = await storageService.downloadFile(fileName);
+ * ```
+ */
+export class LocalStorageService implements StorageBackend {
+  private rootDir: string;
+
+  /**
+   * Creates a new LocalStorageService instance
+   *
+   * @param config - Local storage configuration
+   * @throws {Error} If root directory is not provided
+   */
+  constructor(config: LocalStorageServiceConfig) {
+    if (!config.rootDir) {
+      throw new Error('Root directory is required');
+    }
+
+    this.rootDir = path.resolve(config.rootDir);
+  }
+
+  /**
+   * Writes a file below the root directory
+   *
+   * @param file - The file to upload (from multer middleware)
+   * @param options - Upload options (signed URL lifetime)
+   * @returns Upload result with metadata and, if requested, a file:// URL
+   * @throws {Error} If the write fails or file is invalid
+   */
+  async uploadFile(file: MulterFile, options: UploadOptions = {}): Promise<UploadResult> {
+    try {
+      if (!file || !file.buffer) {
+        throw new Error('Invalid file: file or buffer is missing');
+      }
+
+      // Generate unique filename with timestamp
+      const timestamp = Date.now();
+      const fileName = `${timestamp}-${file.originalname}`;
+      const filePath = this.resolvePath(fileName);
+      const uploadedAt = new Date().toISOString();
+
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, file.buffer);
+      await this.writeMetadata(fileName, {
+        contentType: file.mimetype,
+        originalName: file.originalname,
+        uploadedAt,
+      });
+
+      const signedUrl =
+        options.signedUrlTtlSeconds !== undefined
+          ? this.signReadUrl(filePath, options.signedUrlTtlSeconds)
+          : undefined;
+
+      return {
+        fileName,
+        ...(signedUrl && { signedUrl }),
+        size: file.size,
+        contentType: file.mimetype,
+        uploadedAt,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Failed to upload file: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Reads a file from the root directory
+   *
+   * @param fileName - The name of the file to download
+   * @returns File contents as a Buffer
+   * @throws {Error} If file name is empty or file not found
+   */
+  async downloadFile(fileName: string): Promise<Buffer> {
+    try {
+      if (!fileName || fileName.trim() === '') {
+        throw new Error('File name is required');
+      }
+
+      const filePath = this.resolvePath(fileName);
+      if (!(await this.isFile(filePath))) {
+        throw new Error(`File not found: ${fileName}`);
+      }
+
+      return await fs.readFile(filePath);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Failed to download file: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Deletes a single file and its metadata
+   *
+   * @param fileName - The name of the file to delete
+   * @throws {Error} If file name is empty or file not found
+   */
+  async deleteFile(fileName: string): Promise<void> {
+    try {
+      if (!fileName || fileName.trim() === '') {
+        throw new Error('File name is required');
+      }
+
+      const filePath = this.resolvePath(fileName);
+      if (!(await this.isFile(filePath))) {
+        throw new Error(`File not found: ${fileName}`);
+      }
+
+      await fs.unlink(filePath);
+      await fs.rm(this.metadataPath(fileName), { force: true });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Failed to delete file: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Deletes multiple files in parallel
+   *
+   * @param fileNames - Array of file names to delete
+   * @returns Summary of deletion results
+   * @throws {Error} If file names array is empty
+   */
+  async deleteFiles(fileNames: string[]): Promise<DeleteFilesResult> {
+    if (!Array.isArray(fileNames) || fileNames.length === 0) {
+      throw new Error('File names array is required and must not be empty');
+    }
+
+    const results: DeleteFilesResult = {
+      deleted: 0,
+      failed: 0,
+      errors: [],
+    };
+
+    await Promise.all(
+      fileNames.map(async (fileName) => {
+        try {
+          await this.deleteFile(fileName);
+          results.deleted++;
+        } catch (error) {
+          results.failed++;
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          results.errors.push({ fileName, error: errorMessage });
+        }
+      })
+    );
+
+    return results;
+  }
+
+  /**
+   * Lists all stored files with optional prefix filter
+   *
+   * @param prefix - Optional prefix to filter file names
+   * @returns File names in lexicographic order, like Cloud Storage
+   * @throws {Error} If listing fails
+   */
+  async listFiles(prefix?: string): Promise<string[]> {
+    try {
+      const fileNames = await this.walk(this.rootDir, '');
+      return fileNames
+        .filter((fileName) => !prefix || fileName.startsWith(prefix))
+        .sort();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Failed to list files: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Gets metadata for a specific file
+   *
+   * @param fileName - The name of the file
+   * @returns File metadata including size, content type, and timestamps
+   * @throws {Error} If file name is empty or file not found
+   */
+  async getFileMetadata(fileName: string): Promise<FileMetadata> {
+    try {
+      if (!fileName || fileName.trim() === '') {
+        throw new Error('File name is required');
+      }
+
+      const filePath = this.resolvePath(fileName);
+      if (!(await this.isFile(filePath))) {
+        throw new Error(`File not found: ${fileName}`);
+      }
+
+      const stats = await fs.stat(filePath);
+      const stored = await this.readMetadata(fileName);
+
+      return {
+        name: fileName,
+        size: stats.size,
+        contentType:
+          stored?.contentType ||
+          CONTENT_TYPES[path.extname(fileName).toLowerCase()] ||
+          'application/octet-stream',
+        created: stored?.uploadedAt || stats.birthtime.toISOString(),
+        updated: stats.mtime.toISOString(),
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Failed to get file metadata: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Checks if a file exists below the root directory
+   *
+   * @param fileName - The name of the file to check
+   * @returns True if file exists, false otherwise
+   */
+  async fileExists(fileName: string): Promise<boolean> {
+    try {
+      if (!fileName || fileName.trim() === '') {
+        return false;
+      }
+
+      return await this.isFile(this.resolvePath(fileName));
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Creates a file:// URL for a stored file
+   *
+   * @param fileName - The name of the file
+   * @param ttlSeconds - URL lifetime in seconds (max 7 days, as for Cloud Storage)
+   * @returns file:// URL with an `expires` query parameter
+   * @throws {Error} If file name is empty, TTL is invalid or file not found
+   */
+  async getSignedUrl(fileName: string, ttlSeconds: number): Promise<string> {
+    try {
+      if (!fileName || fileName.trim() === '') {
+        throw new Error('File name is required');
+      }
+
+      const filePath = this.resolvePath(fileName);
+      if (!(await this.isFile(filePath))) {
+        throw new Error(`File not found: ${fileName}`);
+      }
+
+      return this.signReadUrl(filePath, ttlSeconds);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Failed to get signed URL: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Builds the file:// URL with its expiry time
+   * @private
+   */
+  private signReadUrl(filePath: string, ttlSeconds: number): string {
+    validateSignedUrlTtl(ttlSeconds);
+
+    const url = pathToFileURL(filePath);
+    url.searchParams.set('expires', new Date(Date.now() + ttlSeconds * 1000).toISOString());
+    return url.toString();
+  }
+
+  /**
+   * Maps a file name to a path, rejecting names that leave the root directory
+   * @private
+   */
+  private resolvePath(fileName: string): string {
+    const filePath = path.resolve(this.rootDir, fileName);
+    const relative = path.relative(this.rootDir, filePath);
+
+    if (
+      !relative ||
+      relative.startsWith('..') ||
+      path.isAbsolute(relative) ||
+      relative.split(path.sep)[0] === METADATA_DIR
+    ) {
+      throw new Error(`Invalid file name: ${fileName}`);
+    }
+
+    return filePath;
+  }
+
+  /**
+   * Path of the metadata file for a stored file
+   * @private
+   */
+  private metadataPath(fileName: string): string {
+    return path.join(this.rootDir, METADATA_DIR, `${fileName}.json`);
+  }
+
+  /**
+   * Writes metadata for a stored file
+   * @private
+   */
+  private async writeMetadata(fileName: string, metadata: StoredMetadata): Promise<void> {
+    const metadataPath = this.metadataPath(fileName);
+    await fs.mkdir(path.dirname(metadataPath), { recursive: true });
+    await fs.writeFile(metadataPath, JSON.stringify(metadata));
+  }
+
+  /**
+   * Reads metadata for a stored file, if any
+   * @private
+   */
+  private async readMetadata(fileName: string): Promise<StoredMetadata | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.metadataPath(fileName), 'utf8')) as StoredMetadata;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Checks whether a path is an existing regular file
+   * @private
+   */
+  private async isFile(filePath: string): Promise<boolean> {
+    try {
+      return (await fs.stat(filePath)).isFile();
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Recursively lists file names (with `/` separators) below a directory
+   * @private
+   */
+  private async walk(dir: string, prefix: string): Promise<string[]> {
+    let entries;
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch (error) {
+      // A root directory that was never written to is simply empty
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const fileNames: string[] = [];
+    for (const entry of entries) {
+      const name = `${prefix}${entry.name}`;
+      if (entry.isDirectory()) {
+        if (!prefix && entry.name === METADATA_DIR) {
+          continue;
+        }
+        fileNames.push(...(await this.walk(path.join(dir, entry.name), `${name}/`)));
+      } else if (entry.isFile()) {
+        fileNames.push(name);
+      }
+    }
+
+    return fileNames;
+  }
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { cleanOcrText, filterLowConfidenceWords } from './ocr-text';
+import { FakeLLMProvider } from './llm-provider';
+
+/**
+ * Builds a Vision word whose last symbol carries the given break
+ */
+function word(text: string, confidence: number, breakType: string | number = 'SPACE') {
+  const symbols = Array.from(text).map((symbol) => ({ text: symbol }));
+  return {
+    confidence,
+    symbols: symbols.map((symbol, index) =>
+      index === symbols.length - 1
+        ? { ...symbol, property: { detectedBreak: { type: breakType } } }
+        : symbol
+    ),
+  };
+}
+
+function annotation(text: string, words: ReturnType<typeof word>[]) {
+  return { text, pages: [{ blocks: [{ paragraphs: [{ words }] }] }] } as any;
+}
+
+describe('filterLowConfidenceWords', () => {
+  it('should return Vision text when no word is below the threshold', () => {
+    const result = filterLowConfidenceWords(
+      annotation('DX推進 の 背景\n', [word('DX推進', 0.9), word('の', 0.8), word('背景', 0.95, 'LINE_BREAK')]),
+      0.5
+    );
+
+    expect(result).toEqual({ text: 'DX推進 の 背景', lowConfidenceWords: 0 });
+  });
+
+  it('should drop low-confidence words and keep line breaks', () => {
+    const result = filterLowConfidenceWords(
+      annotation('', [
+        word('導入', 0.9),
+        word('|', 0.1),
+        word('効果', 0.92, 'EOL_SURE_SPACE'),
+        word('~~', 0.3, 'LINE_BREAK'),
+        word('ROI', 0.9, 5),
+      ]),
+      0.5
+    );
+
+    expect(result).toEqual({ text: '導入 効果\n\nROI', lowConfidenceWords: 2 });
+  });
+
+  it('should mark end-of-line hyphens', () => {
+    const result = filterLowConfidenceWords(
+      annotation('', [word('auto', 0.9, 'HYPHEN'), word('mation', 0.9), word('*', 0.2)]),
+      0.5
+    );
+
+    expect(result.text).toBe('auto-\nmation');
+  });
+
+  it('should keep every word when filtering is disabled', () => {
+    const result = filterLowConfidenceWords(
+      annotation('noise | text', [word('noise', 0.9), word('|', 0.1), word('text', 0.9)]),
+      0
+    );
+
+    expect(result).toEqual({ text: 'noise | text', lowConfidenceWords: 0 });
+  });
+
+  it('should handle missing annotations', () => {
+    expect(filterLowConfidenceWords(null)).toEqual({ text: '', lowConfidenceWords: 0 });
+    expect(filterLowConfidenceWords({ text: ' plain ' })).toEqual({
+      text: 'plain',
+      lowConfidenceWords: 0,
+    });
+  });
+});
+
+describe('cleanOcrText', () => {
+  it('should send the page text and return the cleaned text', async () => {
+    const provider = new FakeLLMProvider([' 営業支援ツールの導入効果 \n']);
+
+    const cleaned = await cleanOcrText(provider, '営業支援\nツールの導入効果｜');
+
+    expect(cleaned).toBe('営業支援ツールの導入効果');
+    expect(provider.requests[0]!.messages).toEqual([
+      { role: 'user', content: '営業支援\nツールの導入効果｜' },
+    ]);
+    expect(provider.requests[0]!.system).toContain('OCR');
+  });
+
+  it('should write the cleanup prompt in the output language', async () => {
+    const provider = new FakeLLMProvider(['Sales enablement', '销售支持']);
+
+    await cleanOcrText(provider, 'Sales enable-\nment', undefined, 'en');
+    await cleanOcrText(provider, '销售\n支持', undefined, 'zh');
+
+    expect(provider.requests[0]!.system).toContain('Join lines that are broken in the middle of a sentence');
+    expect(provider.requests[1]!.system).toContain('只修正OCR噪声');
+    // Kana only appears in Japanese text
+    expect(provider.requests.map((request) => request.system).join('\n')).not.toMatch(/[ぁ-ゖァ-ヺ]/);
+  });
+
+  it('should reject empty output', async () => {
+    const provider = new FakeLLMProvider(['  ']);
+
+    await expect(cleanOcrText(provider, 'text')).rejects.toThrow('Empty response from Fake API');
+  });
+
+  it('should reject output that is much shorter or longer than the input', async () => {
+    const provider = new FakeLLMProvider(['要約', 'x'.repeat(60)]);
+    const text = '第1章 DX推進の背景と課題について詳しく解説します';
+
+    await expect(cleanOcrText(provider, text)).rejects.toThrow('Cleaned text length changed');
+    await expect(cleanOcrText(provider, text)).rejects.toThrow('Cleaned text length changed');
+  });
+});
@@ -0,0 +1,158 @@
+import type { protos } from '@google-cloud/vision';
+import type { LLMProvider } from './llm-provider.js';
+import { DEFAULT_OUTPUT_LANGUAGE } from './output-language.js';
+import { SOURCE_PROMPTS } from './prompt-templates.js';
+import type { OutputLanguage } from '../types/index.js';
+
+type TextAnnotation = protos.google.cloud.vision.v1.ITextAnnotation;
+type Word = protos.google.cloud.vision.v1.IWord;
+
+/**
+ * Words with a lower Vision confidence than this are dropped from OCR text
+ */
+export const DEFAULT_MIN_WORD_CONFIDENCE = 0.5;
+
+/**
+ * Page text rebuilt from a Vision text annotation
+ */
+export interface OcrText {
+  text: string;
+  /** Number of words dropped for low confidence */
+  lowConfidenceWords: number;
+}
+
+/**
+ * Text emitted after a symbol for each Vision break type (by name and by
+ * enum value, depending on how the response was decoded)
+ */
+const BREAK_TEXT: Readonly<Record<string, string>> = {
+  SPACE: ' ',
+  SURE_SPACE: ' ',
+  EOL_SURE_SPACE: '\n',
+  HYPHEN: '-\n',
+  LINE_BREAK: '\n',
+  1: ' ',
+  2: ' ',
+  3: '\n',
+  4: '-\n',
+  5: '\n',
+};
+
+/**
+ * Largest relative change in length accepted from the LLM cleanup pass;
+ * anything larger suggests the model summarized or invented text
+ */
+const MAX_CLEANUP_LENGTH_CHANGE = 0.5;
+
+/**
+ * Rebuilds the text of an OCR'd page without its low-confidence words
+ *
+ * Walks the blocks, paragraphs and words of the annotation and drops every
+ * word whose confidence is below `minConfidence`, keeping line breaks so
+ * that the remaining lines do not run together. If nothing is dropped (or
+ * the annotation has no word structure), Vision's own text is returned.
+ *
+ * @param annotation - `fullTextAnnotation` of one page
+ * @param minConfidence - Minimum word confidence (0 disables filtering)
+ * @returns Page text and the number of dropped words
+ *
+ * @example
+ * ```typescript
+ * const { text, lowConfidenceWords } = filterLowConfidenceWords(
+ *   response.fullTextAnnotation,
+ *   0.5
+ * );
+ * ```
+ */
+export function filterLowConfidenceWords(
+  annotation: TextAnnotation | null | undefined,
+  minConfidence = DEFAULT_MIN_WORD_CONFIDENCE
+): OcrText {
+  const words: Word[] = (annotation?.pages || []).flatMap((page) =>
+    (page.blocks || []).flatMap((block) =>
+      (block.paragraphs || []).flatMap((paragraph) => paragraph.words || [])
+    )
+  );
+  const isLowConfidence = (word: Word): boolean =>
+    typeof word.confidence === 'number' && word.confidence < minConfidence;
+
+  const lowConfidenceWords = minConfidence > 0 ? words.filter(isLowConfidence).length : 0;
+  if (lowConfidenceWords === 0) {
+    return { text: (annotation?.text || '').trim(), lowConfidenceWords };
+  }
+
+  const text = words
+    .map((word) => {
+      const symbols = word.symbols || [];
+      if (isLowConfidence(word)) {
+        // Keep the line break after a dropped word, but not its spacing
+        const lastBreak = breakText(symbols[symbols.length - 1]);
+        return lastBreak.includes('\n') ? '\n' : '';
+      }
+      return symbols.map((symbol) => (symbol.text || '') + breakText(symbol)).join('');
+    })
+    .join('')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  return { text, lowConfidenceWords };
+}
+
+/**
+ * Fixes OCR noise in a page of text with an LLM
+ *
+ * Joins lines broken in the middle of sentences, removes stray
+ * characters and corrects obvious misrecognitions, without summarizing or
+ * adding content. Output whose length differs from the input by more than
+ * 50% is rejected.
+ *
+ * @param provider - LLM provider used for the rewrite
+ * @param text - OCR text of one page
+ * @param maxTokens - Maximum tokens of the response (default: 4096)
+ * @param language - Language of the cleanup prompt (default: ja)
+ * @returns Cleaned text
+ * @throws {Error} If the provider fails or returns empty or implausible output
+ *
+ * @example
+ * ```typescript
+ * const cleaned = await cleanOcrText(provider, '営業支援\nツールの導入効果｜');
+ * // '営業支援ツールの導入効果'
+ * ```
+ */
+export async function cleanOcrText(
+  provider: LLMProvider,
+  text: string,
+  maxTokens = 4096,
+  language: OutputLanguage = DEFAULT_OUTPUT_LANGUAGE
+): Promise<string> {
+  const completion = await provider.rewriteText({
+    system: SOURCE_PROMPTS[language].ocrCleanup,
+    messages: [{ role: 'user', content: text }],
+    maxTokens,
+  });
+
+  const cleaned = completion.content.trim();
+  if (!cleaned) {
+    throw new Error(
+      `Empty response from ${provider.label} API. Finish reason: ${completion.finishReason || 'unknown'}`
+    );
+  }
+
+  const lengthChange = Math.abs(cleaned.length - text.length) / text.length;
+  if (lengthChange > MAX_CLEANUP_LENGTH_CHANGE) {
+    throw new Error(
+      `Cleaned text length changed from ${text.length} to ${cleaned.length} characters`
+    );
+  }
+
+  return cleaned;
+}
+
+/**
+ * Returns the text emitted after a symbol for its detected break
+ */
+function breakText(symbol: protos.google.cloud.vision.v1.ISymbol | undefined): string {
+  const type = symbol?.property?.detectedBreak?.type;
+  return type !== undefined && type !== null ? BREAK_TEXT[type] ?? '' : '';
+}
@@ -0,0 +1,67 @@
+import type { OutputLanguage } from '../types/index.js';
+
+/**
+ * Output languages accepted in requests
+ */
+export const OUTPUT_LANGUAGES: readonly OutputLanguage[] = ['ja', 'en', 'zh'];
+
+/**
+ * Language of the built-in prompts and the 13-column layout
+ */
+export const DEFAULT_OUTPUT_LANGUAGE: OutputLanguage = 'ja';
+
+/**
+ * Returns true if the value is a supported output language
+ *
+ * @param value - Value to check (e.g. a form field)
+ * @returns Whether the value is one of `OUTPUT_LANGUAGES`
+ */
+export function isOutputLanguage(value: unknown): value is OutputLanguage {
+  return typeof value === 'string' && (OUTPUT_LANGUAGES as readonly string[]).includes(value);
+}
+
+/**
+ * Labels written into the source text and passages, as templates
+ */
+export interface SourceLabels {
+  /** Passage label of text typed into the form */
+  textInput: string;
+  /** Passage labels of uploaded sales and target PDFs */
+  salesPdf: string;
+  targetPdf: string;
+  /** Heading of a figure summary after its PDF page (`{{page}}`) */
+  diagramSummary: string;
+  /** Heading of a PowerPoint slide (`{{no}}`) and the speaker notes marker */
+  slide: string;
+  speakerNotes: string;
+}
+
+/**
+ * Source labels by output language
+ */
+export const SOURCE_LABELS: Readonly<Record<OutputLanguage, SourceLabels>> = {
+  ja: {
+    textInput: 'テキスト入力',
+    salesPdf: '営業資料PDF',
+    targetPdf: 'ターゲット資料PDF',
+    diagramSummary: '【図表要約（p.{{page}}）】',
+    slide: '## スライド {{no}}',
+    speakerNotes: '（スピーカーノート）',
+  },
+  en: {
+    textInput: 'Text input',
+    salesPdf: 'Sales material PDF',
+    targetPdf: 'Target material PDF',
+    diagramSummary: '[Figure Summary (p.{{page}})]',
+    slide: '## Slide {{no}}',
+    speakerNotes: '(Speaker notes)',
+  },
+  zh: {
+    textInput: '文本输入',
+    salesPdf: '销售资料PDF',
+    targetPdf: '目标资料PDF',
+    diagramSummary: '【图表摘要（第{{page}}页）】',
+    slide: '## 幻灯片 {{no}}',
+    speakerNotes: '（演讲者备注）',
+  },
+};
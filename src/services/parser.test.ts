@@ -3,13 +3,16 @@ import { ParserService, ParserServiceConfig } from './parser';
 import { ParseInput, ParsedContext } from '../types/index';
 import { ImageAnnotatorClient } from '@google-cloud/vision';
 import * as fs from 'fs/promises';
+import { extractPdfTextLayer } from './pdf-text';
+import { FakeLLMProvider } from './llm-provider';
+import { renderPdfPages, scorePdfPages } from './pdf-diagram';
 
 // Mock @google-cloud/vision
 vi.mock('@google-cloud/vision', () => {
-  const mockDocumentTextDetection = vi.fn();
+  const mockBatchAnnotateFiles = vi.fn();
 
   const MockImageAnnotatorClient = vi.fn(() => ({
-    documentTextDetection: mockDocumentTextDetection,
+    batchAnnotateFiles: mockBatchAnnotateFiles,
   }));
 
   return {
@@ -17,12 +20,56 @@ vi.mock('@google-cloud/vision', () => {
   };
 });
 
+// Mock the local text layer reader; by default PDFs have no readable text
+// layer, so every page goes to OCR
+vi.mock('./pdf-text', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./pdf-text')>()),
+  extractPdfTextLayer: vi.fn(),
+}));
+
+// Mock page scoring and rendering; the diagram detection rule itself is real
+vi.mock('./pdf-diagram', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./pdf-diagram')>()),
+  scorePdfPages: vi.fn(),
+  renderPdfPages: vi.fn(),
+}));
+
 // Mock fs/promises
 vi.mock('fs/promises', () => ({
   access: vi.fn(),
   readFile: vi.fn(),
 }));
 
+/**
+ * Builds a mocked files:annotate implementation for a PDF with the given
+ * pages (`null` = page without a text annotation)
+ */
+function visionPdf(pages: Array<{ text: string; confidence?: number } | null>) {
+  return async (request: any) => {
+    const requested: number[] =
+      request.requests[0].pages ?? [1, 2, 3, 4, 5].filter((page) => page <= pages.length);
+
+    return [
+      {
+        responses: [
+          {
+            totalPages: pages.length,
+            responses: requested.map((pageNumber) => {
+              const page = pages[pageNumber - 1];
+              return {
+                context: { pageNumber },
+                fullTextAnnotation: page
+                  ? { text: page.text, pages: [{ confidence: page.confidence ?? 0.95 }] }
+                  : null,
+              };
+            }),
+          },
+        ],
+      },
+    ] as any;
+  };
+}
+
 describe('ParserService', () => {
   let parserService: ParserService;
   let mockVisionClient: ImageAnnotatorClient;
@@ -34,6 +81,7 @@ describe('ParserService', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.mocked(extractPdfTextLayer).mockRejectedValue(new Error('Invalid PDF structure'));
 
     // Create service instance
     parserService = new ParserService(config);
@@ -75,13 +123,7 @@ describe('ParserService', () => {
       vi.mocked(fs.readFile).mockResolvedValue(testBuffer);
 
       // Mock Vision API response
-      vi.mocked(mockVisionClient.documentTextDetection).mockResolvedValue([
-        {
-          fullTextAnnotation: {
-            text: extractedText,
-          },
-        },
-      ] as any);
+      vi.mocked(mockVisionClient.batchAnnotateFiles).mockImplementation(visionPdf([{ text: extractedText }]));
     });
 
     it('should extract text from PDF successfully', async () => {
@@ -90,22 +132,19 @@ describe('ParserService', () => {
       expect(result).toBe(extractedText);
       expect(fs.access).toHaveBeenCalledWith(testPdfPath);
       expect(fs.readFile).toHaveBeenCalledWith(testPdfPath);
-      expect(mockVisionClient.documentTextDetection).toHaveBeenCalledWith({
-        image: {
-          content: testBuffer,
-        },
+      expect(mockVisionClient.batchAnnotateFiles).toHaveBeenCalledWith({
+        requests: [
+          {
+            inputConfig: { content: testBuffer, mimeType: 'application/pdf' },
+            features: [{ type: 'DOCUMENT_TEXT_DETECTION' }],
+          },
+        ],
       });
     });
 
     it('should trim whitespace from extracted text', async () => {
       const textWithWhitespace = '  \n  Extracted text  \n  ';
-      vi.mocked(mockVisionClient.documentTextDetection).mockResolvedValue([
-        {
-          fullTextAnnotation: {
-            text: textWithWhitespace,
-          },
-        },
-      ] as any);
+      vi.mocked(mockVisionClient.batchAnnotateFiles).mockImplementation(visionPdf([{ text: textWithWhitespace }]));
 
       const result = await parserService.extractTextFromPdf(testPdfPath);
 
@@ -133,11 +172,7 @@ describe('ParserService', () => {
     });
 
     it('should throw error if no text found in PDF', async () => {
-      vi.mocked(mockVisionClient.documentTextDetection).mockResolvedValue([
-        {
-          fullTextAnnotation: null,
-        },
-      ] as any);
+      vi.mocked(mockVisionClient.batchAnnotateFiles).mockImplementation(visionPdf([null]));
 
       await expect(parserService.extractTextFromPdf(testPdfPath)).rejects.toThrow(
         'No text found in PDF'
@@ -145,13 +180,7 @@ describe('ParserService', () => {
     });
 
     it('should throw error if fullTextAnnotation.text is empty', async () => {
-      vi.mocked(mockVisionClient.documentTextDetection).mockResolvedValue([
-        {
-          fullTextAnnotation: {
-            text: '',
-          },
-        },
-      ] as any);
+      vi.mocked(mockVisionClient.batchAnnotateFiles).mockImplementation(visionPdf([{ text: '' }]));
 
       await expect(parserService.extractTextFromPdf(testPdfPath)).rejects.toThrow(
         'No text found in PDF'
@@ -159,7 +188,7 @@ describe('ParserService', () => {
     });
 
     it('should handle Vision API errors', async () => {
-      vi.mocked(mockVisionClient.documentTextDetection).mockRejectedValue(
+      vi.mocked(mockVisionClient.batchAnnotateFiles).mockRejectedValue(
         new Error('Vision API error')
       );
 
@@ -168,6 +197,28 @@ describe('ParserService', () => {
       );
     });
 
+    it('should extract text from an in-memory buffer without touching the disk', async () => {
+      const result = await parserService.extractTextFromPdf(testBuffer);
+
+      expect(result).toBe(extractedText);
+      expect(fs.access).not.toHaveBeenCalled();
+      expect(fs.readFile).not.toHaveBeenCalled();
+      expect(mockVisionClient.batchAnnotateFiles).toHaveBeenCalledWith({
+        requests: [
+          {
+            inputConfig: { content: testBuffer, mimeType: 'application/pdf' },
+            features: [{ type: 'DOCUMENT_TEXT_DETECTION' }],
+          },
+        ],
+      });
+    });
+
+    it('should throw error if buffer is empty', async () => {
+      await expect(parserService.extractTextFromPdf(Buffer.alloc(0))).rejects.toThrow(
+        'Failed to extract text from PDF: PDF content is empty'
+      );
+    });
+
     it('should handle file reading errors', async () => {
       vi.mocked(fs.readFile).mockRejectedValue(new Error('Read error'));
 
@@ -177,6 +228,598 @@ describe('ParserService', () => {
     });
   });
 
+  describe('extractPdfPages', () => {
+    const testBuffer = Buffer.from('PDF content');
+    const pagesOf = (count: number) =>
+      Array.from({ length: count }, (_, index) => ({
+        text: `Page ${index + 1} text`,
+        confidence: 0.9 - index * 0.01,
+      }));
+
+    it('should OCR every page in batches of 5 and return per-page text and confidence', async () => {
+      vi.mocked(mockVisionClient.batchAnnotateFiles).mockImplementation(visionPdf(pagesOf(12)));
+      const onPageDone = vi.fn();
+
+      const result = await parserService.extractPdfPages(testBuffer, onPageDone);
+
+      expect(mockVisionClient.batchAnnotateFiles).toHaveBeenCalledTimes(3);
+      const requestedPages = vi
+        .mocked(mockVisionClient.batchAnnotateFiles)
+        .mock.calls.map(([request]: any[]) => request.requests[0].pages);
+      expect(requestedPages).toEqual([undefined, [6, 7, 8, 9, 10], [11, 12]]);
+
+      expect(result.totalPages).toBe(12);
+      expect(result.truncated).toBe(false);
+      expect(result.pages).toHaveLength(12);
+      expect(result.pages[0]).toEqual({
+        page: 1,
+        text: 'Page 1 text',
+        confidence: 0.9,
+        source: 'ocr',
+        lowConfidenceWords: 0,
+      });
+      expect(result.pages[11]).toMatchObject({ page: 12, text: 'Page 12 text' });
+      expect(result.pages[11]!.confidence).toBeCloseTo(0.79);
+      expect(result.text).toBe(pagesOf(12).map((page) => page.text).join('\n\n'));
+      expect(onPageDone).toHaveBeenCalledTimes(12);
+      expect(onPageDone).toHaveBeenLastCalledWith(12, 12);
+    });
+
+    it('should stop at the configured page limit', async () => {
+      const service = new ParserService({ maxPdfPages: 7 });
+      const client = (service as any).visionClient;
+      vi.mocked(client.batchAnnotateFiles).mockImplementation(visionPdf(pagesOf(20)));
+      const onPageDone = vi.fn();
+
+      const result = await service.extractPdfPages(testBuffer, onPageDone);
+
+      expect(client.batchAnnotateFiles).toHaveBeenCalledTimes(2);
+      expect(vi.mocked(client.batchAnnotateFiles).mock.calls[1]![0].requests[0].pages).toEqual([6, 7]);
+      expect(result.pages.map((page) => page.page)).toEqual([1, 2, 3, 4, 5, 6, 7]);
+      expect(result.totalPages).toBe(20);
+      expect(result.truncated).toBe(true);
+      expect(onPageDone).toHaveBeenLastCalledWith(7, 7);
+    });
+
+    it('should drop first-batch pages beyond a limit smaller than the batch size', async () => {
+      const service = new ParserService({ maxPdfPages: 2 });
+      vi.mocked((service as any).visionClient.batchAnnotateFiles).mockImplementation(
+        visionPdf(pagesOf(5))
+      );
+
+      const result = await service.extractPdfPages(testBuffer);
+
+      expect(result.pages.map((page) => page.page)).toEqual([1, 2]);
+      expect(result.truncated).toBe(true);
+    });
+
+    it('should default the page limit to 300', async () => {
+      const service = new ParserService({ maxOcrPages: 1000 });
+      const client = (service as any).visionClient;
+      vi.mocked(client.batchAnnotateFiles).mockImplementation(visionPdf(pagesOf(303)));
+
+      const result = await service.extractPdfPages(testBuffer);
+
+      expect(result.pages).toHaveLength(300);
+      expect(client.batchAnnotateFiles).toHaveBeenCalledTimes(60);
+    });
+
+    it('should OCR at most 50 pages by default and report the rest as truncated', async () => {
+      vi.mocked(mockVisionClient.batchAnnotateFiles).mockImplementation(visionPdf(pagesOf(80)));
+      const onPageDone = vi.fn();
+
+      const result = await parserService.extractPdfPages(testBuffer, onPageDone);
+
+      expect(mockVisionClient.batchAnnotateFiles).toHaveBeenCalledTimes(10);
+      expect(result.pages.map((page) => page.page)).toEqual(pagesOf(50).map((_, index) => index + 1));
+      expect(result.totalPages).toBe(80);
+      expect(result.truncated).toBe(true);
+      expect(onPageDone).toHaveBeenLastCalledWith(50, 50);
+    });
+
+    it('should count only OCR requests against the OCR page limit', async () => {
+      const service = new ParserService({ maxOcrPages: 2 });
+      const client = (service as any).visionClient;
+      vi.mocked(extractPdfTextLayer).mockResolvedValue({
+        totalPages: 4,
+        pages: [
+          { page: 1, text: 'Born-digital sales deck, page one' },
+          { page: 2, text: '' },
+          { page: 3, text: '' },
+          { page: 4, text: '' },
+        ],
+      });
+      vi.mocked(client.batchAnnotateFiles).mockImplementation(
+        visionPdf([null, { text: 'Scanned page two' }, { text: 'Scanned page three' }, null])
+      );
+
+      const result = await service.extractPdfPages(testBuffer);
+
+      expect(client.batchAnnotateFiles).toHaveBeenCalledTimes(1);
+      expect(vi.mocked(client.batchAnnotateFiles).mock.calls[0]![0].requests[0].pages).toEqual([2, 3]);
+      expect(result.pages.map((page) => page.page)).toEqual([1, 2, 3]);
+      expect(result.truncated).toBe(true);
+    });
+
+    it('should keep pages without text but skip them in the combined text', async () => {
+      vi.mocked(mockVisionClient.batchAnnotateFiles).mockImplementation(
+        visionPdf([{ text: 'First' }, null, { text: 'Third' }])
+      );
+
+      const result = await parserService.extractPdfPages(testBuffer);
+
+      expect(result.pages[1]).toEqual({
+        page: 2,
+        text: '',
+        confidence: 0,
+        source: 'ocr',
+        lowConfidenceWords: 0,
+      });
+      expect(result.text).toBe('First\n\nThird');
+    });
+
+    it('should report page-level Vision errors with the page number', async () => {
+      vi.mocked(mockVisionClient.batchAnnotateFiles).mockResolvedValue([
+        {
+          responses: [
+            {
+              totalPages: 2,
+              responses: [
+                { context: { pageNumber: 1 }, fullTextAnnotation: { text: 'ok' } },
+                { context: { pageNumber: 2 }, error: { message: 'Bad image data' } },
+              ],
+            },
+          ],
+        },
+      ] as any);
+
+      await expect(parserService.extractPdfPages(testBuffer)).rejects.toThrow(
+        'Failed to extract text from PDF: Page 2: Bad image data'
+      );
+    });
+
+    it('should use the embedded text layer of born-digital PDFs without OCR', async () => {
+      vi.mocked(extractPdfTextLayer).mockResolvedValue({
+        totalPages: 2,
+        pages: [
+          { page: 1, text: 'Born-digital sales deck, page one' },
+          { page: 2, text: 'Born-digital sales deck, page two' },
+        ],
+      });
+      const onPageDone = vi.fn();
+
+      const result = await parserService.extractPdfPages(testBuffer, onPageDone);
+
+      expect(mockVisionClient.batchAnnotateFiles).not.toHaveBeenCalled();
+      expect(extractPdfTextLayer).toHaveBeenCalledWith(testBuffer, 300);
+      expect(result.pages).toEqual([
+        { page: 1, text: 'Born-digital sales deck, page one', confidence: 1, source: 'text_layer' },
+        { page: 2, text: 'Born-digital sales deck, page two', confidence: 1, source: 'text_layer' },
+      ]);
+      expect(result.textLayerPages).toBe(2);
+      expect(result.ocrPages).toBe(0);
+      expect(onPageDone).toHaveBeenLastCalledWith(2, 2);
+    });
+
+    it('should OCR only pages whose text layer is empty or unreadable', async () => {
+      vi.mocked(extractPdfTextLayer).mockResolvedValue({
+        totalPages: 4,
+        pages: [
+          { page: 1, text: 'Born-digital sales deck, page one' },
+          { page: 2, text: '' },
+          { page: 3, text: 'Born-digital sales deck, page three' },
+          { page: 4, text: '\uFFFD'.repeat(30) },
+        ],
+      });
+      vi.mocked(mockVisionClient.batchAnnotateFiles).mockImplementation(
+        visionPdf([null, { text: 'Scanned page two', confidence: 0.8 }, null, { text: 'Scanned page four' }])
+      );
+
+      const result = await parserService.extractPdfPages(testBuffer);
+
+      expect(mockVisionClient.batchAnnotateFiles).toHaveBeenCalledTimes(1);
+      expect(vi.mocked(mockVisionClient.batchAnnotateFiles).mock.calls[0]![0]!.requests![0]!.pages).toEqual([2, 4]);
+      expect(result.pages.map((page) => [page.page, page.source])).toEqual([
+        [1, 'text_layer'],
+        [2, 'ocr'],
+        [3, 'text_layer'],
+        [4, 'ocr'],
+      ]);
+      expect(result.pages[1]!.confidence).toBe(0.8);
+      expect(result.textLayerPages).toBe(2);
+      expect(result.ocrPages).toBe(2);
+      expect(result.text).toBe(
+        'Born-digital sales deck, page one\n\nScanned page two\n\nBorn-digital sales deck, page three\n\nScanned page four'
+      );
+    });
+
+    it('should honor the text layer page limit and quality threshold', async () => {
+      const service = new ParserService({ maxPdfPages: 2, minTextLayerChars: 5 });
+      vi.mocked(extractPdfTextLayer).mockResolvedValue({
+        totalPages: 10,
+        pages: [
+          { page: 1, text: 'Short' },
+          { page: 2, text: 'Tiny' },
+        ],
+      });
+      vi.mocked((service as any).visionClient.batchAnnotateFiles).mockImplementation(
+        visionPdf([null, { text: 'Tiny (OCR)' }])
+      );
+
+      const result = await service.extractPdfPages(testBuffer);
+
+      expect(extractPdfTextLayer).toHaveBeenCalledWith(testBuffer, 2);
+      expect(result.pages.map((page) => page.source)).toEqual(['text_layer', 'ocr']);
+      expect(result.totalPages).toBe(10);
+      expect(result.truncated).toBe(true);
+    });
+
+    it('should skip the text layer when disabled', async () => {
+      const service = new ParserService({ useTextLayer: false });
+      vi.mocked((service as any).visionClient.batchAnnotateFiles).mockImplementation(
+        visionPdf([{ text: 'OCR text' }])
+      );
+
+      const result = await service.extractPdfPages(testBuffer);
+
+      expect(extractPdfTextLayer).not.toHaveBeenCalled();
+      expect(result.ocrPages).toBe(1);
+    });
+
+    it('should report file-level Vision errors', async () => {
+      vi.mocked(mockVisionClient.batchAnnotateFiles).mockResolvedValue([
+        { responses: [{ error: { message: 'Unsupported PDF' } }] },
+      ] as any);
+
+      await expect(parserService.extractPdfPages(testBuffer)).rejects.toThrow(
+        'Failed to extract text from PDF: Unsupported PDF'
+      );
+    });
+
+    it('should drop low-confidence OCR words', async () => {
+      const word = (text: string, confidence: number, lineBreak = false) => ({
+        confidence,
+        symbols: Array.from(text).map((symbol, index, all) => ({
+          text: symbol,
+          ...(index === all.length - 1 && {
+            property: { detectedBreak: { type: lineBreak ? 'LINE_BREAK' : 'SPACE' } },
+          }),
+        })),
+      });
+      vi.mocked(mockVisionClient.batchAnnotateFiles).mockResolvedValue([
+        {
+          responses: [
+            {
+              totalPages: 1,
+              responses: [
+                {
+                  context: { pageNumber: 1 },
+                  fullTextAnnotation: {
+                    text: 'Sales ~#; deck\nROI',
+                    pages: [
+                      {
+                        confidence: 0.7,
+                        blocks: [
+                          {
+                            paragraphs: [
+                              {
+                                words: [
+                                  word('Sales', 0.98),
+                                  word('~#;', 0.2),
+                                  word('deck', 0.95, true),
+                                  word('ROI', 0.9, true),
+                                ],
+                              },
+                            ],
+                          },
+                        ],
+                      },
+                    ],
+                  },
+                },
+              ],
+            },
+          ],
+        },
+      ] as any);
+
+      const result = await parserService.extractPdfPages(testBuffer);
+
+      expect(result.pages[0]).toMatchObject({ text: 'Sales deck\nROI', lowConfidenceWords: 1 });
+    });
+
+    it('should clean up OCR pages with the LLM and keep the OCR text if cleanup fails', async () => {
+      const provider = new FakeLLMProvider(['Scanned page one', '']);
+      const service = new ParserService({ ocrCleanupProvider: provider });
+      vi.mocked(extractPdfTextLayer).mockResolvedValue({
+        totalPages: 3,
+        pages: [
+          { page: 1, text: '' },
+          { page: 2, text: 'Born-digital sales deck, page two' },
+          { page: 3, text: '' },
+        ],
+      });
+      vi.mocked((service as any).visionClient.batchAnnotateFiles).mockImplementation(
+        visionPdf([{ text: 'Scan-\nned page one' }, null, { text: 'Scanned page three' }])
+      );
+
+      const result = await service.extractPdfPages(testBuffer);
+
+      expect(provider.requests.map((request) => request.messages[0]!.content)).toEqual([
+        'Scan-\nned page one',
+        'Scanned page three',
+      ]);
+      expect(result.pages.map((page) => [page.text, page.cleaned])).toEqual([
+        ['Scanned page one', true],
+        ['Born-digital sales deck, page two', undefined],
+        ['Scanned page three', undefined],
+      ]);
+    });
+  });
+
+  describe('extractTextFromDocument', () => {
+    it('should read Markdown documents locally', async () => {
+      const text = await parserService.extractTextFromDocument({
+        content: Buffer.from('# 背景\n\n本文'),
+        mimeType: 'text/plain',
+        fileName: 'brief.md',
+      });
+
+      expect(text).toBe('# 背景\n\n本文');
+      expect(mockVisionClient.batchAnnotateFiles).not.toHaveBeenCalled();
+    });
+
+    it('should extract PDFs with OCR', async () => {
+      vi.mocked(mockVisionClient.batchAnnotateFiles).mockImplementation(visionPdf([{ text: 'OCR text' }]));
+
+      const text = await parserService.extractTextFromDocument({
+        content: Buffer.from('PDF content'),
+        mimeType: 'application/pdf',
+        fileName: 'sales.pdf',
+      });
+
+      expect(text).toBe('OCR text');
+    });
+
+    it('should throw error for unsupported or empty documents', async () => {
+      await expect(
+        parserService.extractTextFromDocument({
+          content: Buffer.from('png'),
+          mimeType: 'image/png',
+          fileName: 'chart.png',
+        })
+      ).rejects.toThrow('Failed to extract text from document: Unsupported file type: image/png (chart.png)');
+
+      await expect(
+        parserService.extractTextFromDocument({
+          content: Buffer.from('<html><script>x()</script></html>'),
+          mimeType: 'text/html',
+          fileName: 'empty.html',
+        })
+      ).rejects.toThrow('Failed to extract text from document: No text found in empty.html');
+    });
+  });
+
+  describe('summarizeDiagramPages', () => {
+    const testBuffer = Buffer.from('PDF content');
+    const pages = [1, 2, 3, 4].map((page) => ({
+      page,
+      text: `Page ${page}`,
+      confidence: 1,
+      source: 'text_layer' as const,
+    }));
+
+    beforeEach(() => {
+      vi.mocked(scorePdfPages).mockResolvedValue([
+        { page: 1, textDensity: 20, images: 1, paths: 0 },
+        { page: 2, textDensity: 3, images: 0, paths: 12 },
+        { page: 3, textDensity: 1, images: 2, paths: 0 },
+        { page: 4, textDensity: 0, images: 0, paths: 0 },
+      ]);
+      vi.mocked(renderPdfPages).mockImplementation(async (_content, pageNumbers) =>
+        pageNumbers.map((page) => ({ page, image: Buffer.from(`png ${page}`) }))
+      );
+    });
+
+    it('should summarize only pages with little text and drawings', async () => {
+      const provider = new FakeLLMProvider(['Flow chart summary', 'Bar chart summary']);
+      const service = new ParserService({ diagramProvider: provider });
+
+      const summaries = await service.summarizeDiagramPages(testBuffer, pages);
+
+      expect(scorePdfPages).toHaveBeenCalledWith(testBuffer, pages);
+      expect(renderPdfPages).toHaveBeenCalledWith(testBuffer, [2, 3]);
+      expect(summaries).toEqual([
+        { page: 2, summary: 'Flow chart summary' },
+        { page: 3, summary: 'Bar chart summary' },
+      ]);
+      expect(provider.requests[0]!.messages[0]!.content).toContain('Page 2');
+    });
+
+    it('should summarize the sparsest pages first up to the limit and skip failed pages', async () => {
+      const provider = new FakeLLMProvider(['']);
+      const service = new ParserService({ diagramProvider: provider, maxDiagramPages: 1 });
+
+      const summaries = await service.summarizeDiagramPages(testBuffer, pages);
+
+      expect(renderPdfPages).toHaveBeenCalledWith(testBuffer, [3]);
+      expect(summaries).toEqual([]);
+    });
+
+    it('should not render anything when no page is a diagram', async () => {
+      vi.mocked(scorePdfPages).mockResolvedValue([{ page: 1, textDensity: 20, images: 1, paths: 0 }]);
+      const service = new ParserService({ diagramProvider: new FakeLLMProvider([]) });
+
+      expect(await service.summarizeDiagramPages(testBuffer, pages)).toEqual([]);
+      expect(renderPdfPages).not.toHaveBeenCalled();
+    });
+
+    it('should throw error without a diagram provider or when the PDF cannot be scored', async () => {
+      await expect(parserService.summarizeDiagramPages(testBuffer, pages)).rejects.toThrow(
+        'Failed to summarize diagram pages: A diagram provider is required'
+      );
+
+      vi.mocked(scorePdfPages).mockRejectedValue(new Error('Invalid PDF structure'));
+      const service = new ParserService({ diagramProvider: new FakeLLMProvider([]) });
+      await expect(service.summarizeDiagramPages(testBuffer, pages)).rejects.toThrow(
+        'Failed to summarize diagram pages: Invalid PDF structure'
+      );
+    });
+
+    it('should add summaries to the sales text with page markers in buildContext', async () => {
+      const service = new ParserService({
+        diagramProvider: new FakeLLMProvider(['Flow chart summary', 'Bar chart summary']),
+      });
+      vi.mocked(extractPdfTextLayer).mockResolvedValue({
+        totalPages: 4,
+        pages: pages.map(({ page }) => ({ page, text: `Born-digital sales deck, page ${page}` })),
+      });
+
+      const result = await service.buildContext({ salesPdf: testBuffer, targetText: 'Target' });
+
+      expect(result.salesText).toBe(
+        [
+          'Born-digital sales deck, page 1',
+          'Born-digital sales deck, page 2',
+          '【図表要約（p.2）】\nFlow chart summary',
+          'Born-digital sales deck, page 3',
+          '【図表要約（p.3）】\nBar chart summary',
+          'Born-digital sales deck, page 4',
+        ].join('\n\n')
+      );
+      expect(result.pdfPages?.diagramPages).toBe(2);
+    });
+
+    it('should keep the PDF text when summarization fails in buildContext', async () => {
+      vi.mocked(scorePdfPages).mockRejectedValue(new Error('Invalid PDF structure'));
+      const service = new ParserService({ diagramProvider: new FakeLLMProvider([]) });
+      vi.mocked((service as any).visionClient.batchAnnotateFiles).mockImplementation(
+        visionPdf([{ text: 'Scanned sales deck' }])
+      );
+
+      const result = await service.buildContext({ salesPdf: testBuffer });
+
+      expect(result.salesText).toBe('Scanned sales deck');
+      expect(result.pdfPages?.diagramPages).toBe(0);
+    });
+  });
+
+  describe('buildContext with document files', () => {
+    it('should read sales and target files of any supported format', async () => {
+      vi.mocked(mockVisionClient.batchAnnotateFiles).mockImplementation(
+        visionPdf([{ text: 'Target persona' }])
+      );
+      const onEvent = vi.fn();
+
+      const result = await parserService.buildContext(
+        {
+          salesFile: {
+            content: Buffer.from('<h2>導入効果</h2><p>工数 30% 削減</p>'),
+            mimeType: 'text/html',
+            fileName: 'sales.html',
+          },
+          targetFile: {
+            content: Buffer.from('PDF content'),
+            mimeType: 'application/pdf',
+            fileName: 'target.pdf',
+          },
+        },
+        onEvent
+      );
+
+      expect(result.salesText).toBe('## 導入効果\n\n工数 30% 削減');
+      expect(result.targetText).toBe('Target persona');
+      expect(result.pdfPages?.ocrPages).toBe(1);
+      expect(onEvent).toHaveBeenCalledWith({
+        type: 'ocr_page_done',
+        source: 'target',
+        page: 1,
+        totalPages: 1,
+      });
+    });
+
+    it('should prefer text and PDF fields over document files', async () => {
+      vi.mocked(mockVisionClient.batchAnnotateFiles).mockImplementation(visionPdf([{ text: 'From PDF' }]));
+      const markdown = { content: Buffer.from('# From file'), mimeType: 'text/markdown', fileName: 'a.md' };
+
+      const result = await parserService.buildContext({
+        salesText: 'From text',
+        salesFile: markdown,
+        targetPdf: Buffer.from('PDF content'),
+        targetFile: markdown,
+      });
+
+      expect(result.salesText).toBe('From text');
+      expect(result.targetText).toBe('From PDF');
+    });
+  });
+
+  describe('buildContext with URLs', () => {
+    const page = (title: string, body: string) => ({
+      status: 200,
+      contentType: 'text/html',
+      body: Buffer.from(`<title>${title}</title><nav>メニュー</nav><main>${body}</main>`),
+    });
+
+    it('should fetch sales and target pages with the configured fetcher', async () => {
+      const webFetcher = vi.fn(async (url: URL) =>
+        url.hostname === 'example.com'
+          ? page('製品紹介', '<h1>営業支援クラウド</h1><p>工数を30%削減</p>')
+          : page('会社概要', '<p>製造業向けの部品商社</p>')
+      );
+      const service = new ParserService({ ...config, webFetcher, allowedUrlHosts: ['example.com', 'example.jp'] });
+      const onEvent = vi.fn();
+
+      const result = await service.buildContext(
+        {
+          salesUrl: ['https://example.com/product', 'https://example.com/pricing'],
+          targetUrl: ['https://customer.example.jp/about'],
+        },
+        onEvent
+      );
+
+      expect(result.salesText).toBe(
+        '【製品紹介】\nURL: https://example.com/product\n\n# 営業支援クラウド\n\n工数を30%削減\n\n' +
+          '【製品紹介】\nURL: https://example.com/pricing\n\n# 営業支援クラウド\n\n工数を30%削減'
+      );
+      expect(result.targetText).toBe(
+        '【会社概要】\nURL: https://customer.example.jp/about\n\n製造業向けの部品商社'
+      );
+      expect(webFetcher).toHaveBeenCalledTimes(3);
+      expect(onEvent).toHaveBeenCalledWith({
+        type: 'url_fetched',
+        source: 'target',
+        url: 'https://customer.example.jp/about',
+        title: '会社概要',
+      });
+    });
+
+    it('should reject hosts that are not allowed without fetching them', async () => {
+      const webFetcher = vi.fn();
+      const service = new ParserService({ ...config, webFetcher, allowedUrlHosts: ['example.com'] });
+
+      await expect(
+        service.buildContext({ salesUrl: ['https://other.example.org/'] })
+      ).rejects.toThrow(
+        'Failed to build context: Failed to extract text from URLs: Failed to fetch https://other.example.org/: URL not allowed: https://other.example.org/'
+      );
+      expect(webFetcher).not.toHaveBeenCalled();
+    });
+
+    it('should prefer text and files over URLs', async () => {
+      const webFetcher = vi.fn();
+      const service = new ParserService({ ...config, webFetcher });
+
+      const result = await service.buildContext({
+        salesText: 'From text',
+        salesUrl: ['https://example.com/'],
+      });
+
+      expect(result.salesText).toBe('From text');
+      expect(webFetcher).not.toHaveBeenCalled();
+    });
+  });
+
   describe('parseCsvKeywords', () => {
     it('should parse comma-separated keywords', () => {
       const csvText = 'keyword1,keyword2,keyword3';
@@ -239,6 +882,12 @@ describe('ParserService', () => {
       expect(result).toEqual([]);
     });
 
+    it('should read one keyword per line and drop duplicates', () => {
+      const result = parserService.parseCsvKeywords('AI\nＡＩ\n"machine, learning"\nai\n');
+
+      expect(result).toEqual(['AI', 'machine, learning']);
+    });
+
     it('should handle very long keyword list', () => {
       const keywords = Array(100).fill('keyword').map((k, i) => `${k}${i}`);
       const csvText = keywords.join(',');
@@ -259,13 +908,7 @@ describe('ParserService', () => {
       // Mock file system and Vision API for PDF extraction
       vi.mocked(fs.access).mockResolvedValue(undefined);
       vi.mocked(fs.readFile).mockResolvedValue(Buffer.from('PDF content'));
-      vi.mocked(mockVisionClient.documentTextDetection).mockResolvedValue([
-        {
-          fullTextAnnotation: {
-            text: 'Extracted PDF text',
-          },
-        },
-      ] as any);
+      vi.mocked(mockVisionClient.batchAnnotateFiles).mockImplementation(visionPdf([{ text: 'Extracted PDF text' }]));
     });
 
     describe('with direct text input', () => {
@@ -282,9 +925,22 @@ describe('ParserService', () => {
           salesText: mockSalesText,
           targetText: mockTargetText,
           keywords: mockKeywords,
+          keywordEntries: mockKeywords.map((keyword) => ({ keyword })),
+          passages: [
+            { id: 'S1', source: 'sales', label: 'テキスト入力', paragraph: 1, text: mockSalesText },
+            { id: 'T1', source: 'target', label: 'テキスト入力', paragraph: 1, text: mockTargetText },
+          ],
         });
       });
 
+      it('should label text input passages in the output language', async () => {
+        const service = new ParserService({ ...config, language: 'en' });
+
+        const result = await service.buildContext({ salesText: mockSalesText, targetText: mockTargetText });
+
+        expect(result.passages?.map((passage) => passage.label)).toEqual(['Text input', 'Text input']);
+      });
+
       it('should prioritize text over PDF when both provided', async () => {
         const input: ParseInput = {
           salesPdf: '/path/to/sales.pdf',
@@ -330,6 +986,33 @@ describe('ParserService', () => {
           salesText: 'Extracted PDF text',
           targetText: 'Extracted PDF text',
           keywords: mockKeywords,
+          keywordEntries: mockKeywords.map((keyword) => ({ keyword })),
+          pdfPages: {
+            totalPages: 2,
+            textLayerPages: 0,
+            ocrPages: 2,
+            lowConfidenceWords: 0,
+            cleanedPages: 0,
+            diagramPages: 0,
+          },
+          passages: [
+            {
+              id: 'S1',
+              source: 'sales',
+              label: 'sales.pdf',
+              page: 1,
+              paragraph: 1,
+              text: 'Extracted PDF text',
+            },
+            {
+              id: 'T1',
+              source: 'target',
+              label: 'target.pdf',
+              page: 1,
+              paragraph: 1,
+              text: 'Extracted PDF text',
+            },
+          ],
         });
         expect(fs.readFile).toHaveBeenCalledTimes(2);
       });
@@ -415,6 +1098,32 @@ describe('ParserService', () => {
         expect(result.keywords).toEqual(['keyword1', 'keyword2']);
       });
 
+      it('should decode a keywordsCsv buffer as UTF-8', async () => {
+        const input: ParseInput = {
+          salesText: mockSalesText,
+          keywordsCsv: Buffer.from('生成AI,業務効率化', 'utf8'),
+        };
+
+        const result = await parserService.buildContext(input);
+
+        expect(result.keywords).toEqual(['生成AI', '業務効率化']);
+      });
+
+      it('should import keyword metrics from a Shift_JIS export', async () => {
+        const input: ParseInput = {
+          // 'キーワード,月間検索数\nSFA,1200' in Shift_JIS
+          keywordsCsv: Buffer.from(
+            '\x83L\x81[\x83\x8F\x81[\x83h,\x8C\x8E\x8A\xD4\x8C\x9F\x8D\xF5\x90\x94\nSFA,1200\n',
+            'latin1'
+          ),
+        };
+
+        const result = await parserService.buildContext(input);
+
+        expect(result.keywords).toEqual(['SFA']);
+        expect(result.keywordEntries).toEqual([{ keyword: 'SFA', searchVolume: 1200 }]);
+      });
+
       it('should handle empty keywords', async () => {
         const input: ParseInput = {
           salesText: mockSalesText,
@@ -498,7 +1207,7 @@ describe('ParserService', () => {
 
     describe('error handling', () => {
       it('should handle PDF extraction failure', async () => {
-        vi.mocked(mockVisionClient.documentTextDetection).mockRejectedValue(
+        vi.mocked(mockVisionClient.batchAnnotateFiles).mockRejectedValue(
           new Error('OCR failed')
         );
 
@@ -524,7 +1233,7 @@ describe('ParserService', () => {
       });
 
       it('should include original error message in thrown error', async () => {
-        vi.mocked(mockVisionClient.documentTextDetection).mockRejectedValue(
+        vi.mocked(mockVisionClient.batchAnnotateFiles).mockRejectedValue(
           new Error('Custom OCR error')
         );
 
@@ -590,17 +1299,43 @@ describe('ParserService', () => {
         expect(result.keywords).toEqual(['日本語', 'émoji', 'symbol']);
       });
 
+      it('should report the pages taken from each extraction path', async () => {
+        vi.mocked(extractPdfTextLayer)
+          .mockResolvedValueOnce({
+            totalPages: 2,
+            pages: [
+              { page: 1, text: 'Born-digital sales deck, page one' },
+              { page: 2, text: '' },
+            ],
+          })
+          .mockResolvedValueOnce({
+            totalPages: 1,
+            pages: [{ page: 1, text: 'Born-digital target persona memo' }],
+          });
+        vi.mocked(mockVisionClient.batchAnnotateFiles).mockImplementation(
+          visionPdf([null, { text: 'Scanned page' }])
+        );
+
+        const result = await parserService.buildContext({
+          salesPdf: Buffer.from('sales'),
+          targetPdf: Buffer.from('target'),
+        });
+
+        expect(result.pdfPages).toEqual({
+          totalPages: 3,
+          textLayerPages: 2,
+          ocrPages: 1,
+          lowConfidenceWords: 0,
+          cleanedPages: 0,
+          diagramPages: 0,
+        });
+      });
+
       it('should handle multiple PDF extractions in parallel', async () => {
         let extractionCount = 0;
-        vi.mocked(mockVisionClient.documentTextDetection).mockImplementation(async () => {
+        vi.mocked(mockVisionClient.batchAnnotateFiles).mockImplementation(async (request: any) => {
           extractionCount++;
-          return [
-            {
-              fullTextAnnotation: {
-                text: `Extracted text ${extractionCount}`,
-              },
-            },
-          ] as any;
+          return visionPdf([{ text: `Extracted text ${extractionCount}` }])(request);
         });
 
         const input: ParseInput = {
@@ -652,16 +1387,17 @@ describe('ParserService', () => {
           salesText: 'Sales text',
           targetText: 'Target text',
           keywords: ['AI', 'ML'],
+          keywordEntries: [{ keyword: 'AI' }, { keyword: 'ML' }],
+          passages: [
+            { id: 'S1', source: 'sales', label: 'テキスト入力', paragraph: 1, text: 'Sales text' },
+            { id: 'T1', source: 'target', label: 'テキスト入力', paragraph: 1, text: 'Target text' },
+          ],
         });
       });
     });
 
     it('should handle empty PDF (no text detected)', async () => {
-      vi.mocked(mockVisionClient.documentTextDetection).mockResolvedValue([
-        {
-          fullTextAnnotation: null,
-        },
-      ] as any);
+      vi.mocked(mockVisionClient.batchAnnotateFiles).mockImplementation(visionPdf([null]));
 
       const input: ParseInput = {
         salesPdf: '/path/to/empty.pdf',
@@ -673,13 +1409,7 @@ describe('ParserService', () => {
     });
 
     it('should handle PDF with only whitespace', async () => {
-      vi.mocked(mockVisionClient.documentTextDetection).mockResolvedValue([
-        {
-          fullTextAnnotation: {
-            text: '   \n\n   ',
-          },
-        },
-      ] as any);
+      vi.mocked(mockVisionClient.batchAnnotateFiles).mockImplementation(visionPdf([{ text: '   \n\n   ' }]));
 
       const input: ParseInput = {
         salesPdf: '/path/to/whitespace.pdf',
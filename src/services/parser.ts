@@ -1,6 +1,67 @@
 import { ImageAnnotatorClient } from '@google-cloud/vision';
-import { ParseInput, ParsedContext } from '../types/index.js';
+import {
+  DocumentFile,
+  GenerationEvent,
+  KeywordEntry,
+  OutputLanguage,
+  ParseInput,
+  ParsedContext,
+  PdfExtractionResult,
+  PdfPageStats,
+  PdfPageText,
+  SourcePassage,
+} from '../types/index.js';
+import {
+  DEFAULT_MIN_TEXT_LAYER_CHARS,
+  extractPdfTextLayer,
+  isUsableTextLayer,
+  type PdfTextLayer,
+} from './pdf-text.js';
+import {
+  DEFAULT_MIN_WORD_CONFIDENCE,
+  cleanOcrText,
+  filterLowConfidenceWords,
+} from './ocr-text.js';
+import {
+  DEFAULT_MAX_DIAGRAM_PAGES,
+  DEFAULT_MAX_DIAGRAM_TEXT_DENSITY,
+  isDiagramPage,
+  renderPdfPages,
+  scorePdfPages,
+  summarizePageImage,
+} from './pdf-diagram.js';
+import { detectDocumentFormat, extractDocumentText } from './document-text.js';
+import { parseKeywordCsv } from './keyword-csv.js';
+import { numberPassages, splitPagePassages, splitPassages } from './source-passages.js';
+import { DEFAULT_OUTPUT_LANGUAGE, SOURCE_LABELS } from './output-language.js';
+import { renderTemplate } from './prompt-templates.js';
+import {
+  fetchWebPage,
+  type WebFetcher,
+  type WebPage,
+  type WebPageOptions,
+} from './web-page.js';
+import type { LLMProvider } from './llm-provider.js';
+import { Logger } from '../utils/logger.js';
 import * as fs from 'fs/promises';
+import * as path from 'path';
+
+const logger = new Logger('ParserService');
+
+/**
+ * Default maximum number of PDF pages to OCR
+ */
+export const DEFAULT_MAX_PDF_PAGES = 300;
+
+/**
+ * Default maximum number of PDF pages sent to OCR per document
+ */
+export const DEFAULT_MAX_OCR_PAGES = 50;
+
+/**
+ * Pages per files:annotate request (Vision API limit)
+ */
+const PAGES_PER_REQUEST = 5;
 
 /**
  * Configuration options for ParserService
@@ -8,13 +69,52 @@ import * as fs from 'fs/promises';
 export interface ParserServiceConfig {
   projectId?: string;
   keyFilename?: string;
+  /** Pages beyond this limit are not processed (default: 300) */
+  maxPdfPages?: number;
+  /**
+   * Pages sent to OCR per PDF; further pages without a usable text layer are
+   * skipped (default: 50). Every request of 5 pages uploads the whole PDF, so
+   * this also bounds the upload volume.
+   */
+  maxOcrPages?: number;
+  /** Read the embedded PDF text layer before OCR (default: true) */
+  useTextLayer?: boolean;
+  /** Pages whose text layer is shorter than this are OCR'd (default: 20) */
+  minTextLayerChars?: number;
+  /** OCR words below this confidence are dropped (default: 0.5, 0 keeps all) */
+  minOcrConfidence?: number;
+  /** Provider for the optional LLM cleanup of OCR'd pages (default: no cleanup) */
+  ocrCleanupProvider?: LLMProvider;
+  /** Vision-capable provider for summarizing figure pages (default: no summaries) */
+  diagramProvider?: LLMProvider;
+  /** Language of the source labels and the OCR cleanup and figure prompts (default: ja) */
+  language?: OutputLanguage;
+  /** Maximum figure pages summarized per PDF (default: 10) */
+  maxDiagramPages?: number;
+  /** Pages with fewer characters per square inch may be figures (default: 5) */
+  maxDiagramTextDensity?: number;
+  /** HTTP client for sales and target URLs (default: Node's http and https modules) */
+  webFetcher?: WebFetcher;
+  /** Time limit per URL including redirects (default: 10000 ms) */
+  urlTimeoutMs?: number;
+  /** Maximum response size per URL (default: 2 MB) */
+  maxUrlBytes?: number;
+  /** Hosts that may be fetched (default: any public host) */
+  allowedUrlHosts?: string[];
 }
 
 /**
  * ParserService
  *
  * Provides PDF/text parsing and context building functionality.
- * Uses Google Cloud Vision OCR for PDF text extraction and CSV keyword parsing.
+ * Reads the embedded text layer of born-digital PDFs locally and sends only
+ * pages without usable text to the Google Cloud Vision file annotation API
+ * (in batches of 5 pages, up to `maxPdfPages` pages of which at most
+ * `maxOcrPages` are OCR'd). Low-confidence OCR words are dropped, and OCR'd
+ * pages can be cleaned up by an LLM before they reach the context. Figure- and slide-heavy pages of the sales PDF can be
+ * summarized by a multimodal LLM. Word, PowerPoint, HTML and Markdown
+ * documents are read locally, and web pages are fetched with size, time and
+ * host limits. Also imports keyword lists and SEO tool keyword exports.
  *
  * @example
  * ```typescript
@@ -23,11 +123,13 @@ export interface ParserServiceConfig {
  *   keyFilename: './key.json'
  * });
  *
- * // Extract text from PDF
+ * // Extract text from a PDF file or an in-memory buffer
  * const text = await parserService.extractTextFromPdf('/path/to/file.pdf');
+ * const fromUpload = await parserService.extractTextFromPdf(req.file.buffer);
  *
  * // Parse CSV keywords
  * const keywords = parserService.parseCsvKeywords('keyword1,keyword2,keyword3');
+ * const entries = parserService.parseKeywordEntries(req.file.buffer);
  *
  * // Build complete context
  * const context = await parserService.buildContext({
@@ -39,6 +141,17 @@ export interface ParserServiceConfig {
  */
 export class ParserService {
   private visionClient: ImageAnnotatorClient;
+  private maxPdfPages: number;
+  private maxOcrPages: number;
+  private useTextLayer: boolean;
+  private minTextLayerChars: number;
+  private minOcrConfidence: number;
+  private ocrCleanupProvider?: LLMProvider;
+  private diagramProvider?: LLMProvider;
+  private maxDiagramPages: number;
+  private maxDiagramTextDensity: number;
+  private webPageOptions: WebPageOptions;
+  private language: OutputLanguage;
 
   /**
    * Creates a new ParserService instance
@@ -58,63 +171,503 @@ export class ParserService {
       projectId: config?.projectId,
       keyFilename: config?.keyFilename,
     });
+    this.maxPdfPages = config?.maxPdfPages ?? DEFAULT_MAX_PDF_PAGES;
+    this.maxOcrPages = config?.maxOcrPages ?? DEFAULT_MAX_OCR_PAGES;
+    this.useTextLayer = config?.useTextLayer ?? true;
+    this.minTextLayerChars = config?.minTextLayerChars ?? DEFAULT_MIN_TEXT_LAYER_CHARS;
+    this.minOcrConfidence = config?.minOcrConfidence ?? DEFAULT_MIN_WORD_CONFIDENCE;
+    this.ocrCleanupProvider = config?.ocrCleanupProvider;
+    this.diagramProvider = config?.diagramProvider;
+    this.maxDiagramPages = config?.maxDiagramPages ?? DEFAULT_MAX_DIAGRAM_PAGES;
+    this.webPageOptions = {
+      fetcher: config?.webFetcher,
+      timeoutMs: config?.urlTimeoutMs,
+      maxBytes: config?.maxUrlBytes,
+      allowedHosts: config?.allowedUrlHosts,
+    };
+    this.maxDiagramTextDensity = config?.maxDiagramTextDensity ?? DEFAULT_MAX_DIAGRAM_TEXT_DENSITY;
+    this.language = config?.language ?? DEFAULT_OUTPUT_LANGUAGE;
   }
 
   /**
-   * Extracts text from a PDF file using Google Cloud Vision OCR
+   * Extracts text from a PDF (text layer, falling back to Cloud Vision OCR)
    *
-   * @param pdfPath - Absolute path to the PDF file
-   * @returns Promise resolving to extracted text content
-   * @throws {Error} If PDF path is invalid or OCR extraction fails
+   * @param pdf - PDF contents, or the absolute path to a PDF file
+   * @param onPageDone - Optional callback invoked for each processed page
+   * @returns Promise resolving to the text of all processed pages
+   * @throws {Error} If the PDF is empty, the path is invalid or OCR extraction fails
    *
    * @example
    * ```typescript
-   * const text = await parserService.extractTextFromPdf('/tmp/document.pdf');
+   * const text = await parserService.extractTextFromPdf(req.file.buffer);
    * console.log(`Extracted ${text.length} characters`);
    * ```
    */
-  async extractTextFromPdf(pdfPath: string): Promise<string> {
+  async extractTextFromPdf(
+    pdf: string | Buffer,
+    onPageDone?: (page: number, totalPages: number) => void
+  ): Promise<string> {
+    const result = await this.extractPdfPages(pdf, onPageDone);
+    return result.text;
+  }
+
+  /**
+   * Extracts per-page text and confidence from a PDF
+   *
+   * The embedded text layer is read first; only pages whose text is empty or
+   * below the quality threshold are sent to Vision's file annotation API, in
+   * batches of 5. If the text layer cannot be read, every page is OCR'd.
+   * OCR words below `minOcrConfidence` are dropped, and if an
+   * `ocrCleanupProvider` is configured, each OCR'd page is then cleaned up
+   * by the LLM (keeping the OCR text if the cleanup fails).
+   * Only the first `maxPdfPages` pages are processed, and at most
+   * `maxOcrPages` of them are OCR'd (at least the first batch when the text
+   * layer cannot be read); `truncated` reports whether pages were skipped.
+   *
+   * @param pdf - PDF contents, or the absolute path to a PDF file
+   * @param onPageDone - Optional callback invoked for each processed page, with
+   *   the number of pages that will be processed
+   * @returns Promise resolving to the page texts, combined text and the number
+   *   of pages taken from each path
+   * @throws {Error} If the PDF is empty, no page contains text or OCR fails
+   *
+   * @example
+   * ```typescript
+   * const { pages, ocrPages } = await parserService.extractPdfPages(buffer);
+   * const unsure = pages.filter((page) => page.confidence < 0.8);
+   * ```
+   */
+  async extractPdfPages(
+    pdf: string | Buffer,
+    onPageDone?: (page: number, totalPages: number) => void
+  ): Promise<PdfExtractionResult> {
     try {
-      // Validate input
-      if (!pdfPath || pdfPath.trim() === '') {
-        throw new Error('PDF path is required');
+      if (Buffer.isBuffer(pdf) && pdf.length === 0) {
+        throw new Error('PDF content is empty');
       }
 
-      // Check if file exists
-      try {
-        await fs.access(pdfPath);
-      } catch {
-        throw new Error(`PDF file not found: ${pdfPath}`);
+      const fileBuffer = Buffer.isBuffer(pdf) ? pdf : await this.readPdfFile(pdf);
+      const textLayer = this.useTextLayer ? await this.readTextLayer(fileBuffer) : undefined;
+
+      // Without a text layer, the first OCR request (no explicit pages) covers
+      // pages 1-5 and reports the page count
+      const first = textLayer ? undefined : await this.annotatePdfPages(fileBuffer);
+      const totalPages = textLayer ? textLayer.totalPages : first!.totalPages;
+      const pageLimit = Math.min(totalPages, this.maxPdfPages);
+      if (totalPages > pageLimit) {
+        logger.warn(`PDF has ${totalPages} pages; only the first ${pageLimit} are processed`);
       }
 
-      // Read file as buffer
-      const fileBuffer = await fs.readFile(pdfPath);
+      let ocrPageNumbers: number[] = [];
+      const textLayerPages: PdfPageText[] = [];
+      if (textLayer) {
+        textLayer.pages.forEach(({ page, text }) => {
+          if (isUsableTextLayer(text, this.minTextLayerChars)) {
+            textLayerPages.push({ page, text, confidence: 1, source: 'text_layer' });
+          } else {
+            ocrPageNumbers.push(page);
+          }
+        });
+      } else {
+        for (let page = PAGES_PER_REQUEST + 1; page <= pageLimit; page++) {
+          ocrPageNumbers.push(page);
+        }
+      }
 
-      // Use Cloud Vision OCR for text detection
-      const [result] = await this.visionClient.documentTextDetection({
-        image: {
-          content: fileBuffer,
-        },
-      });
+      // Each OCR request uploads the whole PDF, so the OCR'd pages are capped
+      const firstBatchPages = first ? Math.min(PAGES_PER_REQUEST, pageLimit) : 0;
+      const ocrBudget = Math.max(0, this.maxOcrPages - firstBatchPages);
+      const skippedPages = Math.max(0, ocrPageNumbers.length - ocrBudget);
+      if (skippedPages > 0) {
+        logger.warn(
+          `PDF has ${ocrPageNumbers.length} more pages to OCR; only ${ocrBudget} are processed`
+        );
+        ocrPageNumbers = ocrPageNumbers.slice(0, ocrBudget);
+      }
+      const processedPages = pageLimit - skippedPages;
 
-      // Extract full text annotation
-      const fullTextAnnotation = result.fullTextAnnotation;
-      if (!fullTextAnnotation || !fullTextAnnotation.text) {
+      const pages: PdfPageText[] = [];
+      let hasText = textLayerPages.length > 0 || Boolean(first?.hasText);
+      const collect = (batch: PdfPageText[]): void => {
+        batch
+          .filter((page) => page.page <= pageLimit)
+          .forEach((page) => {
+            pages.push(page);
+            onPageDone?.(page.page, processedPages);
+          });
+      };
+      collect(textLayerPages);
+      if (first) {
+        collect(first.pages);
+      }
+
+      for (let index = 0; index < ocrPageNumbers.length; index += PAGES_PER_REQUEST) {
+        const batch = await this.annotatePdfPages(
+          fileBuffer,
+          ocrPageNumbers.slice(index, index + PAGES_PER_REQUEST)
+        );
+        hasText = hasText || batch.hasText;
+        collect(batch.pages);
+      }
+
+      if (!hasText) {
         throw new Error('No text found in PDF');
       }
 
-      return fullTextAnnotation.text.trim();
+      if (this.ocrCleanupProvider) {
+        await this.cleanOcrPages(pages, this.ocrCleanupProvider);
+      }
+
+      pages.sort((a, b) => a.page - b.page);
+
+      return {
+        text: joinPageTexts(pages, this.language),
+        pages,
+        totalPages,
+        truncated: totalPages > pageLimit || skippedPages > 0,
+        textLayerPages: textLayerPages.length,
+        ocrPages: pages.length - textLayerPages.length,
+      };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       throw new Error(`Failed to extract text from PDF: ${errorMessage}`);
     }
   }
 
+  /**
+   * Extracts text from an uploaded document of any supported format
+   *
+   * PDFs go through `extractTextFromPdf`; DOCX, PPTX, HTML, Markdown and
+   * text files are read locally, keeping headings and slide boundaries as
+   * Markdown headings (see `extractDocumentText`).
+   *
+   * @param file - Uploaded document with its MIME type and file name
+   * @returns Promise resolving to the extracted text
+   * @throws {Error} If the format is unsupported, the file is invalid or it
+   *   contains no text
+   *
+   * @example
+   * ```typescript
+   * const text = await parserService.extractTextFromDocument({
+   *   content: req.file.buffer,
+   *   mimeType: req.file.mimetype,
+   *   fileName: req.file.originalname,
+   * });
+   * ```
+   */
+  async extractTextFromDocument(file: DocumentFile): Promise<string> {
+    const format = detectDocumentFormat(file.mimeType, file.fileName);
+    if (format === 'pdf') {
+      return this.extractTextFromPdf(file.content);
+    }
+
+    try {
+      if (!format) {
+        throw new Error(`Unsupported file type: ${file.mimeType} (${file.fileName})`);
+      }
+
+      const text = extractDocumentText(file.content, format, this.language);
+      if (text === '') {
+        throw new Error(`No text found in ${file.fileName}`);
+      }
+      return text;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Failed to extract text from document: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Fetches web pages and extracts their main content
+   *
+   * Pages are fetched one at a time; boilerplate such as navigation, footers
+   * and scripts is removed (see `fetchWebPage`). Each page becomes a section
+   * headed by its title and URL.
+   *
+   * @param urls - Page URLs (http or https)
+   * @param onPage - Called after each page is fetched
+   * @returns Promise resolving to the text of all pages
+   * @throws {Error} If a URL is not allowed or a page cannot be fetched or
+   *   contains no text
+   *
+   * @example
+   * ```typescript
+   * const text = await parserService.extractTextFromUrls(['https://example.com/product']);
+   * // '【製品紹介】\nURL: https://example.com/product\n\n# 製品紹介\n...'
+   * ```
+   */
+  async extractTextFromUrls(urls: string[], onPage?: (page: WebPage) => void): Promise<string> {
+    try {
+      const sections: string[] = [];
+      for (const url of urls) {
+        logger.info(`Fetching ${url}`);
+        const page = await fetchWebPage(url, this.webPageOptions);
+        onPage?.(page);
+        sections.push(`【${page.title || page.url}】\nURL: ${page.url}\n\n${page.text}`);
+      }
+      return sections.join('\n\n');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Failed to extract text from URLs: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Summarizes the figure- and slide-heavy pages of a PDF
+   *
+   * Each page is scored by text density (characters per square inch) and
+   * drawing content; pages with little text and images or vector drawings
+   * are rendered to PNG and summarized by the `diagramProvider`. The pages
+   * with the lowest text density are summarized first, up to
+   * `maxDiagramPages`. A page whose summary fails is skipped.
+   *
+   * @param pdf - PDF contents, or the absolute path to a PDF file
+   * @param pages - Extracted pages of the PDF (from `extractPdfPages`)
+   * @returns Summaries keyed by page number, in page order
+   * @throws {Error} If no diagram provider is configured or the PDF cannot be
+   *   opened or rendered
+   *
+   * @example
+   * ```typescript
+   * const { pages } = await parserService.extractPdfPages(buffer);
+   * const summaries = await parserService.summarizeDiagramPages(buffer, pages);
+   * // [{ page: 4, summary: '導入前後の業務フローを比較した図で…' }]
+   * ```
+   */
+  async summarizeDiagramPages(
+    pdf: string | Buffer,
+    pages: PdfPageText[]
+  ): Promise<Array<{ page: number; summary: string }>> {
+    try {
+      if (!this.diagramProvider) {
+        throw new Error('A diagram provider is required');
+      }
+
+      const fileBuffer = Buffer.isBuffer(pdf) ? pdf : await this.readPdfFile(pdf);
+      const scores = await scorePdfPages(fileBuffer, pages);
+      const diagramPages = scores
+        .filter((score) => isDiagramPage(score, this.maxDiagramTextDensity))
+        .sort((a, b) => a.textDensity - b.textDensity)
+        .slice(0, this.maxDiagramPages)
+        .map((score) => score.page)
+        .sort((a, b) => a - b);
+      if (diagramPages.length === 0) {
+        return [];
+      }
+
+      logger.info(`Summarizing ${diagramPages.length} figure page(s): ${diagramPages.join(', ')}`);
+      const rendered = await renderPdfPages(fileBuffer, diagramPages);
+      const summaries: Array<{ page: number; summary: string }> = [];
+      for (const { page, image } of rendered) {
+        const pageText = pages.find((candidate) => candidate.page === page)?.text ?? '';
+        try {
+          summaries.push({
+            page,
+            summary: await summarizePageImage(
+              this.diagramProvider,
+              image,
+              pageText,
+              undefined,
+              this.language
+            ),
+          });
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          logger.warn(`Could not summarize figure page ${page}: ${errorMessage}`);
+        }
+      }
+      return summaries;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Failed to summarize diagram pages: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Reads a sales or target document given as a PDF or as a file of any
+   * supported format; PDFs report OCR progress and page stats, and sales
+   * PDFs get figure summaries when a diagram provider is configured. The
+   * text is also split into passages labeled with the file name (and page
+   * numbers for PDFs).
+   * @private
+   */
+  private async readDocumentSource(
+    source: 'sales' | 'target',
+    pdf: string | Buffer | undefined,
+    file: DocumentFile | undefined,
+    onEvent?: (event: GenerationEvent) => void
+  ): Promise<{
+    text: string;
+    pdfResult?: PdfExtractionResult;
+    passages: Array<Omit<SourcePassage, 'id'>>;
+  }> {
+    const isPdfFile = file !== undefined && detectDocumentFormat(file.mimeType, file.fileName) === 'pdf';
+    const pdfContent = pdf ?? (isPdfFile ? file.content : undefined);
+    const label =
+      pdf === undefined
+        ? file!.fileName
+        : typeof pdf === 'string'
+          ? path.basename(pdf)
+          : source === 'sales'
+            ? SOURCE_LABELS[this.language].salesPdf
+            : SOURCE_LABELS[this.language].targetPdf;
+    if (!pdfContent) {
+      const text = await this.extractTextFromDocument(file!);
+      return { text, passages: splitPassages(text, { source, label }) };
+    }
+
+    const result = await this.extractPdfPages(pdfContent, (page, totalPages) =>
+      onEvent?.({ type: 'ocr_page_done', source, page, totalPages })
+    );
+    if (source === 'sales' && this.diagramProvider) {
+      await this.addDiagramSummaries(pdfContent, result);
+    }
+    return {
+      text: result.text,
+      pdfResult: result,
+      passages: splitPagePassages(result.pages, { source, label }, this.language),
+    };
+  }
+
+  /**
+   * Adds figure summaries to the sales PDF text, keeping the PDF text if
+   * summarization fails
+   * @private
+   */
+  private async addDiagramSummaries(
+    pdf: string | Buffer,
+    result: PdfExtractionResult
+  ): Promise<void> {
+    try {
+      const summaries = await this.summarizeDiagramPages(pdf, result.pages);
+      summaries.forEach(({ page, summary }) => {
+        const pageText = result.pages.find((candidate) => candidate.page === page);
+        if (pageText) {
+          pageText.diagramSummary = summary;
+        }
+      });
+      result.text = joinPageTexts(result.pages, this.language);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.warn(`${errorMessage}; using the PDF text only`);
+    }
+  }
+
+  /**
+   * Replaces the text of each OCR'd page with its LLM-cleaned version
+   *
+   * Cleanup is best effort: if it fails for a page, the OCR text is kept.
+   * @private
+   */
+  private async cleanOcrPages(pages: PdfPageText[], provider: LLMProvider): Promise<void> {
+    for (const page of pages) {
+      if (page.source !== 'ocr' || page.text === '') {
+        continue;
+      }
+
+      try {
+        page.text = await cleanOcrText(provider, page.text, undefined, this.language);
+        page.cleaned = true;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.warn(`Could not clean up OCR text of page ${page.page}, keeping OCR text: ${errorMessage}`);
+      }
+    }
+  }
+
+  /**
+   * Reads the embedded text layer, or returns undefined if the PDF cannot be
+   * opened locally (OCR is used for every page then)
+   * @private
+   */
+  private async readTextLayer(content: Buffer): Promise<PdfTextLayer | undefined> {
+    try {
+      return await extractPdfTextLayer(content, this.maxPdfPages);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.warn(`Could not read PDF text layer, using OCR for all pages: ${errorMessage}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * OCRs one batch of PDF pages (at most 5)
+   *
+   * @param content - PDF contents
+   * @param pageNumbers - 1-based pages to annotate (default: the first 5)
+   * @returns Page texts, the document page count and whether any page had text
+   * @private
+   */
+  private async annotatePdfPages(
+    content: Buffer,
+    pageNumbers?: number[]
+  ): Promise<{ pages: PdfPageText[]; totalPages: number; hasText: boolean }> {
+    const [result] = await this.visionClient.batchAnnotateFiles({
+      requests: [
+        {
+          inputConfig: { content, mimeType: 'application/pdf' },
+          features: [{ type: 'DOCUMENT_TEXT_DETECTION' }],
+          ...(pageNumbers && { pages: pageNumbers }),
+        },
+      ],
+    });
+
+    const fileResponse = result.responses?.[0];
+    if (fileResponse?.error?.message) {
+      throw new Error(fileResponse.error.message);
+    }
+
+    let hasText = false;
+    const pages = (fileResponse?.responses || []).map((response, index) => {
+      const page = response.context?.pageNumber || (pageNumbers ? pageNumbers[index]! : index + 1);
+      if (response.error?.message) {
+        throw new Error(`Page ${page}: ${response.error.message}`);
+      }
+
+      const annotation = response.fullTextAnnotation;
+      const { text, lowConfidenceWords } = filterLowConfidenceWords(
+        annotation,
+        this.minOcrConfidence
+      );
+      hasText = hasText || Boolean(annotation?.text);
+      return {
+        page,
+        text,
+        confidence: annotation?.pages?.[0]?.confidence ?? 0,
+        source: 'ocr' as const,
+        lowConfidenceWords,
+      };
+    });
+
+    return { pages, totalPages: fileResponse?.totalPages || pages.length, hasText };
+  }
+
+  /**
+   * Reads a PDF file from disk
+   * @private
+   */
+  private async readPdfFile(pdfPath: string): Promise<Buffer> {
+    if (!pdfPath || pdfPath.trim() === '') {
+      throw new Error('PDF path is required');
+    }
+
+    // Check if file exists
+    try {
+      await fs.access(pdfPath);
+    } catch {
+      throw new Error(`PDF file not found: ${pdfPath}`);
+    }
+
+    return fs.readFile(pdfPath);
+  }
+
   /**
    * Parses CSV-formatted keyword string into an array of keywords
    *
-   * @param csvText - CSV string containing keywords (comma-separated)
-   * @returns Array of trimmed, non-empty keywords
+   * Keywords are normalized and deduplicated as in `parseKeywordEntries`.
+   *
+   * @param csvText - CSV string containing keywords (comma-separated, one per line, or an export with a header)
+   * @returns Array of trimmed, non-empty, unique keywords
    *
    * @example
    * ```typescript
@@ -129,14 +682,34 @@ export class ParserService {
    * ```
    */
   parseCsvKeywords(csvText: string): string[] {
-    if (!csvText || csvText.trim() === '') {
+    return this.parseKeywordEntries(csvText).map((entry) => entry.keyword);
+  }
+
+  /**
+   * Imports keywords with their metrics from a keyword list or an SEO tool export
+   *
+   * Handles quoted fields, newlines, BOMs, Shift_JIS and UTF-16 files, and
+   * finds the keyword, search volume, difficulty and intent columns of
+   * Keyword Planner, Ahrefs, Semrush and similar exports by their headers
+   * (see `parseKeywordCsv`). Keywords are NFKC-normalized and duplicates are
+   * merged, ignoring case.
+   *
+   * @param csv - Uploaded CSV file contents, or CSV text
+   * @returns Keywords with the metrics found in the file
+   *
+   * @example
+   * ```typescript
+   * const entries = parserService.parseKeywordEntries(
+   *   'Keyword,Intent,Volume,Keyword Difficulty\nsfa 比較,Commercial,1900,42'
+   * );
+   * // [{ keyword: 'sfa 比較', searchVolume: 1900, difficulty: 42, intent: 'commercial' }]
+   * ```
+   */
+  parseKeywordEntries(csv: Buffer | string): KeywordEntry[] {
+    if (typeof csv === 'string' && csv.trim() === '') {
       return [];
     }
-
-    return csvText
-      .split(',')
-      .map((keyword) => keyword.trim())
-      .filter((keyword) => keyword.length > 0);
+    return parseKeywordCsv(csv);
   }
 
   /**
@@ -144,18 +717,21 @@ export class ParserService {
    *
    * Processes sales and target documents (PDF or text) and keywords (CSV or text array)
    * to create a unified context object. Prioritizes text input over PDF when both are provided.
+   * PDFs and CSVs may be given as in-memory buffers (e.g. multer uploads), so nothing
+   * has to be written to disk.
    *
    * @param input - Parse input containing sales/target documents and keywords
+   * @param onEvent - Optional listener for OCR and URL fetch progress events
    * @returns Promise resolving to ParsedContext with extracted text and keywords
    * @throws {Error} If no valid input is provided or processing fails
    *
    * @example
    * ```typescript
-   * // Using PDF files and CSV keywords
+   * // Using uploaded PDFs and CSV in memory
    * const context = await parserService.buildContext({
-   *   salesPdf: '/path/to/sales.pdf',
-   *   targetPdf: '/path/to/target.pdf',
-   *   keywordsCsv: 'AI,ML,automation'
+   *   salesPdf: files.salesPdf.buffer,
+   *   targetPdf: files.targetPdf.buffer,
+   *   keywordsCsv: files.keywordsCsv.buffer
    * });
    *
    * // Using pre-extracted text
@@ -165,6 +741,18 @@ export class ParserService {
    *   keywordsText: 'keyword1,keyword2'
    * });
    *
+   * // Word, PowerPoint, HTML or Markdown documents
+   * const context = await parserService.buildContext({
+   *   salesFile: { content: deck.buffer, mimeType: deck.mimetype, fileName: deck.originalname },
+   *   targetText: 'Target content here'
+   * });
+   *
+   * // Product landing pages and a target company's site
+   * const context = await parserService.buildContext({
+   *   salesUrl: ['https://example.com/product', 'https://example.com/pricing'],
+   *   targetUrl: ['https://customer.example.jp/about']
+   * });
+   *
    * // Mixed input (text takes priority over PDF)
    * const context = await parserService.buildContext({
    *   salesPdf: '/path/to/sales.pdf',
@@ -173,31 +761,68 @@ export class ParserService {
    * });
    * ```
    */
-  async buildContext(input: ParseInput): Promise<ParsedContext> {
+  async buildContext(
+    input: ParseInput,
+    onEvent?: (event: GenerationEvent) => void
+  ): Promise<ParsedContext> {
     try {
-      // Extract sales text (prioritize direct text over PDF)
+      const pdfResults: PdfExtractionResult[] = [];
+      const passages: Array<Omit<SourcePassage, 'id'>> = [];
+      const labels = SOURCE_LABELS[this.language];
+
+      // Extract sales text (prioritize direct text over PDF, then other files,
+      // then URLs)
       let salesText = '';
       if (input.salesText && input.salesText.trim() !== '') {
         salesText = input.salesText.trim();
-      } else if (input.salesPdf) {
-        salesText = await this.extractTextFromPdf(input.salesPdf);
+        passages.push(...splitPassages(salesText, { source: 'sales', label: labels.textInput }));
+      } else if (input.salesPdf || input.salesFile) {
+        const sales = await this.readDocumentSource('sales', input.salesPdf, input.salesFile, onEvent);
+        salesText = sales.text;
+        passages.push(...sales.passages);
+        if (sales.pdfResult) {
+          pdfResults.push(sales.pdfResult);
+        }
+      } else if (input.salesUrl && input.salesUrl.length > 0) {
+        salesText = await this.extractTextFromUrls(input.salesUrl, (page) => {
+          passages.push(...splitPassages(page.text, { source: 'sales', label: page.url }));
+          onEvent?.({ type: 'url_fetched', source: 'sales', url: page.url, title: page.title });
+        });
       }
 
-      // Extract target text (prioritize direct text over PDF)
+      // Extract target text (prioritize direct text over PDF, then other files,
+      // then URLs)
       let targetText = '';
       if (input.targetText && input.targetText.trim() !== '') {
         targetText = input.targetText.trim();
-      } else if (input.targetPdf) {
-        targetText = await this.extractTextFromPdf(input.targetPdf);
+        passages.push(...splitPassages(targetText, { source: 'target', label: labels.textInput }));
+      } else if (input.targetPdf || input.targetFile) {
+        const target = await this.readDocumentSource(
+          'target',
+          input.targetPdf,
+          input.targetFile,
+          onEvent
+        );
+        targetText = target.text;
+        passages.push(...target.passages);
+        if (target.pdfResult) {
+          pdfResults.push(target.pdfResult);
+        }
+      } else if (input.targetUrl && input.targetUrl.length > 0) {
+        targetText = await this.extractTextFromUrls(input.targetUrl, (page) => {
+          passages.push(...splitPassages(page.text, { source: 'target', label: page.url }));
+          onEvent?.({ type: 'url_fetched', source: 'target', url: page.url, title: page.title });
+        });
       }
 
       // Parse keywords (prioritize direct text over CSV)
-      let keywords: string[] = [];
+      let keywordEntries: KeywordEntry[] = [];
       if (input.keywordsText && input.keywordsText.trim() !== '') {
-        keywords = this.parseCsvKeywords(input.keywordsText);
+        keywordEntries = this.parseKeywordEntries(input.keywordsText);
       } else if (input.keywordsCsv) {
-        keywords = this.parseCsvKeywords(input.keywordsCsv);
+        keywordEntries = this.parseKeywordEntries(input.keywordsCsv);
       }
+      const keywords = keywordEntries.map((entry) => entry.keyword);
 
       // Validate that we have at least some content
       if (salesText === '' && targetText === '' && keywords.length === 0) {
@@ -208,6 +833,9 @@ export class ParserService {
         salesText,
         targetText,
         keywords,
+        keywordEntries,
+        ...(pdfResults.length > 0 && { pdfPages: summarizePdfPages(pdfResults) }),
+        ...(passages.length > 0 && { passages: numberPassages(passages) }),
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -215,3 +843,47 @@ export class ParserService {
     }
   }
 }
+
+/**
+ * Sums the pages taken from each extraction path over several PDFs
+ */
+function summarizePdfPages(results: PdfExtractionResult[]): PdfPageStats {
+  return results.reduce<PdfPageStats>(
+    (stats, result) => ({
+      totalPages: stats.totalPages + result.pages.length,
+      textLayerPages: stats.textLayerPages + result.textLayerPages,
+      ocrPages: stats.ocrPages + result.ocrPages,
+      lowConfidenceWords:
+        stats.lowConfidenceWords +
+        result.pages.reduce((sum, page) => sum + (page.lowConfidenceWords ?? 0), 0),
+      cleanedPages: stats.cleanedPages + result.pages.filter((page) => page.cleaned).length,
+      diagramPages:
+        stats.diagramPages + result.pages.filter((page) => page.diagramSummary).length,
+    }),
+    {
+      totalPages: 0,
+      textLayerPages: 0,
+      ocrPages: 0,
+      lowConfidenceWords: 0,
+      cleanedPages: 0,
+      diagramPages: 0,
+    }
+  );
+}
+
+/**
+ * Joins page texts with blank lines, adding each figure summary after its
+ * page under a page marker
+ */
+function joinPageTexts(pages: PdfPageText[], language: OutputLanguage): string {
+  const { diagramSummary } = SOURCE_LABELS[language];
+  return pages
+    .flatMap((page) => [
+      page.text,
+      page.diagramSummary
+        ? `${renderTemplate(diagramSummary, { page: String(page.page) })}\n${page.diagramSummary}`
+        : '',
+    ])
+    .filter((text) => text !== '')
+    .join('\n\n');
+}
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { isDiagramPage, renderPdfPages, scorePdfPages, summarizePageImage } from './pdf-diagram';
+import { FakeLLMProvider } from './llm-provider';
+
+const TEXT_LINE = 'Whitepaper planning starts from the value proposition of the sales deck';
+
+/**
+ * Builds a minimal Letter-size PDF from one content stream per page
+ */
+function buildPdf(contents: string[]): Buffer {
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${contents.map((_, i) => `${4 + i * 2} 0 R`).join(' ')}] /Count ${contents.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+  ];
+  contents.forEach((stream, i) => {
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 3 0 R >> >> /Contents ${5 + i * 2} 0 R >>`,
+      `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`
+    );
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(pdf, 'latin1');
+}
+
+/** A flow chart: six filled boxes joined by lines, with a short label */
+const DIAGRAM_PAGE = [
+  ...[0, 1, 2, 3, 4, 5].map((i) => `0 0 1 rg ${72 + i * 80} 400 60 40 re f`),
+  '0 G 2 w 132 420 m 152 420 l S',
+  'BT /F1 12 Tf 72 600 Td (Flow) Tj ET',
+].join('\n');
+
+/** Forty lines of running text */
+const TEXT_PAGE = Array.from(
+  { length: 40 },
+  (_, i) => `BT /F1 10 Tf 72 ${740 - i * 16} Td (${TEXT_LINE}) Tj ET`
+).join('\n');
+
+describe('scorePdfPages / isDiagramPage', () => {
+  it('should flag pages with little text and drawings', async () => {
+    const pdf = buildPdf([TEXT_PAGE, DIAGRAM_PAGE, '']);
+
+    const scores = await scorePdfPages(pdf, [
+      { page: 1, text: Array(40).fill(TEXT_LINE).join('\n') },
+      { page: 2, text: 'Flow' },
+      { page: 3, text: '' },
+    ]);
+
+    expect(scores.map((score) => score.page)).toEqual([1, 2, 3]);
+    expect(scores[0]!.textDensity).toBeGreaterThan(20);
+    expect(scores[1]!.paths).toBeGreaterThanOrEqual(5);
+    expect(scores.map((score) => isDiagramPage(score))).toEqual([false, true, false]);
+  });
+
+  it('should honor the density threshold', () => {
+    const score = { page: 1, textDensity: 8, images: 1, paths: 0 };
+
+    expect(isDiagramPage(score)).toBe(false);
+    expect(isDiagramPage(score, 10)).toBe(true);
+  });
+});
+
+describe('renderPdfPages', () => {
+  it('should render the requested pages to 1280 pixel wide PNG images', async () => {
+    const pdf = buildPdf([TEXT_PAGE, DIAGRAM_PAGE]);
+
+    const rendered = await renderPdfPages(pdf, [2]);
+
+    expect(rendered).toHaveLength(1);
+    expect(rendered[0]!.page).toBe(2);
+    const image = rendered[0]!.image;
+    expect(image.subarray(1, 4).toString()).toBe('PNG');
+    // IHDR width and height
+    expect(image.readUInt32BE(16)).toBe(1280);
+    expect(image.readUInt32BE(20)).toBe(Math.ceil((792 * 1280) / 612));
+  });
+
+  it('should throw error for invalid PDFs', async () => {
+    await expect(renderPdfPages(Buffer.from('not a pdf'), [1])).rejects.toThrow();
+  });
+});
+
+describe('summarizePageImage', () => {
+  it('should send the image with the page text and return the summary', async () => {
+    const provider = new FakeLLMProvider([' 導入前後の業務フローを比較した図。 ']);
+    const image = Buffer.from('png');
+
+    const summary = await summarizePageImage(provider, image, 'Flow');
+
+    expect(summary).toBe('導入前後の業務フローを比較した図。');
+    const request = provider.requests[0] as any;
+    expect(Buffer.from(request.image.data)).toEqual(image);
+    expect(request.image.mediaType).toBe('image/png');
+    expect(request.messages[0].content).toContain('【ページ内のテキスト（抽出結果）】\nFlow');
+  });
+
+  it('should write the prompt in the output language', async () => {
+    const provider = new FakeLLMProvider(['A flow chart.', '流程图。']);
+
+    await summarizePageImage(provider, Buffer.from('png'), 'Flow', undefined, 'en');
+    await summarizePageImage(provider, Buffer.from('png'), '流程', undefined, 'zh');
+
+    expect(provider.requests[0]!.messages[0]!.content).toContain('[Text on the Page (Extracted)]\nFlow');
+    expect(provider.requests[1]!.system).toContain('中文文本');
+    // Kana only appears in Japanese text
+    const prompts = provider.requests.flatMap((request) => [request.system, request.messages[0]!.content]);
+    expect(prompts.join('\n')).not.toMatch(/[ぁ-ゖァ-ヺ]/);
+  });
+
+  it('should reject empty summaries', async () => {
+    const provider = new FakeLLMProvider(['']);
+
+    await expect(summarizePageImage(provider, Buffer.from('png'), '')).rejects.toThrow(
+      'Empty response from Fake API'
+    );
+  });
+});
@@ -0,0 +1,201 @@
+import { openPdfDocument } from './pdf-text.js';
+import type { LLMProvider } from './llm-provider.js';
+import { DEFAULT_OUTPUT_LANGUAGE } from './output-language.js';
+import { renderTemplate, SOURCE_PROMPTS } from './prompt-templates.js';
+import type { OutputLanguage } from '../types/index.js';
+
+/**
+ * Text density and drawing content of a PDF page
+ */
+export interface PdfPageScore {
+  /** 1-based page number */
+  page: number;
+  /** Non-whitespace characters per square inch of the page */
+  textDensity: number;
+  /** Number of images drawn on the page */
+  images: number;
+  /** Number of vector path operations on the page */
+  paths: number;
+}
+
+/**
+ * A PDF page rendered to PNG
+ */
+export interface RenderedPdfPage {
+  page: number;
+  image: Buffer;
+}
+
+/**
+ * Pages with fewer characters per square inch than this are candidates for
+ * diagram summarization (a text-heavy A4 page has about 15)
+ */
+export const DEFAULT_MAX_DIAGRAM_TEXT_DENSITY = 5;
+
+/**
+ * Default maximum number of pages summarized per PDF
+ */
+export const DEFAULT_MAX_DIAGRAM_PAGES = 10;
+
+/**
+ * Minimum number of path operations for a page without images to count as
+ * a diagram (fewer are usually rules and boxes around text)
+ */
+const MIN_DIAGRAM_PATHS = 5;
+
+/**
+ * Width of rendered page images in pixels
+ */
+const RENDER_WIDTH = 1280;
+
+/**
+ * Maximum characters of page text sent with the image as a hint
+ */
+const MAX_CAPTION_HINT_CHARS = 1000;
+
+/**
+ * Scores PDF pages by text density and drawing content
+ *
+ * @param content - PDF contents
+ * @param pages - Text of each page to score (e.g. text layer or OCR output)
+ * @returns One score per given page, in the same order
+ * @throws {Error} If the PDF cannot be opened
+ *
+ * @example
+ * ```typescript
+ * const scores = await scorePdfPages(buffer, result.pages);
+ * const diagrams = scores.filter((score) => isDiagramPage(score));
+ * ```
+ */
+export async function scorePdfPages(
+  content: Buffer,
+  pages: Array<{ page: number; text: string }>
+): Promise<PdfPageScore[]> {
+  const { OPS } = await import('pdfjs-dist/legacy/build/pdf.mjs');
+  const imageOps = new Set<number>([
+    OPS.paintImageXObject,
+    OPS.paintImageXObjectRepeat,
+    OPS.paintInlineImageXObject,
+    OPS.paintInlineImageXObjectGroup,
+    OPS.paintImageMaskXObject,
+    OPS.paintImageMaskXObjectGroup,
+  ]);
+  const document = await openPdfDocument(content);
+
+  try {
+    const scores: PdfPageScore[] = [];
+    for (const { page, text } of pages) {
+      const pdfPage = await document.getPage(page);
+      const { width, height } = pdfPage.getViewport({ scale: 1 });
+      const { fnArray } = await pdfPage.getOperatorList();
+      const squareInches = (width / 72) * (height / 72);
+
+      scores.push({
+        page,
+        textDensity: text.replace(/\s+/g, '').length / squareInches,
+        images: fnArray.filter((op) => imageOps.has(op)).length,
+        paths: fnArray.filter((op) => op === OPS.constructPath).length,
+      });
+      pdfPage.cleanup();
+    }
+    return scores;
+  } finally {
+    await document.destroy();
+  }
+}
+
+/**
+ * Checks whether a page is mostly figures or slides rather than running text
+ *
+ * @param score - Page score from `scorePdfPages`
+ * @param maxTextDensity - Maximum characters per square inch (default: 5)
+ * @returns True if the page has little text and contains images or drawings
+ */
+export function isDiagramPage(
+  score: PdfPageScore,
+  maxTextDensity = DEFAULT_MAX_DIAGRAM_TEXT_DENSITY
+): boolean {
+  return (
+    score.textDensity < maxTextDensity && (score.images > 0 || score.paths >= MIN_DIAGRAM_PATHS)
+  );
+}
+
+/**
+ * Renders PDF pages to PNG images 1280 pixels wide
+ *
+ * @param content - PDF contents
+ * @param pages - 1-based page numbers to render
+ * @returns Rendered pages in the given order
+ * @throws {Error} If the PDF cannot be opened or a page fails to render
+ */
+export async function renderPdfPages(content: Buffer, pages: number[]): Promise<RenderedPdfPage[]> {
+  // Native canvas bindings are only loaded when a page is rendered
+  const { createCanvas } = await import('@napi-rs/canvas');
+  const document = await openPdfDocument(content);
+
+  try {
+    const rendered: RenderedPdfPage[] = [];
+    for (const page of pages) {
+      const pdfPage = await document.getPage(page);
+      const scale = RENDER_WIDTH / pdfPage.getViewport({ scale: 1 }).width;
+      const viewport = pdfPage.getViewport({ scale });
+      const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+
+      await pdfPage.render({ canvas, viewport }).promise;
+      rendered.push({ page, image: canvas.toBuffer('image/png') });
+      pdfPage.cleanup();
+    }
+    return rendered;
+  } finally {
+    await document.destroy();
+  }
+}
+
+/**
+ * Summarizes the figures or slide on a rendered page with a multimodal LLM
+ *
+ * @param provider - Vision-capable LLM provider
+ * @param image - PNG image of the page
+ * @param pageText - Text extracted from the page, sent as a reading aid
+ * @param maxTokens - Maximum tokens of the response (default: 1024)
+ * @param language - Language of the prompt and the summary (default: ja)
+ * @returns Summary of the page
+ * @throws {Error} If the provider fails or returns an empty response
+ *
+ * @example
+ * ```typescript
+ * const [{ image }] = await renderPdfPages(buffer, [3]);
+ * const summary = await summarizePageImage(provider, image, pages[2].text);
+ * ```
+ */
+export async function summarizePageImage(
+  provider: LLMProvider,
+  image: Buffer,
+  pageText: string,
+  maxTokens = 1024,
+  language: OutputLanguage = DEFAULT_OUTPUT_LANGUAGE
+): Promise<string> {
+  const prompts = SOURCE_PROMPTS[language];
+  const hint = pageText.trim().slice(0, MAX_CAPTION_HINT_CHARS);
+  const completion = await provider.describeImage({
+    system: prompts.diagramSystem,
+    messages: [
+      {
+        role: 'user',
+        content: renderTemplate(prompts.diagramRequest, {
+          hint: hint ? renderTemplate(prompts.diagramHint, { text: hint }) : '',
+        }),
+      },
+    ],
+    image: { data: image, mediaType: 'image/png' },
+    maxTokens,
+  });
+
+  const summary = completion.content.trim();
+  if (!summary) {
+    throw new Error(
+      `Empty response from ${provider.label} API. Finish reason: ${completion.finishReason || 'unknown'}`
+    );
+  }
+  return summary;
+}
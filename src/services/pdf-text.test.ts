@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { extractPdfTextLayer, isUsableTextLayer } from './pdf-text';
+
+/**
+ * Builds a minimal PDF with one Helvetica text line per page
+ * (an empty string produces a page without a text layer)
+ */
+function buildPdf(pageTexts: string[]): Buffer {
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageTexts.map((_, i) => `${4 + i * 2} 0 R`).join(' ')}] /Count ${pageTexts.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+  ];
+  pageTexts.forEach((text, i) => {
+    const stream = text ? `BT /F1 12 Tf 72 720 Td (${text}) Tj ET` : '';
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 3 0 R >> >> /Contents ${5 + i * 2} 0 R >>`,
+      `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`
+    );
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(pdf, 'latin1');
+}
+
+describe('extractPdfTextLayer', () => {
+  it('should read the embedded text of each page', async () => {
+    const pdf = buildPdf(['Born-digital sales deck', '', 'Pricing and case studies']);
+
+    const result = await extractPdfTextLayer(pdf);
+
+    expect(result).toEqual({
+      totalPages: 3,
+      pages: [
+        { page: 1, text: 'Born-digital sales deck' },
+        { page: 2, text: '' },
+        { page: 3, text: 'Pricing and case studies' },
+      ],
+    });
+  });
+
+  it('should read only the first maxPages pages', async () => {
+    const pdf = buildPdf(['One', 'Two', 'Three']);
+
+    const result = await extractPdfTextLayer(pdf, 2);
+
+    expect(result.totalPages).toBe(3);
+    expect(result.pages.map((page) => page.text)).toEqual(['One', 'Two']);
+  });
+
+  it('should leave the caller buffer intact', async () => {
+    const pdf = buildPdf(['Reusable buffer']);
+    const copy = Buffer.from(pdf);
+
+    await extractPdfTextLayer(pdf);
+
+    expect(pdf.equals(copy)).toBe(true);
+  });
+
+  it('should reject data that is not a PDF', async () => {
+    await expect(extractPdfTextLayer(Buffer.from('not a pdf'))).rejects.toThrow();
+  });
+});
+
+describe('isUsableTextLayer', () => {
+  it('should reject empty and short texts', () => {
+    expect(isUsableTextLayer('')).toBe(false);
+    expect(isUsableTextLayer('   \n ')).toBe(false);
+    expect(isUsableTextLayer('Page 3')).toBe(false);
+  });
+
+  it('should accept readable text at the threshold', () => {
+    expect(isUsableTextLayer('営業資料：製造業向けDX推進のご提案書です')).toBe(true);
+    expect(isUsableTextLayer('Short', 5)).toBe(true);
+  });
+
+  it('should reject text made of unmapped glyphs', () => {
+    expect(isUsableTextLayer('\uFFFD'.repeat(30))).toBe(false);
+    expect(isUsableTextLayer('Sales deck overview' + '\uE000'.repeat(10))).toBe(false);
+  });
+});
@@ -0,0 +1,116 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist/legacy/build/pdf.mjs';
+
+/**
+ * Embedded text of a single PDF page
+ */
+export interface PdfTextLayerPage {
+  /** 1-based page number */
+  page: number;
+  text: string;
+}
+
+/**
+ * Embedded text layer of a PDF
+ */
+export interface PdfTextLayer {
+  totalPages: number;
+  pages: PdfTextLayerPage[];
+}
+
+/**
+ * Minimum trimmed length for a page's text layer to be used instead of OCR
+ */
+export const DEFAULT_MIN_TEXT_LAYER_CHARS = 20;
+
+/**
+ * Largest share of unreadable characters (replacement, private-use and
+ * control characters) a usable text layer may contain. Fonts without a
+ * Unicode mapping extract as such characters.
+ */
+const MAX_UNREADABLE_RATIO = 0.1;
+
+/**
+ * Opens a PDF with pdf.js
+ *
+ * The caller must `destroy()` the document when done.
+ *
+ * @param content - PDF contents
+ * @returns Loaded pdf.js document
+ * @throws {Error} If the PDF cannot be opened (e.g. corrupt or encrypted)
+ */
+export async function openPdfDocument(content: Buffer): Promise<PDFDocumentProxy> {
+  // Loaded on first use: pdf.js is large and only needed when PDFs are uploaded
+  const { getDocument, VerbosityLevel } = await import('pdfjs-dist/legacy/build/pdf.mjs');
+  return getDocument({
+    // pdf.js takes ownership of the array, so pass a copy
+    data: new Uint8Array(content),
+    isEvalSupported: false,
+    useSystemFonts: false,
+    verbosity: VerbosityLevel.ERRORS,
+  }).promise;
+}
+
+/**
+ * Reads the embedded text of the first `maxPages` pages of a PDF
+ *
+ * Runs locally with pdf.js; no network access.
+ *
+ * @param content - PDF contents
+ * @param maxPages - Number of pages to read (default: all)
+ * @returns Page count of the document and the text of each page read
+ * @throws {Error} If the PDF cannot be opened (e.g. corrupt or encrypted)
+ *
+ * @example
+ * ```typescript
+ * const { totalPages, pages } = await extractPdfTextLayer(buffer, 300);
+ * ```
+ */
+export async function extractPdfTextLayer(
+  content: Buffer,
+  maxPages = Number.POSITIVE_INFINITY
+): Promise<PdfTextLayer> {
+  const document = await openPdfDocument(content);
+
+  try {
+    const pageLimit = Math.min(document.numPages, maxPages);
+    const pages: PdfTextLayerPage[] = [];
+
+    for (let page = 1; page <= pageLimit; page++) {
+      const pdfPage = await document.getPage(page);
+      const textContent = await pdfPage.getTextContent();
+      const text = textContent.items
+        .map((item) => ('str' in item ? item.str + (item.hasEOL ? '\n' : '') : ''))
+        .join('')
+        .trim();
+      pages.push({ page, text });
+      pdfPage.cleanup();
+    }
+
+    return { totalPages: document.numPages, pages };
+  } finally {
+    await document.destroy();
+  }
+}
+
+/**
+ * Checks whether an embedded page text is good enough to skip OCR
+ *
+ * @param text - Text layer of a page
+ * @param minChars - Minimum number of characters (default: 20)
+ * @returns True if the text is long enough and mostly readable
+ *
+ * @example
+ * ```typescript
+ * isUsableTextLayer('');                   // false (scanned page)
+ * isUsableTextLayer('\uFFFD\uFFFD\uFFFD...'); // false (unmapped font)
+ * ```
+ */
+export function isUsableTextLayer(text: string, minChars = DEFAULT_MIN_TEXT_LAYER_CHARS): boolean {
+  const characters = Array.from(text.replace(/\s+/g, ''));
+  if (characters.length === 0 || characters.length < minChars) {
+    return false;
+  }
+
+  const unreadable = characters.filter((char) => /[\uFFFD\uE000-\uF8FF\p{Cc}]/u.test(char)).length;
+  return unreadable / characters.length <= MAX_UNREADABLE_RATIO;
+}
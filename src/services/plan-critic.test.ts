@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { scorePlan } from './plan-critic';
+import type { WhitepaperPlan } from '../types/index';
+
+const plan: WhitepaperPlan = {
+  no: 1,
+  タイトル: 'SFA比較で失敗しない営業DXの進め方',
+  目的: '営業DXの進め方を理解してもらう',
+  内容概要: 'SFA導入が定着しない原因を整理します。比較時に見るべき項目を解説します。導入後に成果を出した事例を紹介します。',
+  感情的ニーズ: '導入に失敗したくない',
+  機能的ニーズ: '案件の可視化',
+  成果的ニーズ: '営業工数30%削減',
+  ニーズ複数: '失敗回避、可視化、工数削減',
+  ターゲット: '従業員300名規模の製造業の営業部長',
+  職種部署: '営業部',
+  レベル: '部長',
+  構成: '## 第1章 背景\n### 1-1 定着しない理由\n## 第2章 比較の観点\n### 2-1 機能\n### 2-2 費用',
+  コメント: '',
+};
+
+describe('scorePlan', () => {
+  it('should give a plan that passes every check 100', () => {
+    expect(scorePlan(plan, ['SFA 比較'])).toEqual({ score: 100, issues: [] });
+    expect(scorePlan(plan)).toEqual({ score: 100, issues: [] });
+  });
+
+  it('should report each failed check', () => {
+    const score = scorePlan(
+      {
+        ...plan,
+        タイトル: '営業の進め方',
+        内容概要: '営業を効率化します。',
+        成果的ニーズ: '売上を伸ばしたい',
+        ターゲット: '企業の意思決定者',
+        構成: '# 背景\n## 課題',
+      },
+      ['SFA 比較']
+    );
+
+    expect(score.score).toBe(0);
+    expect(score.issues.map((issue) => issue.check)).toEqual([
+      'target',
+      'summary',
+      'outcome',
+      'structure',
+      'keyword',
+    ]);
+    expect(score.issues[1]?.message).toBe('内容概要は3〜5文にしてください（現在1文）');
+  });
+
+  it('should check the primary keyword of an assigned cluster in the title', () => {
+    const assigned = { ...plan, 対象キーワード: { primary: '営業 DX 事例', secondary: [] } };
+
+    expect(scorePlan(assigned).issues).toEqual([
+      { check: 'keyword', message: 'タイトルに主キーワード「営業 DX 事例」を含めてください' },
+    ]);
+    expect(scorePlan(assigned).score).toBe(80);
+    expect(scorePlan({ ...assigned, タイトル: '営業ＤＸの事例で学ぶSFA比較' }).score).toBe(100);
+  });
+
+  it('should write the issues in the output language', () => {
+    expect(scorePlan({ ...plan, 成果的ニーズ: 'Less stress' }, [], undefined, 'en').issues).toEqual([
+      { check: 'outcome', message: 'Add a numeric goal to the outcome needs (e.g. 30% fewer hours)' },
+    ]);
+  });
+
+  it('should apply the target and outcome rules of the output language', () => {
+    const english = {
+      ...plan,
+      ターゲット: 'IT managers at mid-size SaaS companies',
+      成果的ニーズ: 'Halve onboarding time',
+    };
+    const chinese = { ...plan, ターゲット: '中型SaaS企业的IT部门负责人', 成果的ニーズ: '让新员工培训时间减半' };
+    const failedChecks = (scored: WhitepaperPlan, language: 'en' | 'zh') =>
+      scorePlan(scored, [], undefined, language).issues.map((issue) => issue.check);
+
+    expect(failedChecks(english, 'en')).toEqual([]);
+    expect(scorePlan({ ...english, ターゲット: 'Business leaders' }, [], undefined, 'en').issues).toEqual([
+      { check: 'target', message: 'The target is too generic. Name the industry, company size and role' },
+    ]);
+    expect(failedChecks({ ...english, ターゲット: 'Decision makers at companies' }, 'en')).toEqual(['target']);
+    expect(failedChecks({ ...english, 成果的ニーズ: 'Less stress' }, 'en')).toEqual(['outcome']);
+
+    expect(failedChecks(chinese, 'zh')).toEqual([]);
+    expect(failedChecks({ ...chinese, ターゲット: '企业的决策者' }, 'zh')).toEqual(['target']);
+    expect(failedChecks({ ...chinese, 成果的ニーズ: '销售额翻倍' }, 'zh')).toEqual([]);
+  });
+
+  it('should skip checks of fields without a column', () => {
+    const columns = [
+      { name: '企画名', description: '', required: true, type: 'text' as const, field: 'タイトル' as const },
+      { name: '読者', description: '', required: true, type: 'text' as const, field: 'ターゲット' as const },
+    ];
+
+    expect(scorePlan({ ...plan, ターゲット: '企業', 構成: '' }, [], columns)).toEqual({
+      score: 0,
+      issues: [
+        { check: 'target', message: 'ターゲットが抽象的です。業種・企業規模・役職まで具体的にしてください' },
+      ],
+    });
+    expect(scorePlan({ ...plan, 構成: '' }, [], [])).toEqual({ score: 100, issues: [] });
+  });
+
+  it('should accept numeric goals in kanji and require a section in every chapter', () => {
+    expect(scorePlan({ ...plan, 成果的ニーズ: '離職率を半減' }).score).toBe(100);
+    expect(scorePlan({ ...plan, 成果的ニーズ: '商談数を二割増やす' }).score).toBe(100);
+    expect(
+      scorePlan({ ...plan, 構成: '## 第1章 背景\n### 1-1 理由\n## 第2章 比較の観点' }).issues
+    ).toEqual([
+      {
+        check: 'structure',
+        message: '構成は ## の章を2つ以上とし、各章に ### の節を1つ以上置いてください',
+      },
+    ]);
+  });
+});
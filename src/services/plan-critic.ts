@@ -0,0 +1,309 @@
+import { normalizeKeyword } from './keyword-csv.js';
+import { DEFAULT_OUTPUT_LANGUAGE } from './output-language.js';
+import type {
+  ColumnDefinition,
+  OutputLanguage,
+  PlanCheckId,
+  PlanField,
+  PlanScore,
+  WhitepaperPlan,
+} from '../types/index.js';
+
+/**
+ * Default score below which a plan is sent for revision
+ */
+export const DEFAULT_QUALITY_THRESHOLD = 80;
+
+/**
+ * Allowed number of sentences in 内容概要
+ */
+const SUMMARY_SENTENCES = { min: 3, max: 5 } as const;
+
+/**
+ * Issue messages by output language, so that revisions are requested in the
+ * language of the plans
+ */
+const ISSUE_MESSAGES: Readonly<
+  Record<
+    OutputLanguage,
+    {
+      target: string;
+      summary: (min: number, max: number, sentences: number) => string;
+      outcome: string;
+      structure: string;
+      primaryKeyword: (keyword: string) => string;
+      keywords: string;
+    }
+  >
+> = {
+  ja: {
+    target: 'ターゲットが抽象的です。業種・企業規模・役職まで具体的にしてください',
+    summary: (min, max, sentences) => `内容概要は${min}〜${max}文にしてください（現在${sentences}文）`,
+    outcome: '成果的ニーズに数値目標（例: 工数30%削減）を入れてください',
+    structure: '構成は ## の章を2つ以上とし、各章に ### の節を1つ以上置いてください',
+    primaryKeyword: (keyword) => `タイトルに主キーワード「${keyword}」を含めてください`,
+    keywords: 'タイトルか内容概要にSEOキーワードを含めてください',
+  },
+  en: {
+    target: 'The target is too generic. Name the industry, company size and role',
+    summary: (min, max, sentences) =>
+      `Write the summary in ${min}-${max} sentences (currently ${sentences})`,
+    outcome: 'Add a numeric goal to the outcome needs (e.g. 30% fewer hours)',
+    structure:
+      'Give the structure at least two ## chapters, each with at least one ### section',
+    primaryKeyword: (keyword) => `Include the main keyword "${keyword}" in the title`,
+    keywords: 'Include an SEO keyword in the title or the summary',
+  },
+  zh: {
+    target: '目标读者过于笼统。请具体写明行业、企业规模和职位',
+    summary: (min, max, sentences) => `内容概要请写${min}〜${max}句（当前${sentences}句）`,
+    outcome: '请在成果需求中加入数值目标（例：工时减少30%）',
+    structure: '结构请至少包含2个 ## 章节，且每章至少有1个 ### 小节',
+    primaryKeyword: (keyword) => `请在标题中包含主关键词「${keyword}」`,
+    keywords: '请在标题或内容概要中包含SEO关键词',
+  },
+};
+
+type IssueMessages = (typeof ISSUE_MESSAGES)[OutputLanguage];
+
+/**
+ * Target and outcome rules by output language, so that plans in every
+ * language are scored alike
+ *
+ * - minTargetLength: minimum length of a specific target without spaces
+ *   (e.g. 中堅SaaS企業のIT部門責任者, CFOs at SaaS startups)
+ * - vagueTargets: targets too generic to write for, compared after
+ *   normalization, ignoring case and spaces
+ * - numericOutcome: numeric goals such as 30%削減, 二割, 半減, double or 减半
+ */
+const TARGET_RULES: Readonly<
+  Record<
+    OutputLanguage,
+    { minTargetLength: number; vagueTargets: readonly string[]; numericOutcome: RegExp }
+  >
+> = {
+  ja: {
+    minTargetLength: 12,
+    vagueTargets: [
+      '企業',
+      '会社',
+      '経営者',
+      '経営層',
+      '担当者',
+      '管理職',
+      '意思決定者',
+      '企業の意思決定者',
+      '企業の担当者',
+      'ビジネスパーソン',
+      '中小企業',
+      '大企業',
+      '全業種',
+    ],
+    numericOutcome: /[0-9０-９]|[一二三四五六七八九十百千万]+\s*[割倍%％]|半減|倍増/,
+  },
+  en: {
+    minTargetLength: 18,
+    vagueTargets: [
+      'Companies',
+      'Businesses',
+      'Enterprises',
+      'Business owners',
+      'Business leaders',
+      'Business people',
+      'Business professionals',
+      'Executives',
+      'Managers',
+      'Employees',
+      'Decision makers',
+      'Decision makers at companies',
+      'Employees at companies',
+      'Small businesses',
+      'SMBs',
+      'Large enterprises',
+      'All industries',
+    ],
+    numericOutcome: /[0-9]|\b(?:double[sd]?|doubling|triple[sd]?|tripling|halve[sd]?|halving|half|twice)\b/i,
+  },
+  zh: {
+    minTargetLength: 10,
+    vagueTargets: [
+      '企业',
+      '公司',
+      '经营者',
+      '管理层',
+      '负责人',
+      '管理人员',
+      '决策者',
+      '企业决策者',
+      '企业的决策者',
+      '企业负责人',
+      '企业的负责人',
+      '商务人士',
+      '中小企业',
+      '大企业',
+      '所有行业',
+    ],
+    numericOutcome: /[0-9０-９]|[一二两三四五六七八九十百千万]+\s*[成倍%％]|减半|翻倍|翻番|倍增/,
+  },
+};
+
+/**
+ * Scores a plan against the review rubric
+ *
+ * Each applicable check is worth the same share of 100 points:
+ * - target: ターゲット names an industry, size or role rather than a generic
+ *   group (long enough and not e.g. 企業の意思決定者; see TARGET_RULES)
+ * - summary: 内容概要 has 3-5 sentences
+ * - outcome: 成果的ニーズ contains a numeric goal
+ * - structure: 構成 has at least two `##` chapters, each with a `###`
+ *   section, and no other heading levels
+ * - keyword: the title contains the plan's primary keyword, or (without an
+ *   assigned cluster) the title or summary contains one of the keywords;
+ *   skipped when no keywords were given
+ *
+ * With a column schema, checks whose field has no column are skipped; a
+ * plan without any applicable check scores 100.
+ *
+ * @param plan - Plan to score
+ * @param keywords - Input keywords of the generation
+ * @param columns - Columns of the schema the plan was generated with
+ *   (default: every field is checked)
+ * @param language - Language of the issue messages (default: ja)
+ * @returns Score from 0 to 100 and a message for each failed check
+ *
+ * @example
+ * ```typescript
+ * scorePlan(plan, ['SFA 比較']);
+ * // { score: 80, issues: [{ check: 'outcome', message: '成果的ニーズに数値目標...' }] }
+ * ```
+ */
+export function scorePlan(
+  plan: WhitepaperPlan,
+  keywords: string[] = [],
+  columns?: ColumnDefinition[],
+  language: OutputLanguage = DEFAULT_OUTPUT_LANGUAGE
+): PlanScore {
+  const messages = ISSUE_MESSAGES[language];
+  const rules = TARGET_RULES[language];
+  const mapped = (field: PlanField): boolean =>
+    !columns || columns.some((column) => column.field === field);
+
+  const checks: Array<{ check: PlanCheckId; message: string | undefined }> = [];
+  if (mapped('ターゲット')) {
+    checks.push({ check: 'target', message: checkTarget(plan.ターゲット, rules, messages) });
+  }
+  if (mapped('内容概要')) {
+    checks.push({ check: 'summary', message: checkSummary(plan.内容概要, messages) });
+  }
+  if (mapped('成果的ニーズ')) {
+    checks.push({
+      check: 'outcome',
+      message: rules.numericOutcome.test(plan.成果的ニーズ) ? undefined : messages.outcome,
+    });
+  }
+  if (mapped('構成')) {
+    checks.push({ check: 'structure', message: checkStructure(plan.構成, messages) });
+  }
+  if (mapped('タイトル') && (plan.対象キーワード || keywords.length > 0)) {
+    checks.push({ check: 'keyword', message: checkKeywords(plan, keywords, messages) });
+  }
+
+  const issues = checks.flatMap(({ check, message }) =>
+    message === undefined ? [] : [{ check, message }]
+  );
+  return {
+    score:
+      checks.length === 0
+        ? 100
+        : Math.round((100 * (checks.length - issues.length)) / checks.length),
+    issues,
+  };
+}
+
+/**
+ * Returns an issue message if the target is vague
+ */
+function checkTarget(
+  target: string,
+  rules: (typeof TARGET_RULES)[OutputLanguage],
+  messages: IssueMessages
+): string | undefined {
+  const normalize = (text: string): string => normalizeKeyword(text).replace(/\s/g, '').toLowerCase();
+  const normalized = normalize(target);
+  return normalized.length < rules.minTargetLength ||
+    rules.vagueTargets.some((vague) => normalize(vague) === normalized)
+    ? messages.target
+    : undefined;
+}
+
+/**
+ * Returns an issue message if the summary is not 3-5 sentences
+ */
+function checkSummary(summary: string, messages: IssueMessages): string | undefined {
+  const sentences = summary
+    .split(/[。！？!?]+|\.(?:\s|$)/)
+    .filter((sentence) => sentence.trim() !== '').length;
+  return sentences < SUMMARY_SENTENCES.min || sentences > SUMMARY_SENTENCES.max
+    ? messages.summary(SUMMARY_SENTENCES.min, SUMMARY_SENTENCES.max, sentences)
+    : undefined;
+}
+
+/**
+ * Returns an issue message unless the structure is two or more `##`
+ * chapters that each have a `###` section
+ */
+function checkStructure(structure: string, messages: IssueMessages): string | undefined {
+  const headings = structure
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.startsWith('#'))
+    .map((line) => (/^##\s/.test(line) ? 2 : /^###\s/.test(line) ? 3 : 0));
+
+  const chapters = headings.reduce<number[]>((sections, level) => {
+    if (level === 2) {
+      sections.push(0);
+    } else if (level === 3 && sections.length > 0) {
+      sections[sections.length - 1]!++;
+    }
+    return sections;
+  }, []);
+
+  const valid =
+    headings[0] === 2 &&
+    !headings.includes(0) &&
+    chapters.length >= 2 &&
+    chapters.every((sections) => sections > 0);
+  return valid ? undefined : messages.structure;
+}
+
+/**
+ * Returns an issue message if the plan does not use its keywords
+ */
+function checkKeywords(
+  plan: WhitepaperPlan,
+  keywords: string[],
+  messages: IssueMessages
+): string | undefined {
+  if (plan.対象キーワード) {
+    return containsKeyword(plan.タイトル, plan.対象キーワード.primary)
+      ? undefined
+      : messages.primaryKeyword(plan.対象キーワード.primary);
+  }
+  return keywords.some(
+    (keyword) => containsKeyword(plan.タイトル, keyword) || containsKeyword(plan.内容概要, keyword)
+  )
+    ? undefined
+    : messages.keywords;
+}
+
+/**
+ * Returns true if every word of the keyword appears in the text, ignoring
+ * width and case
+ */
+function containsKeyword(text: string, keyword: string): boolean {
+  const normalizedText = normalizeKeyword(text).toLowerCase();
+  return normalizeKeyword(keyword)
+    .toLowerCase()
+    .split(' ')
+    .every((word) => normalizedText.includes(word));
+}
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { validatePlansResponse } from './plan-schema';
+
+const validItem = {
+  No: 1,
+  タイトル: 'タイトル',
+  目的: '目的',
+  '内容（概要）': '概要',
+  感情的ニーズ: '感情',
+  機能的ニーズ: '機能',
+  成果的ニーズ: '成果',
+  'ニーズ（複数）': 'ニーズ',
+  ターゲット: 'ターゲット',
+  '職種／部署': '情報システム部',
+  レベル: '課長',
+  構成: '## 第1章 背景',
+};
+
+describe('validatePlansResponse', () => {
+  it('should accept valid items and default コメント to an empty string', () => {
+    const result = validatePlansResponse(JSON.stringify({ items: [validItem] }), 1);
+
+    expect(result.success).toBe(true);
+    expect(result.success && result.items[0]?.コメント).toBe('');
+  });
+
+  it('should coerce numeric strings in No', () => {
+    const result = validatePlansResponse(JSON.stringify({ items: [{ ...validItem, No: '3' }] }), 1);
+
+    expect(result.success && result.items[0]?.No).toBe(3);
+  });
+
+  it('should report missing and empty fields with their paths', () => {
+    const { 目的: _omitted, ...missingPurpose } = validItem;
+    const result = validatePlansResponse(
+      JSON.stringify({ items: [validItem, { ...missingPurpose, 構成: ' ' }] }),
+      2
+    );
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.issues.map((issue) => issue.path)).toEqual([
+      'items[1].目的',
+      'items[1].構成',
+    ]);
+  });
+
+  it('should validate the columns of a custom column schema', () => {
+    const columns = [
+      { name: '企画名', description: '', required: true, type: 'text' as const },
+      { name: '想定CTA', description: '', required: false, type: 'text' as const },
+      { name: '想定ページ数', description: '', required: true, type: 'number' as const },
+    ];
+
+    const valid = validatePlansResponse(JSON.stringify({ items: [{ 企画名: 'A', 想定ページ数: '12' }] }), 1, columns);
+    const invalid = validatePlansResponse(JSON.stringify({ items: [{ タイトル: 'A' }] }), 1, columns);
+
+    expect(valid).toEqual({ success: true, items: [{ 企画名: 'A', 想定CTA: '', 想定ページ数: 12, 出典: [] }] });
+    expect(!invalid.success && invalid.issues.map((issue) => issue.path)).toEqual([
+      'items[0].企画名',
+      'items[0].想定ページ数',
+    ]);
+  });
+
+  it('should report a wrong item count', () => {
+    const result = validatePlansResponse(JSON.stringify({ items: [validItem] }), 2);
+
+    expect(result).toEqual({
+      success: false,
+      issues: [{ path: 'items', message: 'items 配列は 2 件である必要があります' }],
+    });
+  });
+
+  it('should write the issue messages in the plan language', () => {
+    const columns = [{ name: 'Title', description: '', required: true, type: 'text' as const }];
+    const empty = JSON.stringify({ items: [{ Title: ' ' }] });
+
+    expect(validatePlansResponse(empty, 2, columns, 'en')).toEqual({
+      success: false,
+      issues: [
+        { path: 'items', message: 'items must contain exactly 2 entries' },
+        { path: 'items[0].Title', message: 'Must not be empty' },
+      ],
+    });
+    expect(validatePlansResponse(empty, 1, columns, 'zh')).toEqual({
+      success: false,
+      issues: [{ path: 'items[0].Title', message: '不能为空字符串' }],
+    });
+    expect(validatePlansResponse('not json', 1, columns, 'en')).toMatchObject({
+      success: false,
+      issues: [{ path: '(root)', message: expect.stringMatching(/^JSON syntax error: /) }],
+    });
+  });
+
+  it('should report a missing items array and invalid JSON', () => {
+    expect(validatePlansResponse('{}', 1)).toMatchObject({
+      success: false,
+      issues: [{ path: 'items' }],
+    });
+    expect(validatePlansResponse('not json', 1)).toMatchObject({
+      success: false,
+      issues: [{ path: '(root)' }],
+    });
+  });
+});
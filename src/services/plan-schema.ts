@@ -0,0 +1,205 @@
+import { z } from 'zod';
+import { DEFAULT_COLUMN_SCHEMA } from './column-schema.js';
+import { DEFAULT_OUTPUT_LANGUAGE } from './output-language.js';
+import type { ColumnDefinition, OutputLanguage } from '../types/index.js';
+
+/**
+ * Validation messages by output language, so that repair prompts are
+ * written in the language of the plans
+ */
+const VALIDATION_MESSAGES: Readonly<
+  Record<
+    OutputLanguage,
+    { empty: string; count: (count: number) => string; syntax: (error: string) => string }
+  >
+> = {
+  ja: {
+    empty: '空文字は不可です',
+    count: (count) => `items 配列は ${count} 件である必要があります`,
+    syntax: (error) => `JSON の構文エラー: ${error}`,
+  },
+  en: {
+    empty: 'Must not be empty',
+    count: (count) => `items must contain exactly ${count} entries`,
+    syntax: (error) => `JSON syntax error: ${error}`,
+  },
+  zh: {
+    empty: '不能为空字符串',
+    count: (count) => `items 数组必须正好包含 ${count} 项`,
+    syntax: (error) => `JSON 语法错误: ${error}`,
+  },
+};
+
+/**
+ * Non-empty, trimmed string field of a plan item
+ */
+function requiredText(language: OutputLanguage = DEFAULT_OUTPUT_LANGUAGE) {
+  return z.string().trim().min(1, VALIDATION_MESSAGES[language].empty);
+}
+
+/**
+ * Schema of a single plan item as returned by the LLM
+ * Column names follow the sheet headers in agent-requirements.md Section 3
+ */
+export const planItemSchema = z.object({
+  No: z.coerce.number().int().positive().optional(),
+  タイトル: requiredText(),
+  目的: requiredText(),
+  '内容（概要）': requiredText(),
+  感情的ニーズ: requiredText(),
+  機能的ニーズ: requiredText(),
+  成果的ニーズ: requiredText(),
+  'ニーズ（複数）': requiredText(),
+  ターゲット: requiredText(),
+  '職種／部署': requiredText(),
+  レベル: requiredText(),
+  構成: requiredText(),
+  コメント: z.string().optional().default(''),
+  /** Ids of the source passages backing the plan (e.g. `S3`) */
+  出典: z.array(z.string()).optional().default([]),
+});
+
+/**
+ * Plan item after validation
+ */
+export type PlanItem = z.infer<typeof planItemSchema>;
+
+/**
+ * Builds the schema of a single plan item for the columns of a column schema
+ *
+ * Required text columns must be non-empty, optional ones default to an empty
+ * string and number columns accept numeric strings. `出典` is always
+ * accepted, since it is requested whenever the sources have passage ids.
+ *
+ * @param columns - Columns of the schema
+ * @param language - Language of the validation messages (default: ja)
+ * @returns Zod schema of an item keyed by column name
+ */
+export function columnItemSchema(
+  columns: ColumnDefinition[],
+  language: OutputLanguage = DEFAULT_OUTPUT_LANGUAGE
+) {
+  const shape: Record<string, z.ZodTypeAny> = {};
+  for (const column of columns) {
+    if (column.type === 'number') {
+      const number = z.coerce.number().int().positive();
+      shape[column.name] = column.required ? number : number.optional();
+    } else {
+      shape[column.name] = column.required ? requiredText(language) : z.string().optional().default('');
+    }
+  }
+  shape.出典 = z.array(z.string()).optional().default([]);
+  return z.object(shape);
+}
+
+/**
+ * Builds the schema for an LLM response containing exactly `count` items
+ *
+ * @param count - Expected number of plan items
+ * @param columns - Columns of the items (default: the built-in 13 columns)
+ * @param language - Language of the validation messages (default: ja)
+ * @returns Zod schema for `{ items: [...] }`
+ */
+export function plansResponseSchema(
+  count: number,
+  columns: ColumnDefinition[] = DEFAULT_COLUMN_SCHEMA.columns,
+  language: OutputLanguage = DEFAULT_OUTPUT_LANGUAGE
+) {
+  return z.object({
+    items: z
+      .array(columnItemSchema(columns, language))
+      .length(count, VALIDATION_MESSAGES[language].count(count)),
+  });
+}
+
+/**
+ * A single validation problem in an LLM response
+ */
+export interface PlanValidationIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * PlanValidationError
+ *
+ * Thrown when the LLM output still does not match the plan schema after all
+ * repair attempts. `issues` lists every invalid field of the last attempt.
+ */
+export class PlanValidationError extends Error {
+  readonly issues: PlanValidationIssue[];
+  readonly attempts: number;
+
+  constructor(message: string, issues: PlanValidationIssue[], attempts: number) {
+    super(message);
+    this.name = 'PlanValidationError';
+    this.issues = issues;
+    this.attempts = attempts;
+  }
+}
+
+/**
+ * Validates raw LLM output against the plan response schema
+ *
+ * @param content - Raw JSON string returned by the LLM
+ * @param count - Expected number of plan items
+ * @param columns - Columns of the items (default: the built-in 13 columns)
+ * @param language - Language of the issue messages (default: ja)
+ * @returns Parsed items on success, or the list of issues on failure
+ *
+ * @example
+ * ```typescript
+ * const result = validatePlansResponse(content, 3);
+ * if (!result.success) {
+ *   console.log(result.issues); // [{ path: 'items[1].タイトル', message: '...' }]
+ * }
+ * ```
+ */
+export function validatePlansResponse(
+  content: string,
+  count: number,
+  columns: ColumnDefinition[] = DEFAULT_COLUMN_SCHEMA.columns,
+  language: OutputLanguage = DEFAULT_OUTPUT_LANGUAGE
+):
+  | { success: true; items: Array<Record<string, unknown>> }
+  | { success: false; issues: PlanValidationIssue[] } {
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return {
+      success: false,
+      issues: [{ path: '(root)', message: VALIDATION_MESSAGES[language].syntax(errorMessage) }],
+    };
+  }
+
+  const result = plansResponseSchema(count, columns, language).safeParse(json);
+  if (result.success) {
+    return { success: true, items: result.data.items };
+  }
+
+  return {
+    success: false,
+    issues: result.error.issues.map((issue) => ({
+      path: formatPath(issue.path),
+      message: issue.message,
+    })),
+  };
+}
+
+/**
+ * Formats a zod issue path as `items[0].タイトル`
+ */
+function formatPath(path: Array<string | number>): string {
+  if (path.length === 0) {
+    return '(root)';
+  }
+
+  return path.reduce<string>((formatted, segment) => {
+    if (typeof segment === 'number') {
+      return `${formatted}[${segment}]`;
+    }
+    return formatted ? `${formatted}.${segment}` : segment;
+  }, '');
+}
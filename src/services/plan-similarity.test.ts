@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { findDuplicatePlans, planSimilarity, planSimilarityMatrix } from './plan-similarity';
+
+const base = {
+  タイトル: '製造業の品質管理をDXする実践ガイド',
+  内容概要: '紙とExcelで行っている品質管理の課題を整理し、クラウド化の進め方を解説します。',
+  構成: '## 第1章 品質管理の現状\n### 1-1 紙の記録の限界\n## 第2章 クラウド化の手順',
+};
+
+describe('planSimilarity', () => {
+  it('should score identical plans 1 and unrelated plans near 0', () => {
+    expect(planSimilarity(base, { ...base })).toBe(1);
+    expect(
+      planSimilarity(base, {
+        タイトル: 'インサイドセールス立ち上げ入門',
+        内容概要: '商談化率を高めるための組織づくりを紹介します。',
+        構成: '## 第1章 役割分担\n## 第2章 KPI設計',
+      })
+    ).toBeLessThan(0.1);
+  });
+
+  it('should ignore punctuation, width and chapter numbering', () => {
+    expect(
+      planSimilarity(base, {
+        タイトル: '製造業の品質管理をＤＸする、実践ガイド',
+        内容概要: base.内容概要,
+        構成: '## 第3章 品質管理の現状\n### 3.1 紙の記録の限界\n## 第4章 クラウド化の手順',
+      })
+    ).toBe(1);
+  });
+});
+
+describe('planSimilarityMatrix', () => {
+  it('should return a symmetric matrix with 1 on the diagonal', () => {
+    const matrix = planSimilarityMatrix([
+      base,
+      { ...base, タイトル: '製造業の品質管理をDXするチェックリスト' },
+      { タイトル: '営業DXの始め方', 内容概要: 'SFAの選び方', 構成: '## 第1章 SFAとは' },
+    ]);
+
+    expect(matrix).toHaveLength(3);
+    expect(matrix.map((row, i) => row[i])).toEqual([1, 1, 1]);
+    expect(matrix[0]![1]).toBe(matrix[1]![0]);
+    expect(matrix[0]![1]).toBeGreaterThan(0.6);
+    expect(matrix[0]![2]).toBeLessThan(0.2);
+  });
+});
+
+describe('findDuplicatePlans', () => {
+  it('should report the later plan of each similar pair', () => {
+    const plans = [
+      base,
+      { タイトル: '営業DXの始め方', 内容概要: 'SFAの選び方', 構成: '## 第1章 SFAとは' },
+      { ...base, タイトル: '製造業の品質管理をDXするチェックリスト' },
+      { ...base, タイトル: '製造業の品質管理をDXする導入ステップ' },
+    ];
+
+    expect(findDuplicatePlans(plans)).toEqual([2, 3]);
+    expect(findDuplicatePlans(plans, 0.95)).toEqual([]);
+    expect(findDuplicatePlans([])).toEqual([]);
+  });
+});
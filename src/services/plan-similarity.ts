@@ -0,0 +1,152 @@
+import type { WhitepaperPlan } from '../types/index.js';
+
+type ComparedField = 'タイトル' | '内容概要' | '構成';
+
+/**
+ * Default similarity at or above which a plan counts as a duplicate
+ */
+export const DEFAULT_DUPLICATE_THRESHOLD = 0.6;
+
+/**
+ * Weight of each field in the plan similarity (sums to 1)
+ */
+const FIELD_WEIGHTS: Readonly<Record<ComparedField, number>> = {
+  タイトル: 0.5,
+  内容概要: 0.3,
+  構成: 0.2,
+};
+
+/**
+ * Chapter and section numbering shared by every 構成 (`第1章`, `1-2`, `1.2`)
+ */
+const SECTION_NUMBERING = /第\s*\d+\s*章|\d+\s*[-.]\s*\d+/g;
+
+/**
+ * Scores how similar two plans are (0-1)
+ *
+ * Weighted average of the character bigram Jaccard similarity of the
+ * titles (50%), summaries (30%) and structures (20%). Text is compared after
+ * NFKC normalization and lowercasing, ignoring whitespace, punctuation,
+ * Markdown markers and chapter numbering.
+ *
+ * @param a - First plan
+ * @param b - Second plan
+ * @returns Similarity between 0 (nothing shared) and 1 (identical)
+ *
+ * @example
+ * ```typescript
+ * planSimilarity(plans[0], plans[1]); // 0.27
+ * ```
+ */
+export function planSimilarity(
+  a: Pick<WhitepaperPlan, ComparedField>,
+  b: Pick<WhitepaperPlan, ComparedField>
+): number {
+  return weightedSimilarity(planFeatures(a), planFeatures(b));
+}
+
+/**
+ * Scores every pair of plans
+ *
+ * @param plans - Plans in output order
+ * @returns Symmetric N×N matrix of `planSimilarity` rounded to 2 decimals,
+ *   with 1 on the diagonal
+ *
+ * @example
+ * ```typescript
+ * planSimilarityMatrix(plans);
+ * // [[1, 0.21, 0.64], [0.21, 1, 0.18], [0.64, 0.18, 1]]
+ * ```
+ */
+export function planSimilarityMatrix(
+  plans: Array<Pick<WhitepaperPlan, ComparedField>>
+): number[][] {
+  const features = plans.map(planFeatures);
+  return features.map((a, i) =>
+    features.map((b, j) => (i === j ? 1 : Math.round(weightedSimilarity(a, b) * 100) / 100))
+  );
+}
+
+/**
+ * Finds plans that duplicate an earlier plan
+ *
+ * Plans are checked in order against the earlier plans that are not
+ * duplicates themselves, so of two similar plans the later one is reported.
+ *
+ * @param plans - Plans in output order
+ * @param threshold - Similarity at or above which a plan is a duplicate
+ *   (default: 0.6)
+ * @returns 0-based indexes of the duplicate plans, ascending
+ *
+ * @example
+ * ```typescript
+ * findDuplicatePlans(plans); // [2] — plan 3 repeats plan 1
+ * ```
+ */
+export function findDuplicatePlans(
+  plans: Array<Pick<WhitepaperPlan, ComparedField>>,
+  threshold = DEFAULT_DUPLICATE_THRESHOLD
+): number[] {
+  const features = plans.map(planFeatures);
+  const kept: number[] = [];
+  const duplicates: number[] = [];
+
+  features.forEach((feature, index) => {
+    const isDuplicate = kept.some(
+      (keptIndex) => weightedSimilarity(features[keptIndex]!, feature) >= threshold
+    );
+    (isDuplicate ? duplicates : kept).push(index);
+  });
+
+  return duplicates;
+}
+
+/**
+ * Returns the character bigrams of each compared field of a plan
+ */
+function planFeatures(plan: Pick<WhitepaperPlan, ComparedField>): Record<ComparedField, Set<string>> {
+  return {
+    タイトル: bigrams(plan.タイトル),
+    内容概要: bigrams(plan.内容概要),
+    構成: bigrams(plan.構成.replace(SECTION_NUMBERING, '')),
+  };
+}
+
+/**
+ * Weighted average of the per-field Jaccard similarities
+ */
+function weightedSimilarity(
+  a: Record<ComparedField, Set<string>>,
+  b: Record<ComparedField, Set<string>>
+): number {
+  return (Object.keys(FIELD_WEIGHTS) as ComparedField[]).reduce(
+    (sum, field) => sum + FIELD_WEIGHTS[field] * jaccard(a[field], b[field]),
+    0
+  );
+}
+
+/**
+ * Returns the character bigrams of a text, keeping only letters and digits
+ */
+function bigrams(text: string): Set<string> {
+  const normalized = text.normalize('NFKC').toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+  const result = new Set<string>();
+  for (let i = 0; i + 2 <= normalized.length; i++) {
+    result.add(normalized.slice(i, i + 2));
+  }
+  return result;
+}
+
+/**
+ * Jaccard similarity of two sets; two empty sets count as dissimilar
+ */
+function jaccard(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  for (const item of a) {
+    if (b.has(item)) {
+      shared++;
+    }
+  }
+  const union = a.size + b.size - shared;
+  return union === 0 ? 0 : shared / union;
+}
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { loadPromptRegistry, PromptRegistry, renderTemplate } from './prompt-templates';
+
+describe('renderTemplate', () => {
+  it('should fill placeholders without rescanning the values', () => {
+    expect(renderTemplate('{{count}} 件: {{ issues }}', { count: '3', issues: '{{count}}' })).toBe(
+      '3 件: {{count}}'
+    );
+  });
+
+  it('should reject a placeholder without a value', () => {
+    expect(() => renderTemplate('{{tone}}', {})).toThrow('Missing prompt variable: tone');
+  });
+});
+
+describe('PromptRegistry', () => {
+  const registry = new PromptRegistry({
+    retail: {
+      templates: {
+        'plan.repair': { version: 'retail-1', template: '{{count}} 件、{{tone}}直してください。\n{{issues}}' },
+      },
+      variables: { tone: '丁寧に' },
+    },
+  });
+
+  it('should use the built-in templates for the default profile', () => {
+    expect(registry.render('plan.repair', { count: '2', issues: '- items: x' })).toContain(
+      '配列長は 2 件に固定'
+    );
+    expect(registry.versions()).toEqual({
+      'plan.system': '1',
+      'plan.generate': '1',
+      'plan.revise': '1',
+      'plan.repair': '1',
+    });
+  });
+
+  it('should render and version the overrides of a profile', () => {
+    expect(registry.render('plan.repair', { count: '2', issues: '- items: x' }, 'retail')).toBe(
+      '2 件、丁寧に直してください。\n- items: x'
+    );
+    expect(registry.versions('retail')).toMatchObject({ 'plan.system': '1', 'plan.repair': 'retail-1' });
+    expect(registry.hasProfile('default')).toBe(true);
+    expect(registry.hasProfile('toString')).toBe(false);
+    expect(() => registry.versions('wholesale')).toThrow('Unknown prompt profile: wholesale');
+  });
+
+  it('should render the built-in templates and overrides of an output language', () => {
+    const localized = new PromptRegistry({
+      retail: {
+        templates: { 'plan.repair': { version: 'retail-1', template: '{{count}} 件' } },
+        languages: { en: { 'plan.repair': { version: 'retail-en-1', template: '{{count}} items' } } },
+      },
+    });
+
+    expect(registry.render('plan.repair', { count: '2', issues: '' }, undefined, 'en')).toContain(
+      'exactly 2 items'
+    );
+    expect(localized.render('plan.repair', { count: '2', issues: '' }, 'retail', 'en')).toBe('2 items');
+    expect(localized.render('plan.repair', { count: '2', issues: '' }, 'retail', 'zh')).toBe('2 件');
+    expect(localized.versions('retail', 'en')['plan.repair']).toBe('retail-en-1');
+  });
+
+  it('should reject overrides with unknown variables', () => {
+    expect(
+      () =>
+        new PromptRegistry({
+          retail: { templates: { 'plan.system': { version: '2', template: '{{count}} 件' } } },
+        })
+    ).toThrow('Prompt profile retail: unknown variable {{count}} in plan.system');
+  });
+});
+
+describe('loadPromptRegistry', () => {
+  let rootDir: string;
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'prompt-profiles-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('should load the profiles of a file', async () => {
+    const filePath = path.join(rootDir, 'profiles.json');
+    await fs.writeFile(
+      filePath,
+      JSON.stringify({
+        manufacturing: { templates: { 'plan.system': { version: 'mfg-1', template: '製造業向け' } } },
+      })
+    );
+
+    expect(loadPromptRegistry(filePath).versions('manufacturing')['plan.system']).toBe('mfg-1');
+  });
+
+  it('should report invalid profiles with their paths', async () => {
+    const filePath = path.join(rootDir, 'profiles.json');
+    await fs.writeFile(
+      filePath,
+      JSON.stringify({ retail: { templates: { 'plan.summary': { version: '1', template: 'x' } } } })
+    );
+
+    expect(() => loadPromptRegistry(filePath)).toThrow(
+      /^Failed to load prompt profiles from .+profiles\.json: retail\.templates: /
+    );
+  });
+});
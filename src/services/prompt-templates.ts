@@ -0,0 +1,857 @@
+import * as fs from 'fs';
+import { z } from 'zod';
+import { DEFAULT_OUTPUT_LANGUAGE } from './output-language.js';
+import type {
+  ColumnDefinition,
+  KeywordIntent,
+  OutputLanguage,
+  PromptVersions,
+} from '../types/index.js';
+
+/**
+ * Ids of the prompt templates used for plan generation
+ */
+export type PromptTemplateId = 'plan.system' | 'plan.generate' | 'plan.revise' | 'plan.repair';
+
+/**
+ * A versioned prompt template with `{{variable}}` placeholders
+ */
+export interface PromptTemplate {
+  /** Version id recorded in the result metadata and the Backlog sheet */
+  version: string;
+  template: string;
+}
+
+/**
+ * Per-client overrides of the built-in templates
+ *
+ * `templates` apply to every output language and `languages` to one
+ * language, taking precedence. `variables` fills extra placeholders of the
+ * overriding templates, e.g. a `{{tone}}` for an industry-specific tone.
+ */
+export interface PromptProfile {
+  templates: Partial<Record<PromptTemplateId, PromptTemplate>>;
+  languages?: Partial<Record<OutputLanguage, Partial<Record<PromptTemplateId, PromptTemplate>>>>;
+  variables?: Record<string, string>;
+}
+
+/**
+ * Name under which the built-in templates are reported
+ */
+export const DEFAULT_PROMPT_PROFILE = 'default';
+
+/**
+ * Variables the application passes to each template
+ */
+const TEMPLATE_VARIABLES: Readonly<Record<PromptTemplateId, readonly string[]>> = {
+  'plan.system': [],
+  'plan.generate': [
+    'salesText',
+    'targetText',
+    'keywords',
+    'keywordMetrics',
+    'planKeywords',
+    'previousTitles',
+    'columns',
+    'citationInstruction',
+    'columnDefinitions',
+    'structureExample',
+    'count',
+  ],
+  'plan.revise': [
+    'salesText',
+    'targetText',
+    'plans',
+    'columns',
+    'citationInstruction',
+    'columnDefinitions',
+    'count',
+  ],
+  'plan.repair': ['count', 'issues'],
+};
+
+/**
+ * Built-in templates by output language
+ *
+ * The fake provider reads the item count and the section headings, so
+ * overrides should keep them.
+ */
+export const DEFAULT_PROMPT_TEMPLATES: Readonly<
+  Record<OutputLanguage, Readonly<Record<PromptTemplateId, PromptTemplate>>>
+> = {
+  ja: {
+    'plan.system': {
+      version: '1',
+      template: `あなたはB2Bマーケティングの編集者です。以下の入力（営業資料/ターゲット/SEOキーワード）から、検索意図・差別化・実務適用性に優れたホワイトペーパー企画を N 件出します。列定義に厳密に従い、日本語で具体的に書きます。重複と冗長は排除します。
+
+主な役割：
+- 営業資料から製品/サービスの価値提案を理解する
+- ターゲット層の課題や関心事を特定する
+- SEOキーワードを自然に組み込む
+- 多様で補完的なホワイトペーパー企画を作成する
+- ビジネスインパクトとオーディエンスの関連性に基づいて優先順位をつける
+
+出力要件：
+- 各企画は独自で重複しないこと
+- 各列は【列の定義】の説明と例に従うこと
+- 任意の列も、書ける内容があれば埋めること
+
+要求された件数ちょうどを返す必要があります。`,
+    },
+    'plan.generate': {
+      version: '1',
+      template: `【営業資料要約】
+{{salesText}}
+
+【ターゲット情報】
+{{targetText}}
+
+【SEOキーワード（配列）】
+{{keywords}}
+{{keywordMetrics}}{{planKeywords}}{{previousTitles}}
+【出力フォーマット】
+- 列：{{columns}}{{citationInstruction}}
+- 競合が多いキーワードはサブトピック/角度を変えて差別化
+- {{count}} 件の企画を出力してください
+
+{{columnDefinitions}}
+{{structureExample}}
+JSONのみを返してください。items配列に {{count}} 件のオブジェクトを含むJSON形式で出力してください。`,
+    },
+    'plan.revise': {
+      version: '1',
+      template: `【営業資料要約】
+{{salesText}}
+
+【ターゲット情報】
+{{targetText}}
+
+【改善対象の企画】
+以下の企画は品質チェックで指摘を受けました。各企画の指摘をすべて解消するように書き直してください。テーマとタイトルの主キーワードは変えず、指摘のない項目は必要な場合だけ修正してください。
+
+{{plans}}
+
+【出力フォーマット】
+- 列：{{columns}}{{citationInstruction}}
+- 上記の企画と同じ順序で出力してください
+
+{{columnDefinitions}}
+
+JSONのみを返してください。items配列に {{count}} 件のオブジェクトを含むJSON形式で出力してください。`,
+    },
+    'plan.repair': {
+      version: '1',
+      template: `出力が指定の JSON スキーマに一致していません。構文エラーを修正し、JSONのみを返してください。配列長は {{count}} 件に固定、各必須フィールドを埋めてください。
+
+【検出されたエラー】
+{{issues}}`,
+    },
+  },
+  en: {
+    'plan.system': {
+      version: '1',
+      template: `You are a B2B marketing editor. From the inputs below (sales material / target audience / SEO keywords), you propose N whitepaper plans that excel in search intent, differentiation and practical value. You follow the column definitions strictly and write specifically in English. You remove duplication and redundancy.
+
+Main responsibilities:
+- Understand the value proposition of the product/service from the sales material
+- Identify the challenges and interests of the target audience
+- Work the SEO keywords in naturally
+- Create diverse, complementary whitepaper plans
+- Prioritize by business impact and relevance to the audience
+
+Output requirements:
+- Each plan is unique and does not overlap with the others
+- Each column follows the description and example in [Column Definitions]
+- Fill optional columns too when there is something to write
+- Write every value in English, even when the inputs are in another language; keep the JSON keys exactly as the column names
+
+You must return exactly the requested number of plans.`,
+    },
+    'plan.generate': {
+      version: '1',
+      template: `[Sales Material Summary]
+{{salesText}}
+
+[Target Audience]
+{{targetText}}
+
+[SEO Keywords (array)]
+{{keywords}}
+{{keywordMetrics}}{{planKeywords}}{{previousTitles}}
+[Output Format]
+- Columns: {{columns}}{{citationInstruction}}
+- Differentiate highly competitive keywords with a sub-topic or a different angle
+- Number of plans to output: {{count}}
+
+{{columnDefinitions}}
+{{structureExample}}
+Return JSON only: an object whose items array has {{count}} objects.`,
+    },
+    'plan.revise': {
+      version: '1',
+      template: `[Sales Material Summary]
+{{salesText}}
+
+[Target Audience]
+{{targetText}}
+
+[Plans to Improve]
+The plans below were flagged by the quality check. Rewrite each plan so that all of its issues are resolved. Keep the theme and the main keyword of the title, and change fields without issues only where needed.
+
+{{plans}}
+
+[Output Format]
+- Columns: {{columns}}{{citationInstruction}}
+- Output the plans in the same order as above
+
+{{columnDefinitions}}
+
+Return JSON only: an object whose items array has {{count}} objects.`,
+    },
+    'plan.repair': {
+      version: '1',
+      template: `The output does not match the specified JSON schema. Fix the errors and return JSON only. The array must have exactly {{count}} items, with every required field filled.
+
+[Errors Found]
+{{issues}}`,
+    },
+  },
+  zh: {
+    'plan.system': {
+      version: '1',
+      template: `你是一名B2B营销编辑。请根据以下输入（销售资料/目标读者/SEO关键词），提出 N 个在搜索意图、差异化和实用性方面都出色的白皮书企划。严格遵循列定义，用简体中文具体地撰写，排除重复和冗余。
+
+主要职责：
+- 从销售资料中理解产品/服务的价值主张
+- 识别目标读者的课题和关注点
+- 自然地融入SEO关键词
+- 创建多样且互补的白皮书企划
+- 根据业务影响和与读者的相关性确定优先级
+
+输出要求：
+- 每个企划都独一无二，互不重复
+- 各列遵循【列定义】中的说明和示例
+- 选填列如有可写的内容也请填写
+- 即使输入是其他语言，所有值也用简体中文撰写；JSON的键必须与列名完全一致
+
+必须返回与要求数量完全相同的企划。`,
+    },
+    'plan.generate': {
+      version: '1',
+      template: `【销售资料摘要】
+{{salesText}}
+
+【目标读者信息】
+{{targetText}}
+
+【SEO关键词（数组）】
+{{keywords}}
+{{keywordMetrics}}{{planKeywords}}{{previousTitles}}
+【输出格式】
+- 列：{{columns}}{{citationInstruction}}
+- 竞争激烈的关键词，请通过子主题或不同角度实现差异化
+- 请输出 {{count}} 个企划
+
+{{columnDefinitions}}
+{{structureExample}}
+仅返回JSON。请以JSON格式输出，items数组包含 {{count}} 个对象。`,
+    },
+    'plan.revise': {
+      version: '1',
+      template: `【销售资料摘要】
+{{salesText}}
+
+【目标读者信息】
+{{targetText}}
+
+【待改进的企划】
+以下企划在质量检查中被指出了问题。请改写每个企划，解决其所有问题。保持主题和标题中的主关键词不变，未被指出问题的项目仅在必要时修改。
+
+{{plans}}
+
+【输出格式】
+- 列：{{columns}}{{citationInstruction}}
+- 请按照与上述企划相同的顺序输出
+
+{{columnDefinitions}}
+
+仅返回JSON。请以JSON格式输出，items数组包含 {{count}} 个对象。`,
+    },
+    'plan.repair': {
+      version: '1',
+      template: `输出与指定的JSON模式不一致。请修正错误并仅返回JSON。数组长度固定为 {{count}} 个，并填写所有必填字段。
+
+【检测到的错误】
+{{issues}}`,
+    },
+  },
+};
+
+/**
+ * Sections of the plan prompts that are built in code, as templates
+ */
+export interface PromptSections {
+  /** Fallbacks for a missing sales text, target text and keyword list */
+  noSales: string;
+  noTarget: string;
+  noKeywords: string;
+  /** Keyword metrics section (`{{lines}}`) and its metric labels (`{{value}}`) */
+  keywordMetrics: string;
+  searchVolume: string;
+  difficulty: string;
+  intent: string;
+  keywordIntents: Readonly<Record<KeywordIntent, string>>;
+  /** Locale of the search volume numbers */
+  numberLocale: string;
+  /** Keywords per plan section (`{{lines}}{{unassigned}}`) and its lines */
+  planKeywords: string;
+  planKeyword: string;
+  relatedKeywords: string;
+  unassignedPlans: string;
+  /** Titles of earlier chunks (`{{titles}}`) */
+  previousTitles: string;
+  /** Appended to the column list when the sources have passage ids */
+  citation: string;
+  /** Column definitions section (`{{lines}}`) and its lines */
+  columnDefinitions: string;
+  columnDefinition: string;
+  columnDescription: string;
+  columnExample: string;
+  required: string;
+  optional: string;
+  columnTypes: Readonly<Record<ColumnDefinition['type'], string>>;
+  /** Example of the structure column (`{{name}}`) */
+  structureExample: string;
+  /** A plan sent for revision (`{{no}}`, `{{plan}}`, `{{issues}}`) */
+  revisionPlan: string;
+}
+
+/**
+ * Code-built prompt sections by output language
+ */
+export const PROMPT_SECTIONS: Readonly<Record<OutputLanguage, PromptSections>> = {
+  ja: {
+    noSales: '営業資料なし',
+    noTarget: 'ターゲット情報なし',
+    noKeywords: 'キーワード指定なし',
+    keywordMetrics: `
+【キーワード指標】
+検索ボリュームが大きく難易度が低いキーワードを優先し、検索意図に合った企画にしてください。
+{{lines}}
+`,
+    searchVolume: '月間検索ボリューム {{value}}',
+    difficulty: '難易度 {{value}}',
+    intent: '検索意図 {{value}}',
+    keywordIntents: {
+      informational: '情報収集',
+      navigational: '指名検索',
+      commercial: '比較検討',
+      transactional: '購入・申込',
+    },
+    numberLocale: 'ja-JP',
+    planKeywords: `
+【企画ごとの担当キーワード】
+No の順に各企画へ以下のキーワードを割り当てています。各企画は主キーワードをタイトルに含め、関連キーワードも内容と構成で扱い、他の企画の担当キーワードを狙わないでください。
+{{lines}}{{unassigned}}
+`,
+    planKeyword: '- 企画{{no}}: 主キーワード「{{primary}}」{{related}}',
+    relatedKeywords: '／関連キーワード: {{keywords}}',
+    unassignedPlans: '\n企画{{no}}以降は担当キーワードなしで、上記と重複しないテーマにしてください。',
+    previousTitles: `
+【作成済みの企画（重複禁止）】
+以下の企画は作成済みです。タイトル・切り口・章立てが重複しない新しい企画を出してください。
+{{titles}}
+`,
+    citation: `, 出典
+- 出典: 企画の根拠とした営業資料・ターゲット情報の段落ID（[S1] や [T2] の括弧内）の配列（例: ["S3", "T1"]）。企画の主張を直接裏付ける段落だけを挙げ、根拠がなければ空配列`,
+    columnDefinitions: `【列の定義】
+{{lines}}`,
+    columnDefinition: '- {{name}}（{{flags}}）{{description}}{{example}}',
+    columnDescription: ': {{description}}',
+    columnExample: '（例: {{example}}）',
+    required: '必須',
+    optional: '任意',
+    columnTypes: { text: '', markdown: '・Markdown', number: '・数値' },
+    structureExample: `
+## {{name}}フィールドの例
+## 第1章 DX推進の背景と課題
+### 1-1 製造業を取り巻くデジタル化の波
+### 1-2 従来システムの限界と課題
+
+## 第2章 ○○による解決アプローチ
+### 2-1 クラウド基盤の選定ポイント
+### 2-2 段階的導入のロードマップ
+
+## 第3章 導入事例と成果
+### 3-1 A社の事例（製造業・従業員500名）
+### 3-2 ROI試算と効果測定
+`,
+    revisionPlan: `### 企画{{no}}
+{{plan}}
+【指摘】
+{{issues}}`,
+  },
+  en: {
+    noSales: 'No sales material',
+    noTarget: 'No target audience information',
+    noKeywords: 'No keywords specified',
+    keywordMetrics: `
+[Keyword Metrics]
+Prefer keywords with a high search volume and low difficulty, and match each plan to the search intent.
+{{lines}}
+`,
+    searchVolume: 'monthly search volume {{value}}',
+    difficulty: 'difficulty {{value}}',
+    intent: 'search intent {{value}}',
+    keywordIntents: {
+      informational: 'informational',
+      navigational: 'navigational',
+      commercial: 'commercial investigation',
+      transactional: 'transactional',
+    },
+    numberLocale: 'en-US',
+    planKeywords: `
+[Keywords per Plan]
+The keywords below are assigned to the plans in No order. Each plan includes its main keyword in the title, covers its related keywords in the summary and structure, and does not target the keywords of other plans.
+{{lines}}{{unassigned}}
+`,
+    planKeyword: '- Plan {{no}}: main keyword "{{primary}}"{{related}}',
+    relatedKeywords: '; related keywords: {{keywords}}',
+    unassignedPlans:
+      '\nPlan {{no}} and later have no assigned keywords; give them themes that do not overlap with the plans above.',
+    previousTitles: `
+[Plans Already Created (Do Not Duplicate)]
+The plans below already exist. Propose new plans whose titles, angles and chapters do not overlap with them.
+{{titles}}
+`,
+    citation: `, 出典
+- 出典: array of the ids of the sales material and target audience passages the plan is based on (inside the brackets of [S1] or [T2], e.g. ["S3", "T1"]). List only passages that directly support the plan; use an empty array if none do`,
+    columnDefinitions: `[Column Definitions]
+{{lines}}`,
+    columnDefinition: '- {{name}} ({{flags}}){{description}}{{example}}',
+    columnDescription: ': {{description}}',
+    columnExample: ' (e.g. {{example}})',
+    required: 'required',
+    optional: 'optional',
+    columnTypes: { text: '', markdown: ', Markdown', number: ', number' },
+    structureExample: `
+## Example of the {{name}} field
+## Chapter 1 Background and Challenges of DX
+### 1-1 The Wave of Digitalization in Manufacturing
+### 1-2 Limits of Legacy Systems
+
+## Chapter 2 Solving It with ○○
+### 2-1 Choosing a Cloud Platform
+### 2-2 A Phased Rollout Roadmap
+
+## Chapter 3 Case Studies and Results
+### 3-1 Company A (Manufacturing, 500 Employees)
+### 3-2 ROI Estimate and Measuring the Impact
+`,
+    revisionPlan: `### Plan {{no}}
+{{plan}}
+[Issues]
+{{issues}}`,
+  },
+  zh: {
+    noSales: '无销售资料',
+    noTarget: '无目标读者信息',
+    noKeywords: '未指定关键词',
+    keywordMetrics: `
+【关键词指标】
+请优先选择搜索量大、难度低的关键词，并使企划符合搜索意图。
+{{lines}}
+`,
+    searchVolume: '月搜索量 {{value}}',
+    difficulty: '难度 {{value}}',
+    intent: '搜索意图 {{value}}',
+    keywordIntents: {
+      informational: '信息收集',
+      navigational: '品牌导航',
+      commercial: '比较研究',
+      transactional: '购买申请',
+    },
+    numberLocale: 'zh-CN',
+    planKeywords: `
+【各企划负责的关键词】
+已按 No 的顺序为各企划分配以下关键词。每个企划的标题须包含主关键词，并在内容和结构中涵盖相关关键词，不要争夺其他企划的关键词。
+{{lines}}{{unassigned}}
+`,
+    planKeyword: '- 企划{{no}}：主关键词「{{primary}}」{{related}}',
+    relatedKeywords: '／相关关键词：{{keywords}}',
+    unassignedPlans: '\n企划{{no}}及之后没有分配关键词，请选择与上述企划不重复的主题。',
+    previousTitles: `
+【已创建的企划（禁止重复）】
+以下企划已创建。请提出标题、切入点和章节结构均不重复的新企划。
+{{titles}}
+`,
+    citation: `, 出典
+- 出典：作为企划依据的销售资料・目标读者信息的段落ID（[S1] 或 [T2] 括号内）的数组（例：["S3", "T1"]）。只列出直接支撑企划主张的段落，没有依据时为空数组`,
+    columnDefinitions: `【列定义】
+{{lines}}`,
+    columnDefinition: '- {{name}}（{{flags}}）{{description}}{{example}}',
+    columnDescription: '：{{description}}',
+    columnExample: '（例：{{example}}）',
+    required: '必填',
+    optional: '选填',
+    columnTypes: { text: '', markdown: '・Markdown', number: '・数值' },
+    structureExample: `
+## {{name}}字段示例
+## 第1章 DX推进的背景与课题
+### 1-1 制造业面临的数字化浪潮
+### 1-2 传统系统的局限与课题
+
+## 第2章 基于○○的解决方案
+### 2-1 云平台的选型要点
+### 2-2 分阶段导入路线图
+
+## 第3章 导入案例与成果
+### 3-1 A公司案例（制造业・员工500人）
+### 3-2 ROI测算与效果评估
+`,
+    revisionPlan: `### 企划{{no}}
+{{plan}}
+【问题】
+{{issues}}`,
+  },
+};
+
+/**
+ * Prompts of the steps that prepare the sources (context summaries, OCR
+ * cleanup and figure summaries), as templates
+ */
+export interface SourcePrompts {
+  /** Appended to the system prompt by providers without a JSON mode */
+  jsonOnly: string;
+  /** Summary of one chunk of a long source (`{{source}}`, `{{position}}`, `{{targetTokens}}`) */
+  summarizeChunk: string;
+  /** Names of the sales and target sources in `summarizeChunk` */
+  salesSource: string;
+  targetSource: string;
+  /** Cleanup of the OCR text of one page */
+  ocrCleanup: string;
+  /** Figure summary of a page image (`{{hint}}`) and the page text hint (`{{text}}`) */
+  diagramSystem: string;
+  diagramRequest: string;
+  diagramHint: string;
+}
+
+/**
+ * Source preparation prompts by output language
+ */
+export const SOURCE_PROMPTS: Readonly<Record<OutputLanguage, SourcePrompts>> = {
+  ja: {
+    jsonOnly: '出力は JSON オブジェクトのみとし、前後に説明文やコードブロックを付けないでください。',
+    summarizeChunk: `あなたはB2Bマーケティング資料の要約者です。ユーザーが送るテキストは長い{{source}}の一部（{{position}}）です。ホワイトペーパー企画の材料として次の方針で要約し、要約のみを返してください。
+
+- 約{{targetTokens}}文字以内にまとめる
+- 数値（金額・割合・件数・期間）、製品名・サービス名・機能名、企業名は原文どおり残す
+- 導入事例は企業名・課題・施策・成果の数値を省略せず残す
+- 行頭の段落ID（[S1] や [T2]）は、その段落を要約した文の先頭にそのまま残す
+- 顧客の課題、解決策、差別化ポイント、対象顧客の情報を優先する
+- 推測・加筆はしない。前置きや説明文は付けない`,
+    salesSource: '営業資料',
+    targetSource: 'ターゲット情報',
+    ocrCleanup: `あなたはOCR結果の校正者です。ユーザーが送るテキストはPDFをOCRした1ページ分の結果です。次の方針でOCRノイズだけを修正し、修正後のテキストのみを返してください。
+
+- 日本語の文の途中で改行されている箇所は改行を削除してつなげる
+- 見出し・箇条書き・段落の区切りとしての改行は残す
+- 紙面の汚れや罫線に由来する記号・孤立した文字を削除する
+- 文脈から明らかな誤認識（例: 「ロ」と「口」、「へ」と「ヘ」）のみ修正する
+- 要約・言い換え・翻訳・加筆はしない。数値・固有名詞は変更しない
+- 説明文や前置きは付けない`,
+    diagramSystem:
+      'あなたはB2B営業資料の読み取りを支援するアシスタントです。図表やスライドの内容を、ホワイトペーパー企画の材料として使える日本語の文章に要約します。',
+    diagramRequest: `この画像は営業資料の1ページです。図表・スライドが伝えている内容を3〜5文で要約してください。
+- 図表の種類（フロー図、比較表、グラフなど）と主張を書く
+- 読み取れる数値・比較・手順は具体的に書く
+- 読み取れない内容は推測で補わない
+- 要約本文のみを返す
+{{hint}}`,
+    diagramHint: `
+【ページ内のテキスト（抽出結果）】
+{{text}}`,
+  },
+  en: {
+    jsonOnly: 'Output only the JSON object, with no explanation or code block before or after it.',
+    summarizeChunk: `You summarize B2B marketing material. The text the user sends is part ({{position}}) of a long {{source}}. Summarize it as material for whitepaper plans following the rules below, and return only the summary.
+
+- Keep it within about {{targetTokens}} words
+- Keep figures (amounts, percentages, counts, periods), product, service and feature names, and company names exactly as in the original
+- Keep case studies with their company name, challenge, measures and result figures
+- Keep the passage ids at the start of lines ([S1] or [T2]) as they are, at the start of the sentences summarizing those passages
+- Prioritize customer challenges, solutions, differentiators and information about the target customers
+- Do not guess or add content. Do not add a preamble or explanations`,
+    salesSource: 'sales material',
+    targetSource: 'target audience description',
+    ocrCleanup: `You proofread OCR results. The text the user sends is the OCR result of one page of a PDF. Fix only the OCR noise following the rules below, and return only the corrected text.
+
+- Join lines that are broken in the middle of a sentence
+- Keep line breaks that separate headings, bullet points and paragraphs
+- Remove symbols and isolated characters caused by smudges or ruled lines
+- Fix only misrecognitions that are obvious from the context (e.g. "rn" and "m", "0" and "O")
+- Do not summarize, paraphrase, translate or add content. Do not change numbers or proper nouns
+- Do not add explanations or a preamble`,
+    diagramSystem:
+      'You are an assistant who helps read B2B sales material. You summarize the content of figures and slides as English text that can be used as material for whitepaper plans.',
+    diagramRequest: `This image is one page of sales material. Summarize what its figures or slides convey in 3 to 5 sentences.
+- State the kind of figure (flow chart, comparison table, graph, etc.) and its message
+- Give the numbers, comparisons and steps you can read specifically
+- Do not fill in what you cannot read by guessing
+- Return only the summary
+{{hint}}`,
+    diagramHint: `
+[Text on the Page (Extracted)]
+{{text}}`,
+  },
+  zh: {
+    jsonOnly: '只输出 JSON 对象，前后不要附加说明文字或代码块。',
+    summarizeChunk: `你是B2B营销资料的摘要者。用户发送的文本是较长{{source}}的一部分（{{position}}）。请按照以下方针将其摘要为白皮书企划的素材，只返回摘要。
+
+- 控制在约{{targetTokens}}字以内
+- 数值（金额、比例、件数、期间）、产品名、服务名、功能名、企业名按原文保留
+- 导入案例须完整保留企业名、课题、措施、成果数值
+- 行首的段落ID（[S1] 或 [T2]）原样保留在概括该段落的句子开头
+- 优先保留客户课题、解决方案、差异化要点、目标客户的信息
+- 不推测、不添加内容。不加开场白或说明`,
+    salesSource: '销售资料',
+    targetSource: '目标读者信息',
+    ocrCleanup: `你是OCR结果的校对者。用户发送的文本是PDF经OCR识别后一页的结果。请按照以下方针只修正OCR噪声，只返回修正后的文本。
+
+- 删除句子中途的换行，将其连接起来
+- 保留作为标题、列表、段落分隔的换行
+- 删除由纸面污渍或表格线产生的符号、孤立字符
+- 只修正根据上下文明显的误识别（例：「口」与「囗」、「己」与「已」）
+- 不摘要、不改写、不翻译、不添加内容。不修改数值、专有名词
+- 不加说明或开场白`,
+    diagramSystem:
+      '你是协助阅读B2B销售资料的助手。将图表和幻灯片的内容摘要为可用作白皮书企划素材的中文文本。',
+    diagramRequest: `这张图片是销售资料的一页。请用3至5句话摘要图表、幻灯片所传达的内容。
+- 写明图表的类型（流程图、对比表、图形等）及其主张
+- 具体写出能读取的数值、比较、步骤
+- 不要用推测补充无法读取的内容
+- 只返回摘要正文
+{{hint}}`,
+    diagramHint: `
+【页面内的文本（提取结果）】
+{{text}}`,
+  },
+};
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+const templateSchema = z.object({
+  version: z.string().trim().min(1),
+  template: z.string().min(1),
+});
+
+const templatesSchema = z
+  .object({
+    'plan.system': templateSchema,
+    'plan.generate': templateSchema,
+    'plan.revise': templateSchema,
+    'plan.repair': templateSchema,
+  })
+  .partial()
+  .strict();
+
+/**
+ * Schema of a prompt profiles file: profile name → overrides
+ */
+const promptProfilesSchema = z.record(
+  z.string().regex(/^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/),
+  z.object({
+    templates: templatesSchema,
+    languages: z
+      .object({ ja: templatesSchema, en: templatesSchema, zh: templatesSchema })
+      .partial()
+      .strict()
+      .optional(),
+    variables: z.record(z.string()).optional(),
+  })
+);
+
+/**
+ * Replaces the `{{variable}}` placeholders of a template
+ *
+ * @param template - Template text
+ * @param variables - Values by variable name
+ * @returns Rendered text
+ * @throws {Error} If a placeholder has no value
+ *
+ * @example
+ * ```typescript
+ * renderTemplate('{{count}} 件の企画', { count: '3' }); // '3 件の企画'
+ * ```
+ */
+export function renderTemplate(template: string, variables: Record<string, string>): string {
+  return template.replace(PLACEHOLDER, (_placeholder, name: string) => {
+    const value = variables[name];
+    if (value === undefined) {
+      throw new Error(`Missing prompt variable: ${name}`);
+    }
+    return value;
+  });
+}
+
+/**
+ * PromptRegistry
+ *
+ * Resolves the plan generation templates of an output language, with
+ * per-client profiles that override some of them (for example an
+ * industry-specific tone in `plan.system`). The version of every resolved
+ * template is reported so that a sheet can be traced back to the prompts
+ * that produced it.
+ *
+ * @example
+ * ```typescript
+ * const registry = new PromptRegistry({
+ *   manufacturing: {
+ *     templates: { 'plan.system': { version: 'mfg-1', template: '...{{tone}}...' } },
+ *     variables: { tone: '現場の用語で' },
+ *   },
+ * });
+ * const prompt = registry.render('plan.repair', { count: '3', issues: '- ...' }, 'manufacturing');
+ * registry.versions('manufacturing'); // { 'plan.system': 'mfg-1', 'plan.generate': '1', ... }
+ * ```
+ */
+export class PromptRegistry {
+  private profiles: Record<string, PromptProfile>;
+
+  /**
+   * Creates a new PromptRegistry instance
+   *
+   * @param profiles - Overrides by profile name
+   * @throws {Error} If an override uses a variable that neither the
+   *   application nor the profile provides
+   */
+  constructor(profiles: Record<string, PromptProfile> = {}) {
+    for (const [name, profile] of Object.entries(profiles)) {
+      const overrides = [profile.templates, ...Object.values(profile.languages ?? {})];
+      for (const [id, override] of overrides.flatMap(
+        (templates) => Object.entries(templates) as Array<[PromptTemplateId, PromptTemplate]>
+      )) {
+        const known = [...TEMPLATE_VARIABLES[id], ...Object.keys(profile.variables ?? {})];
+        const unknown = [...override.template.matchAll(PLACEHOLDER)]
+          .map((match) => match[1]!)
+          .find((variable) => !known.includes(variable));
+        if (unknown !== undefined) {
+          throw new Error(`Prompt profile ${name}: unknown variable {{${unknown}}} in ${id}`);
+        }
+      }
+    }
+
+    this.profiles = profiles;
+  }
+
+  /**
+   * Returns true if the profile exists (`default` always does)
+   *
+   * @param profile - Profile name
+   */
+  hasProfile(profile: string): boolean {
+    return profile === DEFAULT_PROMPT_PROFILE || Object.hasOwn(this.profiles, profile);
+  }
+
+  /**
+   * Renders a template of a profile
+   *
+   * @param id - Template id
+   * @param variables - Values of the template variables
+   * @param profile - Profile name (default: the built-in templates)
+   * @param language - Output language (default: ja)
+   * @returns Rendered prompt
+   * @throws {Error} If the profile does not exist
+   */
+  render(
+    id: PromptTemplateId,
+    variables: Record<string, string>,
+    profile?: string,
+    language: OutputLanguage = DEFAULT_OUTPUT_LANGUAGE
+  ): string {
+    return renderTemplate(this.resolve(id, profile, language).template, {
+      ...this.getProfile(profile)?.variables,
+      ...variables,
+    });
+  }
+
+  /**
+   * Returns the version of each template used by a profile
+   *
+   * @param profile - Profile name (default: the built-in templates)
+   * @param language - Output language (default: ja)
+   * @returns Versions by template id
+   * @throws {Error} If the profile does not exist
+   */
+  versions(profile?: string, language: OutputLanguage = DEFAULT_OUTPUT_LANGUAGE): PromptVersions {
+    const ids = Object.keys(TEMPLATE_VARIABLES) as PromptTemplateId[];
+    return Object.fromEntries(ids.map((id) => [id, this.resolve(id, profile, language).version]));
+  }
+
+  /**
+   * Returns the override of a template, or the built-in template
+   * @private
+   */
+  private resolve(
+    id: PromptTemplateId,
+    profile: string | undefined,
+    language: OutputLanguage
+  ): PromptTemplate {
+    const overrides = this.getProfile(profile);
+    return (
+      overrides?.languages?.[language]?.[id] ??
+      overrides?.templates[id] ??
+      DEFAULT_PROMPT_TEMPLATES[language][id]
+    );
+  }
+
+  /**
+   * Returns a profile, or undefined for the built-in templates
+   * @private
+   */
+  private getProfile(profile?: string): PromptProfile | undefined {
+    if (profile === undefined || profile === DEFAULT_PROMPT_PROFILE) {
+      return undefined;
+    }
+    if (!Object.hasOwn(this.profiles, profile)) {
+      throw new Error(`Unknown prompt profile: ${profile}`);
+    }
+    return this.profiles[profile];
+  }
+}
+
+/**
+ * Reads a prompt profiles file
+ *
+ * @param filePath - JSON file mapping profile names to `{ templates, languages, variables }`
+ * @returns Registry with the profiles
+ * @throws {Error} If the file cannot be read or is invalid
+ */
+export function loadPromptRegistry(filePath: string): PromptRegistry {
+  try {
+    const profiles = promptProfilesSchema.parse(JSON.parse(fs.readFileSync(filePath, 'utf8')));
+    return new PromptRegistry(profiles);
+  } catch (error) {
+    const errorMessage =
+      error instanceof z.ZodError
+        ? error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ')
+        : error instanceof Error
+          ? error.message
+          : 'Unknown error';
+    throw new Error(`Failed to load prompt profiles from ${filePath}: ${errorMessage}`);
+  }
+}
+
+/**
+ * Creates the prompt registry configured by environment variables
+ *
+ * Profiles are read from `PROMPT_PROFILES_PATH`; without it only the
+ * built-in templates are available.
+ *
+ * @returns Prompt registry instance
+ * @throws {Error} If the profiles file cannot be loaded
+ */
+export function createPromptRegistry(): PromptRegistry {
+  const filePath = process.env.PROMPT_PROFILES_PATH;
+  return filePath ? loadPromptRegistry(filePath) : new PromptRegistry();
+}
@@ -1,5 +1,58 @@
 import { google, sheets_v4, Auth } from 'googleapis';
-import { WhitepaperPlan } from '../types/index.js';
+import { ANALYSIS_COLUMN_LABELS, DEFAULT_COLUMN_SCHEMA, planColumnValues } from './column-schema.js';
+import { DEFAULT_OUTPUT_LANGUAGE } from './output-language.js';
+import {
+  ColumnDefinition,
+  ColumnSchema,
+  OutputLanguage,
+  PlanKeywords,
+  PlanScore,
+  SourceReference,
+  UnsupportedClaim,
+  WhitepaperPlan,
+} from '../types/index.js';
+
+/**
+ * Log sheet shared with the rewriter script, which appends to it
+ */
+const BACKLOG_SHEET = 'Backlog';
+const BACKLOG_HEADERS = ['Timestamp', 'Type', 'Batch Index', 'Status', 'Message', 'Details'];
+
+/**
+ * Labels inside the analysis cells and the notes, by output language
+ */
+const CELL_LABELS: Record<
+  OutputLanguage,
+  {
+    primary: string;
+    secondary: string;
+    unsupportedClaims: string;
+    claimTypes: Record<UnsupportedClaim['type'], string>;
+    claim: (text: string, type: string) => string;
+  }
+> = {
+  ja: {
+    primary: '主',
+    secondary: '副',
+    unsupportedClaims: '営業資料・ターゲット情報で確認できない記述:',
+    claimTypes: { number: '数値', company: '企業名', case: '事例' },
+    claim: (text, type) => `- ${text}（${type}）`,
+  },
+  en: {
+    primary: 'Main',
+    secondary: 'Related',
+    unsupportedClaims: 'Not found in the sales material or target information:',
+    claimTypes: { number: 'figure', company: 'company', case: 'case study' },
+    claim: (text, type) => `- ${text} (${type})`,
+  },
+  zh: {
+    primary: '主',
+    secondary: '副',
+    unsupportedClaims: '在销售资料・目标读者信息中无法确认的内容:',
+    claimTypes: { number: '数值', company: '企业名称', case: '案例' },
+    claim: (text, type) => `- ${text}（${type}）`,
+  },
+};
 
 /**
  * Google Sheets Service
@@ -90,6 +143,13 @@ export class SheetsService {
    * @param spreadsheetId - The ID of the target spreadsheet
    * @param plans - Array of whitepaper plans to write
    * @param sheetId - The ID of the sheet within the spreadsheet
+   * @param columnSchema - Columns of the plans (default: the built-in 13
+   *   columns). The analysis columns (対象キーワード, 品質スコア, 出典) are
+   *   inserted before the comment column, which is always last because the
+   *   rewriter script reads comments from the rightmost column. Column
+   *   descriptions are attached to the headers as notes.
+   * @param language - Language of the analysis headers and cell labels
+   *   (default: ja)
    * @returns Promise that resolves when data is successfully written
    * @throws {Error} If writing data fails or spreadsheet is not found
    * @example
@@ -112,41 +172,38 @@ export class SheetsService {
   async writeData(
     spreadsheetId: string,
     plans: WhitepaperPlan[],
-    sheetId: number
+    sheetId: number,
+    columnSchema: ColumnSchema = DEFAULT_COLUMN_SCHEMA,
+    language: OutputLanguage = DEFAULT_OUTPUT_LANGUAGE
   ): Promise<void> {
     try {
+      const analysisLabels = ANALYSIS_COLUMN_LABELS[language];
+      const cellLabels = CELL_LABELS[language];
+
+      // The comment column moves to the end, after the analysis columns
+      const commentColumn =
+        columnSchema.columns.find((column) => column.field === 'コメント') ??
+        columnSchema.columns.find((column) =>
+          Object.values(ANALYSIS_COLUMN_LABELS).some(({ comment }) => comment === column.name)
+        );
+      const planColumns = columnSchema.columns.filter((column) => column !== commentColumn);
+
       // Prepare header row
       const headers = [
-        'No',
-        'タイトル',
-        '目的',
-        '内容（概要）',
-        '感情的ニーズ',
-        '機能的ニーズ',
-        '成果的ニーズ',
-        'ニーズ（複数）',
-        'ターゲット',
-        '職種／部署',
-        'レベル',
-        '構成',
-        'コメント',
+        ...planColumns.map((column) => column.name),
+        analysisLabels.keywords,
+        analysisLabels.score,
+        analysisLabels.sources,
+        commentColumn?.name ?? analysisLabels.comment,
       ];
 
       // Prepare data rows
       const rows = plans.map((plan) => [
-        plan.no.toString(),
-        plan.タイトル,
-        plan.目的,
-        plan.内容概要,
-        plan.感情的ニーズ,
-        plan.機能的ニーズ,
-        plan.成果的ニーズ,
-        plan.ニーズ複数,
-        plan.ターゲット,
-        plan.職種部署,
-        plan.レベル,
-        plan.構成,
-        plan.コメント,
+        ...planColumnValues(plan, planColumns),
+        formatPlanKeywords(plan.対象キーワード, cellLabels),
+        formatPlanScore(plan.品質スコア),
+        formatSourceReferences(plan.出典),
+        commentColumn ? planColumnValues(plan, [commentColumn])[0]! : '',
       ]);
 
       // Combine headers and data
@@ -196,6 +253,27 @@ export class SheetsService {
                 fields: 'userEnteredFormat(backgroundColor,textFormat)',
               },
             },
+            {
+              updateCells: {
+                range: {
+                  sheetId: sheetId,
+                  startRowIndex: 0,
+                  endRowIndex: 1,
+                  startColumnIndex: 0,
+                  endColumnIndex: headers.length,
+                },
+                rows: [
+                  {
+                    values: headers.map((header) => ({
+                      note: columnSchema.columns.find((column) => column.name === header)
+                        ?.description,
+                    })),
+                  },
+                ],
+                fields: 'note',
+              },
+            },
+            ...buildClaimHighlights(plans, headers, columnSchema.columns, sheetId, cellLabels),
             {
               deleteDimension: {
                 range: {
@@ -214,6 +292,82 @@ export class SheetsService {
     }
   }
 
+  /**
+   * Adds the Backlog sheet with its first entry
+   *
+   * The sheet has the same columns as the one the rewriter script logs to,
+   * so later rewrite runs append below the generation entry.
+   * @param spreadsheetId - The ID of the spreadsheet
+   * @param status - Status of the entry (e.g. GENERATED)
+   * @param message - Human-readable message
+   * @param details - Details, written as JSON
+   * @returns Promise that resolves when the sheet is written
+   * @throws {Error} If the sheet cannot be added or written
+   * @example
+   * ```typescript
+   * await service.writeBacklog(spreadsheetId, 'GENERATED', 'Generated 5 plans', {
+   *   prompts: { profile: 'default', versions: { 'plan.system': '1' } },
+   * });
+   * ```
+   */
+  async writeBacklog(
+    spreadsheetId: string,
+    status: string,
+    message: string,
+    details: Record<string, unknown>
+  ): Promise<void> {
+    try {
+      const response = await this.sheets.spreadsheets.batchUpdate({
+        spreadsheetId,
+        requestBody: {
+          requests: [{ addSheet: { properties: { title: BACKLOG_SHEET } } }],
+        },
+      });
+
+      const sheetId = response.data.replies?.[0]?.addSheet?.properties?.sheetId;
+      if (sheetId === undefined || sheetId === null) {
+        throw new Error('No sheet ID returned');
+      }
+
+      const entry = [new Date().toISOString(), 'INFO', -1, status, message, JSON.stringify(details)];
+      await this.sheets.spreadsheets.batchUpdate({
+        spreadsheetId,
+        requestBody: {
+          requests: [
+            {
+              updateCells: {
+                range: { sheetId, startRowIndex: 0, endRowIndex: 2 },
+                rows: [
+                  {
+                    values: BACKLOG_HEADERS.map((header) => ({
+                      userEnteredValue: { stringValue: header },
+                      userEnteredFormat: {
+                        backgroundColor: { red: 0.1, green: 0.1, blue: 0.1 },
+                        textFormat: {
+                          foregroundColor: { red: 1, green: 1, blue: 1 },
+                          bold: true,
+                        },
+                      },
+                    })),
+                  },
+                  {
+                    values: entry.map((value) => ({
+                      userEnteredValue:
+                        typeof value === 'number' ? { numberValue: value } : { stringValue: value },
+                    })),
+                  },
+                ],
+                fields: 'userEnteredValue,userEnteredFormat(backgroundColor,textFormat)',
+              },
+            },
+          ],
+        },
+      });
+    } catch (error) {
+      throw new Error(`Failed to write backlog: ${(error as Error).message}`);
+    }
+  }
+
   /**
    * Moves the spreadsheet to a specified Google Drive folder
    * @param spreadsheetId - The ID of the spreadsheet to move
@@ -268,3 +422,100 @@ export class SheetsService {
     return `https://docs.google.com/spreadsheets/d/${spreadsheetId}/edit`;
   }
 }
+
+/**
+ * Formats the keywords of a plan for the 対象キーワード cell
+ * (`主: X` and, when there are any, `副: a, b` on a second line)
+ */
+function formatPlanKeywords(
+  keywords: PlanKeywords | undefined,
+  labels: (typeof CELL_LABELS)[OutputLanguage]
+): string {
+  if (!keywords) {
+    return '';
+  }
+  const primary = `${labels.primary}: ${keywords.primary}`;
+  return keywords.secondary.length > 0
+    ? `${primary}\n${labels.secondary}: ${keywords.secondary.join(', ')}`
+    : primary;
+}
+
+/**
+ * Formats a review score for the 品質スコア cell (the score, then one line
+ * per issue)
+ */
+function formatPlanScore(score: PlanScore | undefined): string {
+  if (!score) {
+    return '';
+  }
+  return [String(score.score), ...score.issues.map((issue) => `- ${issue.message}`)].join('\n');
+}
+
+/**
+ * Builds requests that highlight the cells with unsupported claims and
+ * attach a note listing them
+ */
+function buildClaimHighlights(
+  plans: WhitepaperPlan[],
+  headers: string[],
+  columns: ColumnDefinition[],
+  sheetId: number,
+  labels: (typeof CELL_LABELS)[OutputLanguage]
+): sheets_v4.Schema$Request[] {
+  return plans.flatMap((plan, index) => {
+    const claimsByField = new Map<UnsupportedClaim['field'], UnsupportedClaim[]>();
+    for (const claim of plan.未確認の主張 ?? []) {
+      claimsByField.set(claim.field, [...(claimsByField.get(claim.field) ?? []), claim]);
+    }
+
+    return [...claimsByField].flatMap(([field, claims]) => {
+      const name = columns.find((definition) => definition.field === field)?.name;
+      const column = name === undefined ? -1 : headers.indexOf(name);
+      if (column < 0) {
+        return [];
+      }
+      return {
+        repeatCell: {
+          range: {
+            sheetId,
+            startRowIndex: index + 1,
+            endRowIndex: index + 2,
+            startColumnIndex: column,
+            endColumnIndex: column + 1,
+          },
+          cell: {
+            note: [
+              labels.unsupportedClaims,
+              ...claims.map((claim) => labels.claim(claim.text, labels.claimTypes[claim.type])),
+            ].join('\n'),
+            userEnteredFormat: {
+              backgroundColor: {
+                red: 1,
+                green: 0.9,
+                blue: 0.6,
+              },
+            },
+          },
+          fields: 'note,userEnteredFormat.backgroundColor',
+        },
+      };
+    });
+  });
+}
+
+/**
+ * Formats the cited passages for the 出典 cell, one per line
+ * (`S3 営業資料.pdf p.4 ¶2`)
+ */
+function formatSourceReferences(references: SourceReference[] | undefined): string {
+  return (references ?? [])
+    .map((reference) =>
+      [
+        reference.id,
+        reference.label,
+        ...(reference.page !== undefined ? [`p.${reference.page}`] : []),
+        `¶${reference.paragraph}`,
+      ].join(' ')
+    )
+    .join('\n');
+}
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import {
+  numberPassages,
+  resolveSourceReferences,
+  sourceText,
+  splitPagePassages,
+  splitPassages,
+} from './source-passages';
+import type { ParsedContext } from '../types/index';
+
+describe('splitPassages', () => {
+  it('should group short paragraphs and split long ones', () => {
+    const long = '導入効果の説明です。'.repeat(100);
+
+    const passages = splitPassages(`製品概要\n\n主な機能\n\n\n${long}`, {
+      source: 'sales',
+      label: 'deck.docx',
+    });
+
+    expect(passages[0]).toEqual({
+      source: 'sales',
+      label: 'deck.docx',
+      paragraph: 1,
+      text: '製品概要\n\n主な機能',
+    });
+    expect(passages.map((passage) => passage.paragraph)).toEqual([1, 2, 3]);
+    expect(passages.every((passage) => passage.text.length <= 800)).toBe(true);
+    expect(passages.slice(1).map((passage) => passage.text).join('')).toBe(long);
+  });
+
+  it('should number passages by slide in extracted PowerPoint text', () => {
+    const passages = splitPassages('## スライド 1: 概要\n\n製品紹介\n\n## スライド 2: 事例\n\nA社で工数30%削減', {
+      source: 'sales',
+      label: 'deck.pptx',
+    });
+
+    expect(passages.map(({ page, paragraph }) => ({ page, paragraph }))).toEqual([
+      { page: 1, paragraph: 1 },
+      { page: 2, paragraph: 1 },
+    ]);
+    expect(passages[1]?.text).toBe('## スライド 2: 事例\n\nA社で工数30%削減');
+  });
+
+  it('should recognize slide headings of other output languages', () => {
+    const passages = splitPassages('## Slide 1: Overview\n\nProduct\n\n## 幻灯片 2: 案例\n\n工时减少30%', {
+      source: 'sales',
+      label: 'deck.pptx',
+    });
+
+    expect(passages.map((passage) => passage.page)).toEqual([1, 2]);
+  });
+});
+
+describe('splitPagePassages', () => {
+  it('should keep page numbers and figure summaries', () => {
+    const passages = splitPagePassages(
+      [
+        { page: 1, text: '表紙', confidence: 1, source: 'text_layer' },
+        { page: 3, text: '導入フロー', confidence: 1, source: 'ocr', diagramSummary: '3ステップの図' },
+      ],
+      { source: 'sales', label: 'sales.pdf' }
+    );
+
+    expect(passages).toEqual([
+      { source: 'sales', label: 'sales.pdf', page: 1, paragraph: 1, text: '表紙' },
+      {
+        source: 'sales',
+        label: 'sales.pdf',
+        page: 3,
+        paragraph: 1,
+        text: '導入フロー\n\n【図表要約（p.3）】\n3ステップの図',
+      },
+    ]);
+  });
+});
+
+describe('sourceText', () => {
+  const passages = numberPassages([
+    { source: 'sales', label: 'a.pdf', page: 1, paragraph: 1, text: '概要' },
+    { source: 'target', label: 'テキスト入力', paragraph: 1, text: '製造業' },
+    { source: 'sales', label: 'a.pdf', page: 2, paragraph: 1, text: '事例' },
+  ]);
+  const context: ParsedContext = { salesText: '概要\n\n事例', targetText: '製造業', keywords: [], passages };
+
+  it('should list passages with their ids', () => {
+    expect(passages.map((passage) => passage.id)).toEqual(['S1', 'T1', 'S2']);
+    expect(sourceText(context, 'sales')).toBe('[S1] 概要\n\n[S2] 事例');
+    expect(sourceText(context, 'target')).toBe('[T1] 製造業');
+  });
+
+  it('should return the text of summarized or unsplit sources', () => {
+    const summarized: ParsedContext = {
+      ...context,
+      salesText: '[S2] 事例の要約',
+      summarizedSources: [
+        { source: 'sales', originalTokens: 100, summaryTokens: 10, chunks: 1, truncated: false },
+      ],
+    };
+
+    expect(sourceText(summarized, 'sales')).toBe('[S2] 事例の要約');
+    expect(sourceText({ ...context, passages: undefined }, 'sales')).toBe('概要\n\n事例');
+  });
+});
+
+describe('resolveSourceReferences', () => {
+  it('should resolve known ids once, in citation order', () => {
+    const passages = numberPassages([
+      { source: 'sales', label: 'a.pdf', page: 1, paragraph: 1, text: '概要' },
+      { source: 'sales', label: 'a.pdf', page: 2, paragraph: 1, text: '事例' },
+    ]);
+
+    expect(resolveSourceReferences(['[S2]', 'S9', 's1', 'S2'], passages)).toEqual([
+      { id: 'S2', source: 'sales', label: 'a.pdf', page: 2, paragraph: 1 },
+      { id: 'S1', source: 'sales', label: 'a.pdf', page: 1, paragraph: 1 },
+    ]);
+    expect(resolveSourceReferences(['S1'])).toEqual([]);
+  });
+});
@@ -0,0 +1,215 @@
+import { DEFAULT_OUTPUT_LANGUAGE, SOURCE_LABELS } from './output-language.js';
+import { renderTemplate } from './prompt-templates.js';
+import type {
+  OutputLanguage,
+  ParsedContext,
+  PdfPageText,
+  SourcePassage,
+  SourceReference,
+} from '../types/index.js';
+
+/**
+ * Where a text was read from, before it is split into passages
+ */
+export interface PassageOrigin {
+  source: 'sales' | 'target';
+  /** File name, URL or input name shown to editors */
+  label: string;
+  /** 1-based PDF page or slide number */
+  page?: number;
+}
+
+/**
+ * Maximum characters of one passage; longer paragraphs are split
+ */
+const MAX_PASSAGE_CHARS = 800;
+
+/**
+ * Slide headings written by the PowerPoint extractor in any output language
+ * (`## スライド 3: 導入効果`, `## Slide 3: Results`, `## 幻灯片 3: 成果`)
+ */
+const SLIDE_HEADING = /^## (?:スライド|Slide|幻灯片) (\d+)/;
+
+/**
+ * Splits a text into passages of whole paragraphs
+ *
+ * Consecutive paragraphs are grouped up to 800 characters, and longer
+ * paragraphs are split at line or sentence ends. `paragraph` numbers the
+ * passages within each page. In extracted PowerPoint text, each `## スライド
+ * N` heading starts page N.
+ *
+ * @param text - Extracted text of a document, page or web page
+ * @param origin - Source, label and page of the text
+ * @returns Passages without ids, in text order (see `numberPassages`)
+ *
+ * @example
+ * ```typescript
+ * splitPassages('導入効果\n\n工数30%削減', { source: 'sales', label: 'deck.pdf', page: 4 });
+ * // [{ source: 'sales', label: 'deck.pdf', page: 4, paragraph: 1, text: '導入効果\n\n工数30%削減' }]
+ * ```
+ */
+export function splitPassages(
+  text: string,
+  origin: PassageOrigin
+): Array<Omit<SourcePassage, 'id'>> {
+  const passages: Array<Omit<SourcePassage, 'id'>> = [];
+  let page = origin.page;
+  let paragraph = 0;
+  let current: string[] = [];
+
+  const flush = (): void => {
+    if (current.length > 0) {
+      passages.push({
+        source: origin.source,
+        label: origin.label,
+        ...(page !== undefined && { page }),
+        paragraph: ++paragraph,
+        text: current.join('\n\n'),
+      });
+      current = [];
+    }
+  };
+
+  for (const block of text.split(/\n\s*\n/)) {
+    const trimmed = block.trim();
+    if (trimmed === '') {
+      continue;
+    }
+
+    const slide = trimmed.match(SLIDE_HEADING);
+    if (slide) {
+      flush();
+      page = parseInt(slide[1]!, 10);
+      paragraph = 0;
+    }
+
+    for (const piece of splitLongParagraph(trimmed)) {
+      if (current.join('\n\n').length + piece.length > MAX_PASSAGE_CHARS) {
+        flush();
+      }
+      current.push(piece);
+    }
+  }
+  flush();
+
+  return passages;
+}
+
+/**
+ * Splits the pages of a PDF into passages, including figure summaries
+ *
+ * @param pages - Extracted pages
+ * @param origin - Source and label of the PDF
+ * @param language - Language of the figure summary headings (default: ja)
+ * @returns Passages without ids, in page order
+ */
+export function splitPagePassages(
+  pages: PdfPageText[],
+  origin: Omit<PassageOrigin, 'page'>,
+  language: OutputLanguage = DEFAULT_OUTPUT_LANGUAGE
+): Array<Omit<SourcePassage, 'id'>> {
+  const { diagramSummary } = SOURCE_LABELS[language];
+  return pages.flatMap((page) =>
+    splitPassages(
+      page.diagramSummary
+        ? `${page.text}\n\n${renderTemplate(diagramSummary, { page: String(page.page) })}\n${page.diagramSummary}`
+        : page.text,
+      { ...origin, page: page.page }
+    )
+  );
+}
+
+/**
+ * Gives passages ids: `S1`, `S2`, … for sales and `T1`, `T2`, … for target
+ *
+ * @param passages - Passages of both sources
+ * @returns The passages with ids
+ */
+export function numberPassages(passages: Array<Omit<SourcePassage, 'id'>>): SourcePassage[] {
+  const counts = { sales: 0, target: 0 };
+  return passages.map((passage) => ({
+    id: `${passage.source === 'sales' ? 'S' : 'T'}${++counts[passage.source]}`,
+    ...passage,
+  }));
+}
+
+/**
+ * Returns the text of a source as shown to the LLM
+ *
+ * Passages are listed with their ids (`[S1] ...`) so that plans can cite
+ * them. A summarized source is returned as its summary, which keeps the ids
+ * of the passages it summarizes.
+ *
+ * @param context - Parsed context
+ * @param source - Sales or target
+ * @returns Text of the source, with passage ids when available
+ *
+ * @example
+ * ```typescript
+ * sourceText(context, 'sales');
+ * // '[S1] 営業支援ツール「Sales Hub」の概要…\n\n[S2] 導入企業の成果…'
+ * ```
+ */
+export function sourceText(context: ParsedContext, source: 'sales' | 'target'): string {
+  const text = source === 'sales' ? context.salesText : context.targetText;
+  if (context.summarizedSources?.some((summarized) => summarized.source === source)) {
+    return text;
+  }
+
+  const passages = (context.passages ?? []).filter((passage) => passage.source === source);
+  return passages.length > 0
+    ? passages.map((passage) => `[${passage.id}] ${passage.text}`).join('\n\n')
+    : text;
+}
+
+/**
+ * Looks up the passages cited by a plan
+ *
+ * @param ids - Passage ids from the LLM output, e.g. `['S3', 's12']`
+ * @param passages - Passages of the context
+ * @returns References to the known passages, deduplicated, in citation order
+ */
+export function resolveSourceReferences(
+  ids: string[],
+  passages: SourcePassage[] = []
+): SourceReference[] {
+  const byId = new Map(passages.map((passage) => [passage.id, passage]));
+  const unique = [...new Set(ids.map((id) => id.trim().replace(/^\[|\]$/g, '').toUpperCase()))];
+
+  return unique.flatMap((id) => {
+    const passage = byId.get(id);
+    if (!passage) {
+      return [];
+    }
+    const { text: _text, ...reference } = passage;
+    return [reference];
+  });
+}
+
+/**
+ * Splits a paragraph longer than a passage at line ends, then at sentence
+ * ends, then at the length limit
+ */
+function splitLongParagraph(paragraph: string): string[] {
+  if (paragraph.length <= MAX_PASSAGE_CHARS) {
+    return [paragraph];
+  }
+
+  const pieces: string[] = [];
+  let current = '';
+  for (const unit of paragraph.split(/(?<=\n)|(?<=[。！？!?])/)) {
+    if (current.length + unit.length > MAX_PASSAGE_CHARS && current !== '') {
+      pieces.push(current.trim());
+      current = '';
+    }
+    current += unit;
+    while (current.length > MAX_PASSAGE_CHARS) {
+      pieces.push(current.slice(0, MAX_PASSAGE_CHARS).trim());
+      current = current.slice(MAX_PASSAGE_CHARS);
+    }
+  }
+  if (current.trim() !== '') {
+    pieces.push(current.trim());
+  }
+  return pieces;
+}
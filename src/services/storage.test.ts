@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
-import { StorageService, MulterFile, StorageServiceConfig } from './storage';
+import { StorageService, MulterFile, StorageServiceConfig, createStorageService } from './storage';
+import { LocalStorageService } from './local-storage';
 import { Storage, Bucket, File } from '@google-cloud/storage';
 
 // Mock @google-cloud/storage
@@ -7,6 +8,7 @@ vi.mock('@google-cloud/storage', () => {
   const mockFile = {
     createWriteStream: vi.fn(),
     makePublic: vi.fn(),
+    getSignedUrl: vi.fn(),
     exists: vi.fn(),
     download: vi.fn(),
     delete: vi.fn(),
@@ -100,19 +102,35 @@ describe('StorageService', () => {
       };
 
       vi.spyOn(mockFile, 'createWriteStream').mockReturnValue(mockStream as any);
-      vi.spyOn(mockFile, 'makePublic').mockResolvedValue([{} as any]);
+      vi.spyOn(mockFile, 'getSignedUrl').mockResolvedValue(['https://signed.example/url'] as any);
     });
 
-    it('should upload file successfully', async () => {
+    it('should upload file successfully and keep it private', async () => {
       const result = await storageService.uploadFile(mockMulterFile);
 
       expect(result).toMatchObject({
-        publicUrl: expect.stringContaining('https://storage.googleapis.com/test-bucket/'),
         size: 1024,
         contentType: 'application/pdf',
       });
       expect(result.fileName).toMatch(/^\d+-test-document\.pdf$/);
-      expect(mockFile.makePublic).toHaveBeenCalled();
+      expect(result.signedUrl).toBeUndefined();
+      expect(mockFile.makePublic).not.toHaveBeenCalled();
+      expect(mockFile.getSignedUrl).not.toHaveBeenCalled();
+    });
+
+    it('should return a signed URL when a TTL is given', async () => {
+      const now = Date.now();
+      vi.spyOn(Date, 'now').mockReturnValue(now);
+
+      const result = await storageService.uploadFile(mockMulterFile, { signedUrlTtlSeconds: 600 });
+
+      expect(result.signedUrl).toBe('https://signed.example/url');
+      expect(mockFile.getSignedUrl).toHaveBeenCalledWith({
+        version: 'v4',
+        action: 'read',
+        expires: now + 600 * 1000,
+      });
+      expect(mockFile.makePublic).not.toHaveBeenCalled();
     });
 
     it('should throw error if file is missing', async () => {
@@ -439,6 +457,48 @@ describe('StorageService', () => {
     });
   });
 
+  describe('getSignedUrl', () => {
+    it('should sign a read URL for an existing file', async () => {
+      vi.spyOn(mockFile, 'exists').mockResolvedValue([true] as any);
+      vi.spyOn(mockFile, 'getSignedUrl').mockResolvedValue(['https://signed.example/url'] as any);
+
+      const url = await storageService.getSignedUrl('test.pdf', 300);
+
+      expect(url).toBe('https://signed.example/url');
+      expect(mockBucket.file).toHaveBeenCalledWith('test.pdf');
+      expect(mockFile.getSignedUrl).toHaveBeenCalledWith(
+        expect.objectContaining({ version: 'v4', action: 'read' })
+      );
+    });
+
+    it('should throw error if file does not exist', async () => {
+      vi.spyOn(mockFile, 'exists').mockResolvedValue([false] as any);
+
+      await expect(storageService.getSignedUrl('missing.pdf', 300)).rejects.toThrow(
+        'Failed to get signed URL: File not found: missing.pdf'
+      );
+    });
+
+    it('should throw error if file name is empty', async () => {
+      await expect(storageService.getSignedUrl('', 300)).rejects.toThrow(
+        'Failed to get signed URL: File name is required'
+      );
+    });
+
+    it('should reject TTLs outside the V4 signing limit', async () => {
+      vi.spyOn(mockFile, 'exists').mockResolvedValue([true] as any);
+      vi.spyOn(mockFile, 'getSignedUrl').mockResolvedValue(['https://signed.example/url'] as any);
+
+      await expect(storageService.getSignedUrl('test.pdf', 0)).rejects.toThrow(
+        'Signed URL TTL must be between 1 and 604800 seconds: 0'
+      );
+      await expect(storageService.getSignedUrl('test.pdf', 604801)).rejects.toThrow(
+        'Signed URL TTL must be between 1 and 604800 seconds'
+      );
+      expect(mockFile.getSignedUrl).not.toHaveBeenCalled();
+    });
+  });
+
   describe('edge cases', () => {
     it('should handle very large files', async () => {
       const largeBuffer = Buffer.alloc(10 * 1024 * 1024); // 10MB
@@ -462,7 +522,6 @@ describe('StorageService', () => {
       };
 
       vi.spyOn(mockFile, 'createWriteStream').mockReturnValue(mockStream as any);
-      vi.spyOn(mockFile, 'makePublic').mockResolvedValue([{} as any]);
 
       const result = await storageService.uploadFile(largeFile);
 
@@ -495,3 +554,53 @@ describe('StorageService', () => {
     });
   });
 });
+
+describe('createStorageService', () => {
+  const envKeys = ['STORAGE_BACKEND', 'GCS_BUCKET_NAME', 'LOCAL_STORAGE_DIR'] as const;
+  const originalEnv: Record<string, string | undefined> = {};
+
+  beforeEach(() => {
+    envKeys.forEach((key) => {
+      originalEnv[key] = process.env[key];
+      delete process.env[key];
+    });
+  });
+
+  afterEach(() => {
+    envKeys.forEach((key) => {
+      if (originalEnv[key] === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = originalEnv[key];
+      }
+    });
+  });
+
+  it('should use Cloud Storage when a bucket is configured', () => {
+    process.env.GCS_BUCKET_NAME = 'test-bucket';
+
+    expect(createStorageService()).toBeInstanceOf(StorageService);
+  });
+
+  it('should fall back to local storage without a bucket', () => {
+    process.env.LOCAL_STORAGE_DIR = '/tmp/uploads';
+
+    const service = createStorageService();
+
+    expect(service).toBeInstanceOf(LocalStorageService);
+    expect((service as any).rootDir).toBe('/tmp/uploads');
+  });
+
+  it('should honor STORAGE_BACKEND over the bucket setting', () => {
+    process.env.GCS_BUCKET_NAME = 'test-bucket';
+    process.env.STORAGE_BACKEND = 'local';
+
+    expect(createStorageService()).toBeInstanceOf(LocalStorageService);
+  });
+
+  it('should throw error for an unknown backend', () => {
+    process.env.STORAGE_BACKEND = 's3';
+
+    expect(() => createStorageService()).toThrow('Invalid STORAGE_BACKEND: s3. Expected one of: gcs, local');
+  });
+});
@@ -1,4 +1,5 @@
 import { Storage, File, Bucket } from '@google-cloud/storage';
+import { LocalStorageService } from './local-storage.js';
 
 /**
  * Configuration options for StorageService
@@ -9,12 +10,39 @@ export interface StorageServiceConfig {
   bucketName: string;
 }
 
+/**
+ * Storage backends selectable with `STORAGE_BACKEND`
+ */
+export type StorageBackendName = 'gcs' | 'local';
+
+/**
+ * Default directory for the local backend when `LOCAL_STORAGE_DIR` is unset
+ */
+export const DEFAULT_LOCAL_STORAGE_DIR = '.local-storage';
+
+/**
+ * Longest signed URL lifetime Cloud Storage accepts (V4 signing: 7 days)
+ */
+export const MAX_SIGNED_URL_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * Options for uploading a file
+ */
+export interface UploadOptions {
+  /**
+   * When set, the result includes a signed read URL valid for this many
+   * seconds. Uploaded files are always private.
+   */
+  signedUrlTtlSeconds?: number;
+}
+
 /**
  * Upload result metadata
  */
 export interface UploadResult {
   fileName: string;
-  publicUrl: string;
+  /** Signed read URL, only present when requested via `signedUrlTtlSeconds` */
+  signedUrl?: string;
   size: number;
   contentType: string;
   uploadedAt: string;
@@ -37,6 +65,44 @@ export interface MulterFile {
   stream?: NodeJS.ReadableStream;
 }
 
+/**
+ * Stored file metadata
+ */
+export interface FileMetadata {
+  name: string;
+  size: number;
+  contentType: string;
+  created: string;
+  updated: string;
+}
+
+/**
+ * Batch deletion summary
+ */
+export interface DeleteFilesResult {
+  deleted: number;
+  failed: number;
+  errors: Array<{ fileName: string; error: string }>;
+}
+
+/**
+ * Storage backend interface
+ *
+ * Implemented by the Cloud Storage `StorageService` and the local-disk
+ * `LocalStorageService`. Both use the same file naming, error messages and
+ * return shapes, so callers can switch backends through configuration.
+ */
+export interface StorageBackend {
+  uploadFile(file: MulterFile, options?: UploadOptions): Promise<UploadResult>;
+  downloadFile(fileName: string): Promise<Buffer>;
+  deleteFile(fileName: string): Promise<void>;
+  deleteFiles(fileNames: string[]): Promise<DeleteFilesResult>;
+  listFiles(prefix?: string): Promise<string[]>;
+  getFileMetadata(fileName: string): Promise<FileMetadata>;
+  fileExists(fileName: string): Promise<boolean>;
+  getSignedUrl(fileName: string, ttlSeconds: number): Promise<string>;
+}
+
 /**
  * StorageService
  *
@@ -53,7 +119,7 @@ export interface MulterFile {
  *
  * // Upload a file
  * const result = await storageService.uploadFile(multerFile);
- * console.log(`File uploaded to: ${result.publicUrl}`);
+ * console.log(`File uploaded as: ${result.fileName}`);
  *
  * // Download a file
  * const buffer = await storageService.downloadFile('file.pdf');
@@ -62,7 +128,7 @@ export interface MulterFile {
  * await storageService.deleteFiles(['file1.pdf', 'file2.pdf']);
  * ```
  */
-export class StorageService {
+export class StorageService implements StorageBackend {
   private storage: Storage;
   private bucketName: string;
   private bucket: Bucket;
@@ -99,19 +165,23 @@ export class StorageService {
   /**
    * Uploads a file to Cloud Storage
    *
+   * The object stays private; request a signed URL through `options` (or
+   * `getSignedUrl`) when a URL is really needed.
+   *
    * @param file - The file to upload (from multer middleware)
-   * @returns Upload result with public URL and metadata
+   * @param options - Upload options (signed URL lifetime)
+   * @returns Upload result with metadata and, if requested, a signed URL
    * @throws {Error} If upload fails or file is invalid
    *
    * @example
    * ```typescript
    * app.post('/upload', upload.single('file'), async (req, res) => {
-   *   const result = await storageService.uploadFile(req.file);
-   *   res.json({ url: result.publicUrl });
+   *   const result = await storageService.uploadFile(req.file, { signedUrlTtlSeconds: 600 });
+   *   res.json({ url: result.signedUrl });
    * });
    * ```
    */
-  async uploadFile(file: MulterFile): Promise<UploadResult> {
+  async uploadFile(file: MulterFile, options: UploadOptions = {}): Promise<UploadResult> {
     try {
       if (!file || !file.buffer) {
         throw new Error('Invalid file: file or buffer is missing');
@@ -147,15 +217,14 @@ export class StorageService {
         blobStream.end(file.buffer);
       });
 
-      // Make file publicly accessible
-      await blob.makePublic();
-
-      // Get public URL
-      const publicUrl = `https://storage.googleapis.com/${this.bucketName}/${fileName}`;
+      const signedUrl =
+        options.signedUrlTtlSeconds !== undefined
+          ? await this.signReadUrl(blob, options.signedUrlTtlSeconds)
+          : undefined;
 
       return {
         fileName,
-        publicUrl,
+        ...(signedUrl && { signedUrl }),
         size: file.size,
         contentType: file.mimetype,
         uploadedAt: new Date().toISOString(),
@@ -253,19 +322,15 @@ export class StorageService {
    * console.log(`Deleted: ${result.deleted}, Failed: ${result.failed}`);
    * ```
    */
-  async deleteFiles(fileNames: string[]): Promise<{
-    deleted: number;
-    failed: number;
-    errors: Array<{ fileName: string; error: string }>;
-  }> {
+  async deleteFiles(fileNames: string[]): Promise<DeleteFilesResult> {
     if (!Array.isArray(fileNames) || fileNames.length === 0) {
       throw new Error('File names array is required and must not be empty');
     }
 
-    const results = {
+    const results: DeleteFilesResult = {
       deleted: 0,
       failed: 0,
-      errors: [] as Array<{ fileName: string; error: string }>,
+      errors: [],
     };
 
     // Process deletions in parallel
@@ -323,13 +388,7 @@ export class StorageService {
    * console.log(`File size: ${metadata.size} bytes`);
    * ```
    */
-  async getFileMetadata(fileName: string): Promise<{
-    name: string;
-    size: number;
-    contentType: string;
-    created: string;
-    updated: string;
-  }> {
+  async getFileMetadata(fileName: string): Promise<FileMetadata> {
     try {
       if (!fileName || fileName.trim() === '') {
         throw new Error('File name is required');
@@ -386,4 +445,105 @@ export class StorageService {
       return false;
     }
   }
+
+  /**
+   * Creates a time-limited read URL for a private file
+   *
+   * @param fileName - The name of the file
+   * @param ttlSeconds - URL lifetime in seconds (max 7 days)
+   * @returns V4 signed URL
+   * @throws {Error} If file name is empty, TTL is invalid or file not found
+   *
+   * @example
+   * ```typescript
+   * const url = await storageService.getSignedUrl('report.pdf', 15 * 60);
+   * res.redirect(url);
+   * ```
+   */
+  async getSignedUrl(fileName: string, ttlSeconds: number): Promise<string> {
+    try {
+      if (!fileName || fileName.trim() === '') {
+        throw new Error('File name is required');
+      }
+
+      const file = this.bucket.file(fileName);
+      const [exists] = await file.exists();
+
+      if (!exists) {
+        throw new Error(`File not found: ${fileName}`);
+      }
+
+      return await this.signReadUrl(file, ttlSeconds);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Failed to get signed URL: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Signs a V4 read URL for a file
+   * @private
+   */
+  private async signReadUrl(file: File, ttlSeconds: number): Promise<string> {
+    validateSignedUrlTtl(ttlSeconds);
+
+    const [url] = await file.getSignedUrl({
+      version: 'v4',
+      action: 'read',
+      expires: Date.now() + ttlSeconds * 1000,
+    });
+    return url;
+  }
+}
+
+/**
+ * Checks that a signed URL lifetime is a positive number of seconds within
+ * the Cloud Storage limit
+ *
+ * @param ttlSeconds - URL lifetime in seconds
+ * @throws {Error} If the lifetime is out of range
+ */
+export function validateSignedUrlTtl(ttlSeconds: number): void {
+  if (!Number.isFinite(ttlSeconds) || ttlSeconds <= 0 || ttlSeconds > MAX_SIGNED_URL_TTL_SECONDS) {
+    throw new Error(
+      `Signed URL TTL must be between 1 and ${MAX_SIGNED_URL_TTL_SECONDS} seconds: ${ttlSeconds}`
+    );
+  }
+}
+
+/**
+ * Creates the storage backend selected by environment variables
+ *
+ * `STORAGE_BACKEND` selects `gcs` or `local`. When it is unset, Cloud Storage
+ * is used if `GCS_BUCKET_NAME` is set and the local disk otherwise, so the
+ * app runs without GCP credentials in development. The local backend stores
+ * files under `LOCAL_STORAGE_DIR` (default: `.local-storage`).
+ *
+ * @returns Storage backend instance
+ * @throws {Error} If `STORAGE_BACKEND` is unknown or the GCS bucket name is missing
+ *
+ * @example
+ * ```typescript
+ * process.env.STORAGE_BACKEND = 'local';
+ * const storageService = createStorageService();
+ * const { fileName } = await storageService.uploadFile(multerFile);
+ * ```
+ */
+export function createStorageService(): StorageBackend {
+  const backend = process.env.STORAGE_BACKEND || (process.env.GCS_BUCKET_NAME ? 'gcs' : 'local');
+
+  switch (backend) {
+    case 'gcs':
+      return new StorageService({
+        projectId: process.env.GCP_PROJECT_ID,
+        keyFilename: process.env.GOOGLE_APPLICATION_CREDENTIALS,
+        bucketName: process.env.GCS_BUCKET_NAME || '',
+      });
+    case 'local':
+      return new LocalStorageService({
+        rootDir: process.env.LOCAL_STORAGE_DIR || DEFAULT_LOCAL_STORAGE_DIR,
+      });
+    default:
+      throw new Error(`Invalid STORAGE_BACKEND: ${backend}. Expected one of: gcs, local`);
+  }
 }
@@ -0,0 +1,231 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { fetchHttp, fetchWebPage, isAllowedUrl, type WebFetcher, type WebLookup } from './web-page';
+
+const PRODUCT_PAGE = `<!DOCTYPE html>
+<html>
+<head><title>製品紹介 | Example</title><script>track()</script></head>
+<body>
+  <header><a href="/">Example</a></header>
+  <nav><ul><li>ホーム</li><li>料金</li></ul></nav>
+  <main>
+    <h1>営業支援クラウド</h1>
+    <p>商談管理を自動化し、工数を30%削減します。</p>
+  </main>
+  <footer>&copy; Example Inc.</footer>
+</body>
+</html>`;
+
+/**
+ * Local stub server standing in for the web
+ */
+function createStubServer(): http.Server {
+  return http.createServer((req, res) => {
+    switch (req.url) {
+      case '/product':
+        res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+        res.end(PRODUCT_PAGE);
+        break;
+      case '/old-product':
+        res.writeHead(301, { Location: '/product' });
+        res.end();
+        break;
+      case '/leave':
+        res.writeHead(302, { Location: 'http://internal.example.test/admin' });
+        res.end();
+        break;
+      case '/large':
+        res.writeHead(200, { 'Content-Type': 'text/plain' });
+        res.end('a'.repeat(4096));
+        break;
+      case '/slow':
+        setTimeout(() => {
+          res.writeHead(200, { 'Content-Type': 'text/plain' });
+          res.end('late');
+        }, 500);
+        break;
+      case '/image':
+        res.writeHead(200, { 'Content-Type': 'image/png' });
+        res.end(Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+        break;
+      default:
+        res.writeHead(404, { 'Content-Type': 'text/plain' });
+        res.end('Not Found');
+    }
+  });
+}
+
+describe('fetchWebPage', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  const options = { allowedHosts: ['127.0.0.1'] };
+
+  beforeAll(async () => {
+    server = createStubServer();
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should extract the title and main content without boilerplate', async () => {
+    const page = await fetchWebPage(`${baseUrl}/product`, options);
+
+    expect(page).toEqual({
+      url: `${baseUrl}/product`,
+      title: '製品紹介 | Example',
+      text: '# 営業支援クラウド\n\n商談管理を自動化し、工数を30%削減します。',
+    });
+  });
+
+  it('should follow redirects and report the final URL', async () => {
+    const page = await fetchWebPage(`${baseUrl}/old-product`, options);
+
+    expect(page.url).toBe(`${baseUrl}/product`);
+    expect(page.title).toBe('製品紹介 | Example');
+  });
+
+  it('should reject redirects to hosts that are not allowed', async () => {
+    await expect(fetchWebPage(`${baseUrl}/leave`, options)).rejects.toThrow(
+      `Failed to fetch ${baseUrl}/leave: URL not allowed: http://internal.example.test/admin`
+    );
+  });
+
+  it('should enforce the size limit', async () => {
+    await expect(
+      fetchWebPage(`${baseUrl}/large`, { ...options, maxBytes: 1024 })
+    ).rejects.toThrow('Response exceeds 1024 bytes');
+  });
+
+  it('should enforce the timeout', async () => {
+    await expect(
+      fetchWebPage(`${baseUrl}/slow`, { ...options, timeoutMs: 50 })
+    ).rejects.toThrow(`Failed to fetch ${baseUrl}/slow: Timed out after 50 ms`);
+  });
+
+  it('should reject error statuses and unsupported content types', async () => {
+    await expect(fetchWebPage(`${baseUrl}/missing`, options)).rejects.toThrow('HTTP 404');
+    await expect(fetchWebPage(`${baseUrl}/image`, options)).rejects.toThrow(
+      'Unsupported content type: image/png'
+    );
+  });
+
+  it('should not fetch private hosts unless they are allowed', async () => {
+    await expect(fetchWebPage(`${baseUrl}/product`)).rejects.toThrow(
+      `URL not allowed: ${baseUrl}/product`
+    );
+  });
+
+  it('should use an injected fetcher', async () => {
+    const fetcher = vi.fn<WebFetcher>().mockResolvedValue({
+      status: 200,
+      contentType: 'text/html; charset=shift_jis',
+      body: Buffer.from('<title>Example</title><p>ok</p>'),
+    });
+
+    const lookup = vi.fn<WebLookup>().mockResolvedValue([{ address: '93.184.215.14', family: 4 }]);
+
+    const page = await fetchWebPage('https://example.com/', { fetcher, lookup, maxBytes: 100 });
+
+    expect(page).toEqual({ url: 'https://example.com/', title: 'Example', text: 'ok' });
+    expect(lookup).toHaveBeenCalledWith('example.com');
+    expect(fetcher).toHaveBeenCalledWith(new URL('https://example.com/'), {
+      signal: expect.any(AbortSignal),
+      maxBytes: 100,
+      address: { address: '93.184.215.14', family: 4 },
+    });
+  });
+
+  it('should reject hosts that resolve to a private address', async () => {
+    const fetcher = vi.fn<WebFetcher>();
+    const lookup = vi.fn<WebLookup>().mockResolvedValue([
+      { address: '93.184.215.14', family: 4 },
+      { address: '::ffff:a9fe:a9fe', family: 6 },
+    ]);
+
+    await expect(fetchWebPage('https://rebind.example.com/', { fetcher, lookup })).rejects.toThrow(
+      'URL not allowed: https://rebind.example.com/ (resolves to ::ffff:a9fe:a9fe)'
+    );
+    expect(fetcher).not.toHaveBeenCalled();
+  });
+
+  it('should check the resolved addresses on every redirect', async () => {
+    const fetcher = vi.fn<WebFetcher>().mockResolvedValue({
+      status: 302,
+      location: 'https://internal.example.com/admin',
+      body: Buffer.alloc(0),
+    });
+    const lookup = vi.fn<WebLookup>(async (hostname) => [
+      { address: hostname === 'example.com' ? '93.184.215.14' : '10.0.0.8', family: 4 },
+    ]);
+
+    await expect(fetchWebPage('https://example.com/', { fetcher, lookup })).rejects.toThrow(
+      'URL not allowed: https://internal.example.com/admin (resolves to 10.0.0.8)'
+    );
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('should connect to the checked address', async () => {
+    const port = (server.address() as AddressInfo).port;
+
+    // stub.example.test does not resolve, so the request only succeeds on the given address
+    const response = await fetchHttp(new URL(`http://stub.example.test:${port}/product`), {
+      signal: AbortSignal.timeout(5000),
+      maxBytes: 1024 * 1024,
+      address: { address: '127.0.0.1', family: 4 },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body.toString()).toContain('営業支援クラウド');
+  });
+});
+
+describe('isAllowedUrl', () => {
+  it('should allow listed hosts and their subdomains only', () => {
+    const allowed = ['example.com'];
+
+    expect(isAllowedUrl(new URL('https://example.com/'), allowed)).toBe(true);
+    expect(isAllowedUrl(new URL('https://www.example.com/lp'), allowed)).toBe(true);
+    expect(isAllowedUrl(new URL('https://badexample.com/'), allowed)).toBe(false);
+    expect(isAllowedUrl(new URL('https://example.org/'), allowed)).toBe(false);
+  });
+
+  it('should reject private addresses and other protocols by default', () => {
+    expect(isAllowedUrl(new URL('https://example.com/'))).toBe(true);
+    expect(isAllowedUrl(new URL('http://localhost:8080/'))).toBe(false);
+    expect(isAllowedUrl(new URL('http://10.0.0.5/'))).toBe(false);
+    expect(isAllowedUrl(new URL('http://172.20.1.1/'))).toBe(false);
+    expect(isAllowedUrl(new URL('http://169.254.169.254/latest/meta-data'))).toBe(false);
+    expect(isAllowedUrl(new URL('http://[::1]/'))).toBe(false);
+    expect(isAllowedUrl(new URL('file:///etc/passwd'))).toBe(false);
+  });
+
+  it('should reject IPv4-mapped, numeric and metadata hosts', () => {
+    expect(isAllowedUrl(new URL('http://[::ffff:127.0.0.1]/'))).toBe(false);
+    expect(isAllowedUrl(new URL('http://[::ffff:a9fe:a9fe]/'))).toBe(false);
+    expect(isAllowedUrl(new URL('http://[::]/'))).toBe(false);
+    expect(isAllowedUrl(new URL('http://[fd12:3456::1]/'))).toBe(false);
+    expect(isAllowedUrl(new URL('http://2130706433/'))).toBe(false);
+    expect(isAllowedUrl(new URL('http://0xa9fea9fe/'))).toBe(false);
+    expect(isAllowedUrl(new URL('http://metadata.google.internal/computeMetadata/v1/'))).toBe(false);
+    expect(isAllowedUrl(new URL('http://[2606:2800:220:1::]/'))).toBe(true);
+  });
+
+  it('should reject NAT64, 6to4 and other special-use ranges', () => {
+    expect(isAllowedUrl(new URL('http://[64:ff9b::a9fe:a9fe]/'))).toBe(false);
+    expect(isAllowedUrl(new URL('http://[64:ff9b::10.0.0.1]/'))).toBe(false);
+    expect(isAllowedUrl(new URL('http://[2002:a9fe:a9fe::]/'))).toBe(false);
+    expect(isAllowedUrl(new URL('http://[2002:7f00:1::1]/'))).toBe(false);
+    expect(isAllowedUrl(new URL('http://[ff02::1]/'))).toBe(false);
+    expect(isAllowedUrl(new URL('http://192.0.0.170/'))).toBe(false);
+    expect(isAllowedUrl(new URL('http://198.18.0.1/'))).toBe(false);
+    expect(isAllowedUrl(new URL('http://224.0.0.251/'))).toBe(false);
+    expect(isAllowedUrl(new URL('http://255.255.255.255/'))).toBe(false);
+    expect(isAllowedUrl(new URL('http://93.184.216.34/'))).toBe(true);
+    expect(isAllowedUrl(new URL('http://8.8.8.8/'))).toBe(true);
+  });
+});
@@ -0,0 +1,345 @@
+import * as dns from 'dns';
+import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+import { extractHtmlPage } from './document-text.js';
+
+/**
+ * Response of a single HTTP GET request (redirects are not followed)
+ */
+export interface WebResponse {
+  status: number;
+  /** Content-Type header, if any */
+  contentType?: string;
+  /** Location header of a redirect, if any */
+  location?: string;
+  body: Buffer;
+}
+
+/**
+ * Options of a single HTTP GET request
+ */
+export interface WebFetchOptions {
+  signal: AbortSignal;
+  maxBytes: number;
+  /** Checked address of the host, which the request must connect to */
+  address?: dns.LookupAddress;
+}
+
+/**
+ * Sends one HTTP GET request
+ *
+ * Implementations must not follow redirects, must stop reading the body
+ * once it exceeds `maxBytes`, must honour `signal` and must connect to
+ * `address` when given.
+ */
+export type WebFetcher = (url: URL, options: WebFetchOptions) => Promise<WebResponse>;
+
+/**
+ * Resolves a hostname to all of its addresses
+ */
+export type WebLookup = (hostname: string) => Promise<dns.LookupAddress[]>;
+
+/**
+ * Options for fetching web pages
+ */
+export interface WebPageOptions {
+  /** HTTP client (default: `fetchHttp`, Node's http and https modules) */
+  fetcher?: WebFetcher;
+  /** DNS resolver used to check hosts (default: `dns.lookup`) */
+  lookup?: WebLookup;
+  /** Time limit for a page including redirects (default: 10000 ms) */
+  timeoutMs?: number;
+  /** Maximum response body size (default: 2 MB) */
+  maxBytes?: number;
+  /**
+   * Hosts (and their subdomains) that may be fetched. When empty, any
+   * public host may be fetched, but not localhost or hosts that resolve to
+   * private addresses.
+   */
+  allowedHosts?: string[];
+}
+
+/**
+ * Main content of a fetched web page
+ */
+export interface WebPage {
+  /** Final URL after redirects */
+  url: string;
+  title: string;
+  text: string;
+}
+
+/**
+ * Default time limit for fetching a page
+ */
+export const DEFAULT_URL_TIMEOUT_MS = 10_000;
+
+/**
+ * Default maximum response body size
+ */
+export const DEFAULT_MAX_URL_BYTES = 2 * 1024 * 1024;
+
+/**
+ * Maximum number of redirects followed per page
+ */
+const MAX_REDIRECTS = 5;
+
+/**
+ * Hostnames that are only fetched when explicitly allowed
+ */
+const PRIVATE_HOST_PATTERNS: readonly RegExp[] = [
+  /^localhost$/,
+  /\.localhost$/,
+  /^metadata\.google\.internal$/,
+];
+
+/**
+ * Address ranges that are only fetched when explicitly allowed: unspecified,
+ * loopback, private, shared, link-local, IETF protocol assignments,
+ * benchmarking, multicast, reserved and unique local (IPv4 ranges also
+ * match their IPv4-mapped IPv6 form)
+ */
+const PRIVATE_ADDRESSES = new net.BlockList();
+PRIVATE_ADDRESSES.addSubnet('0.0.0.0', 8, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('10.0.0.0', 8, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('100.64.0.0', 10, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('127.0.0.0', 8, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('169.254.0.0', 16, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('172.16.0.0', 12, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('192.0.0.0', 24, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('192.168.0.0', 16, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('198.18.0.0', 15, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('224.0.0.0', 4, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('240.0.0.0', 4, 'ipv4');
+PRIVATE_ADDRESSES.addAddress('::', 'ipv6');
+PRIVATE_ADDRESSES.addAddress('::1', 'ipv6');
+PRIVATE_ADDRESSES.addSubnet('fc00::', 7, 'ipv6');
+PRIVATE_ADDRESSES.addSubnet('fe80::', 10, 'ipv6');
+PRIVATE_ADDRESSES.addSubnet('ff00::', 8, 'ipv6');
+
+/**
+ * IPv6 ranges that embed an IPv4 address (IPv4-mapped, NAT64 and 6to4),
+ * rejected whatever IPv4 address they carry
+ */
+const IPV4_EMBEDDING_ADDRESSES = new net.BlockList();
+IPV4_EMBEDDING_ADDRESSES.addSubnet('::ffff:0:0', 96, 'ipv6');
+IPV4_EMBEDDING_ADDRESSES.addSubnet('64:ff9b::', 96, 'ipv6');
+IPV4_EMBEDDING_ADDRESSES.addSubnet('2002::', 16, 'ipv6');
+
+/**
+ * Fetches a web page and extracts its title and main content
+ *
+ * Redirects are followed up to 5 times, and every URL on the way must pass
+ * the host check (see `isAllowedUrl`). Without `allowedHosts`, each host is
+ * also resolved, rejected if any of its addresses is private, and the
+ * request connects to the checked address. HTML pages are stripped of
+ * scripts, navigation, footers and other boilerplate; plain text and
+ * Markdown are kept as is.
+ *
+ * @param url - Page URL (http or https)
+ * @param options - Fetcher, limits and allowed hosts
+ * @returns Final URL, title and text of the page
+ * @throws {Error} If the URL is not allowed, the request fails or times out,
+ *   the response is too large or not HTML/text, or the page has no text
+ *
+ * @example
+ * ```typescript
+ * const page = await fetchWebPage('https://example.com/product', {
+ *   allowedHosts: ['example.com'],
+ * });
+ * // { url: 'https://example.com/product', title: '製品紹介', text: '# 製品紹介\n...' }
+ * ```
+ */
+export async function fetchWebPage(url: string, options: WebPageOptions = {}): Promise<WebPage> {
+  const fetcher = options.fetcher ?? fetchHttp;
+  const lookup = options.lookup ?? lookupAll;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_URL_TIMEOUT_MS;
+  const maxBytes = options.maxBytes ?? DEFAULT_MAX_URL_BYTES;
+  const signal = AbortSignal.timeout(timeoutMs);
+
+  try {
+    let target = new URL(url);
+    let response: WebResponse;
+    for (let redirects = 0; ; redirects++) {
+      if (!isAllowedUrl(target, options.allowedHosts)) {
+        throw new Error(`URL not allowed: ${target.href}`);
+      }
+      const address = options.allowedHosts?.length ? undefined : await resolvePublicAddress(target, lookup);
+
+      response = await fetcher(target, { signal, maxBytes, address });
+      if (response.status < 300 || response.status >= 400 || !response.location) {
+        break;
+      }
+      if (redirects === MAX_REDIRECTS) {
+        throw new Error(`Too many redirects (more than ${MAX_REDIRECTS})`);
+      }
+      target = new URL(response.location, target);
+    }
+
+    if (response.status < 200 || response.status >= 300) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    if (response.body.length > maxBytes) {
+      throw new Error(`Response exceeds ${maxBytes} bytes`);
+    }
+
+    const [mimeType = '', ...params] = (response.contentType || 'text/html')
+      .split(';')
+      .map((part) => part.trim().toLowerCase());
+    const charset = params.find((param) => param.startsWith('charset='))?.slice('charset='.length);
+
+    let page: { title: string; text: string };
+    if (mimeType === 'text/html' || mimeType === 'application/xhtml+xml') {
+      page = extractHtmlPage(response.body, charset);
+    } else if (mimeType === 'text/plain' || mimeType === 'text/markdown') {
+      page = { title: '', text: new TextDecoder(charset || 'utf-8').decode(response.body).trim() };
+    } else {
+      throw new Error(`Unsupported content type: ${mimeType}`);
+    }
+
+    if (!page.text) {
+      throw new Error('No text found');
+    }
+    return { url: target.href, ...page };
+  } catch (error) {
+    const errorMessage = signal.aborted
+      ? `Timed out after ${timeoutMs} ms`
+      : error instanceof Error
+        ? error.message
+        : 'Unknown error';
+    throw new Error(`Failed to fetch ${url}: ${errorMessage}`);
+  }
+}
+
+/**
+ * Checks whether a URL may be fetched
+ *
+ * Only http and https URLs are allowed. With `allowedHosts`, the host must
+ * be one of them or a subdomain of one; without, localhost, cloud metadata
+ * hosts and private, link-local or IPv4-mapped addresses are rejected.
+ * Hostnames are not resolved here (`fetchWebPage` checks their addresses).
+ *
+ * @param url - URL to check
+ * @param allowedHosts - Allowed hosts (default: any public host)
+ * @returns True if the URL may be fetched
+ *
+ * @example
+ * ```typescript
+ * isAllowedUrl(new URL('https://www.example.com/'), ['example.com']); // true
+ * isAllowedUrl(new URL('http://192.168.0.1/admin')); // false
+ * ```
+ */
+export function isAllowedUrl(url: URL, allowedHosts: string[] = []): boolean {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return false;
+  }
+
+  const hostname = url.hostname.toLowerCase();
+  if (allowedHosts.length > 0) {
+    return allowedHosts.some((host) => {
+      const allowed = host.trim().toLowerCase();
+      return hostname === allowed || hostname.endsWith(`.${allowed}`);
+    });
+  }
+  if (PRIVATE_HOST_PATTERNS.some((pattern) => pattern.test(hostname))) {
+    return false;
+  }
+  const address = hostname.replace(/^\[(.*)\]$/, '$1');
+  return net.isIP(address) === 0 || !isPrivateAddress(address);
+}
+
+/**
+ * Checks whether an IP address is private or IPv4-mapped
+ */
+function isPrivateAddress(address: string): boolean {
+  if (net.isIPv6(address)) {
+    return IPV4_EMBEDDING_ADDRESSES.check(address, 'ipv6') || PRIVATE_ADDRESSES.check(address, 'ipv6');
+  }
+  return PRIVATE_ADDRESSES.check(address, 'ipv4');
+}
+
+/**
+ * Resolves the host of a URL and checks that all of its addresses are public
+ *
+ * @returns The first address, for the request to connect to
+ * @throws {Error} If the host does not resolve or any address is private
+ */
+async function resolvePublicAddress(url: URL, lookup: WebLookup): Promise<dns.LookupAddress> {
+  const hostname = url.hostname.replace(/^\[(.*)\]$/, '$1');
+  const addresses = net.isIP(hostname)
+    ? [{ address: hostname, family: net.isIP(hostname) }]
+    : await lookup(hostname);
+
+  const blocked = addresses.find((entry) => isPrivateAddress(entry.address));
+  if (blocked) {
+    throw new Error(`URL not allowed: ${url.href} (resolves to ${blocked.address})`);
+  }
+  if (!addresses[0]) {
+    throw new Error(`Host not found: ${hostname}`);
+  }
+  return addresses[0];
+}
+
+/**
+ * Default `WebLookup` using the system resolver
+ */
+async function lookupAll(hostname: string): Promise<dns.LookupAddress[]> {
+  return dns.promises.lookup(hostname, { all: true, verbatim: true });
+}
+
+/**
+ * Default `WebFetcher` using Node's http and https modules
+ *
+ * @param url - URL to request
+ * @param options - Abort signal, maximum body size and address to connect to
+ * @returns Status, headers and body of the response
+ * @throws {Error} If the request fails or the body exceeds `maxBytes`
+ */
+export async function fetchHttp(url: URL, options: WebFetchOptions): Promise<WebResponse> {
+  const { address } = options;
+  const client = url.protocol === 'https:' ? https : http;
+
+  const response = await new Promise<http.IncomingMessage>((resolve, reject) => {
+    client
+      .get(
+        url,
+        {
+          signal: options.signal,
+          headers: { Accept: 'text/html,application/xhtml+xml,text/plain;q=0.9,*/*;q=0.1' },
+          // Connect to the checked address so a second DNS answer cannot differ
+          lookup: address ? (_hostname, lookupOptions, callback) =>
+            lookupOptions.all
+              ? (callback as (error: null, addresses: dns.LookupAddress[]) => void)(null, [address])
+              : callback(null, address.address, address.family)
+            : undefined,
+        },
+        resolve
+      )
+      .on('error', reject);
+  });
+
+  const contentLength = Number(response.headers['content-length']);
+  if (contentLength > options.maxBytes) {
+    response.destroy();
+    throw new Error(`Response exceeds ${options.maxBytes} bytes`);
+  }
+
+  // Read the body in chunks so that an oversized response is cut off early
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of response) {
+    size += chunk.length;
+    if (size > options.maxBytes) {
+      throw new Error(`Response exceeds ${options.maxBytes} bytes`);
+    }
+    chunks.push(Buffer.from(chunk));
+  }
+
+  return {
+    status: response.statusCode ?? 0,
+    contentType: response.headers['content-type'],
+    location: response.headers.location,
+    body: Buffer.concat(chunks),
+  };
+}
@@ -255,21 +255,173 @@ export interface WhitepaperPlan {
   レベル: string;
   構成: string;
   コメント: string;
+  /** Keywords the plan targets, when keywords were given (see keyword-cluster.ts) */
+  対象キーワード?: PlanKeywords;
+  /** Review rubric score (see plan-critic.ts) */
+  品質スコア?: PlanScore;
+  /** Source passages that back the plan (see source-passages.ts) */
+  出典?: SourceReference[];
+  /** Figures, companies and case studies not found in the sources (see claim-check.ts) */
+  未確認の主張?: UnsupportedClaim[];
+  /** Values of the column schema columns that map to no plan field, by column name */
+  追加列?: Record<string, string>;
+}
+
+/**
+ * Plan fields a sheet column can map to
+ */
+export type PlanField =
+  | 'no'
+  | 'タイトル'
+  | '目的'
+  | '内容概要'
+  | '感情的ニーズ'
+  | '機能的ニーズ'
+  | '成果的ニーズ'
+  | 'ニーズ複数'
+  | 'ターゲット'
+  | '職種部署'
+  | 'レベル'
+  | '構成'
+  | 'コメント';
+
+/**
+ * Column Definition
+ * One column of a planning sheet, as asked of the LLM and written to the sheet
+ */
+export interface ColumnDefinition {
+  /** Sheet header and key of the LLM output */
+  name: string;
+  /** What to write in the column, shown to the LLM and as the header note */
+  description: string;
+  /** Whether the LLM must fill the column */
+  required: boolean;
+  /** text: plain text, markdown: multi-line Markdown, number: a number */
+  type: 'text' | 'markdown' | 'number';
+  example?: string;
+  /**
+   * Plan field the column holds. Quality checks, duplicate detection and
+   * claim checks read mapped fields; unmapped columns go to `追加列`.
+   */
+  field?: PlanField;
+}
+
+/**
+ * Column Schema
+ * Named layout of a planning sheet (see column-schema.ts)
+ */
+export interface ColumnSchema {
+  name: string;
+  columns: ColumnDefinition[];
+}
+
+/**
+ * Unsupported Claim
+ * A figure, company name or case-study reference of a plan that does not
+ * appear in the sales or target material
+ */
+export interface UnsupportedClaim {
+  field: Exclude<PlanField, 'no' | 'ターゲット' | '職種部署' | 'レベル' | 'コメント'>;
+  /** number: figure with a unit, company: company name, case: case-study reference */
+  type: 'number' | 'company' | 'case';
+  /** The claim as written in the plan (NFKC-normalized) */
+  text: string;
+}
+
+/**
+ * Output Language
+ * Language of the prompts, the plans and the sheet (ja: Japanese, en: English, zh: Simplified Chinese)
+ */
+export type OutputLanguage = 'ja' | 'en' | 'zh';
+
+/**
+ * Checks of the plan review rubric
+ */
+export type PlanCheckId = 'target' | 'summary' | 'outcome' | 'structure' | 'keyword';
+
+/**
+ * Plan Score
+ * Result of checking a plan against the review rubric
+ */
+export interface PlanScore {
+  /** Share of passed checks, 0-100 */
+  score: number;
+  /** Failed checks with instructions for fixing them */
+  issues: Array<{ check: PlanCheckId; message: string }>;
+}
+
+/**
+ * Plan Keywords
+ * The keyword cluster assigned to one plan
+ */
+export interface PlanKeywords {
+  /** Main keyword the plan should rank for */
+  primary: string;
+  /** Related keywords of the same cluster */
+  secondary: string[];
+}
+
+/**
+ * Keyword Coverage
+ * Which input keywords are targeted by at least one generated plan
+ */
+export interface KeywordCoverage {
+  totalKeywords: number;
+  assignedKeywords: number;
+  /** Keywords no plan targets, in input order */
+  unassignedKeywords: string[];
+}
+
+/**
+ * Document File
+ * An uploaded sales or target document (PDF, DOCX, PPTX, HTML, Markdown or text)
+ */
+export interface DocumentFile {
+  content: Buffer;
+  /** MIME type reported by the client */
+  mimeType: string;
+  fileName: string;
 }
 
 /**
  * Parse Input
- * Input parameters for parsing sales and target documents with keywords
+ * Input parameters for parsing sales and target documents with keywords.
+ * PDFs are file contents or file paths; `salesFile`/`targetFile` are
+ * documents of any supported format; `salesUrl`/`targetUrl` are web pages
+ * to fetch; `keywordsCsv` is a keyword list or SEO tool export as a Buffer
+ * (UTF-8, UTF-16 or Shift_JIS) or string.
  */
 export interface ParseInput {
-  salesPdf?: string;
+  salesPdf?: Buffer | string;
+  salesFile?: DocumentFile;
   salesText?: string;
-  targetPdf?: string;
+  salesUrl?: string[];
+  targetPdf?: Buffer | string;
+  targetFile?: DocumentFile;
   targetText?: string;
-  keywordsCsv?: string;
+  targetUrl?: string[];
+  keywordsCsv?: Buffer | string;
   keywordsText?: string;
 }
 
+/**
+ * Search intent of a keyword
+ */
+export type KeywordIntent = 'informational' | 'navigational' | 'commercial' | 'transactional';
+
+/**
+ * Keyword Entry
+ * A keyword with the metrics imported from an SEO tool export
+ */
+export interface KeywordEntry {
+  keyword: string;
+  /** Monthly search volume */
+  searchVolume?: number;
+  /** Ranking difficulty as reported by the tool (usually 0-100) */
+  difficulty?: number;
+  intent?: KeywordIntent;
+}
+
 /**
  * Parsed Context
  * Structured context extracted from sales/target documents and keywords
@@ -278,8 +430,283 @@ export interface ParsedContext {
   salesText: string;
   targetText: string;
   keywords: string[];
+  /** Keywords with their imported metrics, in the same order as `keywords` */
+  keywordEntries?: KeywordEntry[];
+  /** Extraction paths used for the sales and target PDFs, when any were parsed */
+  pdfPages?: PdfPageStats;
+  /** Sources shortened to fit the prompt token budget (see context-budget.ts) */
+  summarizedSources?: SummarizedSource[];
+  /** Sales and target text split into citable passages (see source-passages.ts) */
+  passages?: SourcePassage[];
+}
+
+/**
+ * Source Passage
+ * A chunk of a source document that plans can cite
+ */
+export interface SourcePassage {
+  /** `S1`, `S2`, … for sales passages and `T1`, `T2`, … for target passages */
+  id: string;
+  source: 'sales' | 'target';
+  /** File name, URL or the text input label of the output language */
+  label: string;
+  /** 1-based PDF page or slide number, when the document has pages */
+  page?: number;
+  /** 1-based passage number within the page (or document) */
+  paragraph: number;
+  text: string;
+}
+
+/**
+ * Source Reference
+ * A passage cited by a plan, without its text
+ */
+export type SourceReference = Omit<SourcePassage, 'text'>;
+
+/**
+ * Summarized Source
+ * A sales or target text summarized to fit the prompt token budget
+ */
+export interface SummarizedSource {
+  source: 'sales' | 'target';
+  /** Estimated tokens of the extracted text */
+  originalTokens: number;
+  /** Estimated tokens of the text sent to the LLM */
+  summaryTokens: number;
+  /** Chunks summarized in the first map-reduce round */
+  chunks: number;
+  /** True if the summary was still over budget and was cut off */
+  truncated: boolean;
 }
 
+/**
+ * PDF Page Text
+ * OCR result for a single page of a PDF
+ */
+export interface PdfPageText {
+  /** 1-based page number */
+  page: number;
+  text: string;
+  /** Page-level OCR confidence (0-1) reported by Vision; 1 for text-layer pages */
+  confidence: number;
+  /** Whether the text came from the embedded text layer or from OCR */
+  source: 'text_layer' | 'ocr';
+  /** OCR pages: words dropped for low confidence */
+  lowConfidenceWords?: number;
+  /** OCR pages: true if the text was cleaned up by the LLM */
+  cleaned?: boolean;
+  /** Multimodal LLM summary, for pages detected as figures or slides */
+  diagramSummary?: string;
+}
+
+/**
+ * PDF Page Stats
+ * Number of PDF pages processed by each extraction path
+ */
+export interface PdfPageStats {
+  /** Pages processed (up to the page limit) */
+  totalPages: number;
+  /** Pages whose embedded text layer was used */
+  textLayerPages: number;
+  /** Pages sent to OCR (OCR併用ページ数) */
+  ocrPages: number;
+  /** OCR words dropped for low confidence */
+  lowConfidenceWords: number;
+  /** OCR pages cleaned up by the LLM */
+  cleanedPages: number;
+  /** Figure- or slide-heavy pages summarized by a multimodal LLM */
+  diagramPages: number;
+}
+
+/**
+ * PDF Extraction Result
+ * Page-aware OCR result for a PDF
+ */
+export interface PdfExtractionResult {
+  /** Text of all processed pages, separated by blank lines */
+  text: string;
+  pages: PdfPageText[];
+  /** Page count of the document, including pages beyond the page limit */
+  totalPages: number;
+  /** True if pages beyond the page limit were not processed */
+  truncated: boolean;
+  /** Pages whose embedded text layer was used */
+  textLayerPages: number;
+  /** Pages sent to OCR */
+  ocrPages: number;
+}
+
+/**
+ * Generation Step ID
+ * Identifies one of the numbered steps of the whitepaper generation pipeline
+ */
+export type GenerationStepId =
+  | 'parse'
+  | 'generate'
+  | 'spreadsheet'
+  | 'bind_script'
+  | 'move'
+  | 'archive'
+  | 'finalize';
+
+/**
+ * Generation Job Status
+ * Lifecycle status of an asynchronous generation job
+ */
+export type GenerationJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+/**
+ * Generation Job Step
+ * Progress of a single pipeline step within a generation job
+ */
+export interface GenerationJobStep {
+  id: GenerationStepId;
+  label: string;
+  status: 'pending' | 'running' | 'completed' | 'skipped' | 'failed';
+  startedAt?: string;
+  completedAt?: string;
+}
+
+/**
+ * Plan Similarity Report
+ * Near-duplicate check of the generated plans (see plan-similarity.ts)
+ */
+export interface PlanSimilarityReport {
+  /** Similarity at or above which plans were regenerated */
+  threshold: number;
+  /** Plans regenerated as duplicates */
+  regenerated: number;
+  /** Similarity of plan i+1 and plan j+1 (0-1, 2 decimals) */
+  matrix: number[][];
+}
+
+/**
+ * Plan Quality Report
+ * Review rubric results of the generated plans (see plan-critic.ts)
+ */
+export interface PlanQualityReport {
+  /** Score below which plans were revised */
+  threshold: number;
+  /** Plans replaced by a better-scoring revision */
+  revised: number;
+  /** Mean score of the returned plans */
+  averageScore: number;
+}
+
+/**
+ * Prompt Versions
+ * Version id of each prompt template, by template id (see prompt-templates.ts)
+ */
+export type PromptVersions = Record<string, string>;
+
+/**
+ * Prompt Usage
+ * Prompt profile and template versions that produced a result
+ */
+export interface PromptUsage {
+  /** Name of the prompt profile (`default` for the built-in templates) */
+  profile: string;
+  versions: PromptVersions;
+}
+
+/**
+ * Generation Result
+ * Final output of a successful generation job
+ */
+export interface GenerationResult {
+  spreadsheetId: string;
+  spreadsheetUrl: string;
+  planCount: number;
+  plans: Array<
+    Pick<
+      WhitepaperPlan,
+      | 'no'
+      | 'タイトル'
+      | '目的'
+      | 'ターゲット'
+      | '構成'
+      | '対象キーワード'
+      | '品質スコア'
+      | '出典'
+      | '未確認の主張'
+      | '追加列'
+    >
+  >;
+  metadata: {
+    duration: string;
+    timestamp: string;
+    /** Name of the column schema the plans were generated with */
+    columnSchema: string;
+    /** Language of the plans and the sheet */
+    language: OutputLanguage;
+    /** Prompt profile and template versions the plans were generated with */
+    prompts: PromptUsage;
+    /** Pages read from the PDF text layer vs. OCR, when PDFs were uploaded */
+    pdfPages?: PdfPageStats;
+    /** Keywords targeted by the plans, when keywords were given */
+    keywordCoverage?: KeywordCoverage;
+    /** Sources summarized to fit the prompt token budget */
+    summarizedSources?: SummarizedSource[];
+    /** Pairwise similarity of the returned plans */
+    planSimilarity?: PlanSimilarityReport;
+    /** Review rubric results of the returned plans */
+    quality?: PlanQualityReport;
+  };
+}
+
+/**
+ * Generation Job
+ * Asynchronous whitepaper generation job tracked by a JobStore
+ */
+export interface GenerationJob {
+  id: string;
+  ownerId: string;
+  status: GenerationJobStatus;
+  steps: GenerationJobStep[];
+  currentStep?: GenerationStepId;
+  result?: GenerationResult;
+  error?: {
+    message: string;
+    step?: GenerationStepId;
+  };
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Generation Event
+ * Typed progress event emitted by the generation pipeline and streamed over SSE
+ */
+export type GenerationEvent =
+  | { type: 'step'; step: GenerationStepId; status: GenerationJobStep['status'] }
+  | { type: 'uploaded'; field: string; fileName: string; size: number }
+  | { type: 'ocr_page_done'; source: 'sales' | 'target'; page: number; totalPages: number }
+  | { type: 'url_fetched'; source: 'sales' | 'target'; url: string; title: string }
+  | {
+      type: 'context_summarized';
+      source: 'sales' | 'target';
+      originalTokens: number;
+      summaryTokens: number;
+    }
+  | { type: 'llm_started'; model: string; planCount: number }
+  | { type: 'llm_tokens'; promptTokens: number; completionTokens: number; totalTokens: number }
+  | { type: 'duplicates_replaced'; plans: number[] }
+  | { type: 'plans_revised'; plans: number[] }
+  | { type: 'sheet_created'; spreadsheetId: string; spreadsheetUrl: string }
+  | { type: 'script_bound'; scriptId: string }
+  | { type: 'moved'; folderId: string }
+  | { type: 'done'; result: GenerationResult }
+  | { type: 'error'; message: string; step?: GenerationStepId };
+
+/**
+ * Generation Event Record
+ * A generation event with its per-job sequence number and timestamp
+ */
+export type GenerationEventRecord = GenerationEvent & {
+  seq: number;
+  timestamp: string;
+};
+
 /**
  * Session Data
  * Extended session data for OAuth2 authentication
@@ -0,0 +1,42 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { numberFromEnv } from './config';
+
+describe('numberFromEnv', () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    vi.restoreAllMocks();
+  });
+
+  it('should return undefined for unset or empty variables', () => {
+    delete process.env.PLAN_QUALITY_THRESHOLD;
+    expect(numberFromEnv('PLAN_QUALITY_THRESHOLD')).toBeUndefined();
+
+    process.env.PLAN_QUALITY_THRESHOLD = ' ';
+    expect(numberFromEnv('PLAN_QUALITY_THRESHOLD')).toBeUndefined();
+  });
+
+  it('should parse numbers and integers', () => {
+    process.env.PLAN_QUALITY_THRESHOLD = '0.75';
+    process.env.LLM_MAX_ATTEMPTS = ' 3 ';
+
+    expect(numberFromEnv('PLAN_QUALITY_THRESHOLD')).toBe(0.75);
+    expect(numberFromEnv('LLM_MAX_ATTEMPTS', { integer: true })).toBe(3);
+  });
+
+  it('should ignore invalid values with a warning so that the default applies', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    process.env.PLAN_QUALITY_THRESHOLD = 'high';
+    process.env.CONTEXT_MAX_SOURCE_TOKENS = '12k';
+    process.env.LLM_MAX_ATTEMPTS = '2.5';
+    process.env.OPENAI_TEMPERATURE = 'Infinity';
+
+    expect(numberFromEnv('PLAN_QUALITY_THRESHOLD') ?? 0.6).toBe(0.6);
+    expect(numberFromEnv('CONTEXT_MAX_SOURCE_TOKENS', { integer: true })).toBeUndefined();
+    expect(numberFromEnv('LLM_MAX_ATTEMPTS', { integer: true })).toBeUndefined();
+    expect(numberFromEnv('OPENAI_TEMPERATURE')).toBeUndefined();
+    expect(warn).toHaveBeenCalledTimes(4);
+    expect(warn.mock.calls[0]).toContain('Ignoring invalid PLAN_QUALITY_THRESHOLD: high');
+  });
+});
@@ -1,5 +1,8 @@
+import { Logger } from './logger.js';
 import type { AgentConfig } from '../types/index.js';
 
+const logger = new Logger('Config');
+
 export function loadConfig(): AgentConfig {
   return {
     github: {
@@ -37,3 +40,34 @@ export function validateConfig(config: AgentConfig): boolean {
   }
   return true;
 }
+
+/**
+ * Reads a numeric setting from an environment variable
+ *
+ * Unset or empty variables return undefined so that the caller's default
+ * applies. Values that are not finite numbers (or not integers, with
+ * `integer`) are ignored with a warning instead of reaching the services as
+ * `NaN`.
+ *
+ * @param name - Environment variable name
+ * @param options - `integer` to accept only whole numbers
+ * @returns The number, or undefined if unset or invalid
+ *
+ * @example
+ * ```typescript
+ * const threshold = numberFromEnv('PLAN_QUALITY_THRESHOLD') ?? DEFAULT_QUALITY_THRESHOLD;
+ * ```
+ */
+export function numberFromEnv(name: string, options?: { integer?: boolean }): number | undefined {
+  const raw = process.env[name]?.trim();
+  if (!raw) {
+    return undefined;
+  }
+
+  const value = Number(raw);
+  if (!Number.isFinite(value) || (options?.integer && !Number.isInteger(value))) {
+    logger.warn(`Ignoring invalid ${name}: ${raw}`);
+    return undefined;
+  }
+  return value;
+}